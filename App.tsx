@@ -15,10 +15,12 @@ import { LoadingSpinner } from './components/LoadingSpinner';
 import { ErrorBoundary } from './components/ErrorBoundary';
 import { getUserSession, setUserSession, clearUserSession, StorageError } from './lib/storageUtils';
 import { runMigrations } from './lib/migration';
+import { getShareToken } from './lib/shareLinks';
 
 // Code-split heavy components
 const ChatInterface = lazy(() => import('./components/ChatInterface').then(m => ({ default: m.ChatInterface })));
 const Auth = lazy(() => import('./components/Auth').then(m => ({ default: m.Auth })));
+const SharedConversationView = lazy(() => import('./components/SharedConversationView').then(m => ({ default: m.SharedConversationView })));
 
 
 type ViewState = 'landing' | 'chat' | 'auth';
@@ -64,6 +66,8 @@ export default function App() {
   const [isVerifyingSession, setIsVerifyingSession] = useState(true);
   const [intendedView, setIntendedView] = useState<ViewState | null>(null);
   const [showPlanUpgrade, setShowPlanUpgrade] = useState(false);
+  // Public share links (/?share=<token>) open a read-only page instead of the app
+  const [shareToken] = useState(() => getShareToken());
 
   /**
    * Verify session with backend and get fresh user data
@@ -211,6 +215,16 @@ export default function App() {
     }
   };
 
+  if (shareToken) {
+    return (
+      <Suspense fallback={<LoadingSpinner />}>
+        <ErrorBoundary>
+          <SharedConversationView token={shareToken} />
+        </ErrorBoundary>
+      </Suspense>
+    );
+  }
+
   // Show loading spinner while verifying session
   if (isVerifyingSession) {
     return (
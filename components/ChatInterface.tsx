@@ -1,18 +1,43 @@
-import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { Send, Menu, Plus, MessageSquare, Settings, X, Sparkles, ChevronLeft, Trash2, Paperclip, Loader2, FileText } from 'lucide-react';
+import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import { Send, Square, Menu, Plus, MessageSquare, Settings, X, Sparkles, ChevronLeft, Trash2, Paperclip, Loader2, FileText, Maximize2 } from 'lucide-react';
 import { ChatMessage } from './ChatMessage';
-import { User, Message, Conversation, Attachment } from '../types';
+import { User, Message, Conversation, ConversationPersona, Attachment, ModelParams, Persona, ContextStrategy, MemoryNote, ShareLinkInput } from '../types';
 import { motion, AnimatePresence } from 'framer-motion';
 import { streamChatCompletion } from '../lib/apiClient';
-import { convertToOpenRouterHistory } from '../lib/historyUtils';
+import { buildSystemPrompt, convertToOpenRouterHistory } from '../lib/historyUtils';
+import { getBranchPath, getBranchInfo, getLatestLeafId, getParentId } from '../lib/conversationTree';
+import { fitModelParams, hasModelParams } from '../lib/modelParams';
 import DOMPurify from 'dompurify';
 import { useFileAttachments } from '../hooks/useFileAttachments';
 import { useAutoScroll } from '../hooks/useAutoScroll';
 import { useConversations } from '../hooks/useConversations';
-import { MESSAGE_LIMITS, UI } from '../config/constants';
+import { useChatCostEstimate } from '../hooks/useChatCostEstimate';
+import { useModelCatalogue } from '../hooks/useModelCatalogue';
+import { usePersonas } from '../hooks/usePersonas';
+import { useShareLinks } from '../hooks/useShareLinks';
+import { useConversationSearch } from '../hooks/useConversationSearch';
+import { FILE_LIMITS, MESSAGE_LIMITS, SEARCH, UI } from '../config/constants';
 import { TokenBalance } from './TokenBalance';
 import { ModelSelector } from './ModelSelector';
-import { ALL_SELECTABLE_MODELS } from '../config/models';
+import { ModelParamsPanel } from './ModelParamsPanel';
+import { MemoryPanel } from './MemoryPanel';
+import { FilesPanel } from './FilesPanel';
+import { ConversationSearch } from './ConversationSearch';
+import { ConversationList } from './ConversationList';
+import { SearchResult } from '../lib/conversationSearch';
+import { ExportMenu } from './ExportMenu';
+import { SharePanel } from './SharePanel';
+import { Toast } from './Toast';
+import {
+  ConversationImportError,
+  ExportFormat,
+  downloadFile,
+  exportConversations,
+  parseConversationExport,
+  storeImportedAttachments
+} from '../lib/conversationExport';
+import { PersonaPanel } from './PersonaPanel';
+import { PersonaIcon } from './PersonaIcon';
 import { MediaCanvas } from './canvas/MediaCanvas';
 
 interface ChatInterfaceProps {
@@ -37,33 +62,60 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onBack, currentUse
     setConversations,
     setCurrentId,
     deleteConversation,
+    organizeConversation,
+    importConversations,
     saveConversations
   } = useConversations(currentUser);
 
   const [selectedModel, setSelectedModel] = useState<string | null>(null);
+  const [modelParams, setModelParams] = useState<ModelParams>({});
+  // Unset means the server default
+  const [contextStrategy, setContextStrategy] = useState<ContextStrategy | undefined>(undefined);
+  // Persona picked for the next conversation (an existing conversation keeps its own copy)
+  const [draftPersona, setDraftPersona] = useState<ConversationPersona | null>(null);
   const [input, setInput] = useState('');
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [isTyping, setIsTyping] = useState(false);
   const [fallbackNotification, setFallbackNotification] = useState<{ primaryModel: string; actualModel: string; message: string } | null>(null);
   const [showMediaCanvas, setShowMediaCanvas] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [noticeMessage, setNoticeMessage] = useState<string | null>(null);
+  // Message opened from a search result (scrolled to and briefly highlighted)
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+
+  // Server-chosen default; the literal only covers the moment before the catalogue loads
+  const { catalogue } = useModelCatalogue();
+  const defaultModel = catalogue?.defaults.chat || 'mistralai/devstral-2512:free';
+  const activeModel = catalogue?.chat.find(m => m.id === (selectedModel || defaultModel));
+  const activeModelLimits = activeModel?.limits;
 
   const {
     attachments,
+    uploads,
     isUploading,
+    uploadError,
     fileInputRef,
     handleFileSelect,
+    addFiles,
     removeAttachment,
-    clearAttachments
-  } = useFileAttachments();
+    clearAttachments,
+    hasOriginal,
+    restoreOriginal,
+    dismissUploadError
+  } = useFileAttachments(currentUser, activeModel?.maxImageDimension);
+  // Files dragged over the composer
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
 
   const { scrollContainerRef, messagesEndRef } = useAutoScroll({
     dependencies: [conversations, currentId, isTyping],
-    enabled: true
+    // Don't pull the view away from a message opened from search
+    enabled: !highlightedMessageId
   });
 
   const inputRef = useRef<HTMLInputElement>(null);
   const isProcessingRef = useRef<boolean>(false);
+  // Controller of the reply currently streaming (Stop aborts it)
+  const streamAbortRef = useRef<AbortController | null>(null);
   const isMountedRef = useRef<boolean>(true);
 
   // DEBUG: Persistent logging helper (survives page reload)
@@ -103,6 +155,8 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onBack, currentUse
       } else {
         setSelectedModel(null);
       }
+      setModelParams(conv?.modelParams ?? {});
+      setContextStrategy(conv?.contextStrategy);
     }
   }, [currentId, conversations]);
 
@@ -111,7 +165,61 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onBack, currentUse
     [conversations, currentId]
   );
 
-  const defaultModel = ALL_SELECTABLE_MODELS[0]?.id || 'mistralai/devstral-2512:free';
+  // The branch being shown; other edits/regenerations stay in `messages` until navigated to
+  const activePath = useMemo(
+    () => currentConversation ? getBranchPath(currentConversation.messages, currentConversation.activeLeafId) : [],
+    [currentConversation]
+  );
+  const branchInfo = useMemo(
+    () => currentConversation ? getBranchInfo(currentConversation.messages, activePath) : new Map(),
+    [currentConversation, activePath]
+  );
+  const activeLeafId = activePath.length > 0 ? activePath[activePath.length - 1].id : null;
+
+  // Always kept in the model's context (see buildSystemPrompt)
+  const memoryNotes = useMemo(() => currentConversation?.memoryNotes ?? [], [currentConversation?.memoryNotes]);
+  const pinnedMessages = useMemo(() => activePath.filter(msg => msg.pinned), [activePath]);
+
+  // Settings as they will be sent: saved values fitted to the current model's limits
+  const effectiveParams = useMemo(
+    () => fitModelParams(modelParams, activeModelLimits),
+    [modelParams, activeModelLimits]
+  );
+
+  const search = useConversationSearch({ conversations, defaultModel });
+
+  const { personas, savePersona, removePersona, setPersonaSharing } = usePersonas(currentUser);
+  const { shareLinks, createShare, revokeShare } = useShareLinks(currentUser);
+  const conversationShareLinks = useMemo(
+    () => shareLinks.filter(link => link.conversationId === currentId),
+    [shareLinks, currentId]
+  );
+  const activePersona = currentConversation ? currentConversation.persona ?? null : draftPersona;
+  const activeSystemPrompt = buildSystemPrompt(activePersona?.systemPrompt ?? '', memoryNotes);
+
+  // History as it would be sent if the draft were submitted now (drives the live cost estimate)
+  const hasDraft = input.trim().length > 0 || attachments.length > 0;
+  const draftHistory = useMemo(() => {
+    if (!hasDraft) return [];
+    const draft: Message = {
+      id: 'draft',
+      role: 'user',
+      content: input.trim(),
+      timestamp: 0,
+      attachments,
+      parentId: activeLeafId
+    };
+    return convertToOpenRouterHistory([...(currentConversation?.messages ?? []), draft], draft.id);
+  }, [hasDraft, input, attachments, currentConversation?.messages, activeLeafId]);
+
+  const { estimate: costEstimate } = useChatCostEstimate({
+    model: selectedModel || defaultModel,
+    messages: draftHistory,
+    systemPrompt: activeSystemPrompt,
+    params: effectiveParams,
+    contextStrategy,
+    enabled: !!currentUser && hasDraft && !isTyping
+  });
   const canChangeModel = !currentConversation || currentConversation.messages.length === 0;
   const isModelLocked = !canChangeModel;
   const modelLockReason = isModelLocked
@@ -121,22 +229,108 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onBack, currentUse
   const handleNewChat = () => {
     setCurrentId(null);
     setSelectedModel(null);
+    setModelParams({});
+    setContextStrategy(undefined);
+    setDraftPersona(null);
     clearAttachments();
     setIsSidebarOpen(false);
     setTimeout(() => inputRef.current?.focus(), 100);
   };
 
+  // Settings apply to the open conversation (or to the next one created)
+  const handleModelParamsChange = (params: ModelParams) => {
+    setModelParams(params);
+    if (currentId) {
+      setConversations(prev => prev.map(conv =>
+        conv.id === currentId ? { ...conv, modelParams: params } : conv
+      ));
+    }
+  };
+
+  const handleContextStrategyChange = (strategy: ContextStrategy) => {
+    setContextStrategy(strategy);
+    if (currentId) {
+      setConversations(prev => prev.map(conv =>
+        conv.id === currentId ? { ...conv, contextStrategy: strategy } : conv
+      ));
+    }
+  };
+
+  // Picking a persona for a new conversation also applies its default model and settings
+  const handleSelectPersona = (persona: Persona | null) => {
+    if (currentConversation) return;
+
+    setDraftPersona(persona && {
+      id: persona.id,
+      name: persona.name,
+      icon: persona.icon,
+      systemPrompt: persona.systemPrompt
+    });
+    if (persona?.defaultModel && catalogue?.chat.some(m => m.id === persona.defaultModel)) {
+      setSelectedModel(persona.defaultModel);
+    }
+    if (persona?.defaultParams) {
+      setModelParams(persona.defaultParams);
+    }
+  };
+
   const handleDeleteConversation = (e: React.MouseEvent, id: string) => {
     e.stopPropagation();
     deleteConversation(id);
   };
 
-  const createUserMessage = (content: string, attachmentsList: Attachment[]): Message => ({
+  const handleExport = async (list: readonly Conversation[], format: ExportFormat) => {
+    try {
+      const { content, filename, mimeType } = await exportConversations(list, format);
+      downloadFile(filename, content, mimeType);
+    } catch (error) {
+      console.error('Error exporting conversations:', error);
+      setErrorMessage('Não foi possível exportar. Tente novamente.');
+      setTimeout(() => setErrorMessage(null), 5000);
+    }
+  };
+
+  // Shares the branch being shown, exactly as it is now
+  const handleCreateShare = (input: ShareLinkInput) => {
+    if (!currentConversation) return Promise.reject(new Error('Nenhuma conversa aberta'));
+    return createShare({
+      ...input,
+      conversationId: currentConversation.id,
+      title: currentConversation.title,
+      modelId: currentConversation.modelId,
+      personaName: currentConversation.persona?.name,
+      messages: activePath
+    });
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const { conversations: parsed, skipped } = parseConversationExport(await file.text());
+      const imported = await storeImportedAttachments(parsed);
+      const { added, updated, unchanged } = importConversations(imported);
+      const parts = [
+        `${added} nova(s)`,
+        updated > 0 && `${updated} atualizada(s)`,
+        unchanged > 0 && `${unchanged} já atualizada(s)`,
+        skipped > 0 && `${skipped} inválida(s) ignorada(s)`
+      ].filter(Boolean);
+      setNoticeMessage(`Importação concluída: ${parts.join(', ')}.`);
+      setTimeout(() => setNoticeMessage(null), 5000);
+    } catch (error) {
+      console.error('Error importing conversations:', error);
+      setErrorMessage(error instanceof ConversationImportError ? error.message : 'Não foi possível ler o arquivo.');
+      setTimeout(() => setErrorMessage(null), 5000);
+    }
+  };
+
+  // Stored attachments keep only their file id: the base64 was just for the composer's previews
+  const createUserMessage = (content: string, attachmentsList: readonly Attachment[], parentId: string | null): Message => ({
     id: Date.now().toString(),
     role: 'user',
     content,
     timestamp: Date.now(),
-    attachments: [...attachmentsList]
+    attachments: attachmentsList.map(att => att.fileId ? { ...att, data: '' } : att),
+    parentId
   });
 
   const createAssistantMessage = (
@@ -150,12 +344,19 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onBack, currentUse
     ...(media && { media })
   });
 
+  /**
+   * Stream an assistant reply to `parentId` (a user message) as a new branch leaf
+   * @param messages - the conversation's message store, including the parent
+   */
   const handleTextChatStream = async (
     conversationId: string,
-    previousMessages: Message[],
+    messages: readonly Message[],
+    parentId: string,
     isNewConversation: boolean = false
   ) => {
-    const history = convertToOpenRouterHistory(previousMessages);
+    const notes = conversations.find(c => c.id === conversationId)?.memoryNotes;
+    const history = convertToOpenRouterHistory(messages, parentId);
+    const systemPrompt = buildSystemPrompt(activePersona?.systemPrompt ?? '', notes);
     let fullResponse = '';
     const tempAiMsgId = (Date.now() + 1).toString();
 
@@ -168,7 +369,8 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onBack, currentUse
           if (conv.id === conversationId) {
             return {
               ...conv,
-              messages: [...conv.messages, { ...placeholderMsg, id: tempAiMsgId }],
+              messages: [...conv.messages, { ...placeholderMsg, id: tempAiMsgId, parentId }],
+              activeLeafId: tempAiMsgId,
               lastModified: Date.now()
             };
           }
@@ -179,21 +381,24 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onBack, currentUse
     });
 
     const modelToUse = selectedModel || defaultModel;
+    const abortController = new AbortController();
+    streamAbortRef.current = abortController;
 
     await streamChatCompletion({
       model: modelToUse,
-      systemPrompt: '',
+      systemPrompt,
       messages: history,
+      params: fitModelParams(modelParams, catalogue?.chat.find(m => m.id === modelToUse)?.limits),
+      contextStrategy,
+      signal: abortController.signal,
       onChunk: (text: string) => {
         if (!isMountedRef.current) return;
         fullResponse += text;
         setConversations(prev => prev.map(conv => {
           if (conv.id === conversationId) {
-            const msgs = [...conv.messages];
-            const lastMsg = msgs[msgs.length - 1];
-            if (lastMsg.id === tempAiMsgId) {
-              msgs[msgs.length - 1] = { ...lastMsg, content: fullResponse };
-            }
+            const msgs = conv.messages.map(msg =>
+              msg.id === tempAiMsgId ? { ...msg, content: fullResponse } : msg
+            );
             return { ...conv, messages: msgs };
           }
           return conv;
@@ -219,6 +424,52 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onBack, currentUse
           }
         }, 100);
       },
+      onAbort: () => {
+        debugLog('Stream STOPPED by user');
+        if (!isMountedRef.current) return;
+
+        // Keep what was produced (and billed), flagged as incomplete
+        setConversations(prev => prev.map(conv => {
+          if (conv.id === conversationId) {
+            const msgs = conv.messages.map(msg =>
+              msg.id === tempAiMsgId ? { ...msg, interrupted: true } : msg
+            );
+            return { ...conv, messages: msgs };
+          }
+          return conv;
+        }));
+        setIsTyping(false);
+      },
+      onContextTrimmed: (report) => {
+        if (!isMountedRef.current) return;
+        debugLog(`Context trimmed: ${report.droppedMessages} messages (${report.strategy})`);
+        const contextTrim = { droppedMessages: report.droppedMessages, summarized: report.summarized };
+        setConversations(prev => prev.map(conv => {
+          if (conv.id === conversationId) {
+            const msgs = conv.messages.map(msg =>
+              msg.id === tempAiMsgId ? { ...msg, contextTrim } : msg
+            );
+            return { ...conv, messages: msgs };
+          }
+          return conv;
+        }));
+      },
+      onDocuments: (documents) => {
+        if (!isMountedRef.current) return;
+        // Page/line counts go on the attachments of the message being answered
+        setConversations(prev => prev.map(conv => {
+          if (conv.id !== conversationId) return conv;
+          const msgs = conv.messages.map(msg => {
+            if (msg.id !== parentId || !msg.attachments) return msg;
+            const attachments = msg.attachments.map(att => {
+              const summary = documents.find(doc => doc.name === att.name);
+              return summary ? { ...att, pages: summary.pages, lines: summary.lines } : att;
+            });
+            return { ...msg, attachments };
+          });
+          return { ...conv, messages: msgs };
+        }));
+      },
       onFallback: (primaryModel: string, actualModel: string, message: string) => {
         debugLog(`Fallback: ${primaryModel} -> ${actualModel}`);
         setFallbackNotification({ primaryModel, actualModel, message });
@@ -237,11 +488,9 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onBack, currentUse
 
         setConversations(prev => prev.map(conv => {
           if (conv.id === conversationId) {
-            const msgs = [...conv.messages];
-            const lastMsg = msgs[msgs.length - 1];
-            if (lastMsg.role === 'assistant') {
-              msgs[msgs.length - 1] = { ...lastMsg, content: errorContent };
-            }
+            const msgs = conv.messages.map(msg =>
+              msg.id === tempAiMsgId ? { ...msg, content: errorContent } : msg
+            );
             return { ...conv, messages: msgs };
           }
           return conv;
@@ -251,6 +500,45 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onBack, currentUse
         debugLog('Set isTyping to false after error');
       }
     });
+
+    if (streamAbortRef.current === abortController) {
+      streamAbortRef.current = null;
+    }
+  };
+
+  const handleStop = () => {
+    streamAbortRef.current?.abort();
+  };
+
+  // Only drags that carry files light up the drop zone (not selected text)
+  const hasDraggedFiles = (e: React.DragEvent) => Array.from(e.dataTransfer.types).includes('Files');
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!hasDraggedFiles(e)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDraggingFiles(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
+    // Moving between children of the drop zone also fires dragleave
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setIsDraggingFiles(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!hasDraggedFiles(e)) return;
+    e.preventDefault();
+    setIsDraggingFiles(false);
+    addFiles(e.dataTransfer.files);
+  };
+
+  // Pasted files (e.g. screenshots) become attachments; pasted text is left to the input
+  const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+    if (e.clipboardData.files.length === 0) return;
+    e.preventDefault();
+    addFiles(e.clipboardData.files);
   };
 
   const handleSend = async (e?: React.MouseEvent | React.KeyboardEvent) => {
@@ -261,7 +549,8 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onBack, currentUse
     }
 
     if (!input.trim() && attachments.length === 0) return;
-    if (isProcessingRef.current) return;
+    // Files still being read would be left out of the message
+    if (isProcessingRef.current || isUploading) return;
 
     const currentConv = currentConversation;
     if (currentConv && currentConv.messages.length >= MESSAGE_LIMITS.MAX_MESSAGES_PER_CONVERSATION) {
@@ -274,7 +563,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onBack, currentUse
 
     try {
       const sanitizedInput = sanitizeInput(input.trim());
-      const userMsg = createUserMessage(sanitizedInput, attachments);
+      const userMsg = createUserMessage(sanitizedInput, attachments, activeLeafId);
 
       let conversationId = currentId;
       let previousMessages: Message[];
@@ -290,8 +579,12 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onBack, currentUse
             ? sanitizedInput.substring(0, UI.TITLE_MAX_LENGTH) + '...'
             : (attachments.length > 0 ? "Arquivo Anexado" : "Nova Conversa"),
           messages: [userMsg],
+          activeLeafId: userMsg.id,
           lastModified: now,
           modelId: selectedModel || undefined,
+          ...(hasModelParams(modelParams) && { modelParams }),
+          ...(draftPersona && { persona: draftPersona }),
+          ...(contextStrategy && { contextStrategy }),
           createdAt: now,
           updatedAt: now
         };
@@ -308,6 +601,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onBack, currentUse
             return {
               ...conv,
               messages: [...conv.messages, userMsg],
+              activeLeafId: userMsg.id,
               lastModified: Date.now(),
               updatedAt: Date.now(),
               modelId: conv.modelId || selectedModel || undefined
@@ -320,7 +614,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onBack, currentUse
       setInput('');
       clearAttachments();
       setIsTyping(true);
-      await handleTextChatStream(conversationId, previousMessages, isNewConversation);
+      await handleTextChatStream(conversationId, previousMessages, userMsg.id, isNewConversation);
 
     } catch (error) {
       console.error("Error in handleSend:", error);
@@ -330,6 +624,158 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onBack, currentUse
     }
   };
 
+  /**
+   * Edit-and-resubmit: the edited text becomes a sibling of the original user message
+   * (same parent), so the original exchange stays reachable through branch navigation
+   */
+  const handleEditMessage = async (messageId: string, content: string) => {
+    const conv = currentConversation;
+    const original = conv?.messages.find(m => m.id === messageId);
+    const sanitized = sanitizeInput(content.trim());
+    if (!conv || !original || original.role !== 'user') return;
+    if (!sanitized && !original.attachments?.length) return;
+    if (isProcessingRef.current) return;
+
+    if (conv.messages.length >= MESSAGE_LIMITS.MAX_MESSAGES_PER_CONVERSATION) {
+      setErrorMessage(`Limite de ${MESSAGE_LIMITS.MAX_MESSAGES_PER_CONVERSATION} mensagens atingido.`);
+      setTimeout(() => setErrorMessage(null), 5000);
+      return;
+    }
+
+    isProcessingRef.current = true;
+
+    try {
+      const editedMsg = createUserMessage(sanitized, original.attachments ?? [], getParentId(conv.messages, messageId));
+      const messages = [...conv.messages, editedMsg];
+
+      setConversations(prev => prev.map(c => c.id === conv.id
+        ? { ...c, messages: [...c.messages, editedMsg], activeLeafId: editedMsg.id, lastModified: Date.now() }
+        : c
+      ));
+
+      setIsTyping(true);
+      await handleTextChatStream(conv.id, messages, editedMsg.id);
+    } catch (error) {
+      console.error("Error in handleEditMessage:", error);
+      setIsTyping(false);
+    } finally {
+      isProcessingRef.current = false;
+    }
+  };
+
+  /**
+   * Regenerate: stream a new reply to the same user message as a sibling of `messageId`
+   */
+  const handleRegenerate = async (messageId: string) => {
+    const conv = currentConversation;
+    const original = conv?.messages.find(m => m.id === messageId);
+    if (!conv || !original || original.role !== 'assistant') return;
+
+    const parentId = getParentId(conv.messages, messageId);
+    if (!parentId || isProcessingRef.current) return;
+
+    if (conv.messages.length >= MESSAGE_LIMITS.MAX_MESSAGES_PER_CONVERSATION) {
+      setErrorMessage(`Limite de ${MESSAGE_LIMITS.MAX_MESSAGES_PER_CONVERSATION} mensagens atingido.`);
+      setTimeout(() => setErrorMessage(null), 5000);
+      return;
+    }
+
+    isProcessingRef.current = true;
+
+    try {
+      setIsTyping(true);
+      await handleTextChatStream(conv.id, conv.messages, parentId);
+    } catch (error) {
+      console.error("Error in handleRegenerate:", error);
+      setIsTyping(false);
+    } finally {
+      isProcessingRef.current = false;
+    }
+  };
+
+  /**
+   * Switch to the previous/next sibling of a message, showing that branch's latest continuation
+   */
+  const handleSelectBranch = (messageId: string, direction: -1 | 1) => {
+    const conv = currentConversation;
+    const info = branchInfo.get(messageId);
+    if (!conv || !info || isProcessingRef.current) return;
+
+    const targetId = info.siblingIds[info.index + direction];
+    if (!targetId) return;
+
+    const leafId = getLatestLeafId(conv.messages, targetId);
+    setConversations(prev => prev.map(c => c.id === conv.id ? { ...c, activeLeafId: leafId } : c));
+  };
+
+  /**
+   * Open a search hit: show its conversation on the branch containing the message, then
+   * scroll to and highlight it
+   */
+  const handleOpenSearchResult = (result: SearchResult) => {
+    const conv = conversations.find(c => c.id === result.conversationId);
+    if (!conv) return;
+
+    const { messageId } = result;
+    if (messageId && !getBranchPath(conv.messages, conv.activeLeafId).some(msg => msg.id === messageId)) {
+      const leafId = getLatestLeafId(conv.messages, messageId);
+      setConversations(prev => prev.map(c => c.id === conv.id ? { ...c, activeLeafId: leafId } : c));
+    }
+
+    setCurrentId(conv.id);
+    setHighlightedMessageId(messageId);
+    setIsSidebarOpen(false);
+  };
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+
+    document.getElementById(`message-${highlightedMessageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const timeoutId = setTimeout(() => setHighlightedMessageId(null), SEARCH.HIGHLIGHT_MS);
+    return () => clearTimeout(timeoutId);
+  }, [highlightedMessageId, currentId]);
+
+  const handleTogglePin = (messageId: string) => {
+    if (!currentId) return;
+    setConversations(prev => prev.map(conv => conv.id === currentId
+      ? { ...conv, messages: conv.messages.map(msg => msg.id === messageId ? { ...msg, pinned: !msg.pinned } : msg) }
+      : conv
+    ));
+  };
+
+  const handleAddMemoryNote = (text: string) => {
+    if (!currentId) return;
+    const note: MemoryNote = { id: Date.now().toString(), text, createdAt: Date.now() };
+    setConversations(prev => prev.map(conv =>
+      conv.id === currentId ? { ...conv, memoryNotes: [...(conv.memoryNotes ?? []), note] } : conv
+    ));
+  };
+
+  const handleRemoveMemoryNote = (noteId: string) => {
+    if (!currentId) return;
+    setConversations(prev => prev.map(conv =>
+      conv.id === currentId ? { ...conv, memoryNotes: (conv.memoryNotes ?? []).filter(note => note.id !== noteId) } : conv
+    ));
+  };
+
+  // ChatMessage is memoised and ignores callback identity, so it gets stable wrappers
+  // that always call the latest handlers (which close over the current conversation)
+  const messageActionsRef = useRef({ handleEditMessage, handleRegenerate, handleSelectBranch, handleTogglePin });
+  messageActionsRef.current = { handleEditMessage, handleRegenerate, handleSelectBranch, handleTogglePin };
+
+  const onEditMessage = useCallback((messageId: string, content: string) => {
+    messageActionsRef.current.handleEditMessage(messageId, content);
+  }, []);
+  const onRegenerateMessage = useCallback((messageId: string) => {
+    messageActionsRef.current.handleRegenerate(messageId);
+  }, []);
+  const onSelectBranch = useCallback((messageId: string, direction: -1 | 1) => {
+    messageActionsRef.current.handleSelectBranch(messageId, direction);
+  }, []);
+  const onTogglePin = useCallback((messageId: string) => {
+    messageActionsRef.current.handleTogglePin(messageId);
+  }, []);
+
   if (showMediaCanvas) {
     return <MediaCanvas currentUser={currentUser} onBack={() => setShowMediaCanvas(false)} />;
   }
@@ -353,6 +799,22 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onBack, currentUse
         )}
       </AnimatePresence>
 
+      {/* Notice (e.g. import results) */}
+      <AnimatePresence>
+        {noticeMessage && !errorMessage && (
+          <motion.div
+            initial={{ opacity: 0, y: -20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -20 }}
+            className="absolute top-20 left-1/2 transform -translate-x-1/2 z-50 max-w-lg"
+          >
+            <div role="status" className="bg-white border border-gray-200 rounded-sm p-4 shadow-lg text-text-primary">
+              {noticeMessage}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* Error Notification */}
       <AnimatePresence>
         {errorMessage && (
@@ -369,6 +831,14 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onBack, currentUse
         )}
       </AnimatePresence>
 
+      {/* Attachment validation and read errors */}
+      <Toast
+        title="Anexos"
+        message={uploadError ?? ''}
+        isVisible={!!uploadError}
+        onClose={dismissUploadError}
+      />
+
       {/* Sidebar */}
       <div className={`fixed inset-y-0 left-0 z-30 w-72 bg-white border-r border-gray-200 transform transition-transform duration-300 ease-in-out ${isSidebarOpen ? 'translate-x-0' : '-translate-x-full'} md:relative md:translate-x-0 flex flex-col`}>
         <div className="p-4 border-b border-gray-200 flex justify-between items-center bg-gray-50">
@@ -387,6 +857,31 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onBack, currentUse
           </div>
         )}
 
+        <div className="p-3 border-b border-gray-200 bg-white">
+          <ConversationSearch
+            query={search.query}
+            onQueryChange={search.setQuery}
+            filters={search.filters}
+            onFiltersChange={search.setFilters}
+            results={search.results}
+            models={catalogue?.chat ?? []}
+            onSelect={handleOpenSearchResult}
+            onClear={search.clear}
+          />
+          {!search.isActive && (
+            <div className="mt-3 max-h-72 overflow-y-auto scrollbar-thin">
+              <ConversationList
+                conversations={conversations}
+                currentId={currentId}
+                onSelect={(id) => { setCurrentId(id); setIsSidebarOpen(false); }}
+                onOrganize={organizeConversation}
+                onExportAll={(format) => void handleExport(conversations, format)}
+                onImport={(file) => void handleImport(file)}
+              />
+            </div>
+          )}
+        </div>
+
         <div className="flex-1 flex flex-col overflow-hidden p-3 bg-white">
           <h3 className="font-mono text-[10px] text-text-secondary uppercase tracking-widest mb-2 px-1">
             Modelo
@@ -400,6 +895,51 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onBack, currentUse
           />
         </div>
 
+        {currentUser && (
+          <div className="p-3 border-t border-gray-200 bg-white">
+            <PersonaPanel
+              personas={personas}
+              activePersona={activePersona}
+              locked={!!currentConversation}
+              currentModel={selectedModel || defaultModel}
+              currentParams={modelParams}
+              onSelect={handleSelectPersona}
+              onSave={savePersona}
+              onRemove={removePersona}
+              onShare={setPersonaSharing}
+            />
+          </div>
+        )}
+
+        {currentUser && (
+          <div className="p-3 border-t border-gray-200 bg-white">
+            <MemoryPanel
+              pinnedMessages={pinnedMessages}
+              notes={memoryNotes}
+              disabled={!currentConversation}
+              onUnpin={handleTogglePin}
+              onAddNote={handleAddMemoryNote}
+              onRemoveNote={handleRemoveMemoryNote}
+            />
+          </div>
+        )}
+
+        {currentUser && (
+          <div className="p-3 border-t border-gray-200 bg-white">
+            <FilesPanel />
+          </div>
+        )}
+
+        <div className="p-3 border-t border-gray-200 bg-white">
+          <ModelParamsPanel
+            params={modelParams}
+            limits={activeModelLimits}
+            onChange={handleModelParamsChange}
+            contextStrategy={contextStrategy}
+            onContextStrategyChange={handleContextStrategyChange}
+          />
+        </div>
+
         {currentUser && (
           <div className="p-4 border-t border-gray-200 bg-gray-50">
             <div className="flex items-center gap-3">
@@ -432,6 +972,17 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onBack, currentUse
             <span>Nova Sessão</span>
           </button>
 
+          {activePersona && (
+            <div
+              data-testid="active-persona"
+              title={activePersona.systemPrompt}
+              className="ml-3 flex items-center gap-1.5 px-2 py-1 border border-gray-200 rounded-sm bg-gray-50 text-text-primary max-w-[160px]"
+            >
+              <PersonaIcon icon={activePersona.icon} size={12} className="flex-shrink-0" />
+              <span className="font-mono text-[10px] uppercase tracking-widest truncate">{activePersona.name}</span>
+            </div>
+          )}
+
           <div className="h-6 w-px bg-gray-200 mx-4" />
 
           <div className="flex-1 overflow-x-auto scrollbar-thin scrollbar-track-transparent">
@@ -439,7 +990,8 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onBack, currentUse
               {conversations.length === 0 ? (
                 <span className="text-xs text-text-secondary font-mono italic">Nenhuma sessão ativa</span>
               ) : (
-                conversations.map(conv => (
+                // Archived conversations only show here while open
+                conversations.filter(conv => !conv.archived || conv.id === currentId).map(conv => (
                   <button
                     key={conv.id}
                     onClick={() => { setCurrentId(conv.id); setIsSidebarOpen(false); }}
@@ -462,6 +1014,24 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onBack, currentUse
               )}
             </div>
           </div>
+
+          {currentConversation && (
+            <div className="ml-2 flex-shrink-0 flex items-center gap-1">
+              {currentUser && (
+                <SharePanel
+                  links={conversationShareLinks}
+                  disabled={activePath.length === 0 || isTyping}
+                  onCreate={handleCreateShare}
+                  onRevoke={revokeShare}
+                />
+              )}
+              <ExportMenu
+                label="Exportar conversa"
+                showLabel
+                onExport={(format) => void handleExport([currentConversation], format)}
+              />
+            </div>
+          )}
         </header>
 
         {/* Messages */}
@@ -480,13 +1050,24 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onBack, currentUse
             </div>
           )}
 
-          {currentConversation?.messages.map((msg) => (
-            <ChatMessage
-              key={msg.id}
-              msg={msg}
-              currentUser={currentUser}
-            />
-          ))}
+          {activePath.map((msg) => {
+            const info = branchInfo.get(msg.id);
+            return (
+              <ChatMessage
+                key={msg.id}
+                msg={msg}
+                currentUser={currentUser}
+                branchIndex={info?.index ?? 0}
+                branchCount={info?.count ?? 1}
+                actionsDisabled={isTyping}
+                highlighted={msg.id === highlightedMessageId}
+                onEdit={onEditMessage}
+                onRegenerate={onRegenerateMessage}
+                onSelectBranch={onSelectBranch}
+                onTogglePin={onTogglePin}
+              />
+            );
+          })}
 
           <AnimatePresence>
             {isTyping && (
@@ -508,20 +1089,74 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onBack, currentUse
           <div ref={messagesEndRef} />
         </div>
 
-        {/* Input Area */}
-        <div className="p-4 md:p-6 bg-white border-t border-gray-200 z-20">
-          {attachments.length > 0 && (
-            <div className="flex gap-3 mb-3 pb-2 overflow-x-auto">
+        {/* Input Area (also the drop zone for attachments) */}
+        <div
+          className="relative p-4 md:p-6 bg-white border-t border-gray-200 z-20"
+          onDragOver={handleDragOver}
+          onDragLeave={handleDragLeave}
+          onDrop={handleDrop}
+          data-testid="composer-drop-zone"
+        >
+          {isDraggingFiles && (
+            <div className="absolute inset-2 z-30 flex items-center justify-center border-2 border-dashed border-black bg-white/90 rounded-sm pointer-events-none">
+              <span className="font-mono text-[10px] uppercase tracking-widest text-text-primary">
+                Solte os arquivos para anexar
+              </span>
+            </div>
+          )}
+
+          {(attachments.length > 0 || uploads.length > 0) && (
+            <ul className="flex gap-3 mb-3 pb-2 overflow-x-auto" aria-label="Anexos">
               {attachments.map((att, i) => (
-                <div key={i} className="relative group bg-gray-50 border border-gray-200 rounded-sm p-2 w-20 h-20 flex flex-col items-center justify-center gap-1">
-                  <button onClick={() => removeAttachment(i)} className="absolute -top-2 -right-2 bg-black text-white rounded-full p-1 shadow-md opacity-0 group-hover:opacity-100 transition-opacity">
+                <li key={i} className="relative group bg-gray-50 border border-gray-200 rounded-sm p-2 w-20 h-20 flex flex-col items-center justify-center gap-1">
+                  <button
+                    type="button"
+                    onClick={() => removeAttachment(i)}
+                    aria-label={`Remover ${att.name}`}
+                    className="absolute -top-2 -right-2 z-10 bg-black text-white rounded-full p-1 shadow-md opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                  >
                     <X size={10} />
                   </button>
-                  <FileText className="text-text-secondary" size={20} />
+                  {hasOriginal(i) && (
+                    <button
+                      type="button"
+                      onClick={() => restoreOriginal(i)}
+                      aria-label={`Enviar original de ${att.name}`}
+                      title="Imagem reduzida e sem metadados. Clique para enviar o original."
+                      className="absolute -top-2 -left-2 z-10 bg-white text-text-secondary border border-gray-200 rounded-full p-1 shadow-md opacity-0 group-hover:opacity-100 focus:opacity-100 hover:text-black transition-opacity"
+                    >
+                      <Maximize2 size={10} />
+                    </button>
+                  )}
+                  {att.type.startsWith('image/') ? (
+                    <img
+                      src={`data:${att.type};base64,${att.data}`}
+                      alt={att.name}
+                      className="w-full h-12 object-cover rounded-sm"
+                    />
+                  ) : (
+                    <FileText className="text-text-secondary" size={20} />
+                  )}
                   <span className="text-[8px] text-text-secondary truncate w-full text-center">{att.name}</span>
-                </div>
+                </li>
               ))}
-            </div>
+              {uploads.map(upload => (
+                <li key={upload.id} className="bg-gray-50 border border-dashed border-gray-300 rounded-sm p-2 w-20 h-20 flex flex-col items-center justify-center gap-1">
+                  <Loader2 className="text-text-secondary animate-spin" size={16} />
+                  <div
+                    role="progressbar"
+                    aria-label={`Carregando ${upload.name}`}
+                    aria-valuemin={0}
+                    aria-valuemax={100}
+                    aria-valuenow={upload.progress}
+                    className="w-full h-1 bg-gray-200 rounded-sm overflow-hidden"
+                  >
+                    <div className="h-full bg-black transition-all" style={{ width: `${upload.progress}%` }} />
+                  </div>
+                  <span className="text-[8px] text-text-secondary truncate w-full text-center">{upload.name}</span>
+                </li>
+              ))}
+            </ul>
           )}
 
           <div className="relative max-w-4xl mx-auto flex items-end gap-3">
@@ -530,12 +1165,16 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onBack, currentUse
               ref={fileInputRef}
               className="hidden"
               onChange={handleFileSelect}
-              accept=".pdf,.txt,.md,.csv,image/*"
+              accept={FILE_LIMITS.ACCEPT}
+              multiple
+              data-testid="attachment-input"
             />
 
             <button
               type="button"
               onClick={() => fileInputRef.current?.click()}
+              aria-label="Anexar arquivos"
+              title={`Anexar arquivos (até ${FILE_LIMITS.MAX_FILES} por mensagem, ${FILE_LIMITS.MAX_TOTAL_SIZE_MB}MB no total)`}
               className="p-3 bg-gray-100 hover:bg-gray-200 text-text-secondary rounded-sm transition-colors"
             >
               <Paperclip size={20} />
@@ -547,6 +1186,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onBack, currentUse
                 type="text"
                 value={input}
                 onChange={(e) => setInput(e.target.value)}
+                onPaste={handlePaste}
                 onKeyDown={(e) => {
                   if (e.key === 'Enter') {
                     // PREVENT RELOAD: Explicitly handle enter key
@@ -560,18 +1200,38 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onBack, currentUse
               />
             </div>
 
-            <button
-              type="button"
-              onClick={(e) => handleSend(e)}
-              disabled={(!input.trim() && attachments.length === 0) || isTyping || !isInitialized}
-              className={`p-3 rounded-sm transition-all ${input.trim() || attachments.length > 0
-                ? 'bg-black text-white hover:bg-gray-800'
-                : 'bg-gray-100 text-gray-400 cursor-not-allowed'
-                }`}
-            >
-              <Send size={20} />
-            </button>
+            {isTyping ? (
+              <button
+                type="button"
+                onClick={handleStop}
+                aria-label="Parar geração"
+                title="Parar geração"
+                className="p-3 rounded-sm transition-all bg-black text-white hover:bg-gray-800"
+              >
+                <Square size={20} />
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={(e) => handleSend(e)}
+                disabled={(!input.trim() && attachments.length === 0) || !isInitialized || isUploading}
+                className={`p-3 rounded-sm transition-all ${input.trim() || attachments.length > 0
+                  ? 'bg-black text-white hover:bg-gray-800'
+                  : 'bg-gray-100 text-gray-400 cursor-not-allowed'
+                  }`}
+              >
+                <Send size={20} />
+              </button>
+            )}
           </div>
+          {costEstimate && hasDraft && (
+            <p className="max-w-4xl mx-auto mt-2 font-mono text-[10px] text-text-secondary uppercase tracking-wider" data-testid="cost-estimate">
+              Custo estimado: {costEstimate.minCredits === costEstimate.maxCredits
+                ? costEstimate.minCredits.toLocaleString('pt-BR')
+                : `${costEstimate.minCredits.toLocaleString('pt-BR')} – ${costEstimate.maxCredits.toLocaleString('pt-BR')}`} créditos
+              <span className="text-gray-400"> · {costEstimate.inputTokens.toLocaleString('pt-BR')} tokens de entrada</span>
+            </p>
+          )}
           <p className="text-center mt-3 font-mono text-[9px] text-gray-400 uppercase">
             FIDI.ai v2.0 // Sistema Autônomo
           </p>
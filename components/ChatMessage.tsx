@@ -1,18 +1,67 @@
-import { memo } from 'react';
-import { Sparkles, FileText, Image as ImageIcon } from 'lucide-react';
-import { Message, User } from '../types';
+import { memo, useState } from 'react';
+import { Sparkles, FileText, Image as ImageIcon, Pencil, RefreshCw, ChevronLeft, ChevronRight, Pin } from 'lucide-react';
+import { Attachment, Message, User } from '../types';
 import { MarkdownRenderer } from './MarkdownRenderer';
 
 interface ChatMessageProps {
     msg: Message;
     currentUser: User | null;
+    /** Position among the message's siblings (edits / regenerations of the same turn) */
+    branchIndex?: number;
+    branchCount?: number;
+    /** Disables edit/regenerate/navigation (e.g. while a reply is streaming) */
+    actionsDisabled?: boolean;
+    /** Briefly marks the message opened from a search result */
+    highlighted?: boolean;
+    onEdit?: (messageId: string, content: string) => void;
+    onRegenerate?: (messageId: string) => void;
+    onSelectBranch?: (messageId: string, direction: -1 | 1) => void;
+    onTogglePin?: (messageId: string) => void;
 }
 
-export const ChatMessage = memo(({ msg, currentUser }: ChatMessageProps) => {
+/**
+ * "12 págs · 340 linhas" for a document the server extracted text from
+ */
+const formatDocumentCounts = (att: Attachment) => [
+    att.pages !== undefined && `${att.pages} ${att.pages === 1 ? 'pág' : 'págs'}`,
+    att.lines !== undefined && `${att.lines.toLocaleString('pt-BR')} ${att.lines === 1 ? 'linha' : 'linhas'}`
+].filter(Boolean).join(' · ');
+
+const actionButtonClass = 'p-1 text-text-secondary hover:text-black disabled:opacity-30 disabled:cursor-not-allowed transition-colors';
+
+export const ChatMessage = memo(({
+    msg,
+    currentUser,
+    branchIndex = 0,
+    branchCount = 1,
+    actionsDisabled = false,
+    highlighted = false,
+    onEdit,
+    onRegenerate,
+    onSelectBranch,
+    onTogglePin
+}: ChatMessageProps) => {
     const isUser = msg.role === 'user';
+    const [isEditing, setIsEditing] = useState(false);
+    const [draft, setDraft] = useState(msg.content);
+
+    const startEditing = () => {
+        setDraft(msg.content);
+        setIsEditing(true);
+    };
+
+    const submitEdit = () => {
+        if (!draft.trim() && !msg.attachments?.length) return;
+        setIsEditing(false);
+        onEdit?.(msg.id, draft);
+    };
 
     return (
-        <div className={`flex gap-4 ${isUser ? 'justify-end' : 'justify-start'}`}>
+        <div
+            id={`message-${msg.id}`}
+            data-highlighted={highlighted || undefined}
+            className={`flex gap-4 rounded-sm transition-shadow duration-500 ${isUser ? 'justify-end' : 'justify-start'} ${highlighted ? 'ring-2 ring-amber-300 ring-offset-4' : ''}`}
+        >
             {!isUser && (
                 <div className="w-8 h-8 flex items-center justify-center border border-gray-300 bg-white text-black flex-shrink-0 mt-1 rounded-sm">
                     <span className="font-mono text-xs font-bold">AI</span>
@@ -42,13 +91,57 @@ export const ChatMessage = memo(({ msg, currentUser }: ChatMessageProps) => {
                             <div key={i} className="flex items-center gap-2 bg-gray-100 border border-gray-200 rounded-sm px-3 py-2 text-xs text-text-primary">
                                 {att.type.startsWith('image') ? <ImageIcon size={14} className="opacity-70" /> : <FileText size={14} className="opacity-70" />}
                                 <span className="truncate max-w-[150px] font-mono">{att.name}</span>
+                                {(att.pages !== undefined || att.lines !== undefined) && (
+                                    <span className="font-mono text-[10px] text-text-secondary whitespace-nowrap" data-testid="attachment-counts">
+                                        {formatDocumentCounts(att)}
+                                    </span>
+                                )}
                             </div>
                         ))}
                     </div>
                 )}
 
+                {/* Inline editor (edit-and-resubmit creates a new branch) */}
+                {isEditing && (
+                    <div className="border border-gray-300 bg-white rounded-sm p-3 space-y-2">
+                        <textarea
+                            value={draft}
+                            onChange={(e) => setDraft(e.target.value)}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter' && !e.shiftKey) {
+                                    e.preventDefault();
+                                    submitEdit();
+                                } else if (e.key === 'Escape') {
+                                    setIsEditing(false);
+                                }
+                            }}
+                            aria-label="Editar mensagem"
+                            rows={3}
+                            autoFocus
+                            className="w-full bg-gray-50 border border-gray-200 focus:border-black focus:ring-0 rounded-sm p-2 text-sm font-sans resize-y"
+                        />
+                        <div className="flex justify-end gap-2">
+                            <button
+                                type="button"
+                                onClick={() => setIsEditing(false)}
+                                className="px-3 py-1 font-mono text-[10px] uppercase tracking-widest text-text-secondary hover:text-black"
+                            >
+                                Cancelar
+                            </button>
+                            <button
+                                type="button"
+                                onClick={submitEdit}
+                                disabled={actionsDisabled || (!draft.trim() && !msg.attachments?.length)}
+                                className="px-3 py-1 bg-black text-white rounded-sm font-mono text-[10px] uppercase tracking-widest hover:bg-gray-800 disabled:opacity-40"
+                            >
+                                Reenviar
+                            </button>
+                        </div>
+                    </div>
+                )}
+
                 {/* Text Content */}
-                {msg.content && (
+                {!isEditing && msg.content && (
                     <div className={`p-5 rounded-sm transition-colors duration-200 ${isUser
                         ? 'bg-black text-white shadow-sm'
                         : 'bg-white border border-gray-200 text-text-primary'
@@ -59,9 +152,92 @@ export const ChatMessage = memo(({ msg, currentUser }: ChatMessageProps) => {
                     </div>
                 )}
 
-                <p className={`text-[10px] font-mono text-text-secondary ${isUser ? 'text-right' : 'text-left'}`}>
-                    {new Date(msg.timestamp || Date.now()).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                </p>
+                <div className={`flex items-center gap-2 ${isUser ? 'justify-end' : 'justify-start'}`}>
+                    {branchCount > 1 && (
+                        <div className="flex items-center font-mono text-[10px] text-text-secondary" data-testid="branch-nav">
+                            <button
+                                type="button"
+                                onClick={() => onSelectBranch?.(msg.id, -1)}
+                                disabled={actionsDisabled || branchIndex === 0}
+                                aria-label="Versão anterior"
+                                className={actionButtonClass}
+                            >
+                                <ChevronLeft size={12} />
+                            </button>
+                            <span>{branchIndex + 1}/{branchCount}</span>
+                            <button
+                                type="button"
+                                onClick={() => onSelectBranch?.(msg.id, 1)}
+                                disabled={actionsDisabled || branchIndex === branchCount - 1}
+                                aria-label="Próxima versão"
+                                className={actionButtonClass}
+                            >
+                                <ChevronRight size={12} />
+                            </button>
+                        </div>
+                    )}
+
+                    {isUser && onEdit && !isEditing && (
+                        <button
+                            type="button"
+                            onClick={startEditing}
+                            disabled={actionsDisabled}
+                            aria-label="Editar mensagem"
+                            title="Editar e reenviar"
+                            className={actionButtonClass}
+                        >
+                            <Pencil size={12} />
+                        </button>
+                    )}
+
+                    {!isUser && onRegenerate && !msg.media && (
+                        <button
+                            type="button"
+                            onClick={() => onRegenerate(msg.id)}
+                            disabled={actionsDisabled}
+                            aria-label="Gerar novamente"
+                            title="Gerar novamente"
+                            className={actionButtonClass}
+                        >
+                            <RefreshCw size={12} />
+                        </button>
+                    )}
+
+                    {onTogglePin && !msg.media && (
+                        <button
+                            type="button"
+                            onClick={() => onTogglePin(msg.id)}
+                            aria-label={msg.pinned ? 'Desafixar mensagem' : 'Fixar mensagem'}
+                            aria-pressed={!!msg.pinned}
+                            title={msg.pinned ? 'Desafixar' : 'Fixar no contexto'}
+                            className={`${actionButtonClass} ${msg.pinned ? 'text-black' : ''}`}
+                        >
+                            <Pin size={12} className={msg.pinned ? 'fill-current' : ''} />
+                        </button>
+                    )}
+
+                    {msg.interrupted && (
+                        <span className="font-mono text-[10px] uppercase tracking-widest text-amber-600" data-testid="interrupted-label">
+                            Interrompida
+                        </span>
+                    )}
+
+                    {msg.contextTrim && (
+                        <span
+                            className="font-mono text-[10px] uppercase tracking-widest text-text-secondary"
+                            data-testid="context-trim-label"
+                            title="Mensagens antigas ficaram fora da janela de contexto do modelo"
+                        >
+                            {msg.contextTrim.summarized
+                                ? `${msg.contextTrim.droppedMessages} msgs antigas resumidas`
+                                : `${msg.contextTrim.droppedMessages} msgs antigas fora do contexto`}
+                        </span>
+                    )}
+
+                    <p className="text-[10px] font-mono text-text-secondary">
+                        {new Date(msg.timestamp || Date.now()).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    </p>
+                </div>
             </div>
 
             {isUser && (
@@ -76,6 +252,13 @@ export const ChatMessage = memo(({ msg, currentUser }: ChatMessageProps) => {
         prevProps.msg.id === nextProps.msg.id &&
         prevProps.msg.content === nextProps.msg.content &&
         prevProps.msg.timestamp === nextProps.msg.timestamp &&
+        prevProps.msg.interrupted === nextProps.msg.interrupted &&
+        prevProps.msg.contextTrim === nextProps.msg.contextTrim &&
+        prevProps.msg.pinned === nextProps.msg.pinned &&
+        prevProps.branchIndex === nextProps.branchIndex &&
+        prevProps.branchCount === nextProps.branchCount &&
+        prevProps.actionsDisabled === nextProps.actionsDisabled &&
+        prevProps.highlighted === nextProps.highlighted &&
         prevProps.currentUser?.name === nextProps.currentUser?.name
     );
 });
@@ -0,0 +1,147 @@
+import React from 'react';
+import ReactMarkdown from 'react-markdown';
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import { Conversation, GeneratedMedia, Message } from '../types';
+import { MARKDOWN_SAFETY } from './MarkdownRenderer';
+import { formatExportDate, getExportedMessages, roleLabel } from '../lib/conversationExport';
+
+/**
+ * Static conversation page for the HTML export
+ * Rendered once with renderToStaticMarkup, so everything here must be synchronous (no lazy
+ * loading) and styled by EXPORT_STYLES rather than Tailwind classes.
+ */
+
+// Mirrors the chat bubbles (ChatMessage) and code blocks (MarkdownRenderer)
+export const EXPORT_STYLES = `
+*{box-sizing:border-box}
+body{margin:0;background:#f5f5f4;color:#111;font:15px/1.6 system-ui,-apple-system,"Segoe UI",sans-serif}
+main{max-width:860px;margin:0 auto;padding:48px 24px}
+article{margin-bottom:64px}
+h1{font-size:28px;letter-spacing:-0.02em;margin:0 0 8px}
+.meta,.role,footer,.chip,.note-title{font-family:ui-monospace,SFMono-Regular,Menlo,monospace;font-size:10px;letter-spacing:0.12em;text-transform:uppercase;color:#6b7280}
+.meta{margin:0 0 32px}
+.notes{border:1px solid #e5e7eb;background:#fff;border-radius:2px;padding:12px 16px;margin-bottom:32px}
+.notes ul{margin:8px 0 0;padding-left:18px}
+.message{display:flex;flex-direction:column;margin-bottom:32px}
+.message.user{align-items:flex-end}
+.message.assistant{align-items:flex-start}
+.role{margin-bottom:6px}
+.bubble{max-width:75%;padding:20px;border-radius:2px;overflow-wrap:anywhere}
+.user .bubble{background:#000;color:#fff}
+.assistant .bubble{background:#fff;border:1px solid #e5e7eb}
+.bubble>:first-child{margin-top:0}
+.bubble>:last-child{margin-bottom:0}
+.bubble a{color:inherit}
+.inline-code{background:rgba(127,127,127,0.15);padding:2px 6px;border-radius:4px;font-size:0.875em;font-family:ui-monospace,SFMono-Regular,Menlo,monospace}
+.code-block{margin:16px 0}
+.code-block>code{display:block;white-space:pre;overflow:auto;background:#1e1e1e;color:#d4d4d4;padding:1.5rem;border-radius:0.5rem;font-size:0.875rem;font-family:ui-monospace,SFMono-Regular,Menlo,monospace}
+.attachments{display:flex;flex-wrap:wrap;gap:8px;margin-bottom:8px}
+.chip{background:#f3f4f6;border:1px solid #e5e7eb;border-radius:2px;padding:6px 12px;text-transform:none;letter-spacing:0}
+.media{max-width:75%;border:1px solid #e5e7eb;background:#f9fafb;border-radius:2px;margin-bottom:8px}
+.media img,.media video,.attachments img{display:block;max-width:100%;max-height:400px}
+.media figcaption{padding:6px 12px;border-top:1px solid #e5e7eb;font-family:ui-monospace,SFMono-Regular,Menlo,monospace;font-size:10px;color:#6b7280}
+.interrupted{font-style:italic;color:#6b7280;font-size:12px;margin-top:6px}
+`;
+
+// Blob URLs only live in the browser that created them; anything else but data/http is dropped
+const isPortableUrl = (url: string) => /^(data:|https?:)/.test(url);
+
+const markdownComponents = {
+  // Fenced blocks: the highlighter renders its own <pre>
+  pre(props: React.ComponentProps<'pre'>) {
+    return <div className="code-block">{props.children}</div>;
+  },
+  code(props: React.ComponentProps<'code'>) {
+    const { children, className } = props;
+    const match = /language-(\w+)/.exec(className || '');
+    if (!match) {
+      return <code className="inline-code">{children}</code>;
+    }
+    return (
+      <SyntaxHighlighter
+        language={match[1]}
+        style={vscDarkPlus}
+        customStyle={{
+          margin: 0,
+          borderRadius: '0.5rem',
+          padding: '1.5rem',
+          fontSize: '0.875rem',
+          border: '1px solid rgba(255, 255, 255, 0.1)',
+        }}
+        showLineNumbers={true}
+      >
+        {String(children).replace(/\n$/, '')}
+      </SyntaxHighlighter>
+    );
+  }
+};
+
+const MediaFigure = ({ media }: { media: GeneratedMedia }) => {
+  const label = media.type === 'image' ? 'IMAGEM GERADA' : 'VÍDEO GERADO';
+  return (
+    <figure className="media">
+      {isPortableUrl(media.url) && (
+        media.type === 'image'
+          ? <img src={media.url} alt={media.prompt ?? label} />
+          : <video src={media.url} controls />
+      )}
+      <figcaption>
+        {label}
+        {media.prompt && ` · ${media.prompt}`}
+        {!isPortableUrl(media.url) && ' · indisponível fora do navegador original'}
+      </figcaption>
+    </figure>
+  );
+};
+
+const ExportedMessage = ({ msg }: { msg: Message }) => (
+  <section className={`message ${msg.role}`}>
+    <div className="role">
+      {roleLabel(msg.role)}
+      {msg.timestamp && ` · ${formatExportDate(msg.timestamp)}`}
+    </div>
+    {msg.media && <MediaFigure media={msg.media} />}
+    {msg.attachments && msg.attachments.length > 0 && (
+      <div className="attachments">
+        {msg.attachments.map((att, i) => att.type.startsWith('image/') && att.data
+          ? <img key={i} src={`data:${att.type};base64,${att.data}`} alt={att.name} />
+          : <span key={i} className="chip">{att.name}</span>
+        )}
+      </div>
+    )}
+    {msg.content && (
+      <div className="bubble">
+        <ReactMarkdown {...MARKDOWN_SAFETY} components={markdownComponents}>
+          {msg.content}
+        </ReactMarkdown>
+      </div>
+    )}
+    {msg.interrupted && <div className="interrupted">Resposta interrompida</div>}
+  </section>
+);
+
+export const ConversationExportDocument = ({ conversations }: { conversations: readonly Conversation[] }) => (
+  <main>
+    {conversations.map(conv => (
+      <article key={conv.id}>
+        <h1>{conv.title}</h1>
+        <p className="meta">
+          {[conv.modelId, conv.persona?.name, conv.folder, formatExportDate(conv.lastModified)]
+            .filter(Boolean)
+            .join(' · ')}
+        </p>
+        {conv.memoryNotes && conv.memoryNotes.length > 0 && (
+          <div className="notes">
+            <span className="note-title">Notas de memória</span>
+            <ul>
+              {conv.memoryNotes.map(note => <li key={note.id}>{note.text}</li>)}
+            </ul>
+          </div>
+        )}
+        {getExportedMessages(conv).map(msg => <ExportedMessage key={msg.id} msg={msg} />)}
+      </article>
+    ))}
+    <footer>Exportado do FIDI.ai em {formatExportDate(Date.now())}</footer>
+  </main>
+);
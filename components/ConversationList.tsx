@@ -0,0 +1,430 @@
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  MessageSquare,
+  ChevronDown,
+  Folder,
+  FolderPlus,
+  Pin,
+  Archive,
+  ArchiveRestore,
+  Tag,
+  Upload,
+  X
+} from 'lucide-react';
+import { Conversation, ConversationOrganization } from '../types';
+import {
+  collectFolders,
+  collectTags,
+  groupConversations,
+  normalizeFolder,
+  parseTagInput,
+  MAX_FOLDER_LENGTH
+} from '../lib/conversationOrganization';
+import { ExportFormat } from '../lib/conversationExport';
+import { ExportMenu } from './ExportMenu';
+
+interface ConversationListProps {
+  conversations: readonly Conversation[];
+  currentId: string | null;
+  onSelect: (id: string) => void;
+  onOrganize: (id: string, updates: ConversationOrganization) => void;
+  /** Bulk export of every conversation, archived ones included */
+  onExportAll: (format: ExportFormat) => void;
+  /** JSON export file picked for import */
+  onImport: (file: File) => void;
+}
+
+// Where a dragged conversation can be dropped
+type DropTarget =
+  | { kind: 'pinned' }
+  | { kind: 'folder'; name: string }
+  | { kind: 'unfiled' }
+  | { kind: 'archive' };
+
+const inputClass = 'w-full bg-gray-50 border border-gray-200 rounded-sm py-1 px-2 font-mono text-xs text-text-primary placeholder-gray-400 focus:ring-0 focus:border-black';
+const sectionLabelClass = 'font-mono text-[9px] uppercase tracking-widest';
+const actionClass = 'p-0.5 text-gray-400 hover:text-black transition-colors flex-shrink-0';
+
+const targetKey = (target: DropTarget) => target.kind === 'folder' ? `folder:${target.name}` : target.kind;
+
+const updatesForTarget = (target: DropTarget): ConversationOrganization => {
+  switch (target.kind) {
+    case 'pinned': return { pinned: true, archived: undefined };
+    case 'folder': return { folder: target.name, pinned: undefined, archived: undefined };
+    case 'unfiled': return { folder: undefined, pinned: undefined, archived: undefined };
+    case 'archive': return { archived: true, pinned: undefined };
+  }
+};
+
+interface OrganizeFormProps {
+  conversation: Conversation;
+  folders: readonly string[];
+  onSubmit: (updates: ConversationOrganization) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Inline folder and tags editor (keyboard alternative to drag and drop)
+ */
+const OrganizeForm: React.FC<OrganizeFormProps> = ({ conversation, folders, onSubmit, onCancel }) => {
+  const [folder, setFolder] = useState(conversation.folder ?? '');
+  const [tags, setTags] = useState((conversation.tags ?? []).join(', '));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsedTags = parseTagInput(tags);
+    onSubmit({ folder: normalizeFolder(folder), tags: parsedTags.length > 0 ? parsedTags : undefined });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-1 mb-2 ml-5 space-y-1.5">
+      <input
+        type="text"
+        value={folder}
+        maxLength={MAX_FOLDER_LENGTH}
+        list="conversation-folders"
+        placeholder="Pasta"
+        aria-label="Pasta"
+        onChange={(e) => setFolder(e.target.value)}
+        className={inputClass}
+      />
+      <datalist id="conversation-folders">
+        {folders.map(name => <option key={name} value={name} />)}
+      </datalist>
+      <input
+        type="text"
+        value={tags}
+        placeholder="Tags, separadas por vírgula"
+        aria-label="Tags"
+        onChange={(e) => setTags(e.target.value)}
+        className={inputClass}
+      />
+      <div className="flex gap-2">
+        <button type="submit" className="px-2 py-1 bg-black text-white rounded-sm font-mono text-[9px] uppercase tracking-widest">
+          Salvar
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-2 py-1 text-text-secondary hover:text-black font-mono text-[9px] uppercase tracking-widest"
+        >
+          Cancelar
+        </button>
+      </div>
+    </form>
+  );
+};
+
+/**
+ * Sidebar conversation list organised into pinned, folders and unfiled, with tag filters
+ * and an archive view. Conversations are dragged onto a section to pin, file or archive them.
+ */
+export const ConversationList: React.FC<ConversationListProps> = ({
+  conversations,
+  currentId,
+  onSelect,
+  onOrganize,
+  onExportAll,
+  onImport
+}) => {
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  // Folders created here exist only until something is filed in them (or the page reloads)
+  const [newFolders, setNewFolders] = useState<string[]>([]);
+  const [folderDraft, setFolderDraft] = useState<string | null>(null);
+  const [collapsedFolders, setCollapsedFolders] = useState<Set<string>>(new Set());
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTargetKey, setDropTargetKey] = useState<string | null>(null);
+
+  const folders = useMemo(() => collectFolders(conversations, newFolders), [conversations, newFolders]);
+  const tags = useMemo(() => collectTags(conversations), [conversations]);
+  const visible = useMemo(
+    () => conversations.filter(conv =>
+      !!conv.archived === showArchived && (!tagFilter || conv.tags?.includes(tagFilter))
+    ),
+    [conversations, showArchived, tagFilter]
+  );
+  const groups = useMemo(
+    () => groupConversations(visible, showArchived || tagFilter ? [] : newFolders),
+    [visible, showArchived, tagFilter, newFolders]
+  );
+
+  const handleCreateFolder = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = normalizeFolder(folderDraft);
+    if (name && !folders.includes(name)) {
+      setNewFolders(prev => [...prev, name]);
+    }
+    setFolderDraft(null);
+  };
+
+  const toggleFolder = (name: string) => {
+    setCollapsedFolders(prev => {
+      const next = new Set(prev);
+      if (next.has(name)) next.delete(name); else next.add(name);
+      return next;
+    });
+  };
+
+  const dropProps = (target: DropTarget) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!draggingId) return;
+      e.preventDefault();
+      setDropTargetKey(targetKey(target));
+    },
+    onDragLeave: () => setDropTargetKey(prev => prev === targetKey(target) ? null : prev),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      const id = draggingId ?? e.dataTransfer?.getData('text/plain');
+      if (id) {
+        onOrganize(id, updatesForTarget(target));
+        if (target.kind === 'folder') {
+          setNewFolders(prev => prev.filter(name => name !== target.name));
+        }
+      }
+      setDraggingId(null);
+      setDropTargetKey(null);
+    },
+    'data-drop-active': dropTargetKey === targetKey(target) || undefined
+  });
+
+  const dropHighlight = (target: DropTarget) =>
+    dropTargetKey === targetKey(target) ? 'bg-gray-100 outline outline-1 outline-dashed outline-gray-400' : '';
+
+  const renderConversation = (conv: Conversation) => (
+    <li key={conv.id}>
+      <div
+        draggable
+        onDragStart={(e) => {
+          setDraggingId(conv.id);
+          e.dataTransfer?.setData('text/plain', conv.id);
+        }}
+        onDragEnd={() => {
+          setDraggingId(null);
+          setDropTargetKey(null);
+        }}
+        data-testid="conversation-item"
+        className={`group flex items-center gap-1 px-2 py-1 rounded-sm border transition-colors ${conv.id === currentId
+          ? 'bg-gray-100 border-gray-300'
+          : 'border-transparent hover:bg-gray-50'
+          } ${draggingId === conv.id ? 'opacity-40' : ''}`}
+      >
+        <button
+          type="button"
+          onClick={() => onSelect(conv.id)}
+          className="flex-1 min-w-0 flex items-center gap-2 text-left"
+        >
+          <MessageSquare size={12} className="opacity-50 flex-shrink-0" />
+          <span className="min-w-0">
+            <span className="block text-xs text-text-primary truncate">{conv.title}</span>
+            {conv.tags && conv.tags.length > 0 && (
+              <span className="block font-mono text-[9px] text-gray-400 truncate">
+                {conv.tags.map(tag => `#${tag}`).join(' ')}
+              </span>
+            )}
+          </span>
+        </button>
+        <button
+          type="button"
+          onClick={() => setEditingId(prev => prev === conv.id ? null : conv.id)}
+          aria-label="Pasta e tags"
+          aria-expanded={editingId === conv.id}
+          className={actionClass}
+        >
+          <Tag size={11} />
+        </button>
+        {!conv.archived && (
+          <button
+            type="button"
+            onClick={() => onOrganize(conv.id, { pinned: conv.pinned ? undefined : true })}
+            aria-label={conv.pinned ? 'Desafixar conversa' : 'Fixar conversa'}
+            aria-pressed={!!conv.pinned}
+            className={`${actionClass} ${conv.pinned ? 'text-black' : ''}`}
+          >
+            <Pin size={11} className={conv.pinned ? 'fill-current' : ''} />
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => onOrganize(conv.id, conv.archived ? { archived: undefined } : { archived: true, pinned: undefined })}
+          aria-label={conv.archived ? 'Desarquivar conversa' : 'Arquivar conversa'}
+          className={actionClass}
+        >
+          {conv.archived ? <ArchiveRestore size={11} /> : <Archive size={11} />}
+        </button>
+      </div>
+      {editingId === conv.id && (
+        <OrganizeForm
+          conversation={conv}
+          folders={folders}
+          onSubmit={(updates) => {
+            onOrganize(conv.id, updates);
+            setEditingId(null);
+          }}
+          onCancel={() => setEditingId(null)}
+        />
+      )}
+    </li>
+  );
+
+  const isEmpty = visible.length === 0 && groups.folders.length === 0;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2 px-1">
+        <h3 className={`${sectionLabelClass} text-[10px] text-text-secondary`}>
+          {showArchived ? 'Arquivadas' : 'Conversas'}
+        </h3>
+        <div className="flex items-center gap-1">
+          {!showArchived && (
+            <button
+              type="button"
+              onClick={() => setFolderDraft('')}
+              aria-label="Nova pasta"
+              title="Nova pasta"
+              className={actionClass}
+            >
+              <FolderPlus size={13} />
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => setShowArchived(prev => !prev)}
+            aria-pressed={showArchived}
+            aria-label="Ver arquivadas"
+            title={showArchived ? 'Voltar às conversas' : 'Ver arquivadas'}
+            className={`${actionClass} ${showArchived ? 'text-black' : ''}`}
+          >
+            <Archive size={13} />
+          </button>
+          <ExportMenu label="Exportar todas" disabled={conversations.length === 0} onExport={onExportAll} />
+          <button
+            type="button"
+            onClick={() => importInputRef.current?.click()}
+            aria-label="Importar conversas"
+            title="Importar conversas (JSON)"
+            className={actionClass}
+          >
+            <Upload size={13} />
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            data-testid="import-conversations-input"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImport(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      {folderDraft !== null && (
+        <form onSubmit={handleCreateFolder} className="mb-2 flex gap-1">
+          <input
+            type="text"
+            autoFocus
+            value={folderDraft}
+            maxLength={MAX_FOLDER_LENGTH}
+            placeholder="Nome da pasta"
+            aria-label="Nome da pasta"
+            onChange={(e) => setFolderDraft(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Escape') setFolderDraft(null); }}
+            className={inputClass}
+          />
+          <button type="button" onClick={() => setFolderDraft(null)} aria-label="Cancelar pasta" className={actionClass}>
+            <X size={12} />
+          </button>
+        </form>
+      )}
+
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1 mb-2" aria-label="Filtrar por tag">
+          {tags.map(tag => (
+            <button
+              key={tag}
+              type="button"
+              onClick={() => setTagFilter(prev => prev === tag ? null : tag)}
+              aria-pressed={tagFilter === tag}
+              className={`px-1.5 py-0.5 rounded-sm border font-mono text-[9px] transition-colors ${tagFilter === tag
+                ? 'bg-black border-black text-white'
+                : 'border-gray-200 text-text-secondary hover:border-black hover:text-black'
+                }`}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {isEmpty ? (
+        <p className="font-mono text-[9px] text-gray-400 uppercase tracking-wider px-1 py-2">
+          {showArchived ? 'Nenhuma conversa arquivada' : 'Nenhuma conversa'}
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {!showArchived && (groups.pinned.length > 0 || draggingId) && (
+            <section {...dropProps({ kind: 'pinned' })} className={`rounded-sm ${dropHighlight({ kind: 'pinned' })}`} aria-label="Fixadas">
+              <h4 className={`${sectionLabelClass} text-gray-400 px-1 mb-1 flex items-center gap-1`}>
+                <Pin size={10} /> Fixadas
+              </h4>
+              <ul className="space-y-0.5">{groups.pinned.map(renderConversation)}</ul>
+            </section>
+          )}
+
+          {groups.folders.map(folder => {
+            const target: DropTarget = { kind: 'folder', name: folder.name };
+            const isCollapsed = collapsedFolders.has(folder.name);
+            return (
+              <section key={folder.name} {...dropProps(target)} className={`rounded-sm ${dropHighlight(target)}`} aria-label={`Pasta ${folder.name}`}>
+                <button
+                  type="button"
+                  onClick={() => toggleFolder(folder.name)}
+                  aria-expanded={!isCollapsed}
+                  className="w-full flex items-center gap-1 px-1 mb-1 text-text-secondary hover:text-black"
+                >
+                  <ChevronDown size={10} className={`transition-transform ${isCollapsed ? '-rotate-90' : ''}`} />
+                  <Folder size={11} />
+                  <span className={`${sectionLabelClass} truncate`}>{folder.name}</span>
+                  <span className="ml-auto font-mono text-[9px] text-gray-400">{folder.conversations.length}</span>
+                </button>
+                {!isCollapsed && (
+                  folder.conversations.length > 0 ? (
+                    <ul className="space-y-0.5 ml-2">{folder.conversations.map(renderConversation)}</ul>
+                  ) : (
+                    <p className="ml-5 font-mono text-[9px] text-gray-400">Arraste conversas para cá</p>
+                  )
+                )}
+              </section>
+            );
+          })}
+
+          {(groups.unfiled.length > 0 || (draggingId && !showArchived)) && (
+            <section {...dropProps({ kind: 'unfiled' })} className={`rounded-sm ${dropHighlight({ kind: 'unfiled' })}`} aria-label="Sem pasta">
+              {groups.folders.length > 0 && (
+                <h4 className={`${sectionLabelClass} text-gray-400 px-1 mb-1`}>Sem pasta</h4>
+              )}
+              <ul className="space-y-0.5">{groups.unfiled.map(renderConversation)}</ul>
+            </section>
+          )}
+
+          {!showArchived && draggingId && (
+            <section
+              {...dropProps({ kind: 'archive' })}
+              className={`rounded-sm border border-dashed border-gray-300 px-2 py-1.5 flex items-center gap-1 text-gray-400 ${dropHighlight({ kind: 'archive' })}`}
+              aria-label="Arquivar"
+            >
+              <Archive size={11} />
+              <span className={sectionLabelClass}>Solte para arquivar</span>
+            </section>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
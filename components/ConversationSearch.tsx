@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { Search, X, SlidersHorizontal } from 'lucide-react';
+import { ChatModelInfo } from '../types';
+import { SearchFilters, SearchResult, SearchSnippet } from '../lib/conversationSearch';
+
+interface ConversationSearchProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  filters: SearchFilters;
+  onFiltersChange: (filters: SearchFilters) => void;
+  results: readonly SearchResult[];
+  /** Chat models offered in the model filter */
+  models: readonly ChatModelInfo[];
+  onSelect: (result: SearchResult) => void;
+  onClear: () => void;
+}
+
+const inputClass = 'w-full bg-gray-50 border border-gray-200 rounded-sm py-1.5 px-2 font-mono text-xs text-text-primary placeholder-gray-400 focus:ring-0 focus:border-black';
+const labelClass = 'block font-mono text-[9px] uppercase tracking-widest text-text-secondary mb-1';
+
+// <input type="date"> works in local calendar days
+const toDateInput = (timestamp?: number) => {
+  if (timestamp === undefined) return '';
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+const fromDateInput = (value: string, endOfDay: boolean) =>
+  value ? new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00'}`).getTime() : undefined;
+
+const hasFilters = (filters: SearchFilters) =>
+  !!filters.modelId || filters.from !== undefined || filters.to !== undefined || !!filters.hasAttachments;
+
+/**
+ * Snippet text with the matched words marked
+ */
+const HighlightedSnippet: React.FC<{ snippet: SearchSnippet }> = ({ snippet }) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  snippet.highlights.forEach(([start, end], i) => {
+    if (start < cursor) return;
+    parts.push(snippet.text.slice(cursor, start));
+    parts.push(<mark key={i} className="bg-amber-100 text-text-primary rounded-sm">{snippet.text.slice(start, end)}</mark>);
+    cursor = end;
+  });
+  parts.push(snippet.text.slice(cursor));
+  return <>{parts}</>;
+};
+
+/**
+ * Sidebar search over every conversation's title and messages, with optional filters
+ */
+export const ConversationSearch: React.FC<ConversationSearchProps> = ({
+  query,
+  onQueryChange,
+  filters,
+  onFiltersChange,
+  results,
+  models,
+  onSelect,
+  onClear
+}) => {
+  const [showFilters, setShowFilters] = useState(false);
+  const isActive = query.trim().length > 0;
+
+  return (
+    <div>
+      <div className="flex items-center gap-1">
+        <div className="relative flex-1">
+          <Search size={12} className="absolute left-2 top-1/2 -translate-y-1/2 text-gray-400" />
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => onQueryChange(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Escape') onClear(); }}
+            placeholder="Buscar conversas"
+            aria-label="Buscar conversas"
+            className={`${inputClass} pl-7 pr-6`}
+          />
+          {(isActive || hasFilters(filters)) && (
+            <button
+              type="button"
+              onClick={onClear}
+              aria-label="Limpar busca"
+              className="absolute right-1.5 top-1/2 -translate-y-1/2 text-gray-400 hover:text-black"
+            >
+              <X size={12} />
+            </button>
+          )}
+        </div>
+        <button
+          type="button"
+          onClick={() => setShowFilters(prev => !prev)}
+          aria-expanded={showFilters}
+          aria-label="Filtros de busca"
+          className={`p-1.5 border rounded-sm transition-colors ${hasFilters(filters)
+            ? 'border-black text-black'
+            : 'border-gray-200 text-text-secondary hover:text-black'
+            }`}
+        >
+          <SlidersHorizontal size={12} />
+        </button>
+      </div>
+
+      {showFilters && (
+        <div className="mt-2 space-y-2">
+          <label className="block">
+            <span className={labelClass}>Modelo</span>
+            <select
+              value={filters.modelId ?? ''}
+              onChange={(e) => onFiltersChange({ ...filters, modelId: e.target.value || undefined })}
+              aria-label="Filtrar por modelo"
+              className={inputClass}
+            >
+              <option value="">Todos</option>
+              {models.map(model => (
+                <option key={model.id} value={model.id}>{model.displayName}</option>
+              ))}
+            </select>
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="block">
+              <span className={labelClass}>De</span>
+              <input
+                type="date"
+                value={toDateInput(filters.from)}
+                onChange={(e) => onFiltersChange({ ...filters, from: fromDateInput(e.target.value, false) })}
+                aria-label="Data inicial"
+                className={inputClass}
+              />
+            </label>
+            <label className="block">
+              <span className={labelClass}>Até</span>
+              <input
+                type="date"
+                value={toDateInput(filters.to)}
+                onChange={(e) => onFiltersChange({ ...filters, to: fromDateInput(e.target.value, true) })}
+                aria-label="Data final"
+                className={inputClass}
+              />
+            </label>
+          </div>
+          <label className="flex items-center gap-2 font-mono text-[9px] uppercase tracking-widest text-text-secondary">
+            <input
+              type="checkbox"
+              checked={!!filters.hasAttachments}
+              onChange={(e) => onFiltersChange({ ...filters, hasAttachments: e.target.checked || undefined })}
+            />
+            Com anexos
+          </label>
+        </div>
+      )}
+
+      {isActive && (
+        <div className="mt-2 max-h-64 overflow-y-auto scrollbar-thin" data-testid="search-results">
+          {results.length === 0 ? (
+            <p className="font-mono text-[9px] text-gray-400 uppercase tracking-wider px-1 py-2">
+              Nenhum resultado
+            </p>
+          ) : (
+            <ul className="space-y-1">
+              {results.map(result => (
+                <li key={`${result.conversationId}:${result.messageId ?? 'title'}`}>
+                  <button
+                    type="button"
+                    onClick={() => onSelect(result)}
+                    className="w-full text-left px-2 py-1.5 rounded-sm border border-transparent hover:bg-gray-50 hover:border-gray-200 transition-colors"
+                  >
+                    <span className="flex justify-between gap-2 font-mono text-[9px] uppercase tracking-widest text-text-secondary">
+                      <span className="truncate">{result.conversationTitle}</span>
+                      <span className="flex-shrink-0 text-gray-400">
+                        {result.messageId === null ? 'Título' : result.role === 'user' ? 'Você' : 'IA'}
+                      </span>
+                    </span>
+                    <span className="block text-xs text-text-primary break-words line-clamp-3">
+                      <HighlightedSnippet snippet={result.snippet} />
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
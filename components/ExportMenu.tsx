@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { Download } from 'lucide-react';
+import { ExportFormat } from '../lib/conversationExport';
+
+interface ExportMenuProps {
+  /** Accessible name of the toggle (e.g. "Exportar conversa") */
+  label: string;
+  /** Show the label next to the icon instead of only as a tooltip */
+  showLabel?: boolean;
+  disabled?: boolean;
+  onExport: (format: ExportFormat) => void;
+}
+
+const FORMATS: ReadonlyArray<{ format: ExportFormat; label: string; hint: string }> = [
+  { format: 'markdown', label: 'Markdown', hint: '.md' },
+  { format: 'json', label: 'JSON', hint: 'completo, reimportável' },
+  { format: 'html', label: 'HTML', hint: 'página única' }
+];
+
+/**
+ * Download button with a format picker
+ */
+export const ExportMenu: React.FC<ExportMenuProps> = ({ label, showLabel = false, disabled = false, onExport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative" onKeyDown={(e) => { if (e.key === 'Escape') setIsOpen(false); }}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(prev => !prev)}
+        disabled={disabled}
+        aria-label={label}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        title={label}
+        className={showLabel
+          ? 'flex items-center gap-1.5 px-2 py-1.5 rounded-sm text-text-secondary hover:text-black hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed transition-colors'
+          : 'p-0.5 text-gray-400 hover:text-black disabled:opacity-40 disabled:cursor-not-allowed transition-colors'}
+      >
+        <Download size={showLabel ? 14 : 13} />
+        {showLabel && <span className="font-mono text-[10px] uppercase tracking-widest">Exportar</span>}
+      </button>
+
+      {isOpen && (
+        <div
+          role="menu"
+          aria-label={label}
+          className="absolute right-0 top-full mt-1 z-40 w-48 bg-white border border-gray-200 rounded-sm shadow-lg py-1"
+        >
+          {FORMATS.map(({ format, label: formatLabel, hint }) => (
+            <button
+              key={format}
+              type="button"
+              role="menuitem"
+              onClick={() => {
+                setIsOpen(false);
+                onExport(format);
+              }}
+              className="w-full flex items-baseline justify-between gap-2 px-3 py-1.5 text-left hover:bg-gray-50"
+            >
+              <span className="font-mono text-[10px] uppercase tracking-widest text-text-primary">{formatLabel}</span>
+              <span className="font-mono text-[9px] text-gray-400">{hint}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
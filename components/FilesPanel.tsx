@@ -0,0 +1,111 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ChevronDown, HardDrive, Trash2 } from 'lucide-react';
+import { StoredFile } from '../types';
+import { deleteFile, FileUsage, listFiles } from '../lib/apiClient';
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Attachments stored on the server, with quota usage and delete to free space
+ * Files are also freed automatically when the messages referencing them are deleted.
+ */
+export const FilesPanel: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [files, setFiles] = useState<StoredFile[]>([]);
+  const [usage, setUsage] = useState<FileUsage | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await listFiles();
+      setFiles(result.files);
+      setUsage(result.usage);
+    } catch (err) {
+      console.error('[FilesPanel] Failed to load files:', err);
+      setError('Não foi possível carregar os arquivos');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) void load();
+  }, [isOpen, load]);
+
+  const handleDelete = async (file: StoredFile) => {
+    try {
+      await deleteFile(file.id);
+      setFiles(prev => prev.filter(f => f.id !== file.id));
+      setUsage(prev => prev && { ...prev, bytes: Math.max(0, prev.bytes - file.size) });
+    } catch (err) {
+      console.error('[FilesPanel] Failed to delete file:', err);
+      setError('Não foi possível excluir o arquivo');
+    }
+  };
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={() => setIsOpen(prev => !prev)}
+        className="w-full flex items-center justify-between text-text-secondary hover:text-black transition-colors"
+        aria-expanded={isOpen}
+      >
+        <span className="flex items-center gap-2">
+          <HardDrive size={14} />
+          <span className="font-mono text-[9px] uppercase tracking-widest">Arquivos</span>
+        </span>
+        <ChevronDown size={14} className={`transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 space-y-2">
+          {usage && (
+            <p className="font-mono text-[9px] uppercase tracking-widest text-text-secondary" data-testid="file-usage">
+              {formatBytes(usage.bytes)} de {formatBytes(usage.quotaBytes)}
+            </p>
+          )}
+
+          <p className="font-mono text-[9px] text-gray-400">
+            Excluir libera espaço; mensagens com o anexo deixam de abri-lo.
+          </p>
+
+          {error && (
+            <p className="font-sans text-xs text-red-600">{error}</p>
+          )}
+
+          {!error && files.length === 0 && !isLoading && (
+            <p className="font-mono text-[9px] text-gray-400 uppercase tracking-wider">Nenhum arquivo</p>
+          )}
+
+          <ul className="max-h-48 overflow-y-auto space-y-1">
+            {files.map(file => (
+              <li key={file.id} className="flex items-center gap-1 bg-gray-50 border border-gray-200 rounded-sm px-2 py-1.5">
+                <span className="flex-1 min-w-0">
+                  <span className="block text-xs text-text-primary truncate" title={file.name}>{file.name}</span>
+                  <span className="font-mono text-[9px] text-text-secondary">{formatBytes(file.size)}</span>
+                </span>
+                <button
+                  type="button"
+                  onClick={() => void handleDelete(file)}
+                  aria-label={`Excluir arquivo ${file.name}`}
+                  className="p-1 text-gray-400 hover:text-black transition-colors flex-shrink-0"
+                >
+                  <Trash2 size={12} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -92,6 +92,13 @@ const CodeBlock = ({ language, value }: CodeBlockProps) => {
   );
 };
 
+// Shared with the HTML export (components/ConversationExportDocument.tsx) so both render the same subset
+export const MARKDOWN_SAFETY = {
+  skipHtml: true,
+  disallowedElements: ['script', 'iframe', 'object', 'embed'],
+  unwrapDisallowed: true
+};
+
 interface MarkdownRendererProps {
   content: string;
   className?: string;
@@ -112,9 +119,7 @@ export const MarkdownRenderer = React.memo(({ content, className = '' }: Markdow
     <Suspense fallback={<div className={className}>{content}</div>}>
       <div className={className}>
         <ReactMarkdown
-          skipHtml={true}
-          disallowedElements={['script', 'iframe', 'object', 'embed']}
-          unwrapDisallowed={true}
+          {...MARKDOWN_SAFETY}
           components={{
             code(props) {
               const { children, className, ...rest } = props;
@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { Bookmark, ChevronDown, Plus, PinOff, X } from 'lucide-react';
+import { MemoryNote, Message } from '../types';
+
+interface MemoryPanelProps {
+  /** Pinned messages on the branch being shown (the ones sent with the next message) */
+  pinnedMessages: readonly Message[];
+  notes: readonly MemoryNote[];
+  /** Notes belong to a conversation, so they can only be added once one is open */
+  disabled: boolean;
+  onUnpin: (messageId: string) => void;
+  onAddNote: (text: string) => void;
+  onRemoveNote: (noteId: string) => void;
+}
+
+// Mirrors the server's limits (server/src/routes/conversations.ts)
+const MAX_NOTES = 50;
+const MAX_NOTE_LENGTH = 2000;
+const SNIPPET_LENGTH = 80;
+
+const actionClass = 'p-1 text-gray-400 hover:text-black transition-colors flex-shrink-0';
+
+const snippet = (content: string) =>
+  content.length > SNIPPET_LENGTH ? `${content.substring(0, SNIPPET_LENGTH)}...` : content;
+
+/**
+ * Conversation memory: pinned messages and free-form notes that are always kept in the
+ * model's context, even when older history is trimmed
+ */
+export const MemoryPanel: React.FC<MemoryPanelProps> = ({
+  pinnedMessages,
+  notes,
+  disabled,
+  onUnpin,
+  onAddNote,
+  onRemoveNote
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState('');
+  const count = pinnedMessages.length + notes.length;
+  const canAdd = !disabled && draft.trim().length > 0 && notes.length < MAX_NOTES;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canAdd) return;
+    onAddNote(draft.trim());
+    setDraft('');
+  };
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={() => setIsOpen(prev => !prev)}
+        className="w-full flex items-center justify-between text-text-secondary hover:text-black transition-colors"
+        aria-expanded={isOpen}
+      >
+        <span className="flex items-center gap-2">
+          <Bookmark size={14} />
+          <span className="font-mono text-[9px] uppercase tracking-widest">Memória</span>
+          {count > 0 && (
+            <span className="font-mono text-[8px] uppercase tracking-widest px-1.5 py-0.5 bg-gray-100 border border-gray-200 rounded-sm">
+              {count}
+            </span>
+          )}
+        </span>
+        <ChevronDown size={14} className={`transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 space-y-3">
+          {disabled ? (
+            <p className="font-mono text-[9px] text-gray-400 uppercase tracking-wider">
+              Disponível após iniciar a conversa
+            </p>
+          ) : (
+            <>
+              <div>
+                <h4 className="font-mono text-[9px] uppercase tracking-widest text-text-secondary mb-1">
+                  Mensagens fixadas
+                </h4>
+                {pinnedMessages.length === 0 ? (
+                  <p className="font-mono text-[9px] text-gray-400">Fixe mensagens pelo ícone de alfinete.</p>
+                ) : (
+                  <ul className="space-y-1" data-testid="pinned-messages">
+                    {pinnedMessages.map(msg => (
+                      <li key={msg.id} className="flex items-start gap-1 bg-gray-50 border border-gray-200 rounded-sm px-2 py-1.5">
+                        <span className="flex-1 min-w-0 text-xs text-text-primary break-words" title={msg.content}>
+                          <span className="font-mono text-[9px] uppercase tracking-widest text-gray-400 mr-1">
+                            {msg.role === 'user' ? 'Você' : 'IA'}
+                          </span>
+                          {snippet(msg.content)}
+                        </span>
+                        <button
+                          type="button"
+                          onClick={() => onUnpin(msg.id)}
+                          aria-label="Desafixar mensagem"
+                          className={actionClass}
+                        >
+                          <PinOff size={12} />
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              <div>
+                <h4 className="font-mono text-[9px] uppercase tracking-widest text-text-secondary mb-1">
+                  Notas
+                </h4>
+                {notes.length > 0 && (
+                  <ul className="space-y-1 mb-2" data-testid="memory-notes">
+                    {notes.map(note => (
+                      <li key={note.id} className="flex items-start gap-1 bg-gray-50 border border-gray-200 rounded-sm px-2 py-1.5">
+                        <span className="flex-1 min-w-0 text-xs text-text-primary break-words whitespace-pre-wrap">
+                          {note.text}
+                        </span>
+                        <button
+                          type="button"
+                          onClick={() => onRemoveNote(note.id)}
+                          aria-label="Remover nota"
+                          className={actionClass}
+                        >
+                          <X size={12} />
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                <form onSubmit={handleSubmit} className="flex items-start gap-1">
+                  <textarea
+                    value={draft}
+                    rows={2}
+                    maxLength={MAX_NOTE_LENGTH}
+                    placeholder="Ex.: o projeto usa PostgreSQL 16"
+                    aria-label="Nova nota"
+                    onChange={(e) => setDraft(e.target.value)}
+                    className="flex-1 bg-gray-50 border border-gray-200 rounded-sm py-1.5 px-2 font-mono text-xs text-text-primary placeholder-gray-400 focus:ring-0 focus:border-black resize-y"
+                  />
+                  <button
+                    type="submit"
+                    disabled={!canAdd}
+                    aria-label="Adicionar nota"
+                    className="p-1.5 border border-gray-200 rounded-sm text-text-secondary hover:text-black hover:border-black disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                  >
+                    <Plus size={12} />
+                  </button>
+                </form>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,213 @@
+import React, { useState, useEffect } from 'react';
+import { SlidersHorizontal, ChevronDown, RotateCcw } from 'lucide-react';
+import { ContextStrategy, ModelParamLimits, ModelParams } from '../types';
+import { hasModelParams } from '../lib/modelParams';
+
+interface ModelParamsPanelProps {
+  params: ModelParams;
+  /** Limits of the conversation's model (bounds the inputs) */
+  limits?: ModelParamLimits;
+  onChange: (params: ModelParams) => void;
+  /** How older messages are handled once the history outgrows the model's context window */
+  contextStrategy?: ContextStrategy;
+  onContextStrategyChange: (strategy: ContextStrategy) => void;
+}
+
+const CONTEXT_STRATEGY_OPTIONS: { value: ContextStrategy; label: string }[] = [
+  { value: 'keep_pinned', label: 'Manter fixadas' },
+  { value: 'drop_oldest', label: 'Descartar antigas' },
+  { value: 'summarize', label: 'Resumir antigas' }
+];
+
+interface ParamFieldProps {
+  label: string;
+  hint: string;
+  value: number | undefined;
+  min: number;
+  max: number;
+  step: number;
+  integer?: boolean;
+  onChange: (value: number | undefined) => void;
+}
+
+/**
+ * Numeric setting where an empty field means "provider default"
+ * Keeps the raw text locally so partial input ("0.") isn't fought by the parent state;
+ * only valid in-range values are committed.
+ */
+const ParamField: React.FC<ParamFieldProps> = ({ label, hint, value, min, max, step, integer = false, onChange }) => {
+  const [text, setText] = useState(value === undefined ? '' : String(value));
+
+  useEffect(() => {
+    setText(value === undefined ? '' : String(value));
+  }, [value]);
+
+  const parsed = text.trim() === '' ? undefined : Number(text);
+  const isValid = parsed === undefined
+    || (Number.isFinite(parsed) && parsed >= min && parsed <= max && (!integer || Number.isInteger(parsed)));
+
+  const handleChange = (next: string) => {
+    setText(next);
+    const nextValue = next.trim() === '' ? undefined : Number(next);
+    if (nextValue === undefined) {
+      onChange(undefined);
+    } else if (Number.isFinite(nextValue) && nextValue >= min && nextValue <= max && (!integer || Number.isInteger(nextValue))) {
+      onChange(nextValue);
+    }
+  };
+
+  return (
+    <label className="block">
+      <span className="flex justify-between font-mono text-[9px] uppercase tracking-widest text-text-secondary mb-1">
+        <span>{label}</span>
+        <span className="text-gray-400">{hint}</span>
+      </span>
+      <input
+        type="number"
+        inputMode="decimal"
+        value={text}
+        min={min}
+        max={max}
+        step={step}
+        placeholder="Padrão"
+        aria-label={label}
+        aria-invalid={!isValid}
+        onChange={(e) => handleChange(e.target.value)}
+        className={`w-full bg-gray-50 border rounded-sm py-1.5 px-2 font-mono text-xs text-text-primary placeholder-gray-400 focus:ring-0 ${isValid
+          ? 'border-gray-200 focus:border-black'
+          : 'border-red-300 focus:border-red-500'
+          }`}
+      />
+    </label>
+  );
+};
+
+/**
+ * Per-conversation sampling settings (temperature, max tokens, top P, penalties) and
+ * long-history handling
+ */
+export const ModelParamsPanel: React.FC<ModelParamsPanelProps> = ({
+  params,
+  limits,
+  onChange,
+  contextStrategy = 'keep_pinned',
+  onContextStrategyChange
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const isCustomised = hasModelParams(params);
+
+  const setParam = (key: keyof ModelParams) => (value: number | undefined) => {
+    onChange({ ...params, [key]: value });
+  };
+
+  const maxTemperature = limits?.maxTemperature ?? 2;
+  const maxOutputTokens = limits?.maxOutputTokens ?? 4096;
+  const supportsPenalties = limits?.supportsPenalties ?? true;
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={() => setIsOpen(prev => !prev)}
+        className="w-full flex items-center justify-between text-text-secondary hover:text-black transition-colors"
+        aria-expanded={isOpen}
+      >
+        <span className="flex items-center gap-2">
+          <SlidersHorizontal size={14} />
+          <span className="font-mono text-[9px] uppercase tracking-widest">Parâmetros</span>
+          {isCustomised && (
+            <span className="font-mono text-[8px] uppercase tracking-widest px-1.5 py-0.5 bg-gray-100 border border-gray-200 rounded-sm">
+              Ajustado
+            </span>
+          )}
+        </span>
+        <ChevronDown size={14} className={`transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 space-y-3">
+          <ParamField
+            label="Temperatura"
+            hint={`0 – ${maxTemperature}`}
+            value={params.temperature}
+            min={0}
+            max={maxTemperature}
+            step={0.1}
+            onChange={setParam('temperature')}
+          />
+          <ParamField
+            label="Máx. tokens"
+            hint={`1 – ${maxOutputTokens.toLocaleString('pt-BR')}`}
+            value={params.max_tokens}
+            min={1}
+            max={maxOutputTokens}
+            step={1}
+            integer
+            onChange={setParam('max_tokens')}
+          />
+          <ParamField
+            label="Top P"
+            hint="0 – 1"
+            value={params.top_p}
+            min={0}
+            max={1}
+            step={0.05}
+            onChange={setParam('top_p')}
+          />
+          {supportsPenalties ? (
+            <>
+              <ParamField
+                label="Penalidade de frequência"
+                hint="-2 – 2"
+                value={params.frequency_penalty}
+                min={-2}
+                max={2}
+                step={0.1}
+                onChange={setParam('frequency_penalty')}
+              />
+              <ParamField
+                label="Penalidade de presença"
+                hint="-2 – 2"
+                value={params.presence_penalty}
+                min={-2}
+                max={2}
+                step={0.1}
+                onChange={setParam('presence_penalty')}
+              />
+            </>
+          ) : (
+            <p className="font-mono text-[9px] text-gray-400 uppercase tracking-wider">
+              Penalidades não suportadas por este modelo
+            </p>
+          )}
+
+          <label className="block">
+            <span className="block font-mono text-[9px] uppercase tracking-widest text-text-secondary mb-1">
+              Histórico longo
+            </span>
+            <select
+              value={contextStrategy}
+              aria-label="Histórico longo"
+              onChange={(e) => onContextStrategyChange(e.target.value as ContextStrategy)}
+              className="w-full bg-gray-50 border border-gray-200 rounded-sm py-1.5 px-2 font-mono text-xs text-text-primary focus:border-black focus:ring-0"
+            >
+              {CONTEXT_STRATEGY_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+
+          <button
+            type="button"
+            onClick={() => onChange({})}
+            disabled={!isCustomised}
+            className="flex items-center gap-1.5 font-mono text-[9px] uppercase tracking-widest text-text-secondary hover:text-black disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <RotateCcw size={10} />
+            Restaurar padrões
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
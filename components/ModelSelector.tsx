@@ -1,7 +1,9 @@
 import React from 'react';
 import { ChevronLeft, ChevronRight, Palette } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { FREE_MODELS, PAID_MODELS, ModelInfo } from '../config/models';
+import { useModelCatalogue } from '../hooks/useModelCatalogue';
+import { useModelStatus } from '../hooks/useModelStatus';
+import { ChatModelInfo, ModelRates, ModelStatusEntry } from '../types';
 
 interface ModelSelectorProps {
   selectedModel: string | null;
@@ -11,6 +13,48 @@ interface ModelSelectorProps {
   onMediaClick?: () => void;
 }
 
+/**
+ * Credits per 1K tokens, compact (e.g. 4.5K)
+ */
+const formatRate = (per1M: number): string =>
+  new Intl.NumberFormat('pt-BR', { notation: 'compact', maximumFractionDigits: 2 }).format(per1M / 1000);
+
+const renderRates = (rates: ModelRates, isSelected: boolean) => (
+  <div
+    data-testid="model-rates"
+    className={`mt-1 text-[10px] font-mono ${isSelected ? 'text-gray-400' : 'text-text-secondary'}`}
+    title="Créditos por 1K tokens (multiplicador incluído)"
+  >
+    {rates.inputPer1M === 0 && rates.outputPer1M === 0
+      ? 'Sem custo'
+      : `ENT ${formatRate(rates.inputPer1M)} · SAÍ ${formatRate(rates.outputPer1M)} · CACHE ${formatRate(rates.cachedInputPer1M)} /1K`}
+  </div>
+);
+
+const STATUS_STYLES: Record<ModelStatusEntry['status'], { dot: string; label: string }> = {
+  operational: { dot: 'bg-green-500', label: 'Operacional' },
+  degraded: { dot: 'bg-yellow-500', label: 'Instável - falhas recentes' },
+  unavailable: { dot: 'bg-red-500', label: 'Indisponível - usando alternativas' }
+};
+
+const renderStatus = (entry: ModelStatusEntry | undefined) => {
+  if (!entry) return null;
+  const style = STATUS_STYLES[entry.status];
+  const retry = entry.retryAt
+    ? ` (nova tentativa às ${new Date(entry.retryAt).toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })})`
+    : '';
+
+  return (
+    <span
+      data-testid="model-status"
+      data-status={entry.status}
+      title={`${style.label}${retry}`}
+      aria-label={style.label}
+      className={`w-1.5 h-1.5 rounded-full flex-shrink-0 ${style.dot}`}
+    />
+  );
+};
+
 export const ModelSelector: React.FC<ModelSelectorProps> = ({
   selectedModel,
   onModelChange,
@@ -19,15 +63,20 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({
   onMediaClick
 }) => {
   const [activeCategory, setActiveCategory] = React.useState<'free' | 'paid' | null>(null);
+  const { catalogue, error } = useModelCatalogue();
+  const statuses = useModelStatus();
+
+  const freeModels = React.useMemo(() => catalogue?.chat.filter(m => m.tier === 'FREE') ?? [], [catalogue]);
+  const paidModels = React.useMemo(() => catalogue?.chat.filter(m => m.tier === 'PAID') ?? [], [catalogue]);
 
   const handleModelSelect = (modelId: string) => {
     onModelChange(modelId);
   };
 
-  const isFreeSelected = selectedModel ? FREE_MODELS.some(m => m.id === selectedModel) : false;
-  const isPaidSelected = selectedModel ? PAID_MODELS.some(m => m.id === selectedModel) : false;
+  const isFreeSelected = selectedModel ? freeModels.some(m => m.id === selectedModel) : false;
+  const isPaidSelected = selectedModel ? paidModels.some(m => m.id === selectedModel) : false;
 
-  const renderModelOption = (model: ModelInfo, isSelected: boolean) => (
+  const renderModelOption = (model: ChatModelInfo, isSelected: boolean) => (
     <button
       key={model.id}
       onClick={() => !disabled && handleModelSelect(model.id)}
@@ -44,12 +93,14 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({
             <span className={`font-sans font-bold text-xs truncate ${isSelected ? 'text-white' : 'text-text-primary'}`}>
               {model.displayName}
             </span>
+            {renderStatus(statuses.get(model.id))}
           </div>
           <div className="flex items-center gap-2">
             <span className={`text-[10px] font-mono ${isSelected ? 'text-gray-400' : 'text-text-secondary'}`}>
               {model.provider}
             </span>
           </div>
+          {renderRates(model.effectivePricing, isSelected)}
         </div>
       </div>
     </button>
@@ -60,7 +111,7 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({
     title: string,
     subtitle: string,
     isSelected: boolean,
-    models: readonly ModelInfo[]
+    models: readonly ChatModelInfo[]
   ) => {
     const currentModelName = isSelected ? models.find(m => m.id === selectedModel)?.displayName : null;
 
@@ -87,7 +138,7 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({
           <div className="flex items-center justify-between mt-1">
             <span className="text-[10px] text-text-secondary">{subtitle}</span>
             <span className="text-[10px] font-mono text-text-secondary bg-gray-100 px-1.5 py-0.5 rounded-sm">
-              {models.length}
+              {catalogue ? models.length : '…'}
             </span>
           </div>
 
@@ -105,7 +156,7 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({
     );
   };
 
-  const renderModelList = (models: readonly ModelInfo[], title: string) => (
+  const renderModelList = (models: readonly ChatModelInfo[], title: string) => (
     <div className="flex flex-col h-full">
       <div className="flex items-center gap-2 mb-4">
         <button
@@ -137,8 +188,12 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({
             transition={{ duration: 0.2 }}
             className="flex flex-col gap-3 h-full overflow-y-auto pt-1"
           >
-            {renderCategoryButton('free', 'Gratuito', 'Uso ilimitado', isFreeSelected, FREE_MODELS)}
-            {renderCategoryButton('paid', 'Premium', 'Alta performance', isPaidSelected, PAID_MODELS)}
+            {renderCategoryButton('free', 'Gratuito', 'Uso ilimitado', isFreeSelected, freeModels)}
+            {renderCategoryButton('paid', 'Premium', 'Alta performance', isPaidSelected, paidModels)}
+
+            {error && (
+              <div className="text-[10px] font-mono text-red-600">{error}</div>
+            )}
 
             {onMediaClick && (
               <button
@@ -168,8 +223,8 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({
             className="h-full"
           >
             {activeCategory === 'free'
-              ? renderModelList(FREE_MODELS, 'Modelos Gratuitos')
-              : renderModelList(PAID_MODELS, 'Premium')
+              ? renderModelList(freeModels, 'Modelos Gratuitos')
+              : renderModelList(paidModels, 'Premium')
             }
           </motion.div>
         )}
@@ -0,0 +1,29 @@
+import React from 'react';
+import { Bot, Code2, PenLine, Briefcase, BookOpen, Brain, Globe, Terminal, LucideIcon } from 'lucide-react';
+import { PersonaIcon as PersonaIconKey } from '../types';
+
+// Icon keys accepted by the server (server/src/routes/personas.ts)
+export const PERSONA_ICONS: Record<PersonaIconKey, { icon: LucideIcon; label: string }> = {
+  bot: { icon: Bot, label: 'Assistente' },
+  code: { icon: Code2, label: 'Código' },
+  pen: { icon: PenLine, label: 'Escrita' },
+  briefcase: { icon: Briefcase, label: 'Negócios' },
+  book: { icon: BookOpen, label: 'Estudo' },
+  brain: { icon: Brain, label: 'Análise' },
+  globe: { icon: Globe, label: 'Idiomas' },
+  terminal: { icon: Terminal, label: 'Sistemas' }
+};
+
+interface PersonaIconProps {
+  icon: PersonaIconKey;
+  size?: number;
+  className?: string;
+}
+
+/**
+ * Renders a persona's icon (unknown keys from older data fall back to the default)
+ */
+export const PersonaIcon: React.FC<PersonaIconProps> = ({ icon, size = 14, className }) => {
+  const Icon = (PERSONA_ICONS[icon] ?? PERSONA_ICONS.bot).icon;
+  return <Icon size={size} className={className} aria-hidden="true" />;
+};
@@ -0,0 +1,382 @@
+import React, { useState } from 'react';
+import { UserRound, ChevronDown, Plus, Pencil, Share2, Trash2, X } from 'lucide-react';
+import { ConversationPersona, ModelParams, Persona, PersonaIcon as PersonaIconKey, PersonaInput } from '../types';
+import { hasModelParams } from '../lib/modelParams';
+import { PersonaIcon, PERSONA_ICONS } from './PersonaIcon';
+
+interface PersonaPanelProps {
+  personas: readonly Persona[];
+  /** Persona of the open (or about to be created) conversation - may no longer be in the library */
+  activePersona: ConversationPersona | null;
+  /** Personas can only be picked before the conversation's first message */
+  locked: boolean;
+  /** Model and settings in use - offered as the defaults of a new persona */
+  currentModel: string;
+  currentParams: ModelParams;
+  onSelect: (persona: Persona | null) => void;
+  onSave: (input: PersonaInput, id?: string) => Promise<unknown>;
+  onRemove: (id: string) => Promise<void>;
+  onShare: (id: string, emails: string[]) => Promise<unknown>;
+}
+
+type PanelMode =
+  | { kind: 'list' }
+  | { kind: 'edit'; persona?: Persona }
+  | { kind: 'share'; persona: Persona };
+
+const MAX_NAME_LENGTH = 60;
+const MAX_SYSTEM_PROMPT_LENGTH = 8000;
+
+const inputClass = 'w-full bg-gray-50 border border-gray-200 rounded-sm py-1.5 px-2 font-mono text-xs text-text-primary placeholder-gray-400 focus:ring-0 focus:border-black';
+const labelClass = 'block font-mono text-[9px] uppercase tracking-widest text-text-secondary mb-1';
+const actionClass = 'p-1 text-gray-400 hover:text-black transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
+interface PersonaEditorProps {
+  persona?: Persona;
+  currentModel: string;
+  currentParams: ModelParams;
+  onSubmit: (input: PersonaInput) => Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * Create/edit form: name, icon, system prompt and (optionally) the current model and settings as defaults
+ */
+const PersonaEditor: React.FC<PersonaEditorProps> = ({ persona, currentModel, currentParams, onSubmit, onCancel }) => {
+  const [name, setName] = useState(persona?.name ?? '');
+  const [icon, setIcon] = useState<PersonaIconKey>(persona?.icon ?? 'bot');
+  const [systemPrompt, setSystemPrompt] = useState(persona?.systemPrompt ?? '');
+  const [useCurrentDefaults, setUseCurrentDefaults] = useState(persona ? !!persona.defaultModel : false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canSubmit = name.trim().length > 0 && systemPrompt.trim().length > 0 && !isSaving;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSubmit({
+        name: name.trim(),
+        icon,
+        systemPrompt,
+        defaultModel: useCurrentDefaults ? currentModel : null,
+        defaultParams: useCurrentDefaults && hasModelParams(currentParams) ? currentParams : null
+      });
+    } catch (err) {
+      setError((err as Error).message || 'Falha ao salvar persona');
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <label className="block">
+        <span className={labelClass}>Nome</span>
+        <input
+          type="text"
+          value={name}
+          maxLength={MAX_NAME_LENGTH}
+          onChange={(e) => setName(e.target.value)}
+          aria-label="Nome da persona"
+          className={inputClass}
+        />
+      </label>
+
+      <div>
+        <span className={labelClass}>Ícone</span>
+        <div className="flex flex-wrap gap-1">
+          {(Object.keys(PERSONA_ICONS) as PersonaIconKey[]).map(key => (
+            <button
+              key={key}
+              type="button"
+              onClick={() => setIcon(key)}
+              aria-label={PERSONA_ICONS[key].label}
+              aria-pressed={icon === key}
+              className={`p-1.5 border rounded-sm transition-colors ${icon === key
+                ? 'bg-black border-black text-white'
+                : 'bg-white border-gray-200 text-text-secondary hover:border-gray-400'
+                }`}
+            >
+              <PersonaIcon icon={key} size={12} />
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <label className="block">
+        <span className={labelClass}>Prompt de sistema</span>
+        <textarea
+          value={systemPrompt}
+          maxLength={MAX_SYSTEM_PROMPT_LENGTH}
+          rows={5}
+          onChange={(e) => setSystemPrompt(e.target.value)}
+          aria-label="Prompt de sistema"
+          className={`${inputClass} resize-y`}
+        />
+      </label>
+
+      <label className="flex items-center gap-2 font-mono text-[9px] uppercase tracking-widest text-text-secondary">
+        <input
+          type="checkbox"
+          checked={useCurrentDefaults}
+          onChange={(e) => setUseCurrentDefaults(e.target.checked)}
+        />
+        Usar modelo e parâmetros atuais
+      </label>
+
+      {error && (
+        <p role="alert" className="font-mono text-[9px] text-red-500">{error}</p>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-2 py-1 font-mono text-[9px] uppercase tracking-widest text-text-secondary hover:text-black"
+        >
+          Cancelar
+        </button>
+        <button
+          type="submit"
+          disabled={!canSubmit}
+          className="px-2 py-1 bg-black text-white rounded-sm font-mono text-[9px] uppercase tracking-widest hover:bg-gray-800 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          Salvar
+        </button>
+      </div>
+    </form>
+  );
+};
+
+interface PersonaShareFormProps {
+  persona: Persona;
+  onSubmit: (emails: string[]) => Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * Edit the teammates a persona is shared with (one email per line or comma-separated)
+ */
+const PersonaShareForm: React.FC<PersonaShareFormProps> = ({ persona, onSubmit, onCancel }) => {
+  const [emails, setEmails] = useState((persona.sharedWith ?? []).map(r => r.email).join('\n'));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSubmit(emails.split(/[\s,;]+/).map(email => email.trim()).filter(Boolean));
+    } catch (err) {
+      setError((err as Error).message || 'Falha ao compartilhar persona');
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <p className="font-mono text-[9px] uppercase tracking-widest text-text-secondary truncate">
+        Compartilhar “{persona.name}”
+      </p>
+      <label className="block">
+        <span className={labelClass}>E-mails da equipe</span>
+        <textarea
+          value={emails}
+          rows={3}
+          placeholder="colega@empresa.com"
+          onChange={(e) => setEmails(e.target.value)}
+          aria-label="E-mails da equipe"
+          className={`${inputClass} resize-y`}
+        />
+      </label>
+
+      {error && (
+        <p role="alert" className="font-mono text-[9px] text-red-500">{error}</p>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-2 py-1 font-mono text-[9px] uppercase tracking-widest text-text-secondary hover:text-black"
+        >
+          Cancelar
+        </button>
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="px-2 py-1 bg-black text-white rounded-sm font-mono text-[9px] uppercase tracking-widest hover:bg-gray-800 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          Salvar
+        </button>
+      </div>
+    </form>
+  );
+};
+
+/**
+ * Persona library: pick the system prompt preset for a new conversation, and manage/share presets
+ */
+export const PersonaPanel: React.FC<PersonaPanelProps> = ({
+  personas,
+  activePersona,
+  locked,
+  currentModel,
+  currentParams,
+  onSelect,
+  onSave,
+  onRemove,
+  onShare
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [mode, setMode] = useState<PanelMode>({ kind: 'list' });
+  const activePersonaId = activePersona?.id ?? null;
+
+  // Deleting an own persona also removes it from recipients' libraries (their conversations keep their copy)
+  const handleRemove = async (persona: Persona) => {
+    try {
+      await onRemove(persona.id);
+    } catch (error) {
+      console.error('[PersonaPanel] Failed to remove persona:', error);
+    }
+  };
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={() => setIsOpen(prev => !prev)}
+        className="w-full flex items-center justify-between text-text-secondary hover:text-black transition-colors"
+        aria-expanded={isOpen}
+      >
+        <span className="flex items-center gap-2 min-w-0">
+          <UserRound size={14} />
+          <span className="font-mono text-[9px] uppercase tracking-widest">Persona</span>
+          {activePersona && (
+            <span className="font-mono text-[8px] uppercase tracking-widest px-1.5 py-0.5 bg-gray-100 border border-gray-200 rounded-sm truncate">
+              {activePersona.name}
+            </span>
+          )}
+        </span>
+        <ChevronDown size={14} className={`transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && mode.kind === 'edit' && (
+        <div className="mt-3">
+          <PersonaEditor
+            persona={mode.persona}
+            currentModel={currentModel}
+            currentParams={currentParams}
+            onSubmit={async (input) => {
+              await onSave(input, mode.persona?.id);
+              setMode({ kind: 'list' });
+            }}
+            onCancel={() => setMode({ kind: 'list' })}
+          />
+        </div>
+      )}
+
+      {isOpen && mode.kind === 'share' && (
+        <div className="mt-3">
+          <PersonaShareForm
+            persona={mode.persona}
+            onSubmit={async (emails) => {
+              await onShare(mode.persona.id, emails);
+              setMode({ kind: 'list' });
+            }}
+            onCancel={() => setMode({ kind: 'list' })}
+          />
+        </div>
+      )}
+
+      {isOpen && mode.kind === 'list' && (
+        <div className="mt-3 space-y-1">
+          {locked && (
+            <p className="font-mono text-[9px] text-gray-400 uppercase tracking-wider mb-2">
+              Persona definida no início da conversa
+            </p>
+          )}
+
+          <button
+            type="button"
+            onClick={() => onSelect(null)}
+            disabled={locked}
+            aria-pressed={!activePersonaId}
+            className={`w-full text-left px-2 py-1.5 rounded-sm font-mono text-[10px] uppercase tracking-widest border transition-colors disabled:cursor-not-allowed ${!activePersonaId
+              ? 'bg-gray-100 border-gray-300 text-text-primary'
+              : 'border-transparent text-text-secondary hover:bg-gray-50'
+              }`}
+          >
+            Nenhuma
+          </button>
+
+          {personas.map(persona => (
+            <div
+              key={persona.id}
+              className={`flex items-center gap-1 rounded-sm border transition-colors ${persona.id === activePersonaId
+                ? 'bg-gray-100 border-gray-300'
+                : 'border-transparent hover:bg-gray-50'
+                }`}
+            >
+              <button
+                type="button"
+                onClick={() => onSelect(persona)}
+                disabled={locked}
+                aria-pressed={persona.id === activePersonaId}
+                title={persona.systemPrompt}
+                className="flex-1 min-w-0 flex items-center gap-2 px-2 py-1.5 text-left disabled:cursor-not-allowed"
+              >
+                <PersonaIcon icon={persona.icon} size={12} className="flex-shrink-0 text-text-secondary" />
+                <span className="min-w-0">
+                  <span className="block text-xs text-text-primary truncate">{persona.name}</span>
+                  {!persona.isOwner && persona.owner && (
+                    <span className="block font-mono text-[9px] text-gray-400 truncate">
+                      de {persona.owner.name}
+                    </span>
+                  )}
+                  {persona.isOwner && persona.sharedWith && persona.sharedWith.length > 0 && (
+                    <span className="block font-mono text-[9px] text-gray-400 truncate">
+                      Compartilhada com {persona.sharedWith.length}
+                    </span>
+                  )}
+                </span>
+              </button>
+
+              {persona.isOwner ? (
+                <>
+                  <button type="button" onClick={() => setMode({ kind: 'edit', persona })} aria-label="Editar persona" className={actionClass}>
+                    <Pencil size={11} />
+                  </button>
+                  <button type="button" onClick={() => setMode({ kind: 'share', persona })} aria-label="Compartilhar persona" className={actionClass}>
+                    <Share2 size={11} />
+                  </button>
+                  <button type="button" onClick={() => handleRemove(persona)} aria-label="Excluir persona" className={actionClass}>
+                    <Trash2 size={11} />
+                  </button>
+                </>
+              ) : (
+                <button type="button" onClick={() => handleRemove(persona)} aria-label="Remover da biblioteca" className={actionClass}>
+                  <X size={11} />
+                </button>
+              )}
+            </div>
+          ))}
+
+          <button
+            type="button"
+            onClick={() => setMode({ kind: 'edit' })}
+            className="flex items-center gap-1.5 pt-2 font-mono text-[9px] uppercase tracking-widest text-text-secondary hover:text-black"
+          >
+            <Plus size={10} />
+            Nova persona
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import { Share2, Copy, Check, Trash2 } from 'lucide-react';
+import { ShareLink, ShareLinkInput } from '../types';
+import { buildShareUrl } from '../lib/shareLinks';
+
+interface SharePanelProps {
+  /** Active links of the conversation being shown */
+  links: readonly ShareLink[];
+  disabled?: boolean;
+  onCreate: (input: ShareLinkInput) => Promise<ShareLink>;
+  onRevoke: (id: string) => Promise<void>;
+}
+
+const EXPIRY_OPTIONS: ReadonlyArray<{ days: number | null; label: string }> = [
+  { days: null, label: 'Nunca' },
+  { days: 1, label: '1 dia' },
+  { days: 7, label: '7 dias' },
+  { days: 30, label: '30 dias' }
+];
+
+const labelClass = 'block font-mono text-[9px] uppercase tracking-widest text-text-secondary mb-1';
+const inputClass = 'w-full bg-gray-50 border border-gray-200 rounded-sm py-1 px-2 font-mono text-[10px] text-text-primary focus:ring-0 focus:border-black';
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleDateString('pt-BR');
+
+/**
+ * One existing link: URL with copy, expiry and revoke
+ */
+const ShareLinkRow: React.FC<{ link: ShareLink; onRevoke: (id: string) => Promise<void> }> = ({ link, onRevoke }) => {
+  const [copied, setCopied] = useState(false);
+  const [isRevoking, setIsRevoking] = useState(false);
+  const url = buildShareUrl(link.id);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.warn('[SharePanel] Clipboard unavailable:', error);
+    }
+  };
+
+  const handleRevoke = async () => {
+    setIsRevoking(true);
+    try {
+      await onRevoke(link.id);
+    } catch (error) {
+      console.error('[SharePanel] Failed to revoke link:', error);
+      setIsRevoking(false);
+    }
+  };
+
+  return (
+    <li className="space-y-1" data-testid="share-link">
+      <div className="flex items-center gap-1">
+        <input
+          type="text"
+          readOnly
+          value={url}
+          aria-label="Link de compartilhamento"
+          onFocus={(e) => e.target.select()}
+          className={inputClass}
+        />
+        <button
+          type="button"
+          onClick={handleCopy}
+          aria-label="Copiar link"
+          title="Copiar link"
+          className="p-1 text-gray-400 hover:text-black transition-colors flex-shrink-0"
+        >
+          {copied ? <Check size={12} /> : <Copy size={12} />}
+        </button>
+        <button
+          type="button"
+          onClick={handleRevoke}
+          disabled={isRevoking}
+          aria-label="Revogar link"
+          title="Revogar link"
+          className="p-1 text-gray-400 hover:text-red-500 disabled:opacity-40 transition-colors flex-shrink-0"
+        >
+          <Trash2 size={12} />
+        </button>
+      </div>
+      <p className="font-mono text-[9px] text-gray-400">
+        {link.messageCount} msgs · {link.expiresAt ? `expira em ${formatDate(link.expiresAt)}` : 'sem expiração'}
+        {link.redactAttachments && ' · anexos ocultos'}
+      </p>
+    </li>
+  );
+};
+
+/**
+ * Header popover that publishes the branch being shown as a read-only link
+ * A link is a snapshot: later messages need a new link.
+ */
+export const SharePanel: React.FC<SharePanelProps> = ({ links, disabled = false, onCreate, onRevoke }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(7);
+  const [redactAttachments, setRedactAttachments] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    setError(null);
+    try {
+      await onCreate({ expiresInDays, redactAttachments });
+    } catch (err) {
+      setError((err as Error).message || 'Falha ao criar link');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div className="relative" onKeyDown={(e) => { if (e.key === 'Escape') setIsOpen(false); }}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(prev => !prev)}
+        disabled={disabled}
+        aria-label="Compartilhar conversa"
+        aria-expanded={isOpen}
+        title="Compartilhar conversa"
+        className="flex items-center gap-1.5 px-2 py-1.5 rounded-sm text-text-secondary hover:text-black hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+      >
+        <Share2 size={14} />
+        <span className="font-mono text-[10px] uppercase tracking-widest">Compartilhar</span>
+      </button>
+
+      {isOpen && (
+        <div
+          role="dialog"
+          aria-label="Compartilhar conversa"
+          className="absolute right-0 top-full mt-1 z-40 w-72 bg-white border border-gray-200 rounded-sm shadow-lg p-3 space-y-3"
+        >
+          <p className="font-mono text-[9px] text-text-secondary leading-relaxed">
+            Qualquer pessoa com o link vê uma cópia somente leitura da conversa como está agora.
+          </p>
+
+          <div>
+            <label htmlFor="share-expiry" className={labelClass}>Expira em</label>
+            <select
+              id="share-expiry"
+              value={expiresInDays ?? ''}
+              onChange={(e) => setExpiresInDays(e.target.value ? Number(e.target.value) : null)}
+              className={inputClass}
+            >
+              {EXPIRY_OPTIONS.map(option => (
+                <option key={option.label} value={option.days ?? ''}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <label className="flex items-center gap-2 font-mono text-[10px] text-text-primary">
+            <input
+              type="checkbox"
+              checked={redactAttachments}
+              onChange={(e) => setRedactAttachments(e.target.checked)}
+            />
+            Ocultar anexos
+          </label>
+
+          {error && (
+            <p role="alert" className="font-mono text-[9px] text-red-500">{error}</p>
+          )}
+
+          <button
+            type="button"
+            onClick={handleCreate}
+            disabled={isCreating}
+            className="w-full py-1.5 bg-black text-white rounded-sm font-mono text-[10px] uppercase tracking-widest hover:bg-gray-800 disabled:opacity-50 transition-colors"
+          >
+            {isCreating ? 'Criando...' : 'Criar link'}
+          </button>
+
+          {links.length > 0 && (
+            <div className="pt-2 border-t border-gray-100">
+              <h4 className={labelClass}>Links ativos</h4>
+              <ul className="space-y-2">
+                {links.map(link => <ShareLinkRow key={link.id} link={link} onRevoke={onRevoke} />)}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
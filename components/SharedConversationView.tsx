@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react';
+import { Eye, Loader2, Link2Off } from 'lucide-react';
+import { SharedConversation } from '../types';
+import { getSharedConversation } from '../lib/apiClient';
+import { ChatMessage } from './ChatMessage';
+
+interface SharedConversationViewProps {
+  token: string;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+
+/**
+ * Public read-only page for a share link (no login; messages render without any actions)
+ */
+export const SharedConversationView: React.FC<SharedConversationViewProps> = ({ token }) => {
+  const [shared, setShared] = useState<SharedConversation | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getSharedConversation(token)
+      .then(result => {
+        if (cancelled) return;
+        setShared(result);
+        document.title = `${result.title} · FIDI.ai`;
+      })
+      .catch(err => {
+        console.warn('[SharedConversationView] Failed to load share:', err);
+        if (!cancelled) setError('Este link é inválido, foi revogado ou expirou.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  return (
+    <div className="min-h-screen bg-page text-text-primary font-sans flex flex-col">
+      <header className="border-b border-gray-200 bg-white shadow-sm h-14 flex items-center justify-between px-4 md:px-6">
+        <a href="/" className="font-display text-lg font-bold tracking-tight">FIDI.ai</a>
+        <span className="flex items-center gap-1.5 font-mono text-[10px] uppercase tracking-widest text-text-secondary">
+          <Eye size={12} /> Somente leitura
+        </span>
+      </header>
+
+      <main className="flex-1 w-full max-w-4xl mx-auto p-4 md:p-8">
+        {error ? (
+          <div className="h-full flex flex-col items-center justify-center text-center py-24 gap-3" role="alert">
+            <Link2Off size={28} className="text-gray-400" />
+            <p className="font-mono text-xs uppercase tracking-widest text-text-secondary">{error}</p>
+          </div>
+        ) : !shared ? (
+          <div className="flex justify-center py-24">
+            <Loader2 size={20} className="animate-spin text-text-secondary" aria-label="Carregando" />
+          </div>
+        ) : (
+          <>
+            <div className="mb-8 pb-4 border-b border-gray-200">
+              <h1 className="font-display text-2xl md:text-3xl font-bold tracking-tight">{shared.title}</h1>
+              <p className="mt-1 font-mono text-[10px] uppercase tracking-widest text-text-secondary">
+                {[
+                  shared.modelId,
+                  shared.personaName,
+                  `Compartilhada em ${formatDate(shared.createdAt)}`,
+                  shared.expiresAt && `Expira em ${formatDate(shared.expiresAt)}`
+                ].filter(Boolean).join(' · ')}
+              </p>
+            </div>
+
+            <div className="space-y-8">
+              {shared.messages.map(msg => (
+                <ChatMessage key={msg.id} msg={msg} currentUser={null} />
+              ))}
+            </div>
+          </>
+        )}
+      </main>
+
+      <footer className="py-4 text-center font-mono text-[9px] text-gray-400 uppercase">
+        FIDI.ai // Conversa compartilhada
+      </footer>
+    </div>
+  );
+};
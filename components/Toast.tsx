@@ -6,9 +6,10 @@ interface ToastProps {
   message: string;
   isVisible: boolean;
   onClose: () => void;
+  title?: string;
 }
 
-export const Toast: React.FC<ToastProps> = ({ message, isVisible, onClose }) => {
+export const Toast: React.FC<ToastProps> = ({ message, isVisible, onClose, title = 'Acesso Restrito' }) => {
   useEffect(() => {
     if (isVisible) {
       const timer = setTimeout(onClose, 4000);
@@ -25,6 +26,7 @@ export const Toast: React.FC<ToastProps> = ({ message, isVisible, onClose }) =>
           animate={{ opacity: 1, x: 0, filter: 'blur(0px)' }}
           exit={{ opacity: 0, x: 50, scale: 0.95 }}
           transition={{ duration: 0.4, ease: [0.22, 1, 0.36, 1] }}
+          role="alert"
           className="fixed top-24 right-6 z-[100] max-w-sm w-full md:w-auto pointer-events-auto"
         >
           <div className="glass-panel p-5 rounded-r-lg border-l-2 border-l-white border-y border-r border-blue-500/20 flex items-start gap-4 shadow-[0_0_40px_rgba(59,130,246,0.1)] bg-black/95 backdrop-blur-xl">
@@ -33,12 +35,13 @@ export const Toast: React.FC<ToastProps> = ({ message, isVisible, onClose }) =>
             </div>
             <div className="flex-1 pr-2">
               <div className="flex items-center justify-between mb-1">
-                <h4 className="font-mono text-xs text-blue-400 uppercase tracking-widest font-bold">Acesso Restrito</h4>
+                <h4 className="font-mono text-xs text-blue-400 uppercase tracking-widest font-bold">{title}</h4>
               </div>
               <p className="font-sans text-sm text-blue-200 leading-relaxed">{message}</p>
             </div>
             <button 
               onClick={onClose} 
+              aria-label="Fechar aviso"
               className="text-blue-500 hover:text-white transition-colors p-1 hover:bg-blue-500/10 rounded-full"
             >
               <X size={16} />
@@ -1,6 +1,125 @@
-import React from 'react';
-import { Zap, TrendingDown, Calendar, AlertTriangle, Crown, Sparkles } from 'lucide-react';
-import { User } from '../types';
+import React, { useState, useEffect, useCallback } from 'react';
+import { Zap, TrendingDown, Calendar, AlertTriangle, Crown, Sparkles, History, ChevronDown } from 'lucide-react';
+import { User, CreditEntryType, CreditLedgerEntry } from '../types';
+import { getCreditHistory } from '../lib/apiClient';
+
+const HISTORY_PAGE_SIZE = 10;
+
+const ENTRY_TYPE_LABELS: Record<CreditEntryType, string> = {
+  usage: 'Uso',
+  grant: 'Bônus',
+  reset: 'Renovação',
+  plan_change: 'Plano'
+};
+
+const formatNumber = (num: number): string => {
+  return num.toLocaleString('pt-BR');
+};
+
+const formatEntryDate = (timestamp: number): string => {
+  return new Date(timestamp).toLocaleString('pt-BR', {
+    day: '2-digit',
+    month: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+interface UsageHistoryPanelProps {
+  // Refetch when the balance changes so new charges show up while the panel is open
+  balance: number;
+}
+
+/**
+ * Paginated credit ledger for the current user, filterable by entry type
+ */
+const UsageHistoryPanel: React.FC<UsageHistoryPanelProps> = ({ balance }) => {
+  const [entries, setEntries] = useState<CreditLedgerEntry[]>([]);
+  const [typeFilter, setTypeFilter] = useState<CreditEntryType | ''>('');
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPage = useCallback(async (offset: number) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const page = await getCreditHistory({
+        limit: HISTORY_PAGE_SIZE,
+        offset,
+        type: typeFilter || undefined
+      });
+      setEntries(prev => (offset === 0 ? page.entries : [...prev, ...page.entries]));
+      setHasMore(page.hasMore);
+    } catch (err) {
+      console.error('[TokenBalance] Failed to load credit history:', err);
+      setError('Não foi possível carregar o histórico');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [typeFilter]);
+
+  useEffect(() => {
+    void loadPage(0);
+  }, [loadPage, balance]);
+
+  return (
+    <div className="space-y-2">
+      <select
+        value={typeFilter}
+        onChange={(e) => setTypeFilter(e.target.value as CreditEntryType | '')}
+        className="w-full px-2 py-1 bg-white border border-gray-200 rounded-sm font-mono text-[10px] uppercase tracking-wider text-text-secondary focus:outline-none focus:border-black"
+        aria-label="Filtrar histórico"
+      >
+        <option value="">Todos</option>
+        {(Object.keys(ENTRY_TYPE_LABELS) as CreditEntryType[]).map(type => (
+          <option key={type} value={type}>{ENTRY_TYPE_LABELS[type]}</option>
+        ))}
+      </select>
+
+      {error && (
+        <p className="font-sans text-xs text-red-600">{error}</p>
+      )}
+
+      {!error && entries.length === 0 && !isLoading && (
+        <p className="font-mono text-[10px] text-text-secondary uppercase tracking-wider">Nenhum registro</p>
+      )}
+
+      <ul className="max-h-64 overflow-y-auto divide-y divide-gray-100">
+        {entries.map(entry => (
+          <li key={entry.id} className="py-2 flex items-start justify-between gap-2">
+            <div className="min-w-0">
+              <p className="font-sans text-xs text-text-primary truncate" title={entry.reason}>{entry.reason}</p>
+              <p className="font-mono text-[9px] text-text-secondary uppercase">
+                {formatEntryDate(entry.timestamp)}
+                {entry.promptTokens !== undefined && entry.completionTokens !== undefined && (
+                  <> · {formatNumber(entry.promptTokens)} in / {formatNumber(entry.completionTokens)} out</>
+                )}
+              </p>
+            </div>
+            <div className="text-right shrink-0">
+              <p className={`font-mono text-xs font-bold ${entry.delta < 0 ? 'text-red-500' : 'text-emerald-600'}`}>
+                {entry.delta > 0 ? '+' : ''}{formatNumber(entry.delta)}
+              </p>
+              <p className="font-mono text-[9px] text-text-secondary">{formatNumber(entry.balanceAfter)}</p>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {hasMore && (
+        <button
+          onClick={() => void loadPage(entries.length)}
+          disabled={isLoading}
+          className="w-full py-1 font-mono text-[10px] uppercase tracking-wider text-text-secondary border border-gray-200 rounded-sm hover:border-black hover:text-black transition-colors disabled:opacity-50"
+        >
+          {isLoading ? 'Carregando...' : 'Carregar mais'}
+        </button>
+      )}
+    </div>
+  );
+};
 
 interface TokenBalanceProps {
   user: User;
@@ -29,9 +148,7 @@ export const TokenBalance: React.FC<TokenBalanceProps> = ({ user, compact = fals
 
   const showLowCreditWarning = creditBalance <= (plan === 'pro' ? 500000 : 50000);
 
-  const formatNumber = (num: number): string => {
-    return num.toLocaleString('pt-BR');
-  };
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
 
   const PlanBadge = () => {
     if (plan === 'pro') {
@@ -112,6 +229,26 @@ export const TokenBalance: React.FC<TokenBalanceProps> = ({ user, compact = fals
         </div>
       </div>
 
+      {/* Usage History */}
+      <div className="pt-2 border-t border-gray-100">
+        <button
+          onClick={() => setIsHistoryOpen(prev => !prev)}
+          className="w-full flex items-center justify-between text-text-secondary hover:text-black transition-colors"
+          aria-expanded={isHistoryOpen}
+        >
+          <span className="flex items-center gap-2">
+            <History size={14} />
+            <span className="font-mono text-[9px] uppercase tracking-widest">Histórico de uso</span>
+          </span>
+          <ChevronDown size={14} className={`transition-transform ${isHistoryOpen ? 'rotate-180' : ''}`} />
+        </button>
+        {isHistoryOpen && (
+          <div className="mt-2">
+            <UsageHistoryPanel balance={creditBalance} />
+          </div>
+        )}
+      </div>
+
       {/* Warning */}
       {isLowBalance && (
         <div className="flex items-center gap-2 p-2 bg-red-50 border border-red-100 rounded-sm">
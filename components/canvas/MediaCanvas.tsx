@@ -42,7 +42,7 @@ const createInitialNodes = (): Node[] => [{
     position: { x: 250, y: 150 },
     data: {
         prompt: '',
-        model: 'black-forest-labs/flux-1.1-pro',
+        model: '', // Catalogue default
         aspectRatio: '1:1',
         resolution: '1080p',
         outputUrl: null,
@@ -83,7 +83,7 @@ export const MediaCanvas: React.FC<MediaCanvasProps> = ({ currentUser, onBack })
             },
             data: {
                 prompt: '',
-                model: 'black-forest-labs/flux-1.1-pro',
+                model: '', // Catalogue default
                 aspectRatio: '1:1',
                 resolution: '1080p',
                 outputUrl: null,
@@ -104,7 +104,7 @@ export const MediaCanvas: React.FC<MediaCanvasProps> = ({ currentUser, onBack })
             },
             data: {
                 prompt: '',
-                model: 'wan-video/wan-2.2-t2v-fast',
+                model: '', // Catalogue default
                 aspectRatio: '16:9',
                 duration: '5s',
                 outputUrl: null,
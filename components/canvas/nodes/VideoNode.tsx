@@ -5,12 +5,13 @@
 import React, { useState, useCallback, memo } from 'react';
 import { NodeProps, Handle, Position } from '@xyflow/react';
 import { Video, Loader2, Download, Settings, Zap } from 'lucide-react';
-import { VIDEO_MODELS, ASPECT_RATIOS, DURATIONS, RESOLUTIONS, getVideoModelById } from '../../../config/mediaModels';
+import { ASPECT_RATIOS, DURATIONS, RESOLUTIONS } from '../../../config/mediaModels';
+import { useModelCatalogue } from '../../../hooks/useModelCatalogue';
 import { generateVideo } from '../../../lib/apiClient';
 
 export interface VideoNodeData {
     prompt: string;
-    model: string;
+    model: string; // Empty = catalogue default
     aspectRatio: string;
     resolution: string;
     duration: string;
@@ -22,7 +23,7 @@ export interface VideoNodeData {
 const VideoNodeComponent: React.FC<NodeProps> = ({ data }) => {
     const nodeData = data as unknown as VideoNodeData;
     const [prompt, setPrompt] = useState(nodeData.prompt || '');
-    const [model, setModel] = useState(nodeData.model || VIDEO_MODELS[0].id);
+    const [model, setModel] = useState(nodeData.model || '');
     const [aspectRatio, setAspectRatio] = useState(nodeData.aspectRatio || '16:9');
     const [resolution, setResolution] = useState(nodeData.resolution || '1080p');
     const [duration, setDuration] = useState(nodeData.duration || '5s');
@@ -31,23 +32,30 @@ const VideoNodeComponent: React.FC<NodeProps> = ({ data }) => {
     const [error, setError] = useState<string | null>(null);
     const [showSettings, setShowSettings] = useState(false);
 
-    const currentModel = getVideoModelById(model) || VIDEO_MODELS[0];
-    const supportedDurations = DURATIONS.filter(d => currentModel.supportsDurations.includes(d.value as '5s' | '10s'));
-    const supportedResolutions = RESOLUTIONS.filter(r => currentModel.supportsResolutions.includes(r.value as '720p' | '1080p'));
+    const { catalogue, error: catalogueError } = useModelCatalogue();
+    const models = catalogue?.video ?? [];
+    // Unknown ids (e.g. removed models on an old node) fall back to the server default
+    const currentModel = models.find(m => m.id === model)
+        ?? models.find(m => m.id === catalogue?.defaults.video)
+        ?? null;
+    const supportedAspectRatios = ASPECT_RATIOS.filter(ar => currentModel?.supportsAspectRatios.includes(ar.value) ?? false);
+    const supportedDurations = DURATIONS.filter(d => currentModel?.supportsDurations.includes(d.value) ?? false);
+    const supportedResolutions = RESOLUTIONS.filter(r => currentModel?.supportsResolutions.includes(r.value) ?? false);
+    const canGenerate = !!prompt.trim() && !isGenerating && !!currentModel;
 
     const handleGenerate = useCallback(async () => {
-        if (!prompt.trim() || isGenerating) return;
+        if (!prompt.trim() || isGenerating || !currentModel) return;
         setIsGenerating(true);
         setError(null);
         try {
-            const url = await generateVideo({ prompt, model, aspectRatio, resolution, duration });
+            const url = await generateVideo({ prompt, model: currentModel.id, aspectRatio, resolution, duration });
             setOutputUrl(url);
         } catch (err) {
             setError(err instanceof Error ? err.message : 'Falha na geração');
         } finally {
             setIsGenerating(false);
         }
-    }, [prompt, model, aspectRatio, resolution, duration, isGenerating]);
+    }, [prompt, currentModel, aspectRatio, resolution, duration, isGenerating]);
 
     return (
         <div className="bg-white border border-black rounded-sm shadow-lg min-w-[300px] overflow-hidden">
@@ -60,7 +68,7 @@ const VideoNodeComponent: React.FC<NodeProps> = ({ data }) => {
                     <span className="text-xs font-mono uppercase tracking-wide font-bold text-text-primary">Vídeo</span>
                 </div>
                 <div className="flex items-center gap-2">
-                    <span className="text-[10px] text-text-secondary font-mono">{currentModel.name}</span>
+                    <span className="text-[10px] text-text-secondary font-mono">{currentModel?.displayName ?? '…'}</span>
                     <button
                         onClick={() => setShowSettings(!showSettings)}
                         className={`p-1 rounded-sm transition-colors ${showSettings ? 'bg-black text-white' : 'text-text-secondary hover:bg-gray-200'}`}
@@ -76,19 +84,24 @@ const VideoNodeComponent: React.FC<NodeProps> = ({ data }) => {
                     <div>
                         <label className="text-[9px] text-text-secondary uppercase tracking-widest font-mono">Modelo</label>
                         <select
-                            value={model}
+                            value={currentModel?.id ?? ''}
                             onChange={(e) => setModel(e.target.value)}
+                            disabled={!catalogue}
                             className="w-full mt-1 px-2 py-1.5 bg-white border border-gray-300 rounded-sm text-xs text-text-primary focus:border-black focus:outline-none font-mono"
                         >
-                            {VIDEO_MODELS.map(m => (
-                                <option key={m.id} value={m.id}>{m.name}</option>
+                            {!catalogue && <option value="">Carregando...</option>}
+                            {models.map(m => (
+                                <option key={m.id} value={m.id}>{m.displayName} · {m.creditCost} créditos</option>
                             ))}
                         </select>
+                        {catalogueError && (
+                            <div className="mt-1 text-[10px] text-red-600 font-mono">{catalogueError}</div>
+                        )}
                     </div>
                     <div>
                         <label className="text-[9px] text-text-secondary uppercase tracking-widest font-mono">Proporção</label>
                         <div className="flex gap-1 mt-1 flex-wrap">
-                            {ASPECT_RATIOS.slice(0, 3).map(ar => (
+                            {supportedAspectRatios.map(ar => (
                                 <button
                                     key={ar.value}
                                     onClick={() => setAspectRatio(ar.value)}
@@ -175,8 +188,8 @@ const VideoNodeComponent: React.FC<NodeProps> = ({ data }) => {
             <div className="px-3 pb-3">
                 <button
                     onClick={handleGenerate}
-                    disabled={!prompt.trim() || isGenerating}
-                    className={`w-full py-2 rounded-sm font-mono text-xs uppercase tracking-wide flex items-center justify-center gap-2 transition-all ${!prompt.trim() || isGenerating
+                    disabled={!canGenerate}
+                    className={`w-full py-2 rounded-sm font-mono text-xs uppercase tracking-wide flex items-center justify-center gap-2 transition-all ${!canGenerate
                         ? 'bg-gray-100 text-gray-400 cursor-not-allowed border border-gray-200'
                         : 'bg-black text-white hover:bg-gray-800'
                         }`}
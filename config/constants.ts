@@ -15,6 +15,23 @@ export const TIMEOUTS = {
 export const FILE_LIMITS = {
   MAX_SIZE: 10 * 1024 * 1024,  // 10MB - Maximum file size
   MAX_SIZE_MB: 10,              // 10MB - For display purposes
+  MAX_TOTAL_SIZE: 20 * 1024 * 1024, // 20MB - All attachments of one message (mirrored in server chat route)
+  MAX_TOTAL_SIZE_MB: 20,        // 20MB - For display purposes
+  MAX_FILES: 10,                // Attachments per message (mirrored in server chat route)
+  // File input accept list (also checked for drops and pastes); documents are turned into text
+  // by the server, which supports the same types (server/src/lib/documentExtraction.ts)
+  ACCEPT: [
+    '.pdf', '.docx', '.xlsx', '.csv', '.tsv', '.txt', '.md', '.markdown', '.log', '.json', '.yaml', '.yml',
+    '.toml', '.ini', '.xml', '.html', '.css', '.scss', '.js', '.jsx', '.mjs', '.cjs', '.ts', '.tsx', '.py',
+    '.rb', '.go', '.rs', '.java', '.kt', '.scala', '.c', '.h', '.cpp', '.hpp', '.cs', '.php', '.swift',
+    '.dart', '.lua', '.r', '.sh', '.sql', '.vue', '.svelte', 'text/*', 'image/*'
+  ].join(','),
+} as const;
+
+// Image attachments are downscaled and re-encoded before upload (see lib/imageProcessing.ts)
+export const IMAGE_UPLOAD = {
+  MAX_DIMENSION: 1568,  // Longest side in px until the model catalogue (ChatModelInfo.maxImageDimension) loads
+  QUALITY: 0.85,        // WebP/JPEG encoder quality (0-1)
 } as const;
 
 // Message Limits
@@ -31,6 +48,36 @@ export const UI = {
   ANIMATION_DURATION: 300,             // Default animation duration (ms)
 } as const;
 
+// Server Sync Configuration
+export const SYNC = {
+  DEBOUNCE_MS: 5000,                   // Wait for edits to settle before pushing to the server
+  MAX_BATCH: 200,                      // Maximum conversations pushed per sync request (server limit)
+  MAX_BATCH_BYTES: 10 * 1024 * 1024,   // Maximum serialized size per sync request (server body limit is 50MB)
+} as const;
+
+// Live Cost Estimate
+export const ESTIMATE = {
+  DEBOUNCE_MS: 600,                    // Wait for typing to pause before asking the server
+} as const;
+
+// Conversation Search
+export const SEARCH = {
+  DEBOUNCE_MS: 200,                    // Wait for typing to pause before searching
+  HIGHLIGHT_MS: 4000,                  // How long a message opened from a result stays highlighted
+} as const;
+
+// Model Status Polling
+export const MODEL_STATUS = {
+  POLL_MS: 60000,                      // Refresh the selector's health indicators every minute
+} as const;
+
+// Chat Stream Resume (after a dropped connection)
+export const STREAM_RESUME = {
+  MAX_ATTEMPTS: 5,                     // Reconnects per reply before giving up
+  INITIAL_DELAY: 1000,                 // First reconnect delay (ms), then exponential backoff
+  MAX_DELAY: 8000,                     // Maximum reconnect delay (ms)
+} as const;
+
 // Retry Configuration
 export const RETRY = {
   MAX_ATTEMPTS: 3,                     // Maximum retry attempts
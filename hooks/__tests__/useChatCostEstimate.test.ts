@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useChatCostEstimate } from '../useChatCostEstimate';
+import { estimateChatCost } from '../../lib/apiClient';
+import { ESTIMATE } from '../../config/constants';
+
+vi.mock('../../lib/apiClient', () => ({
+  estimateChatCost: vi.fn()
+}));
+
+const mockEstimate = {
+  model: 'test-model',
+  inputTokens: 12,
+  maxOutputTokens: 4096,
+  multiplier: 1.5,
+  inputCost: 18,
+  maxOutputCost: 6144,
+  minCredits: 18,
+  maxCredits: 6162
+};
+
+const messages = [{ role: 'user' as const, content: 'Hello' }];
+
+describe('useChatCostEstimate', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.clearAllMocks();
+    vi.mocked(estimateChatCost).mockResolvedValue(mockEstimate);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should not request an estimate when disabled', async () => {
+    const { result } = renderHook(() =>
+      useChatCostEstimate({ model: 'test-model', messages, enabled: false })
+    );
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(ESTIMATE.DEBOUNCE_MS * 2);
+    });
+
+    expect(estimateChatCost).not.toHaveBeenCalled();
+    expect(result.current.estimate).toBeNull();
+  });
+
+  it('should debounce and return the server estimate', async () => {
+    const { result } = renderHook(() =>
+      useChatCostEstimate({ model: 'test-model', messages, enabled: true })
+    );
+
+    expect(result.current.isEstimating).toBe(true);
+    expect(estimateChatCost).not.toHaveBeenCalled();
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(ESTIMATE.DEBOUNCE_MS);
+    });
+
+    expect(estimateChatCost).toHaveBeenCalledTimes(1);
+    expect(estimateChatCost).toHaveBeenCalledWith(
+      { model: 'test-model', systemPrompt: '', messages },
+      expect.any(AbortSignal)
+    );
+    expect(result.current.estimate).toEqual(mockEstimate);
+    expect(result.current.isEstimating).toBe(false);
+  });
+
+  it('should only estimate the latest draft when typing quickly', async () => {
+    const { rerender } = renderHook(
+      ({ content }) => useChatCostEstimate({
+        model: 'test-model',
+        messages: [{ role: 'user', content }],
+        enabled: true
+      }),
+      { initialProps: { content: 'H' } }
+    );
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(ESTIMATE.DEBOUNCE_MS / 2);
+    });
+    rerender({ content: 'Hello' });
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(ESTIMATE.DEBOUNCE_MS);
+    });
+
+    expect(estimateChatCost).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(estimateChatCost).mock.calls[0][0].messages).toEqual([{ role: 'user', content: 'Hello' }]);
+  });
+
+  it('should send the sampling params so max_tokens bounds the estimate', async () => {
+    const params = { max_tokens: 256, temperature: 0.2 };
+
+    renderHook(() =>
+      useChatCostEstimate({ model: 'test-model', messages, params, enabled: true })
+    );
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(ESTIMATE.DEBOUNCE_MS);
+    });
+
+    expect(estimateChatCost).toHaveBeenCalledWith(
+      { model: 'test-model', systemPrompt: '', messages, params },
+      expect.any(AbortSignal)
+    );
+  });
+
+  it('should clear the estimate when the request fails', async () => {
+    vi.mocked(estimateChatCost).mockRejectedValueOnce(new Error('Network error'));
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const { result } = renderHook(() =>
+      useChatCostEstimate({ model: 'test-model', messages, enabled: true })
+    );
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(ESTIMATE.DEBOUNCE_MS);
+    });
+
+    expect(result.current.estimate).toBeNull();
+    expect(result.current.isEstimating).toBe(false);
+    warnSpy.mockRestore();
+  });
+});
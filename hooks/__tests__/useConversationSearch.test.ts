@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useConversationSearch } from '../useConversationSearch';
+import { Conversation } from '../../types';
+import { SEARCH } from '../../config/constants';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const conversations: Conversation[] = [
+  {
+    id: 'deploy',
+    title: 'Deploy na AWS',
+    lastModified: 3 * DAY,
+    modelId: 'anthropic/claude-sonnet-4.5',
+    messages: [
+      { id: 'd1', role: 'user', content: 'Como configuro a região de São Paulo?', timestamp: 2 * DAY },
+      { id: 'd2', role: 'assistant', content: 'Use a região sa-east-1 na configuração do cluster.', timestamp: 2 * DAY + 1000 }
+    ]
+  },
+  {
+    id: 'receita',
+    title: 'Receita de bolo',
+    lastModified: DAY,
+    messages: [
+      {
+        id: 'r1',
+        role: 'user',
+        content: 'Segue a foto da receita',
+        timestamp: DAY,
+        attachments: [{ name: 'receita.png', type: 'image/png', data: 'AAAA' }]
+      },
+      { id: 'r2', role: 'assistant', content: 'A configuração do forno deve ser 180 graus.', timestamp: DAY + 1000 }
+    ]
+  }
+];
+
+describe('useConversationSearch', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const search = (query: string, setup?: (result: ReturnType<typeof useConversationSearch>) => void) => {
+    const hook = renderHook(() => useConversationSearch({ conversations, defaultModel: 'mistralai/devstral-2512:free' }));
+    act(() => {
+      setup?.(hook.result.current);
+      hook.result.current.setQuery(query);
+    });
+    act(() => {
+      vi.advanceTimersByTime(SEARCH.DEBOUNCE_MS);
+    });
+    return hook.result;
+  };
+
+  it('should wait for typing to pause before searching', () => {
+    const { result } = renderHook(() => useConversationSearch({ conversations }));
+
+    act(() => result.current.setQuery('regiao'));
+    expect(result.current.isActive).toBe(true);
+    expect(result.current.results).toEqual([]);
+
+    act(() => {
+      vi.advanceTimersByTime(SEARCH.DEBOUNCE_MS);
+    });
+    expect(result.current.results).toHaveLength(2);
+  });
+
+  it('should match message content ignoring case and accents, by word prefix', () => {
+    const result = search('CONFIGURACAO');
+
+    expect(result.current.results.map(r => r.messageId).sort()).toEqual(['d2', 'r2']);
+    expect(result.current.results[0].snippet.highlights).toHaveLength(1);
+  });
+
+  it('should require every term and rank title matches first', () => {
+    expect(search('regi sao').current.results.map(r => r.messageId)).toEqual(['d1']);
+
+    const result = search('deploy');
+    expect(result.current.results[0]).toMatchObject({ conversationId: 'deploy', messageId: null });
+  });
+
+  it('should mark the matched words in the snippet', () => {
+    const [hit] = search('forno').current.results;
+    const [start, end] = hit.snippet.highlights[0];
+
+    expect(hit.snippet.text.slice(start, end)).toBe('forno');
+  });
+
+  it('should filter by model, date range and attachments', () => {
+    expect(search('configuracao', r => r.setFilters({ modelId: 'mistralai/devstral-2512:free' }))
+      .current.results.map(r => r.messageId)).toEqual(['r2']);
+
+    expect(search('configuracao', r => r.setFilters({ from: 2 * DAY }))
+      .current.results.map(r => r.messageId)).toEqual(['d2']);
+
+    expect(search('configuracao', r => r.setFilters({ hasAttachments: true }))
+      .current.results.map(r => r.conversationId)).toEqual(['receita']);
+  });
+
+  it('should clear the query and filters', () => {
+    const result = search('forno', r => r.setFilters({ hasAttachments: true }));
+    expect(result.current.results).toHaveLength(1);
+
+    act(() => result.current.clear());
+
+    expect(result.current.isActive).toBe(false);
+    expect(result.current.filters).toEqual({});
+    expect(result.current.results).toEqual([]);
+  });
+});
@@ -1,15 +1,29 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { renderHook, act } from '@testing-library/react';
+import { renderHook, act, waitFor } from '@testing-library/react';
 import { useConversations } from '../useConversations';
 import { User, Conversation } from '../../types';
 import * as storageUtils from '../../lib/storageUtils';
+import * as apiClient from '../../lib/apiClient';
 
 // Mock the storage utils
 vi.mock('../../lib/storageUtils', () => ({
   getUserConversations: vi.fn(),
-  setUserConversations: vi.fn()
+  setUserConversations: vi.fn(),
+  getConversationSyncState: vi.fn(),
+  setConversationSyncState: vi.fn()
 }));
 
+// Mock the server sync API
+vi.mock('../../lib/apiClient', () => ({
+  syncConversations: vi.fn()
+}));
+
+// Small sync batches so size-based batching can be exercised with tiny fixtures
+vi.mock('../../config/constants', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../config/constants')>();
+  return { ...actual, SYNC: { ...actual.SYNC, MAX_BATCH_BYTES: 1000 } };
+});
+
 describe('useConversations', () => {
   const mockUser: User = {
     id: 'test-user-123',
@@ -25,6 +39,21 @@ describe('useConversations', () => {
     // Setup default mock return values
     vi.mocked(storageUtils.getUserConversations).mockReturnValue([]);
     vi.mocked(storageUtils.setUserConversations).mockImplementation(() => { });
+    // Stateful, so follow-up syncs see the cursor the previous one stored
+    let syncState: storageUtils.ConversationSyncState = {
+      lastSyncedAt: null,
+      lastPushedAt: null,
+      pendingDeletes: []
+    };
+    vi.mocked(storageUtils.getConversationSyncState).mockImplementation(() => syncState);
+    vi.mocked(storageUtils.setConversationSyncState).mockImplementation((_userId, state) => { syncState = state; });
+    vi.mocked(apiClient.syncConversations).mockResolvedValue({
+      conversations: [],
+      deletedIds: [],
+      accepted: [],
+      rejected: [],
+      serverTime: 1000
+    });
   });
 
   it('should initialize with empty conversations for new user', () => {
@@ -177,6 +206,67 @@ describe('useConversations', () => {
     expect(result.current.conversations[0].title).toBe('Second'); // Unchanged
   });
 
+  it('should organise a conversation into a folder with normalised tags', () => {
+    const { result } = renderHook(() => useConversations(mockUser));
+
+    act(() => {
+      result.current.addConversation({
+        id: 'conv-organise',
+        title: 'Relatório',
+        messages: [],
+        lastModified: Date.now(),
+        pinned: true
+      });
+    });
+
+    act(() => {
+      result.current.organizeConversation('conv-organise', {
+        folder: '  Clientes  ',
+        tags: ['Urgente', 'urgente', ' Q3 ', '']
+      });
+    });
+
+    expect(result.current.conversations[0]).toMatchObject({
+      folder: 'Clientes',
+      tags: ['Urgente', 'Q3'],
+      pinned: true
+    });
+    expect(result.current.conversations[0].updatedAt).toBeDefined();
+
+    // Archiving unpins, and clearing a field removes it
+    act(() => {
+      result.current.organizeConversation('conv-organise', { archived: true, folder: undefined });
+    });
+
+    expect(result.current.conversations[0].archived).toBe(true);
+    expect(result.current.conversations[0]).not.toHaveProperty('pinned');
+    expect(result.current.conversations[0]).not.toHaveProperty('folder');
+  });
+
+  it('should merge imported conversations, keeping newer local copies', () => {
+    const { result } = renderHook(() => useConversations(mockUser));
+
+    act(() => {
+      result.current.addConversation({ id: 'conv-a', title: 'Local A', messages: [], lastModified: 1000, updatedAt: 5000 });
+      result.current.addConversation({ id: 'conv-b', title: 'Local B', messages: [], lastModified: 1000, updatedAt: 5000 });
+    });
+
+    let summary!: ReturnType<typeof result.current.importConversations>;
+    act(() => {
+      summary = result.current.importConversations([
+        { id: 'conv-a', title: 'Imported A', messages: [], lastModified: 2000, updatedAt: 9000 },
+        { id: 'conv-b', title: 'Stale B', messages: [], lastModified: 500, updatedAt: 100 },
+        { id: 'conv-c', title: 'Imported C', messages: [], lastModified: 3000 }
+      ]);
+    });
+
+    expect(summary).toEqual({ added: 1, updated: 1, unchanged: 1 });
+    const titles = Object.fromEntries(result.current.conversations.map(c => [c.id, c.title]));
+    expect(titles).toEqual({ 'conv-a': 'Imported A', 'conv-b': 'Local B', 'conv-c': 'Imported C' });
+    // Imported copies are stamped so the next sync pushes them
+    expect(result.current.conversations.find(c => c.id === 'conv-c')?.updatedAt).toBeGreaterThan(9000);
+  });
+
   it('should delete conversation', () => {
     const { result } = renderHook(() => useConversations(mockUser));
 
@@ -413,4 +503,220 @@ describe('useConversations', () => {
     expect(result.current.conversations).toHaveLength(1);
     expect(result.current.conversations[0].title).toBe('Reload Test');
   });
+
+  describe('Server Sync', () => {
+    it('should push local conversations and store the server cursor on load', async () => {
+      const localConversation: Conversation = {
+        id: 'conv-local',
+        title: 'Local Only',
+        messages: [],
+        lastModified: 100,
+        updatedAt: 100
+      };
+      vi.mocked(storageUtils.getUserConversations).mockReturnValue([localConversation]);
+
+      renderHook(() => useConversations(mockUser));
+
+      await waitFor(() => {
+        expect(storageUtils.setConversationSyncState).toHaveBeenCalled();
+      });
+
+      expect(apiClient.syncConversations).toHaveBeenCalledWith({
+        since: null,
+        conversations: [localConversation],
+        deletedIds: []
+      });
+      expect(storageUtils.setConversationSyncState).toHaveBeenCalledWith(
+        mockUser.id,
+        expect.objectContaining({ lastSyncedAt: 1000, pendingDeletes: [] })
+      );
+    });
+
+    it('should merge newer server conversations and drop server deletions', async () => {
+      const stale: Conversation = { id: 'conv-1', title: 'Stale', messages: [], lastModified: 100, updatedAt: 100 };
+      const removed: Conversation = { id: 'conv-2', title: 'Removed', messages: [], lastModified: 50, updatedAt: 50 };
+      vi.mocked(storageUtils.getUserConversations).mockReturnValue([stale, removed]);
+      vi.mocked(apiClient.syncConversations).mockResolvedValue({
+        conversations: [
+          { ...stale, title: 'Fresh', updatedAt: 200 },
+          { id: 'conv-3', title: 'From Other Browser', messages: [], lastModified: 300, updatedAt: 300 }
+        ],
+        deletedIds: ['conv-2'],
+        accepted: [],
+        rejected: [],
+        serverTime: 400
+      });
+
+      const { result } = renderHook(() => useConversations(mockUser));
+
+      await waitFor(() => {
+        expect(result.current.conversations.map(c => c.id)).toEqual(['conv-3', 'conv-1']);
+      });
+      expect(result.current.conversations[1].title).toBe('Fresh');
+    });
+
+    it('should keep the local copy when it is newer than the server copy', async () => {
+      const local: Conversation = { id: 'conv-1', title: 'Local Edit', messages: [], lastModified: 100, updatedAt: 500 };
+      vi.mocked(storageUtils.getUserConversations).mockReturnValue([local]);
+      vi.mocked(apiClient.syncConversations).mockResolvedValue({
+        conversations: [{ ...local, title: 'Older Server Copy', updatedAt: 200 }],
+        deletedIds: [],
+        accepted: [],
+        rejected: ['conv-1'],
+        serverTime: 600
+      });
+
+      const { result } = renderHook(() => useConversations(mockUser));
+
+      await waitFor(() => {
+        expect(storageUtils.setConversationSyncState).toHaveBeenCalled();
+      });
+      expect(result.current.conversations[0].title).toBe('Local Edit');
+    });
+
+    it('should split pushes by serialized size and set aside conversations that never fit', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => { });
+      const sized = (id: string, updatedAt: number, chars: number): Conversation => ({
+        id, title: 'x'.repeat(chars), messages: [], lastModified: updatedAt, updatedAt
+      });
+      const first = sized('conv-1', 100, 300);
+      const huge = sized('conv-2', 150, 2000);
+      const second = sized('conv-3', 200, 300);
+      const third = sized('conv-4', 300, 300);
+      vi.mocked(storageUtils.getUserConversations).mockReturnValue([third, second, huge, first]);
+
+      renderHook(() => useConversations(mockUser));
+
+      await waitFor(() => {
+        expect(apiClient.syncConversations).toHaveBeenCalled();
+      });
+
+      expect(apiClient.syncConversations).toHaveBeenCalledWith(
+        expect.objectContaining({ conversations: [first, second] })
+      );
+      expect(storageUtils.setConversationSyncState).toHaveBeenCalledWith(
+        mockUser.id,
+        expect.objectContaining({ lastPushedAt: 200, unsyncable: { 'conv-2': 150 } })
+      );
+
+      // The rest goes out right away instead of waiting for the next edit
+      await waitFor(() => {
+        expect(apiClient.syncConversations).toHaveBeenCalledTimes(2);
+      });
+      expect(apiClient.syncConversations).toHaveBeenLastCalledWith(
+        expect.objectContaining({ conversations: [third] })
+      );
+      warnSpy.mockRestore();
+    });
+
+    it('should push edits made while a sync was in flight once it finishes', async () => {
+      let finishFirstSync!: () => void;
+      vi.mocked(apiClient.syncConversations).mockImplementationOnce(() => new Promise(resolve => {
+        finishFirstSync = () => resolve({ conversations: [], deletedIds: [], accepted: [], rejected: [], serverTime: 1000 });
+      }));
+
+      const { result } = renderHook(() => useConversations(mockUser));
+      await waitFor(() => expect(result.current.isSyncing).toBe(true));
+
+      // Edited clearly after the in-flight push started
+      const editedAt = Date.now() + 1000;
+      const nowSpy = vi.spyOn(Date, 'now').mockReturnValue(editedAt);
+      act(() => {
+        result.current.addConversation({ id: 'conv-new', title: 'Nova', messages: [], lastModified: editedAt });
+      });
+      await act(async () => {
+        await result.current.syncNow();
+      });
+      expect(apiClient.syncConversations).toHaveBeenCalledTimes(1);
+
+      await act(async () => {
+        finishFirstSync();
+      });
+
+      await waitFor(() => {
+        expect(apiClient.syncConversations).toHaveBeenCalledTimes(2);
+      });
+      expect(apiClient.syncConversations).toHaveBeenLastCalledWith(
+        expect.objectContaining({ conversations: [expect.objectContaining({ id: 'conv-new' })] })
+      );
+      nowSpy.mockRestore();
+    });
+
+    it('should not push conversations the server refused again until they are edited', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => { });
+      const valid: Conversation = { id: 'conv-ok', title: 'Ok', messages: [], lastModified: 100, updatedAt: 100 };
+      const invalid: Conversation = { id: 'conv-bad', title: 'x'.repeat(300), messages: [], lastModified: 200, updatedAt: 200 };
+      vi.mocked(storageUtils.getUserConversations).mockReturnValue([invalid, valid]);
+      vi.mocked(apiClient.syncConversations).mockResolvedValue({
+        conversations: [],
+        deletedIds: [],
+        accepted: ['conv-ok'],
+        rejected: [],
+        invalid: [{ index: 1, id: 'conv-bad', code: 'INVALID_TITLE', error: 'Invalid conversation title' }],
+        serverTime: 1000
+      });
+
+      const { result } = renderHook(() => useConversations(mockUser));
+
+      await waitFor(() => {
+        expect(storageUtils.setConversationSyncState).toHaveBeenCalledWith(
+          mockUser.id,
+          expect.objectContaining({ unsyncable: { 'conv-bad': 200 } })
+        );
+      });
+
+      // The refused copy is skipped even though lastPushedAt predates it
+      vi.mocked(storageUtils.getConversationSyncState).mockReturnValue({
+        lastSyncedAt: 1000,
+        lastPushedAt: 0,
+        pendingDeletes: [],
+        unsyncable: { 'conv-bad': 200 }
+      });
+      vi.mocked(apiClient.syncConversations).mockClear();
+
+      await act(async () => {
+        await result.current.syncNow();
+      });
+
+      expect(apiClient.syncConversations).toHaveBeenCalledWith(
+        expect.objectContaining({ conversations: [valid] })
+      );
+      warnSpy.mockRestore();
+    });
+
+    it('should queue deletions for the next sync', () => {
+      const { result } = renderHook(() => useConversations(mockUser));
+
+      act(() => {
+        result.current.addConversation({ id: 'conv-del', title: 'Delete Me', messages: [], lastModified: Date.now() });
+      });
+
+      act(() => {
+        result.current.deleteConversation('conv-del');
+      });
+
+      expect(storageUtils.setConversationSyncState).toHaveBeenCalledWith(
+        mockUser.id,
+        expect.objectContaining({ pendingDeletes: ['conv-del'] })
+      );
+    });
+
+    it('should keep working from local cache when sync fails', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => { });
+      vi.mocked(storageUtils.getUserConversations).mockReturnValue([
+        { id: 'conv-offline', title: 'Offline', messages: [], lastModified: 100 }
+      ]);
+      vi.mocked(apiClient.syncConversations).mockRejectedValue(new Error('Network down'));
+
+      const { result } = renderHook(() => useConversations(mockUser));
+
+      await waitFor(() => {
+        expect(result.current.isSyncing).toBe(false);
+        expect(warnSpy).toHaveBeenCalled();
+      });
+      expect(result.current.conversations).toHaveLength(1);
+      expect(storageUtils.setConversationSyncState).not.toHaveBeenCalled();
+      warnSpy.mockRestore();
+    });
+  });
 });
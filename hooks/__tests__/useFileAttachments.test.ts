@@ -1,14 +1,46 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { renderHook, act } from '@testing-library/react';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
 import { useFileAttachments } from '../useFileAttachments';
+import { canPrepareImages, prepareImage } from '../../lib/imageProcessing';
+import { APIError, deleteFile, uploadFile } from '../../lib/apiClient';
+import type { User } from '../../types';
+
+// Browsers re-encode images through a canvas, which happy-dom doesn't implement
+vi.mock('../../lib/imageProcessing', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../lib/imageProcessing')>()),
+  canPrepareImages: vi.fn(() => false),
+  prepareImage: vi.fn()
+}));
+
+vi.mock('../../lib/apiClient', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../lib/apiClient')>()),
+  uploadFile: vi.fn(),
+  deleteFile: vi.fn()
+}));
+
+// FileReader whose instances are kept so each read can be driven by the test
+const stubFileReader = () => {
+  const instances: any[] = [];
+  const FileReaderMock = vi.fn(function(this: any) {
+    this.readAsDataURL = vi.fn();
+    instances.push(this);
+    return this;
+  });
+  vi.stubGlobal('FileReader', FileReaderMock);
+  return instances;
+};
+
+// Report a size without allocating the contents
+const fileOfSize = (name: string, type: string, size: number) => {
+  const file = new File(['x'], name, { type });
+  Object.defineProperty(file, 'size', { value: size });
+  return file;
+};
 
 describe('useFileAttachments', () => {
   beforeEach(() => {
     // Clear mocks before each test
     vi.clearAllMocks();
-
-    // Mock window.alert for all tests
-    vi.stubGlobal('alert', vi.fn());
   });
 
   it('should initialize with empty attachments', () => {
@@ -29,6 +61,7 @@ describe('useFileAttachments', () => {
     const { result } = renderHook(() => useFileAttachments());
 
     expect(typeof result.current.handleFileSelect).toBe('function');
+    expect(typeof result.current.addFiles).toBe('function');
     expect(typeof result.current.removeAttachment).toBe('function');
     expect(typeof result.current.clearAttachments).toBe('function');
   });
@@ -102,10 +135,8 @@ describe('useFileAttachments', () => {
         result.current.handleFileSelect(mockEvent);
       });
 
-      // Should show alert for file too large
-      expect(alert).toHaveBeenCalledWith(
-        expect.stringContaining('Arquivo muito grande')
-      );
+      // Should report the file as too large
+      expect(result.current.uploadError).toContain('Arquivo muito grande');
       expect(result.current.attachments.length).toBe(0);
       expect(result.current.isUploading).toBe(false);
     });
@@ -215,8 +246,8 @@ describe('useFileAttachments', () => {
       });
 
       expect(consoleErrorMock).toHaveBeenCalledWith('Erro ao ler arquivo');
-      expect(alert).toHaveBeenCalledWith(
-        'Erro ao processar o arquivo. Tente novamente.'
+      expect(result.current.uploadError).toBe(
+        'Erro ao processar o arquivo "test.txt". Tente novamente.'
       );
       expect(result.current.isUploading).toBe(false);
       expect(result.current.attachments).toHaveLength(0);
@@ -295,4 +326,295 @@ describe('useFileAttachments', () => {
       expect(result.current.attachments).toHaveLength(0);
     });
   });
+
+  describe('Multiple Files', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should read several files at once and track their progress', () => {
+      const readers = stubFileReader();
+      const { result } = renderHook(() => useFileAttachments());
+
+      act(() => {
+        result.current.addFiles([
+          new File(['a'], 'a.txt', { type: 'text/plain' }),
+          new File(['b'], 'b.png', { type: 'image/png' })
+        ]);
+      });
+
+      expect(readers).toHaveLength(2);
+      expect(result.current.uploads.map(upload => upload.name)).toEqual(['a.txt', 'b.png']);
+      expect(result.current.isUploading).toBe(true);
+
+      act(() => {
+        readers[1].onprogress({ lengthComputable: true, loaded: 1, total: 2 });
+      });
+      expect(result.current.uploads[1].progress).toBe(50);
+
+      act(() => {
+        readers[0].onload({ target: { result: 'data:text/plain;base64,YQ==' } });
+        readers[1].onload({ target: { result: 'data:image/png;base64,Yg==' } });
+      });
+
+      expect(result.current.attachments.map(att => att.name)).toEqual(['a.txt', 'b.png']);
+      expect(result.current.uploads).toEqual([]);
+      expect(result.current.isUploading).toBe(false);
+      expect(result.current.uploadError).toBeNull();
+    });
+
+    it('should skip unsupported files and files over the per-message total', () => {
+      const readers = stubFileReader();
+      const { result } = renderHook(() => useFileAttachments());
+
+      act(() => {
+        result.current.addFiles([
+          new File(['x'], 'setup.exe', { type: 'application/x-msdownload' }),
+          fileOfSize('one.pdf', 'application/pdf', 9 * 1024 * 1024),
+          fileOfSize('two.pdf', 'application/pdf', 9 * 1024 * 1024),
+          fileOfSize('three.pdf', 'application/pdf', 9 * 1024 * 1024)
+        ]);
+      });
+
+      expect(readers).toHaveLength(2);
+      expect(result.current.uploads.map(upload => upload.name)).toEqual(['one.pdf', 'two.pdf']);
+      expect(result.current.uploadError).toContain('Tipo de arquivo não suportado: setup.exe');
+      expect(result.current.uploadError).toContain('three.pdf não foi anexado');
+
+      act(() => {
+        result.current.dismissUploadError();
+      });
+
+      expect(result.current.uploadError).toBeNull();
+    });
+
+    it('should limit the number of files per message', () => {
+      const readers = stubFileReader();
+      const { result } = renderHook(() => useFileAttachments());
+
+      act(() => {
+        result.current.addFiles(
+          Array.from({ length: 11 }, (_, i) => new File(['x'], `file-${i}.txt`, { type: 'text/plain' }))
+        );
+      });
+
+      expect(readers).toHaveLength(10);
+      expect(result.current.uploadError).toContain('file-10.txt não foi anexado');
+    });
+  });
+
+  describe('Image Preparation', () => {
+    const photo = new File(['full-size photo'], 'foto.jpg', { type: 'image/jpeg' });
+
+    beforeEach(() => {
+      vi.mocked(canPrepareImages).mockReturnValue(true);
+    });
+
+    afterEach(() => {
+      vi.mocked(canPrepareImages).mockReturnValue(false);
+      vi.unstubAllGlobals();
+    });
+
+    it('should attach the re-encoded image and send the original only on request', async () => {
+      const readers = stubFileReader();
+      const webp = new Blob(['small'], { type: 'image/webp' });
+      vi.mocked(prepareImage).mockResolvedValue({ blob: webp, name: 'foto.webp', width: 1568, height: 1176 });
+      const { result } = renderHook(() => useFileAttachments());
+
+      act(() => {
+        result.current.addFiles([photo]);
+      });
+      expect(result.current.uploads.map(upload => upload.name)).toEqual(['foto.jpg']);
+
+      await waitFor(() => expect(readers).toHaveLength(1));
+      expect(readers[0].readAsDataURL).toHaveBeenCalledWith(webp);
+
+      act(() => {
+        readers[0].onload({ target: { result: 'data:image/webp;base64,c21hbGw=' } });
+      });
+
+      expect(result.current.attachments).toEqual([
+        { name: 'foto.webp', type: 'image/webp', data: 'c21hbGw=', size: webp.size }
+      ]);
+      expect(result.current.hasOriginal(0)).toBe(true);
+
+      act(() => {
+        result.current.restoreOriginal(0);
+      });
+      expect(readers[1].readAsDataURL).toHaveBeenCalledWith(photo);
+
+      act(() => {
+        readers[1].onload({ target: { result: 'data:image/jpeg;base64,ZnVsbA==' } });
+      });
+
+      expect(result.current.attachments).toEqual([
+        { name: 'foto.jpg', type: 'image/jpeg', data: 'ZnVsbA==', size: photo.size }
+      ]);
+      expect(result.current.hasOriginal(0)).toBe(false);
+    });
+
+    it('should attach the original when the image cannot be re-encoded', async () => {
+      const readers = stubFileReader();
+      vi.mocked(prepareImage).mockRejectedValue(new Error('decode failed'));
+      const consoleWarnMock = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const { result } = renderHook(() => useFileAttachments());
+
+      act(() => {
+        result.current.addFiles([photo, new File(['gif'], 'anim.gif', { type: 'image/gif' })]);
+      });
+
+      // GIFs are never re-encoded (animation would be lost)
+      expect(prepareImage).toHaveBeenCalledTimes(1);
+      await waitFor(() => expect(readers).toHaveLength(2));
+      expect(readers.map(reader => reader.readAsDataURL.mock.calls[0][0])).toEqual(
+        expect.arrayContaining([photo, expect.objectContaining({ name: 'anim.gif' })])
+      );
+      expect(consoleWarnMock).toHaveBeenCalled();
+
+      consoleWarnMock.mockRestore();
+    });
+
+    it("should resize to the selected model's size and keep the original when re-encoding doesn't shrink it", async () => {
+      const readers = stubFileReader();
+      const bigger = new Blob(['a re-encoded copy bigger than the photo'], { type: 'image/webp' });
+      vi.mocked(prepareImage).mockResolvedValue({ blob: bigger, name: 'foto.webp', width: 800, height: 600 });
+      const { result } = renderHook(() => useFileAttachments(null, 3072));
+
+      act(() => {
+        result.current.addFiles([photo]);
+      });
+
+      expect(prepareImage).toHaveBeenCalledWith(photo, 3072);
+      await waitFor(() => expect(readers).toHaveLength(1));
+      expect(readers[0].readAsDataURL).toHaveBeenCalledWith(photo);
+
+      act(() => {
+        readers[0].onload({ target: { result: 'data:image/jpeg;base64,ZnVsbA==' } });
+      });
+
+      expect(result.current.attachments.map(att => att.name)).toEqual(['foto.jpg']);
+      expect(result.current.hasOriginal(0)).toBe(false);
+    });
+
+    it('should check the size limits on the re-encoded image, not the original', async () => {
+      const readers = stubFileReader();
+      const webpOfSize = (size: number) => fileOfSize('grande.webp', 'image/webp', size);
+      vi.mocked(prepareImage)
+        .mockResolvedValueOnce({ blob: webpOfSize(1024 * 1024), name: 'grande.webp', width: 1568, height: 1176 })
+        .mockResolvedValueOnce({ blob: webpOfSize(3 * 1024 * 1024), name: 'outra.webp', width: 1568, height: 1176 });
+      const { result } = renderHook(() => useFileAttachments());
+
+      // Over the per-file limit as taken, but not once downscaled
+      act(() => {
+        result.current.addFiles([
+          fileOfSize('grande.jpg', 'image/jpeg', 15 * 1024 * 1024),
+          fileOfSize('one.pdf', 'application/pdf', 9 * 1024 * 1024),
+          fileOfSize('two.pdf', 'application/pdf', 9 * 1024 * 1024)
+        ]);
+      });
+
+      await waitFor(() => expect(readers).toHaveLength(3));
+      expect(result.current.uploadError).toBeNull();
+      expect(result.current.uploads.map(upload => upload.size)).toEqual([
+        1024 * 1024, 9 * 1024 * 1024, 9 * 1024 * 1024
+      ]);
+
+      // 19MB already taken: the second photo still doesn't fit once downscaled to 3MB
+      act(() => {
+        result.current.addFiles([fileOfSize('outra.jpg', 'image/jpeg', 15 * 1024 * 1024)]);
+      });
+
+      await waitFor(() => expect(result.current.uploadError).toContain('outra.jpg não foi anexado'));
+      expect(readers).toHaveLength(3);
+      expect(result.current.uploads.map(upload => upload.name)).toEqual(['grande.jpg', 'one.pdf', 'two.pdf']);
+    });
+  });
+
+  describe('File Store', () => {
+    const mockUser: User = { id: 'user-1', name: 'Ana', email: 'ana@example.com' };
+
+    const stored = (name: string, created: boolean) => ({
+      file: { id: `id-${name}`, name, type: 'text/plain', size: 1, createdAt: 0 },
+      created
+    });
+
+    beforeEach(() => {
+      vi.mocked(uploadFile).mockImplementation(async (_blob, name) => stored(name, true));
+      vi.mocked(deleteFile).mockResolvedValue(undefined);
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should upload files when signed in and attach them by reference', async () => {
+      const readers = stubFileReader();
+      const file = new File(['a'], 'a.txt', { type: 'text/plain' });
+      const { result } = renderHook(() => useFileAttachments(mockUser));
+
+      act(() => {
+        result.current.addFiles([file]);
+      });
+      act(() => {
+        readers[0].onload({ target: { result: 'data:text/plain;base64,YQ==' } });
+      });
+
+      // Reading was the first half; the upload is still pending
+      expect(result.current.uploads[0].progress).toBe(50);
+      expect(uploadFile).toHaveBeenCalledWith(file, 'a.txt');
+
+      await waitFor(() => expect(result.current.isUploading).toBe(false));
+      expect(result.current.attachments).toEqual([
+        { name: 'a.txt', type: 'text/plain', data: 'YQ==', size: 1, fileId: 'id-a.txt' }
+      ]);
+    });
+
+    it('should delete uploads removed before sending, but not files the user already had', async () => {
+      vi.mocked(uploadFile).mockImplementation(async (_blob, name) => stored(name, name === 'novo.txt'));
+      const readers = stubFileReader();
+      const { result } = renderHook(() => useFileAttachments(mockUser));
+
+      act(() => {
+        result.current.addFiles([
+          new File(['a'], 'novo.txt', { type: 'text/plain' }),
+          new File(['b'], 'antigo.txt', { type: 'text/plain' })
+        ]);
+      });
+      act(() => {
+        readers[0].onload({ target: { result: 'data:text/plain;base64,YQ==' } });
+        readers[1].onload({ target: { result: 'data:text/plain;base64,Yg==' } });
+      });
+      await waitFor(() => expect(result.current.attachments).toHaveLength(2));
+
+      act(() => {
+        result.current.removeAttachment(0);
+      });
+      act(() => {
+        result.current.removeAttachment(0);
+      });
+
+      expect(deleteFile).toHaveBeenCalledTimes(1);
+      expect(deleteFile).toHaveBeenCalledWith('id-novo.txt');
+    });
+
+    it('should not attach a file the file store refused', async () => {
+      vi.mocked(uploadFile).mockRejectedValue(new APIError('Quota exceeded', 413, 'FILE_QUOTA_EXCEEDED'));
+      const consoleErrorMock = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const readers = stubFileReader();
+      const { result } = renderHook(() => useFileAttachments(mockUser));
+
+      act(() => {
+        result.current.addFiles([new File(['a'], 'a.txt', { type: 'text/plain' })]);
+      });
+      act(() => {
+        readers[0].onload({ target: { result: 'data:text/plain;base64,YQ==' } });
+      });
+
+      await waitFor(() => expect(result.current.isUploading).toBe(false));
+      expect(result.current.attachments).toEqual([]);
+      expect(result.current.uploadError).toContain('Espaço de armazenamento de arquivos esgotado: a.txt');
+
+      consoleErrorMock.mockRestore();
+    });
+  });
 });
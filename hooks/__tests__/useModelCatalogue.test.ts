@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import { useModelCatalogue, resetModelCatalogueCache } from '../useModelCatalogue';
+import { getModelCatalogue } from '../../lib/apiClient';
+import { ModelCatalogue } from '../../types';
+
+vi.mock('../../lib/apiClient', () => ({
+  getModelCatalogue: vi.fn()
+}));
+
+const catalogue: ModelCatalogue = {
+  chat: [{
+    id: 'anthropic/claude-sonnet-4.5',
+    displayName: 'Claude Sonnet 4.5',
+    description: 'Complex reasoning',
+    provider: 'Anthropic',
+    tier: 'PAID',
+    capabilities: ['reasoning'],
+    costMultiplier: 2,
+    pricing: { inputPer1M: 3000000, outputPer1M: 15000000, cachedInputPer1M: 300000 },
+    effectivePricing: { inputPer1M: 6000000, outputPer1M: 30000000, cachedInputPer1M: 600000 },
+    limits: { maxOutputTokens: 16384, maxTemperature: 1, supportsPenalties: false },
+    maxImageDimension: 1568,
+    fallbackChain: ['mistralai/devstral-2512:free']
+  }],
+  image: [],
+  video: [],
+  defaults: {
+    chat: 'mistralai/devstral-2512:free',
+    image: 'black-forest-labs/flux-2-dev',
+    video: 'wan-video/wan-2.2-i2v-fast'
+  }
+};
+
+describe('useModelCatalogue', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetModelCatalogueCache();
+  });
+
+  it('should load the catalogue from the server', async () => {
+    vi.mocked(getModelCatalogue).mockResolvedValue(catalogue);
+
+    const { result } = renderHook(() => useModelCatalogue());
+
+    expect(result.current.catalogue).toBeNull();
+    await waitFor(() => {
+      expect(result.current.catalogue).toEqual(catalogue);
+    });
+    expect(result.current.error).toBeNull();
+  });
+
+  it('should share one request between components', async () => {
+    vi.mocked(getModelCatalogue).mockResolvedValue(catalogue);
+
+    const first = renderHook(() => useModelCatalogue());
+    const second = renderHook(() => useModelCatalogue());
+
+    await waitFor(() => {
+      expect(first.result.current.catalogue).not.toBeNull();
+      expect(second.result.current.catalogue).not.toBeNull();
+    });
+    expect(getModelCatalogue).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report an error and retry on the next mount after a failure', async () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.mocked(getModelCatalogue).mockRejectedValueOnce(new Error('Network error'));
+
+    const failed = renderHook(() => useModelCatalogue());
+    await waitFor(() => expect(failed.result.current.error).not.toBeNull());
+    expect(failed.result.current.catalogue).toBeNull();
+
+    vi.mocked(getModelCatalogue).mockResolvedValueOnce(catalogue);
+    const retried = renderHook(() => useModelCatalogue());
+
+    await waitFor(() => {
+      expect(retried.result.current.catalogue).toEqual(catalogue);
+    });
+    expect(getModelCatalogue).toHaveBeenCalledTimes(2);
+    warnSpy.mockRestore();
+  });
+});
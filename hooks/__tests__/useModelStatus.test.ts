@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useModelStatus } from '../useModelStatus';
+import { getModelStatus } from '../../lib/apiClient';
+import { MODEL_STATUS } from '../../config/constants';
+
+vi.mock('../../lib/apiClient', () => ({
+  getModelStatus: vi.fn()
+}));
+
+describe('useModelStatus', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should load statuses keyed by model id', async () => {
+    vi.mocked(getModelStatus).mockResolvedValue([
+      { id: 'model-a', status: 'degraded', retryAt: null }
+    ]);
+
+    const { result } = renderHook(() => useModelStatus());
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(0);
+    });
+
+    expect(result.current.get('model-a')?.status).toBe('degraded');
+  });
+
+  it('should poll for updates', async () => {
+    vi.mocked(getModelStatus)
+      .mockResolvedValueOnce([{ id: 'model-a', status: 'operational', retryAt: null }])
+      .mockResolvedValueOnce([{ id: 'model-a', status: 'unavailable', retryAt: 123 }]);
+
+    const { result } = renderHook(() => useModelStatus());
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(0);
+    });
+    expect(result.current.get('model-a')?.status).toBe('operational');
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(MODEL_STATUS.POLL_MS);
+    });
+    expect(getModelStatus).toHaveBeenCalledTimes(2);
+    expect(result.current.get('model-a')?.status).toBe('unavailable');
+  });
+
+  it('should keep the last known statuses when a refresh fails', async () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.mocked(getModelStatus)
+      .mockResolvedValueOnce([{ id: 'model-a', status: 'operational', retryAt: null }])
+      .mockRejectedValueOnce(new Error('Network error'));
+
+    const { result } = renderHook(() => useModelStatus());
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(MODEL_STATUS.POLL_MS);
+    });
+
+    expect(warnSpy).toHaveBeenCalled();
+    expect(result.current.get('model-a')?.status).toBe('operational');
+    warnSpy.mockRestore();
+  });
+
+  it('should stop polling on unmount', async () => {
+    vi.mocked(getModelStatus).mockResolvedValue([]);
+
+    const { unmount } = renderHook(() => useModelStatus());
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(0);
+    });
+    unmount();
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(MODEL_STATUS.POLL_MS * 3);
+    });
+    expect(getModelStatus).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { usePersonas } from '../usePersonas';
+import { listPersonas, createPersona, updatePersona, deletePersona, sharePersona } from '../../lib/apiClient';
+import { Persona, User } from '../../types';
+import { makePersona, testUser } from '../../test/fixtures';
+
+vi.mock('../../lib/apiClient', () => ({
+  listPersonas: vi.fn(),
+  createPersona: vi.fn(),
+  updatePersona: vi.fn(),
+  deletePersona: vi.fn(),
+  sharePersona: vi.fn()
+}));
+
+const otherUser: User = { id: 'user-2', name: 'Bia', email: 'bia@example.com' };
+
+describe('usePersonas', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should not load personas without a user', () => {
+    const { result } = renderHook(() => usePersonas(null));
+
+    expect(listPersonas).not.toHaveBeenCalled();
+    expect(result.current.personas).toEqual([]);
+  });
+
+  it("should not offer the previous account's personas after switching users", async () => {
+    let resolveFirst!: (personas: Persona[]) => void;
+    vi.mocked(listPersonas)
+      .mockReturnValueOnce(new Promise(resolve => { resolveFirst = resolve; }))
+      .mockResolvedValueOnce([makePersona({ id: 'persona-bia', name: 'Tradutor' })]);
+
+    const { result, rerender } = renderHook(({ user }) => usePersonas(user), {
+      initialProps: { user: testUser as User | null }
+    });
+    rerender({ user: otherUser });
+    await waitFor(() => expect(result.current.personas.map(p => p.id)).toEqual(['persona-bia']));
+
+    // The first account's library arrives late and must not replace the current one
+    await act(async () => {
+      resolveFirst([makePersona()]);
+    });
+    expect(result.current.personas.map(p => p.id)).toEqual(['persona-bia']);
+
+    rerender({ user: null });
+    expect(result.current.personas).toEqual([]);
+  });
+
+  it('should offer own personas before shared ones, each by name, as they are created and renamed', async () => {
+    vi.mocked(listPersonas).mockResolvedValue([
+      makePersona(),
+      makePersona({ id: 'shared', name: 'Analista', isOwner: false, sharedWith: undefined })
+    ]);
+    vi.mocked(createPersona).mockResolvedValue(makePersona({ id: 'own', name: 'Tradutor' }));
+    vi.mocked(updatePersona).mockResolvedValue(makePersona({ name: 'Zeta' }));
+
+    const { result } = renderHook(() => usePersonas(testUser));
+    await waitFor(() => expect(result.current.personas).toHaveLength(2));
+
+    await act(async () => {
+      await result.current.savePersona({ name: 'Tradutor', icon: 'globe', systemPrompt: 'Traduza.' });
+    });
+    expect(result.current.personas.map(p => p.name)).toEqual(['Revisor', 'Tradutor', 'Analista']);
+
+    await act(async () => {
+      await result.current.savePersona({ name: 'Zeta', icon: 'pen', systemPrompt: 'Revise o texto.' }, 'persona-1');
+    });
+    expect(result.current.personas.map(p => p.name)).toEqual(['Tradutor', 'Zeta', 'Analista']);
+  });
+
+  it("should keep the server's copy after an edit, so cleared defaults are not applied on the next pick", async () => {
+    vi.mocked(listPersonas).mockResolvedValue([
+      makePersona({ defaultModel: 'anthropic/claude-sonnet-4.5', defaultParams: { temperature: 0.2 } })
+    ]);
+    vi.mocked(updatePersona).mockResolvedValue(makePersona({ defaultParams: { temperature: 0.2 } }));
+
+    const { result } = renderHook(() => usePersonas(testUser));
+    await waitFor(() => expect(result.current.personas).toHaveLength(1));
+
+    await act(async () => {
+      await result.current.savePersona(
+        { name: 'Revisor', icon: 'pen', systemPrompt: 'Revise o texto.', defaultModel: null },
+        'persona-1'
+      );
+    });
+
+    expect(updatePersona).toHaveBeenCalledWith('persona-1', expect.objectContaining({ defaultModel: null }));
+    expect(result.current.personas[0].defaultModel).toBeUndefined();
+    expect(result.current.personas[0].defaultParams).toEqual({ temperature: 0.2 });
+  });
+
+  it('should remove a persona and update sharing', async () => {
+    vi.mocked(listPersonas).mockResolvedValue([makePersona(), makePersona({ id: 'persona-2', name: 'Zeta' })]);
+    vi.mocked(deletePersona).mockResolvedValue(undefined);
+    vi.mocked(sharePersona).mockResolvedValue(makePersona({
+      sharedWith: [{ id: 'user-2', email: 'bia@example.com', name: 'Bia' }]
+    }));
+
+    const { result } = renderHook(() => usePersonas(testUser));
+    await waitFor(() => expect(result.current.personas).toHaveLength(2));
+
+    await act(async () => {
+      await result.current.removePersona('persona-2');
+      await result.current.setPersonaSharing('persona-1', ['bia@example.com']);
+    });
+
+    expect(sharePersona).toHaveBeenCalledWith('persona-1', ['bia@example.com']);
+    expect(result.current.personas).toHaveLength(1);
+    expect(result.current.personas[0].sharedWith).toHaveLength(1);
+  });
+
+  it('should leave chatting without a persona possible when the library fails to load', async () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.mocked(listPersonas).mockRejectedValue(new Error('Network error'));
+
+    const { result } = renderHook(() => usePersonas(testUser));
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(warnSpy).toHaveBeenCalled();
+    expect(result.current.personas).toEqual([]);
+    warnSpy.mockRestore();
+  });
+});
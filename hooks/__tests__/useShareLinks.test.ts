@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useShareLinks } from '../useShareLinks';
+import { listShareLinks, createShareLink, revokeShareLink, CreateShareLinkParams } from '../../lib/apiClient';
+import { Message } from '../../types';
+import { makeShareLink, testUser } from '../../test/fixtures';
+
+vi.mock('../../lib/apiClient', () => ({
+  listShareLinks: vi.fn(),
+  createShareLink: vi.fn(),
+  revokeShareLink: vi.fn()
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const branch: Message[] = [
+  {
+    id: 'm1',
+    role: 'user',
+    content: 'Segue o contrato',
+    timestamp: 0,
+    attachments: [{ name: 'contrato.pdf', type: 'application/pdf', data: 'JVBERi0=' }]
+  },
+  { id: 'm2', role: 'assistant', content: 'Resumo do contrato', timestamp: 1 }
+];
+
+const shareParams = (overrides: Partial<CreateShareLinkParams> = {}): CreateShareLinkParams => ({
+  conversationId: 'conv-1',
+  title: 'Contrato',
+  messages: branch,
+  expiresInDays: null,
+  redactAttachments: false,
+  ...overrides
+});
+
+// Echoes the options back the way the server stores them
+const storeShare = async (params: CreateShareLinkParams) => makeShareLink({
+  id: `token-${params.expiresInDays ?? 'forever'}`,
+  conversationId: params.conversationId,
+  title: params.title,
+  messageCount: params.messages.length,
+  redactAttachments: params.redactAttachments,
+  createdAt: 1000,
+  expiresAt: params.expiresInDays ? 1000 + params.expiresInDays * DAY_MS : null
+});
+
+describe('useShareLinks', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(createShareLink).mockImplementation(storeShare);
+  });
+
+  it('should not load links without a user', () => {
+    const { result } = renderHook(() => useShareLinks(null));
+
+    expect(listShareLinks).not.toHaveBeenCalled();
+    expect(result.current.shareLinks).toEqual([]);
+  });
+
+  it('should list a link with the expiry the server set, or none until it is revoked', async () => {
+    vi.mocked(listShareLinks).mockResolvedValue([]);
+
+    const { result } = renderHook(() => useShareLinks(testUser));
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    await act(async () => {
+      await result.current.createShare(shareParams({ expiresInDays: 7 }));
+      await result.current.createShare(shareParams());
+    });
+
+    expect(createShareLink).toHaveBeenCalledWith(expect.objectContaining({ expiresInDays: 7 }));
+    expect(createShareLink).toHaveBeenCalledWith(expect.objectContaining({ expiresInDays: null }));
+    expect(result.current.shareLinks.map(link => [link.id, link.expiresAt])).toEqual([
+      ['token-forever', null],
+      ['token-7', 1000 + 7 * DAY_MS]
+    ]);
+  });
+
+  it('should ask the server to redact attachments and mark the link as redacted', async () => {
+    vi.mocked(listShareLinks).mockResolvedValue([]);
+
+    const { result } = renderHook(() => useShareLinks(testUser));
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    await act(async () => {
+      await result.current.createShare(shareParams({ redactAttachments: true }));
+    });
+
+    // Redaction happens on the server, when the snapshot is stored
+    expect(createShareLink).toHaveBeenCalledWith(expect.objectContaining({ redactAttachments: true, messages: branch }));
+    expect(result.current.shareLinks[0]).toMatchObject({ redactAttachments: true, messageCount: 2 });
+  });
+
+  it('should stop offering a revoked link and keep the other links', async () => {
+    vi.mocked(listShareLinks).mockResolvedValue([
+      makeShareLink({ id: 'token-a' }),
+      makeShareLink({ id: 'token-b', expiresAt: 5000 })
+    ]);
+    vi.mocked(revokeShareLink).mockResolvedValue();
+
+    const { result } = renderHook(() => useShareLinks(testUser));
+    await waitFor(() => expect(result.current.shareLinks).toHaveLength(2));
+
+    await act(async () => {
+      await result.current.revokeShare('token-b');
+    });
+
+    expect(revokeShareLink).toHaveBeenCalledWith('token-b');
+    expect(result.current.shareLinks.map(link => link.id)).toEqual(['token-a']);
+  });
+
+  it('should keep a link listed when revoking fails, so it can be revoked again', async () => {
+    vi.mocked(listShareLinks).mockResolvedValue([makeShareLink()]);
+    vi.mocked(revokeShareLink).mockRejectedValue(new Error('offline'));
+
+    const { result } = renderHook(() => useShareLinks(testUser));
+    await waitFor(() => expect(result.current.shareLinks).toHaveLength(1));
+
+    await act(async () => {
+      await expect(result.current.revokeShare('token-old')).rejects.toThrow('offline');
+    });
+    expect(result.current.shareLinks).toHaveLength(1);
+  });
+});
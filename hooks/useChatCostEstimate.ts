@@ -0,0 +1,89 @@
+/**
+ * useChatCostEstimate Hook
+ * Debounced server-side cost estimate for the message being composed
+ */
+
+import { useState, useEffect } from 'react';
+import { estimateChatCost, ChatCostEstimate } from '../lib/apiClient';
+import { OpenRouterMessage } from '../lib/historyUtils';
+import { ContextStrategy, ModelParams } from '../types';
+import { ESTIMATE } from '../config/constants';
+
+interface UseChatCostEstimateOptions {
+  /**
+   * Model the message will be sent to
+   */
+  model: string;
+  /**
+   * Full history including the draft message, in the format /stream receives
+   */
+  messages: OpenRouterMessage[];
+  /**
+   * Persona system prompt sent with the history (counted as input tokens)
+   */
+  systemPrompt?: string;
+  /**
+   * Sampling settings - max_tokens bounds the upper end of the estimate
+   */
+  params?: ModelParams;
+  /**
+   * Long-history handling - the estimate covers the history as it will actually be sent
+   */
+  contextStrategy?: ContextStrategy;
+  /**
+   * Skip estimating (e.g. empty composer) - clears any previous estimate
+   */
+  enabled: boolean;
+}
+
+interface UseChatCostEstimateReturn {
+  estimate: ChatCostEstimate | null;
+  isEstimating: boolean;
+}
+
+export const useChatCostEstimate = ({
+  model,
+  messages,
+  systemPrompt = '',
+  params,
+  contextStrategy,
+  enabled
+}: UseChatCostEstimateOptions): UseChatCostEstimateReturn => {
+  const [estimate, setEstimate] = useState<ChatCostEstimate | null>(null);
+  const [isEstimating, setIsEstimating] = useState(false);
+
+  useEffect(() => {
+    if (!enabled) {
+      setEstimate(null);
+      setIsEstimating(false);
+      return;
+    }
+
+    // Each change cancels the pending timer and any in-flight request, so only the latest draft is shown
+    const controller = new AbortController();
+    setIsEstimating(true);
+
+    const timeoutId = setTimeout(async () => {
+      try {
+        const result = await estimateChatCost({ model, systemPrompt, messages, params, contextStrategy }, controller.signal);
+        setEstimate(result);
+      } catch (error) {
+        if ((error as Error).name !== 'AbortError') {
+          console.warn('[useChatCostEstimate] Estimate failed:', error);
+          setEstimate(null);
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsEstimating(false);
+        }
+      }
+    }, ESTIMATE.DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timeoutId);
+      controller.abort();
+    };
+  }, [model, messages, systemPrompt, params, contextStrategy, enabled]);
+
+  return { estimate, isEstimating };
+};
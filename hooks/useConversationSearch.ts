@@ -0,0 +1,65 @@
+/**
+ * useConversationSearch Hook
+ * Debounced full-text search over the user's conversations (see lib/conversationSearch.ts)
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { Conversation } from '../types';
+import { searchConversations, SearchFilters, SearchResult } from '../lib/conversationSearch';
+import { SEARCH } from '../config/constants';
+
+interface UseConversationSearchOptions {
+  conversations: readonly Conversation[];
+  /**
+   * Model of conversations that never stored one (for the model filter)
+   */
+  defaultModel?: string;
+}
+
+interface UseConversationSearchReturn {
+  query: string;
+  setQuery: (query: string) => void;
+  filters: SearchFilters;
+  setFilters: (filters: SearchFilters) => void;
+  results: SearchResult[];
+  /**
+   * Whether a search is active (a query has been typed)
+   */
+  isActive: boolean;
+  clear: () => void;
+}
+
+export const useConversationSearch = ({
+  conversations,
+  defaultModel
+}: UseConversationSearchOptions): UseConversationSearchReturn => {
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [filters, setFilters] = useState<SearchFilters>({});
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setDebouncedQuery(query), SEARCH.DEBOUNCE_MS);
+    return () => clearTimeout(timeoutId);
+  }, [query]);
+
+  const results = useMemo(
+    () => searchConversations(conversations, debouncedQuery, filters, defaultModel),
+    [conversations, debouncedQuery, filters, defaultModel]
+  );
+
+  const clear = () => {
+    setQuery('');
+    setDebouncedQuery('');
+    setFilters({});
+  };
+
+  return {
+    query,
+    setQuery,
+    filters,
+    setFilters,
+    results,
+    isActive: query.trim().length > 0,
+    clear
+  };
+};
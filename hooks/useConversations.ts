@@ -1,32 +1,277 @@
 /**
  * useConversations Hook
  * Manages conversation state and persistence
+ *
+ * localStorage is the offline cache; the server (/api/conversations) is the
+ * source of truth across browsers. Local edits are stamped with `updatedAt`
+ * and pushed on a debounce; conflicts resolve last-writer-wins on `updatedAt`.
  */
 
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { Conversation, User } from '../types';
-import { getUserConversations, setUserConversations } from '../lib/storageUtils';
+import { Conversation, ConversationOrganization, User } from '../types';
+import {
+  getUserConversations,
+  setUserConversations,
+  getConversationSyncState,
+  setConversationSyncState
+} from '../lib/storageUtils';
+import { syncConversations, ConversationSyncResult } from '../lib/apiClient';
+import { applyOrganization } from '../lib/conversationOrganization';
+import { SYNC } from '../config/constants';
+
+export interface ImportSummary {
+  added: number;
+  updated: number;
+  unchanged: number; // Already present with the same or newer edits
+}
 
 interface UseConversationsReturn {
   conversations: Conversation[];
   currentId: string | null;
   isInitialized: boolean;
+  isSyncing: boolean;
   setConversations: React.Dispatch<React.SetStateAction<Conversation[]>>;
   setCurrentId: React.Dispatch<React.SetStateAction<string | null>>;
   addConversation: (conversation: Conversation) => void;
   updateConversation: (id: string, updates: Partial<Conversation>) => void;
+  /** Move to a folder, tag, pin or archive (values are normalised; undefined clears a field) */
+  organizeConversation: (id: string, updates: ConversationOrganization) => void;
   deleteConversation: (id: string) => void;
+  /** Merge imported conversations (new ids are added; known ids are replaced only by newer copies) */
+  importConversations: (imported: readonly Conversation[]) => ImportSummary;
   loadConversations: () => void;
   saveConversations: () => void;
+  syncNow: () => Promise<void>;
 }
 
+/**
+ * Last local edit time of a conversation (older cached data may lack updatedAt)
+ */
+const getEditTime = (conv: Conversation): number => conv.updatedAt ?? conv.lastModified;
+
+/**
+ * Stamp `updatedAt` on every conversation object that changed between two states
+ * so the sync layer can tell which conversations need pushing
+ */
+const stampLocalEdits = (prev: Conversation[], next: Conversation[]): Conversation[] => {
+  const prevById = new Map(prev.map(c => [c.id, c]));
+  const now = Date.now();
+
+  return next.map(conv => {
+    const before = prevById.get(conv.id);
+    if (before === conv) return conv;
+
+    const beforeTime = before ? getEditTime(before) : -1;
+    if (conv.updatedAt !== undefined && conv.updatedAt > beforeTime) return conv;
+
+    return { ...conv, updatedAt: Math.max(now, beforeTime + 1) };
+  });
+};
+
+/**
+ * Merge a server sync result into local state
+ * Server copies only win when strictly newer, so equal timestamps (our own echo) never churn state
+ */
+const mergeServerChanges = (local: Conversation[], result: ConversationSyncResult): Conversation[] => {
+  const deleted = new Set(result.deletedIds);
+  const localById = new Map(local.map(c => [c.id, c]));
+  let changed = false;
+
+  const merged = local.filter(conv => {
+    if (deleted.has(conv.id)) {
+      changed = true;
+      return false;
+    }
+    return true;
+  });
+
+  const indexById = new Map(merged.map((c, i) => [c.id, i]));
+
+  for (const remote of result.conversations) {
+    if (deleted.has(remote.id)) continue;
+
+    const existing = localById.get(remote.id);
+    if (!existing) {
+      merged.push(remote);
+      changed = true;
+    } else if (getEditTime(remote) > getEditTime(existing)) {
+      merged[indexById.get(remote.id)!] = remote;
+      changed = true;
+    }
+  }
+
+  if (!changed) return local;
+
+  return merged.sort((a, b) => b.lastModified - a.lastModified);
+};
+
+/**
+ * Take the oldest dirty conversations that fit in one sync request (by count and serialized size)
+ * Conversations too large to ever fit are returned separately so they can be set aside.
+ */
+const takeSyncBatch = (dirty: Conversation[]): { batch: Conversation[]; oversized: Conversation[]; isTruncated: boolean } => {
+  const encoder = new TextEncoder();
+  const batch: Conversation[] = [];
+  const oversized: Conversation[] = [];
+  let bytes = 0;
+
+  for (const conv of dirty) {
+    if (batch.length >= SYNC.MAX_BATCH) {
+      return { batch, oversized, isTruncated: true };
+    }
+
+    const size = encoder.encode(JSON.stringify(conv)).length;
+    if (size > SYNC.MAX_BATCH_BYTES) {
+      oversized.push(conv);
+      continue;
+    }
+    if (bytes + size > SYNC.MAX_BATCH_BYTES) {
+      return { batch, oversized, isTruncated: true };
+    }
+
+    batch.push(conv);
+    bytes += size;
+  }
+
+  return { batch, oversized, isTruncated: false };
+};
+
+/**
+ * Mark conversations as unsyncable at their current edit time
+ * Marks for conversations deleted or edited since are dropped, so an edit gets another try.
+ */
+const markUnsyncable = (
+  marks: Record<string, number> | undefined,
+  refused: Conversation[],
+  current: Conversation[]
+): Record<string, number> => {
+  const editTimes = new Map(current.map(c => [c.id, getEditTime(c)]));
+  const next: Record<string, number> = {};
+
+  for (const [id, editTime] of Object.entries(marks ?? {})) {
+    if (editTimes.get(id) === editTime) next[id] = editTime;
+  }
+  for (const conv of refused) {
+    next[conv.id] = getEditTime(conv);
+  }
+  return next;
+};
+
 export const useConversations = (currentUser: User | null): UseConversationsReturn => {
-  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [conversations, setConversationsState] = useState<Conversation[]>([]);
   const [currentId, setCurrentId] = useState<string | null>(null);
   const [isInitialized, setIsInitialized] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(false);
 
   // Track the current user ID to detect actual user changes (not just object reference changes)
   const currentUserIdRef = useRef<string | null>(null);
+  const isSyncingRef = useRef(false);
+  const isSyncPendingRef = useRef(false); // A sync was asked for while one was in flight
+
+  // Local edits go through this wrapper so every changed conversation gets a fresh updatedAt
+  // Server merges use setConversationsState directly to keep the server's timestamps
+  const setConversations = useCallback<React.Dispatch<React.SetStateAction<Conversation[]>>>((action) => {
+    setConversationsState(prev => {
+      const next = typeof action === 'function' ? action(prev) : action;
+      return stampLocalEdits(prev, next);
+    });
+  }, []);
+
+  // Keep ref up to date for immediate saving
+  const conversationsRef = useRef(conversations);
+  useEffect(() => {
+    conversationsRef.current = conversations;
+  }, [conversations]);
+
+  /**
+   * Push dirty conversations and pending deletes, then merge server changes
+   * Failures are non-fatal: localStorage keeps working offline and the next sync retries.
+   * Conversations the server refuses (or too large to send) stay local-only until edited again,
+   * so they can't fail every later sync.
+   * A sync asked for while one is in flight, or a push cut short by the batch limits, runs again
+   * as soon as the current one finishes.
+   * @param pullOnly - skip the request entirely when there is nothing to push
+   */
+  const runSync = useCallback(async (pullOnly: boolean) => {
+    const userId = currentUserIdRef.current;
+    if (!userId) return;
+    if (isSyncingRef.current) {
+      isSyncPendingRef.current = true;
+      return;
+    }
+
+    const state = getConversationSyncState(userId);
+    const unsyncable = state.unsyncable ?? {};
+    const dirty = conversationsRef.current
+      .filter(c => state.lastPushedAt === null || getEditTime(c) > state.lastPushedAt)
+      .filter(c => unsyncable[c.id] !== getEditTime(c))
+      .sort((a, b) => getEditTime(a) - getEditTime(b));
+
+    const { batch, oversized, isTruncated } = takeSyncBatch(dirty);
+    if (oversized.length > 0) {
+      console.warn('[useConversations] Conversations too large to sync, keeping them local:', oversized.map(c => c.id));
+      setConversationSyncState(userId, {
+        ...state,
+        unsyncable: markUnsyncable(unsyncable, oversized, conversationsRef.current)
+      });
+    }
+
+    if (!pullOnly && batch.length === 0 && state.pendingDeletes.length === 0) return;
+
+    const pushStartedAt = Date.now();
+
+    isSyncingRef.current = true;
+    setIsSyncing(true);
+    let hasMoreToPush = false;
+
+    try {
+      const result = await syncConversations({
+        since: state.lastSyncedAt,
+        conversations: batch,
+        deletedIds: state.pendingDeletes
+      });
+
+      // User switched while the request was in flight - drop the result
+      if (currentUserIdRef.current !== userId) return;
+
+      setConversationsState(prev => mergeServerChanges(prev, result));
+
+      const deleted = new Set(result.deletedIds);
+      setCurrentId(prevId => {
+        if (prevId === null || !deleted.has(prevId)) return prevId;
+        const remaining = conversationsRef.current.filter(c => !deleted.has(c.id));
+        return remaining.length > 0 ? remaining[0].id : null;
+      });
+
+      const refused = (result.invalid ?? []).map(item => batch[item.index]).filter(Boolean);
+      if (refused.length > 0) {
+        console.warn('[useConversations] Server refused conversations, keeping them local:', result.invalid);
+      }
+
+      // Re-read: deletes may have been queued while the request was in flight
+      const latest = getConversationSyncState(userId);
+      const sentDeletes = new Set(state.pendingDeletes);
+      setConversationSyncState(userId, {
+        lastSyncedAt: result.serverTime,
+        lastPushedAt: isTruncated ? getEditTime(batch[batch.length - 1]) : pushStartedAt,
+        pendingDeletes: latest.pendingDeletes.filter(id => !sentDeletes.has(id)),
+        unsyncable: markUnsyncable(latest.unsyncable, [...oversized, ...refused], conversationsRef.current)
+      });
+      hasMoreToPush = isTruncated;
+    } catch (error) {
+      console.warn('[useConversations] Server sync failed, using local cache:', error);
+    } finally {
+      isSyncingRef.current = false;
+      setIsSyncing(false);
+    }
+
+    if (hasMoreToPush || isSyncPendingRef.current) {
+      isSyncPendingRef.current = false;
+      void runSync(false);
+    }
+  }, []);
+
+  const syncNow = useCallback(() => runSync(true), [runSync]);
 
   // Load conversations on mount and when user ID changes (not when user object reference changes)
   // FIX: Changed dependency from entire currentUser to currentUser?.id to prevent
@@ -43,7 +288,8 @@ export const useConversations = (currentUser: User | null): UseConversationsRetu
 
     if (currentUser) {
       const userConvos = getUserConversations(currentUser.id);
-      setConversations(userConvos);
+      setConversationsState(userConvos);
+      conversationsRef.current = userConvos;
 
       // Use functional update to avoid stale closure with currentId
       // Only select first conversation if there's no current selection
@@ -55,26 +301,22 @@ export const useConversations = (currentUser: User | null): UseConversationsRetu
       });
 
       setIsInitialized(true);
+
+      // Reconcile the cache with the server in the background
+      void runSync(true);
     } else {
       // Clear state when user logs out
-      setConversations([]);
+      setConversationsState([]);
       setCurrentId(null);
       setIsInitialized(false);
     }
-  }, [currentUser?.id]); // FIX: Only depend on user ID, not entire user object
+  }, [currentUser?.id, runSync]); // FIX: Only depend on user ID, not entire user object
 
   // Load on mount and user change
   useEffect(() => {
     loadConversations();
   }, [loadConversations]);
 
-
-  // Keep ref up to date for immediate saving
-  const conversationsRef = useRef(conversations);
-  useEffect(() => {
-    conversationsRef.current = conversations;
-  }, [conversations]);
-
   // Save conversations whenever they change (debounced)
   // FIXED: Also persist empty conversation list to properly handle deletions
   // PERF: Debounce writes to prevent trashing during streaming (writes every 1s max)
@@ -93,6 +335,26 @@ export const useConversations = (currentUser: User | null): UseConversationsRetu
     return () => clearTimeout(timeoutId);
   }, [conversations, currentUser?.id]);
 
+  // Push to the server once edits settle (longer debounce than the local save)
+  useEffect(() => {
+    if (!currentUser) return;
+
+    const timeoutId = setTimeout(() => {
+      void runSync(false);
+    }, SYNC.DEBOUNCE_MS);
+
+    return () => clearTimeout(timeoutId);
+  }, [conversations, currentUser?.id, runSync]);
+
+  // Catch up as soon as the browser comes back online
+  useEffect(() => {
+    const handleOnline = () => {
+      void runSync(true);
+    };
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [runSync]);
+
   // Manual save method that uses the ref to get latest data (bypassing closure staleness)
   const saveConversations = useCallback(() => {
     if (currentUser?.id && conversationsRef.current) {
@@ -108,7 +370,7 @@ export const useConversations = (currentUser: User | null): UseConversationsRetu
   const addConversation = useCallback((conversation: Conversation) => {
     setConversations(prev => [conversation, ...prev]);
     setCurrentId(conversation.id);
-  }, []);
+  }, [setConversations]);
 
   const updateConversation = useCallback((id: string, updates: Partial<Conversation>) => {
     setConversations(prev =>
@@ -116,9 +378,53 @@ export const useConversations = (currentUser: User | null): UseConversationsRetu
         conv.id === id ? { ...conv, ...updates, updatedAt: Date.now() } : conv
       )
     );
-  }, []);
+  }, [setConversations]);
+
+  const organizeConversation = useCallback((id: string, updates: ConversationOrganization) => {
+    setConversations(prev =>
+      prev.map(conv => conv.id === id ? applyOrganization(conv, updates) : conv)
+    );
+  }, [setConversations]);
+
+  const importConversations = useCallback((imported: readonly Conversation[]): ImportSummary => {
+    const localById = new Map(conversationsRef.current.map(c => [c.id, c]));
+    const accepted = imported.filter(conv => {
+      const local = localById.get(conv.id);
+      return !local || getEditTime(conv) > getEditTime(local);
+    });
+    const added = accepted.filter(conv => !localById.has(conv.id)).length;
+
+    if (accepted.length > 0) {
+      // Fresh updatedAt so the sync pushes them even when the export predates the last push
+      const now = Date.now();
+      const acceptedById = new Map(accepted.map(conv => [conv.id, { ...conv, updatedAt: now }]));
+
+      setConversations(prev => {
+        const merged = prev.map(conv => acceptedById.get(conv.id) ?? conv);
+        const known = new Set(prev.map(conv => conv.id));
+        const additions = [...acceptedById.values()].filter(conv => !known.has(conv.id));
+        return [...additions, ...merged].sort((a, b) => b.lastModified - a.lastModified);
+      });
+      setCurrentId(prevId => prevId ?? accepted[0].id);
+    }
+
+    return { added, updated: accepted.length - added, unchanged: imported.length - accepted.length };
+  }, [setConversations]);
 
   const deleteConversation = useCallback((id: string) => {
+    // Queue the delete for the server so other devices drop it too
+    const userId = currentUserIdRef.current;
+    if (userId) {
+      try {
+        const state = getConversationSyncState(userId);
+        if (!state.pendingDeletes.includes(id)) {
+          setConversationSyncState(userId, { ...state, pendingDeletes: [...state.pendingDeletes, id] });
+        }
+      } catch (error) {
+        console.error('[useConversations] Failed to queue delete for sync:', error);
+      }
+    }
+
     // FIX: Avoid stale closure and nested state updates
     // Compute the filtered list and next ID in a single pass
     setConversations(prev => {
@@ -131,18 +437,22 @@ export const useConversations = (currentUser: User | null): UseConversationsRetu
 
       return filtered;
     });
-  }, []); // Empty deps - no stale closure issues
+  }, [setConversations]);
 
   return {
     conversations,
     currentId,
     isInitialized,
+    isSyncing,
     setConversations,
     setCurrentId,
     addConversation,
     updateConversation,
+    organizeConversation,
     deleteConversation,
+    importConversations,
     loadConversations,
-    saveConversations
+    saveConversations,
+    syncNow
   };
 };
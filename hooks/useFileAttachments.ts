@@ -1,98 +1,361 @@
 /**
  * useFileAttachments Hook
  * Handles file upload, validation, and base64 encoding
+ * Files can come from the file picker, a drop or a paste; each is read on its own (with
+ * progress) and the per-file and per-message limits are checked before reading starts.
+ * Images are downscaled to the selected model's size and re-encoded first
+ * (lib/imageProcessing.ts), so their limits are checked on the result instead; their
+ * originals are kept until the message is sent in case the user asks for them.
+ * When signed in, each file is then uploaded to the server's file store and the attachment
+ * references it by `fileId` (the base64 is only kept for the composer's previews).
  */
 
-import { useState, useRef } from 'react';
-import { Attachment } from '../types';
-import { FILE_LIMITS } from '../config/constants';
+import { useState, useRef, useCallback } from 'react';
+import { Attachment, User } from '../types';
+import { FILE_LIMITS, IMAGE_UPLOAD } from '../config/constants';
+import { canPrepareImages, isPreparableImage, prepareImage } from '../lib/imageProcessing';
+import { APIError, deleteFile, uploadFile } from '../lib/apiClient';
+
+/**
+ * A file still being read into an attachment (and uploaded, when signed in)
+ */
+export interface AttachmentUpload {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  progress: number; // 0-100
+}
 
 interface UseFileAttachmentsReturn {
   attachments: Attachment[];
+  uploads: AttachmentUpload[];
   isUploading: boolean;
+  uploadError: string | null;
   fileInputRef: React.RefObject<HTMLInputElement | null>;
   handleFileSelect: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  addFiles: (files: FileList | readonly File[]) => void;
   removeAttachment: (index: number) => void;
   clearAttachments: () => void;
+  /** Whether the attachment at `index` was re-encoded and its original can still be sent */
+  hasOriginal: (index: number) => boolean;
+  /** Replace a re-encoded image with the original file */
+  restoreOriginal: (index: number) => void;
+  dismissUploadError: () => void;
 }
 
-export const useFileAttachments = (): UseFileAttachmentsReturn => {
+/**
+ * Whether a file matches the FILE_LIMITS.ACCEPT list (extensions or mime wildcards)
+ * Drops and pastes bypass the file input's own filter, so this is checked for every file.
+ */
+const isAcceptedFile = (file: File): boolean =>
+  FILE_LIMITS.ACCEPT.split(',').some(rule =>
+    rule.endsWith('/*')
+      ? file.type.startsWith(rule.slice(0, -1))
+      : file.name.toLowerCase().endsWith(rule)
+  );
+
+const attachmentSize = (att: Attachment) => att.size ?? Math.floor(att.data.length * 3 / 4);
+
+/**
+ * @param maxImageDimension - Longest image side (px) the selected model looks at (ChatModelInfo.maxImageDimension)
+ */
+export const useFileAttachments = (
+  currentUser: User | null = null,
+  maxImageDimension: number = IMAGE_UPLOAD.MAX_DIMENSION
+): UseFileAttachmentsReturn => {
   const [attachments, setAttachments] = useState<Attachment[]>([]);
-  const [isUploading, setIsUploading] = useState(false);
+  const [uploads, setUploads] = useState<AttachmentUpload[]>([]);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  // Full-size files behind re-encoded images (dropped once the message is sent or removed)
+  const [originals, setOriginals] = useState<Map<Attachment, File>>(() => new Map());
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const uploadIdRef = useRef(0);
+  // Files this draft added to the file store (deleted again if removed before sending)
+  const createdFileIdsRef = useRef(new Set<string>());
+  // Images still being re-encoded: their final size isn't known yet, so they don't count towards the total
+  const preparingIdsRef = useRef(new Set<string>());
+  // Latest state for the checks made once an image has been re-encoded
+  const latestRef = useRef({ attachments, uploads });
+  latestRef.current = { attachments, uploads };
 
-  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const files = event.target.files;
-    if (!files || files.length === 0) return;
+  /**
+   * Bytes the message already holds: attachments plus files still being read (except `exceptId`)
+   */
+  const messageBytes = (current: Attachment[], pending: AttachmentUpload[], exceptId?: string) =>
+    current.reduce((sum, att) => sum + attachmentSize(att), 0) +
+    pending.reduce((sum, upload) =>
+      upload.id === exceptId || preparingIdsRef.current.has(upload.id) ? sum : sum + upload.size, 0);
 
-    const file = files[0];
+  /**
+   * Register a file being read (shown with a progress bar) and return its upload id
+   */
+  const startUpload = (file: File) => {
+    const id = `upload-${uploadIdRef.current++}`;
+    setUploads(prev => [...prev, { id, name: file.name, type: file.type, size: file.size, progress: 0 }]);
+    return id;
+  };
 
-    // Validate file size
-    if (file.size > FILE_LIMITS.MAX_SIZE) {
-      alert(`Arquivo muito grande. O tamanho máximo é ${FILE_LIMITS.MAX_SIZE_MB}MB.`);
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
-      return;
-    }
+  const setProgress = (id: string, progress: number) =>
+    setUploads(prev => prev.map(upload => upload.id === id ? { ...upload, progress } : upload));
+
+  /**
+   * Upload a read file to the file store and attach it by reference
+   */
+  const storeAttachment = (id: string, blob: Blob, attachment: Attachment, onRead: (attachment: Attachment) => void) => {
+    const finish = () => setUploads(prev => prev.filter(upload => upload.id !== id));
+
+    uploadFile(blob, attachment.name)
+      .then(({ file, created }) => {
+        if (created) createdFileIdsRef.current.add(file.id);
+        onRead({ ...attachment, fileId: file.id });
+      })
+      .catch(error => {
+        console.error('[useFileAttachments] Upload failed:', error);
+        setUploadError(error instanceof APIError && error.code === 'FILE_QUOTA_EXCEEDED'
+          ? `Espaço de armazenamento de arquivos esgotado: ${attachment.name} não foi anexado.`
+          : `Erro ao enviar o arquivo "${attachment.name}". Tente novamente.`);
+      })
+      .finally(finish);
+  };
 
-    setIsUploading(true);
+  /**
+   * Read a file (or a re-encoded copy of one) into a base64 attachment
+   * Reading is the first half of the progress bar when the file is uploaded afterwards.
+   */
+  const readBlob = (id: string, blob: Blob, name: string, onRead: (attachment: Attachment) => void) => {
+    const finish = () => setUploads(prev => prev.filter(upload => upload.id !== id));
+    const upload = currentUser !== null;
 
     try {
       const reader = new FileReader();
 
+      reader.onprogress = (e) => {
+        if (!e.lengthComputable) return;
+        setProgress(id, Math.round((e.loaded / e.total) * (upload ? 50 : 100)));
+      };
+
       reader.onload = (e) => {
         const dataUrl = e.target?.result as string;
         // Extract base64 part from data URL (remove "data:image/png;base64," prefix)
         const base64 = dataUrl.split(',')[1];
-        const newAttachment: Attachment = {
-          name: file.name,
-          type: file.type,
+        const attachment: Attachment = {
+          name,
+          type: blob.type,
           data: base64,
-          size: file.size
+          size: blob.size
         };
 
-        setAttachments(prev => [...prev, newAttachment]);
-        setIsUploading(false);
-
-        // Clear input for next upload
-        if (fileInputRef.current) {
-          fileInputRef.current.value = '';
+        if (upload) {
+          setProgress(id, 50);
+          storeAttachment(id, blob, attachment, onRead);
+          return;
         }
+        onRead(attachment);
+        finish();
       };
 
       reader.onerror = () => {
         console.error('Erro ao ler arquivo');
-        alert('Erro ao processar o arquivo. Tente novamente.');
-        setIsUploading(false);
-
-        if (fileInputRef.current) {
-          fileInputRef.current.value = '';
-        }
+        setUploadError(`Erro ao processar o arquivo "${name}". Tente novamente.`);
+        finish();
       };
 
-      reader.readAsDataURL(file);
+      reader.readAsDataURL(blob);
     } catch (error) {
       console.error('Erro no upload:', error);
-      alert('Erro ao fazer upload do arquivo.');
-      setIsUploading(false);
+      setUploadError(`Erro ao fazer upload do arquivo "${name}".`);
+      finish();
+    }
+  };
+
+  /**
+   * Check the per-file and per-message limits for an image once its final size is known
+   * and count it towards the total; returns the error to show when it doesn't fit
+   */
+  const admitPrepared = (id: string, name: string, size: number): string | null => {
+    preparingIdsRef.current.delete(id);
+
+    if (size > FILE_LIMITS.MAX_SIZE) {
+      return `Arquivo muito grande: ${name}. O tamanho máximo é ${FILE_LIMITS.MAX_SIZE_MB}MB.`;
+    }
+    const { attachments: current, uploads: pending } = latestRef.current;
+    if (messageBytes(current, pending, id) + size > FILE_LIMITS.MAX_TOTAL_SIZE) {
+      return `Limite de ${FILE_LIMITS.MAX_TOTAL_SIZE_MB}MB por mensagem atingido: ${name} não foi anexado.`;
+    }
+
+    // Also updated here so another image finishing before the next render sees this one
+    const resize = (list: AttachmentUpload[]) => list.map(upload => upload.id === id ? { ...upload, size } : upload);
+    latestRef.current = { attachments: current, uploads: resize(pending) };
+    setUploads(resize);
+    return null;
+  };
+
+  const readFile = (file: File, prepare: boolean) => {
+    const id = startUpload(file);
+    const append = (attachment: Attachment) => setAttachments(prev => [...prev, attachment]);
+
+    if (!prepare) {
+      readBlob(id, file, file.name, append);
+      return;
+    }
+
+    preparingIdsRef.current.add(id);
+    prepareImage(file, maxImageDimension)
+      // Small or already well-compressed images can come out bigger: keep the original then
+      .then(prepared => prepared.blob.size < file.size ? prepared : null)
+      .catch(error => {
+        console.warn('[useFileAttachments] Could not re-encode image, attaching the original:', error);
+        return null;
+      })
+      .then(prepared => {
+        const blob = prepared?.blob ?? file;
+        const error = admitPrepared(id, file.name, blob.size);
+        if (error) {
+          setUploadError(error);
+          setUploads(prev => prev.filter(upload => upload.id !== id));
+          return;
+        }
+
+        if (!prepared) {
+          readBlob(id, file, file.name, append);
+          return;
+        }
+        readBlob(id, prepared.blob, prepared.name, attachment => {
+          append(attachment);
+          setOriginals(prev => new Map(prev).set(attachment, file));
+        });
+      });
+  };
+
+  const addFiles = (files: FileList | readonly File[]) => {
+    const list = Array.from(files);
+    if (list.length === 0) return;
+
+    // Files still being read count towards the message limits too
+    let count = attachments.length + uploads.length;
+    let total = messageBytes(attachments, uploads);
+    const errors: string[] = [];
+
+    for (const file of list) {
+      // Images that get re-encoded have their sizes checked afterwards (see admitPrepared)
+      const prepare = isPreparableImage(file) && canPrepareImages();
+
+      if (!isAcceptedFile(file)) {
+        errors.push(`Tipo de arquivo não suportado: ${file.name}.`);
+      } else if (!prepare && file.size > FILE_LIMITS.MAX_SIZE) {
+        errors.push(`Arquivo muito grande: ${file.name}. O tamanho máximo é ${FILE_LIMITS.MAX_SIZE_MB}MB.`);
+      } else if (count >= FILE_LIMITS.MAX_FILES) {
+        errors.push(`Limite de ${FILE_LIMITS.MAX_FILES} arquivos por mensagem atingido: ${file.name} não foi anexado.`);
+      } else if (!prepare && total + file.size > FILE_LIMITS.MAX_TOTAL_SIZE) {
+        errors.push(`Limite de ${FILE_LIMITS.MAX_TOTAL_SIZE_MB}MB por mensagem atingido: ${file.name} não foi anexado.`);
+      } else {
+        count++;
+        if (!prepare) total += file.size;
+        readFile(file, prepare);
+      }
+    }
+
+    if (errors.length > 0) {
+      setUploadError(errors.join(' '));
+    }
+  };
+
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = event.target.files;
+    if (!files || files.length === 0) return;
+
+    addFiles(files);
+
+    // Clear input so the same file can be picked again
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
     }
   };
 
+  const forgetOriginal = (attachment: Attachment) => {
+    setOriginals(prev => {
+      const next = new Map(prev);
+      next.delete(attachment);
+      return next;
+    });
+  };
+
+  /**
+   * Delete a removed attachment's upload, unless it was already stored before this draft
+   * (a sent message may reference it) or another attachment of the draft still uses it
+   */
+  const releaseFile = (removed: Attachment, remaining: readonly Attachment[]) => {
+    const { fileId } = removed;
+    if (!fileId || !createdFileIdsRef.current.has(fileId) || remaining.some(att => att.fileId === fileId)) return;
+
+    createdFileIdsRef.current.delete(fileId);
+    deleteFile(fileId).catch(error => {
+      console.warn('[useFileAttachments] Could not delete removed upload:', error);
+    });
+  };
+
   const removeAttachment = (index: number) => {
+    const removed = attachments[index];
     setAttachments(prev => prev.filter((_, i) => i !== index));
+    if (removed) {
+      forgetOriginal(removed);
+      releaseFile(removed, attachments.filter((_, i) => i !== index));
+    }
   };
 
+  // Called once the message is sent: its uploads now belong to the message
   const clearAttachments = () => {
     setAttachments([]);
+    setOriginals(new Map());
+    createdFileIdsRef.current.clear();
+  };
+
+  const hasOriginal = (index: number) => index < attachments.length && originals.has(attachments[index]);
+
+  const restoreOriginal = (index: number) => {
+    const current = attachments[index];
+    const original = current && originals.get(current);
+    if (!original) return;
+
+    // Only the re-encoded copy was checked against the per-file limit
+    if (original.size > FILE_LIMITS.MAX_SIZE) {
+      setUploadError(`O original de ${original.name} é muito grande. O tamanho máximo é ${FILE_LIMITS.MAX_SIZE_MB}MB.`);
+      return;
+    }
+
+    // The original replaces the smaller copy, so only the difference counts towards the limit
+    const total = messageBytes(attachments, uploads);
+    if (total - attachmentSize(current) + original.size > FILE_LIMITS.MAX_TOTAL_SIZE) {
+      setUploadError(`Limite de ${FILE_LIMITS.MAX_TOTAL_SIZE_MB}MB por mensagem atingido: o original de ${original.name} não cabe.`);
+      return;
+    }
+
+    readBlob(startUpload(original), original, original.name, restored => {
+      setAttachments(prev => {
+        const next = prev.map(att => att === current ? restored : att);
+        releaseFile(current, next);
+        return next;
+      });
+      forgetOriginal(current);
+    });
   };
 
+  // Stable so the Toast's auto-close timer isn't restarted on every render
+  const dismissUploadError = useCallback(() => setUploadError(null), []);
+
   return {
     attachments,
-    isUploading,
+    uploads,
+    isUploading: uploads.length > 0,
+    uploadError,
     fileInputRef,
     handleFileSelect,
+    addFiles,
     removeAttachment,
-    clearAttachments
+    clearAttachments,
+    hasOriginal,
+    restoreOriginal,
+    dismissUploadError
   };
 };
@@ -0,0 +1,57 @@
+/**
+ * useModelCatalogue Hook
+ * Loads the chat/image/video model catalogue from the server (fetched once per page load and shared)
+ */
+
+import { useState, useEffect } from 'react';
+import { getModelCatalogue } from '../lib/apiClient';
+import { ModelCatalogue } from '../types';
+
+let catalogueRequest: Promise<ModelCatalogue> | null = null;
+
+function loadCatalogue(): Promise<ModelCatalogue> {
+  if (!catalogueRequest) {
+    catalogueRequest = getModelCatalogue().catch(error => {
+      // Allow the next mount to retry
+      catalogueRequest = null;
+      throw error;
+    });
+  }
+  return catalogueRequest;
+}
+
+/**
+ * Reset the shared cache (tests only)
+ */
+export function resetModelCatalogueCache(): void {
+  catalogueRequest = null;
+}
+
+interface UseModelCatalogueReturn {
+  catalogue: ModelCatalogue | null;
+  error: string | null;
+}
+
+export const useModelCatalogue = (): UseModelCatalogueReturn => {
+  const [catalogue, setCatalogue] = useState<ModelCatalogue | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadCatalogue()
+      .then(result => {
+        if (!cancelled) setCatalogue(result);
+      })
+      .catch(err => {
+        console.warn('[useModelCatalogue] Failed to load model catalogue:', err);
+        if (!cancelled) setError('Não foi possível carregar os modelos');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { catalogue, error };
+};
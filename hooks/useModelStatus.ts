@@ -0,0 +1,39 @@
+/**
+ * useModelStatus Hook
+ * Polls the live health status of each chat model (drives the selector's indicators)
+ */
+
+import { useState, useEffect } from 'react';
+import { getModelStatus } from '../lib/apiClient';
+import { ModelStatusEntry } from '../types';
+import { MODEL_STATUS } from '../config/constants';
+
+export const useModelStatus = (): Map<string, ModelStatusEntry> => {
+  const [statuses, setStatuses] = useState<Map<string, ModelStatusEntry>>(() => new Map());
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const refresh = async () => {
+      try {
+        const entries = await getModelStatus();
+        if (!cancelled) {
+          setStatuses(new Map(entries.map(entry => [entry.id, entry])));
+        }
+      } catch (error) {
+        // Keep the last known statuses - the indicator is informational only
+        console.warn('[useModelStatus] Failed to refresh model status:', error);
+      }
+    };
+
+    refresh();
+    const intervalId = setInterval(refresh, MODEL_STATUS.POLL_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(intervalId);
+    };
+  }, []);
+
+  return statuses;
+};
@@ -0,0 +1,91 @@
+/**
+ * usePersonas Hook
+ * The user's persona library (own and shared system prompt presets) with CRUD and sharing
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  listPersonas,
+  createPersona,
+  updatePersona,
+  deletePersona,
+  sharePersona
+} from '../lib/apiClient';
+import { Persona, PersonaInput, User } from '../types';
+
+interface UsePersonasReturn {
+  personas: Persona[];
+  isLoading: boolean;
+  /**
+   * Create a persona, or update it when `id` is given
+   */
+  savePersona: (input: PersonaInput, id?: string) => Promise<Persona>;
+  /**
+   * Delete an own persona, or stop receiving a shared one
+   */
+  removePersona: (id: string) => Promise<void>;
+  /**
+   * Replace the teammates (by email) a persona is shared with
+   */
+  setPersonaSharing: (id: string, emails: string[]) => Promise<Persona>;
+}
+
+// Own personas first, then shared ones - each group by name (matches the server ordering)
+const sortPersonas = (personas: Persona[]): Persona[] =>
+  [...personas].sort((a, b) =>
+    a.isOwner === b.isOwner ? a.name.localeCompare(b.name) : (a.isOwner ? -1 : 1)
+  );
+
+export const usePersonas = (currentUser: User | null): UsePersonasReturn => {
+  const [personas, setPersonas] = useState<Persona[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!currentUser) {
+      setPersonas([]);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+
+    listPersonas()
+      .then(result => {
+        if (!cancelled) setPersonas(result);
+      })
+      .catch(error => {
+        // Personas are optional - chatting without one still works
+        console.warn('[usePersonas] Failed to load personas:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentUser?.id]);
+
+  const replacePersona = useCallback((persona: Persona) => {
+    setPersonas(prev => sortPersonas([...prev.filter(p => p.id !== persona.id), persona]));
+  }, []);
+
+  const savePersona = useCallback(async (input: PersonaInput, id?: string) => {
+    const saved = id ? await updatePersona(id, input) : await createPersona(input);
+    replacePersona(saved);
+    return saved;
+  }, [replacePersona]);
+
+  const removePersona = useCallback(async (id: string) => {
+    await deletePersona(id);
+    setPersonas(prev => prev.filter(p => p.id !== id));
+  }, []);
+
+  const setPersonaSharing = useCallback(async (id: string, emails: string[]) => {
+    const updated = await sharePersona(id, emails);
+    replacePersona(updated);
+    return updated;
+  }, [replacePersona]);
+
+  return { personas, isLoading, savePersona, removePersona, setPersonaSharing };
+};
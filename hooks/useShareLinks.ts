@@ -0,0 +1,65 @@
+/**
+ * useShareLinks Hook
+ * The user's public read-only conversation links, with create and revoke
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { listShareLinks, createShareLink, revokeShareLink, CreateShareLinkParams } from '../lib/apiClient';
+import { ShareLink, User } from '../types';
+
+interface UseShareLinksReturn {
+  shareLinks: ShareLink[];
+  isLoading: boolean;
+  /**
+   * Snapshot a conversation branch behind a new public link
+   */
+  createShare: (params: CreateShareLinkParams) => Promise<ShareLink>;
+  /**
+   * Revoke a link (the public URL stops working immediately)
+   */
+  revokeShare: (id: string) => Promise<void>;
+}
+
+export const useShareLinks = (currentUser: User | null): UseShareLinksReturn => {
+  const [shareLinks, setShareLinks] = useState<ShareLink[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!currentUser) {
+      setShareLinks([]);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+
+    listShareLinks()
+      .then(result => {
+        if (!cancelled) setShareLinks(result);
+      })
+      .catch(error => {
+        // Existing links are only needed to revoke them - sharing still works without the list
+        console.warn('[useShareLinks] Failed to load share links:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentUser?.id]);
+
+  const createShare = useCallback(async (params: CreateShareLinkParams) => {
+    const link = await createShareLink(params);
+    setShareLinks(prev => [link, ...prev]);
+    return link;
+  }, []);
+
+  const revokeShare = useCallback(async (id: string) => {
+    await revokeShareLink(id);
+    setShareLinks(prev => prev.filter(link => link.id !== id));
+  }, []);
+
+  return { shareLinks, isLoading, createShare, revokeShare };
+};
@@ -3,8 +3,9 @@
  * All API calls go through the backend proxy for security
  */
 
-import { RETRY } from '../config/constants';
+import { RETRY, STREAM_RESUME } from '../config/constants';
 import { ErrorType } from './errorTypes';
+import { ContextStrategy, ContextTrimReport, Conversation, CreditEntryType, CreditLedgerEntry, DocumentSummary, Message, ModelCatalogue, ModelParams, ModelStatusEntry, Persona, PersonaInput, ShareLink, ShareLinkInput, SharedConversation, StoredFile } from '../types';
 
 const API_BASE = import.meta.env.VITE_API_URL || 'http://localhost:3001';
 
@@ -86,59 +87,124 @@ export interface StreamChatParams {
   systemPrompt: string;
   messages: Array<{
     role: 'user' | 'assistant';
-    content: string | Array<{ type: string; text?: string; image_url?: { url: string } }>;
+    content: string | Array<{
+      type: string;
+      text?: string;
+      image_url?: { url: string };
+      file?: { filename: string; file_data?: string; file_id?: string };
+    }>;
   }>;
+  /** Sampling settings (validated against the model's limits by the server) */
+  params?: ModelParams;
+  /** How the server fits a history longer than the model's context window */
+  contextStrategy?: ContextStrategy;
   onChunk: (text: string) => void;
   onComplete: () => void;
   onError: (error: Error) => void;
   onFallback?: (primaryModel: string, actualModel: string, message: string) => void;
+  /** Called when older messages were dropped or summarised to fit the context window */
+  onContextTrimmed?: (report: ContextTrimReport) => void;
+  /** Called with the page/line counts of documents attached to the message being sent */
+  onDocuments?: (documents: DocumentSummary[]) => void;
+  /** Aborting stops the stream (the server aborts the upstream call and bills what was produced) */
+  signal?: AbortSignal;
+  /** Called instead of onComplete/onError when the reply was stopped before it finished */
+  onAbort?: () => void;
 }
 
 
+/**
+ * Stop a running chat generation on the server
+ * Closing the connection alone isn't enough: the server keeps a generation alive for a
+ * while after a disconnect so the client can resume it.
+ */
+export async function cancelChatGeneration(generationId: string): Promise<void> {
+  const response = await fetch(`${API_BASE}/api/chat/stream/${encodeURIComponent(generationId)}/cancel`, {
+    method: 'POST',
+    credentials: 'include'
+  });
+
+  await handleResponse(response);
+}
+
+/**
+ * A network failure mid-stream (as opposed to our own abort or a server error)
+ */
+function isConnectionDrop(error: unknown, signal: AbortSignal): boolean {
+  return !signal.aborted && error instanceof TypeError;
+}
+
+/**
+ * Stream a chat completion
+ * Every SSE event carries a sequence id and the first one names the generation; if the
+ * connection drops, the stream is resumed from the last received event (GET with
+ * Last-Event-ID) instead of re-running and re-billing the request.
+ */
 export async function streamChatCompletion({
   model,
   systemPrompt,
   messages,
+  params,
+  contextStrategy,
   onChunk,
   onComplete,
   onError,
-  onFallback
+  onFallback,
+  onContextTrimmed,
+  onDocuments,
+  signal,
+  onAbort
 }: StreamChatParams): Promise<void> {
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), 120000); // 2 min timeout
 
-  try {
-    const response = await fetch(`${API_BASE}/api/chat/stream`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      credentials: 'include',
-      body: JSON.stringify({ model, systemPrompt, messages }),
-      signal: controller.signal
-    });
-
-    await handleResponse(response);
+  let generationId: string | null = null;
+  let lastEventId = 0;
+  let finished = false;     // [DONE] or an interruption notice was received
+  let interrupted = false;  // The server stopped the reply early
+
+  // Stop: drop the connection and tell the server (which would otherwise wait for a resume)
+  const abortFromCaller = () => {
+    controller.abort();
+    if (generationId) {
+      cancelChatGeneration(generationId).catch(error => {
+        console.warn('[Stream] Failed to cancel generation:', error);
+      });
+    }
+  };
+  if (signal?.aborted) {
+    abortFromCaller();
+  } else {
+    signal?.addEventListener('abort', abortFromCaller, { once: true });
+  }
 
+  /**
+   * Read one connection's events until the server ends it or a terminal event arrives
+   */
+  const readEvents = async (response: Response) => {
     const reader = response.body!.getReader();
     const decoder = new TextDecoder();
     let buffer = '';
 
     while (true) {
       const { done, value } = await reader.read();
-      if (done) break;
+      if (done) return;
 
       buffer += decoder.decode(value, { stream: true });
       const lines = buffer.split('\n');
       buffer = lines.pop() || '';
 
       for (const line of lines) {
+        if (line.startsWith('id: ')) {
+          const id = Number(line.slice(4));
+          if (Number.isInteger(id)) lastEventId = id;
+          continue;
+        }
         if (!line.startsWith('data: ')) continue;
 
         const data = line.slice(6);
         if (data === '[DONE]') {
-          clearTimeout(timeoutId);
-          onComplete();
+          finished = true;
           return;
         }
 
@@ -160,7 +226,27 @@ export async function streamChatCompletion({
             );
           }
 
+          // Generation handle (first event) - needed to resume or cancel
+          if (parsed.generation?.id) {
+            generationId = parsed.generation.id;
+          }
+
+          // The server stopped the reply (cancelled, or no client reconnected in time)
+          if (parsed.interrupted) {
+            finished = true;
+            interrupted = true;
+            return;
+          }
+
           // Handle content chunks
+          if (parsed.context && onContextTrimmed) {
+            onContextTrimmed(parsed.context);
+          }
+
+          if (Array.isArray(parsed.documents) && onDocuments) {
+            onDocuments(parsed.documents);
+          }
+
           if (parsed.content) {
             onChunk(parsed.content);
           }
@@ -190,13 +276,89 @@ export async function streamChatCompletion({
         }
       }
     }
+  };
+
+  try {
+    let response: Response | null = await fetch(`${API_BASE}/api/chat/stream`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      credentials: 'include',
+      body: JSON.stringify({ model, systemPrompt, messages, params, contextStrategy }),
+      signal: controller.signal
+    });
+
+    await handleResponse(response);
+
+    let resumeAttempts = 0;
+
+    while (true) {
+      if (response) {
+        try {
+          await readEvents(response);
+        } catch (error) {
+          if (!isConnectionDrop(error, controller.signal)) throw error;
+        }
+      }
+      if (finished) break;
+
+      // The connection ended without [DONE]: resume where we left off
+      if (!generationId || resumeAttempts >= STREAM_RESUME.MAX_ATTEMPTS) {
+        throw new APIError(
+          'A conexão caiu e a resposta não pôde ser retomada.',
+          0,
+          'STREAM_INTERRUPTED',
+          ErrorType.NETWORK,
+          undefined,
+          undefined,
+          true
+        );
+      }
+
+      const delay = Math.min(
+        STREAM_RESUME.INITIAL_DELAY * Math.pow(RETRY.BACKOFF_MULTIPLIER, resumeAttempts),
+        STREAM_RESUME.MAX_DELAY
+      );
+      resumeAttempts++;
+      console.warn(`[Stream] Connection lost, resuming generation ${generationId} after event ${lastEventId} (attempt ${resumeAttempts})`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+
+      try {
+        response = await fetch(`${API_BASE}/api/chat/stream/${encodeURIComponent(generationId)}`, {
+          headers: {
+            'Last-Event-ID': String(lastEventId)
+          },
+          credentials: 'include',
+          signal: controller.signal
+        });
+        // 404 means the generation expired - nothing left to resume
+        await handleResponse(response);
+      } catch (error) {
+        if (!isConnectionDrop(error, controller.signal)) throw error;
+        response = null; // Still offline - try again
+      }
+    }
 
     clearTimeout(timeoutId);
-    onComplete();
+    signal?.removeEventListener('abort', abortFromCaller);
+
+    if (interrupted && onAbort) {
+      onAbort();
+    } else {
+      onComplete();
+    }
   } catch (error) {
     clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', abortFromCaller);
 
-    if (error instanceof Error && error.name === 'AbortError') {
+    if (signal?.aborted) {
+      if (onAbort) {
+        onAbort();
+      } else {
+        onError(new APIError('Request cancelled', 499, 'CANCELLED'));
+      }
+    } else if (error instanceof Error && error.name === 'AbortError') {
       onError(new APIError('Request timeout', 408, 'TIMEOUT', ErrorType.TIMEOUT));
     } else {
       onError(error as Error);
@@ -287,6 +449,357 @@ export async function generateVideo(params: VideoGenerationParams | string): Pro
   });
 }
 
+// Chat cost estimate (mirrors server/src/lib/costEstimator.ts)
+export interface ChatCostEstimate {
+  model: string;
+  inputTokens: number;
+  maxOutputTokens: number;
+  multiplier: number;
+  inputCost: number;
+  maxOutputCost: number;
+  minCredits: number;
+  maxCredits: number;
+}
+
+/**
+ * Estimate what a chat request would cost without sending it
+ * Takes the same history /stream would receive so the server tokenises exactly what gets billed
+ */
+export async function estimateChatCost(
+  params: Pick<StreamChatParams, 'model' | 'systemPrompt' | 'messages' | 'params' | 'contextStrategy'>,
+  signal?: AbortSignal
+): Promise<ChatCostEstimate> {
+  const response = await fetch(`${API_BASE}/api/chat/estimate`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    credentials: 'include',
+    body: JSON.stringify(params),
+    signal
+  });
+
+  await handleResponse(response);
+  return response.json();
+}
+
+/**
+ * Fetch the model catalogue (chat, image and video models with capabilities and pricing)
+ */
+export async function getModelCatalogue(): Promise<ModelCatalogue> {
+  const response = await fetch(`${API_BASE}/api/models`, {
+    credentials: 'include'
+  });
+
+  await handleResponse(response);
+  return response.json();
+}
+
+/**
+ * Fetch the current health status of each chat model
+ */
+export async function getModelStatus(): Promise<ModelStatusEntry[]> {
+  const response = await fetch(`${API_BASE}/api/models/status`, {
+    credentials: 'include'
+  });
+
+  await handleResponse(response);
+  const data = await response.json();
+  return data.models;
+}
+
+// Conversation sync payloads
+export interface ConversationSyncParams {
+  since: number | null;
+  conversations: Conversation[];
+  deletedIds: string[];
+}
+
+/**
+ * A pushed conversation the server refused (`index` is its position in the pushed batch)
+ */
+export interface ConversationSyncInvalidItem {
+  index: number;
+  id: string | null;
+  code: string;
+  error: string;
+}
+
+export interface ConversationSyncResult {
+  conversations: Conversation[];
+  deletedIds: string[];
+  accepted: string[];
+  rejected: string[];
+  invalid?: ConversationSyncInvalidItem[];
+  serverTime: number;
+}
+
+/**
+ * Push local conversation changes and pull everything changed on the server since the last sync
+ */
+export async function syncConversations(params: ConversationSyncParams): Promise<ConversationSyncResult> {
+  const response = await fetch(`${API_BASE}/api/conversations/sync`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    credentials: 'include',
+    body: JSON.stringify({
+      since: params.since ?? undefined,
+      conversations: params.conversations,
+      deletedIds: params.deletedIds
+    })
+  });
+
+  await handleResponse(response);
+  return response.json();
+}
+
+// Credit history query and page
+export interface CreditHistoryParams {
+  limit?: number;
+  offset?: number;
+  type?: CreditEntryType;
+  model?: string;
+  from?: number;
+  to?: number;
+}
+
+export interface CreditHistoryPage {
+  entries: CreditLedgerEntry[];
+  total: number;
+  limit: number;
+  offset: number;
+  hasMore: boolean;
+}
+
+/**
+ * Fetch a page of the user's credit ledger (newest first)
+ */
+export async function getCreditHistory(params: CreditHistoryParams = {}): Promise<CreditHistoryPage> {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== '') {
+      query.set(key, String(value));
+    }
+  }
+
+  const response = await fetch(`${API_BASE}/api/credits/history?${query.toString()}`, {
+    credentials: 'include'
+  });
+
+  await handleResponse(response);
+  return response.json();
+}
+
+/**
+ * Fetch the user's active share links (newest first)
+ */
+export async function listShareLinks(): Promise<ShareLink[]> {
+  const response = await fetch(`${API_BASE}/api/shares`, {
+    credentials: 'include'
+  });
+
+  await handleResponse(response);
+  const data = await response.json();
+  return data.shares;
+}
+
+export interface CreateShareLinkParams extends ShareLinkInput {
+  conversationId: string;
+  title: string;
+  modelId?: string;
+  personaName?: string;
+  messages: readonly Message[]; // The branch being shown
+}
+
+/**
+ * Snapshot a conversation branch behind a new public link
+ */
+export async function createShareLink(params: CreateShareLinkParams): Promise<ShareLink> {
+  const response = await fetch(`${API_BASE}/api/shares`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    credentials: 'include',
+    body: JSON.stringify(params)
+  });
+
+  await handleResponse(response);
+  const data = await response.json();
+  return data.share;
+}
+
+/**
+ * Revoke a share link (the public URL stops working immediately)
+ */
+export async function revokeShareLink(id: string): Promise<void> {
+  const response = await fetch(`${API_BASE}/api/shares/${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+    credentials: 'include'
+  });
+
+  await handleResponse(response);
+}
+
+/**
+ * Load a shared conversation by its public token (no login needed)
+ */
+export async function getSharedConversation(id: string): Promise<SharedConversation> {
+  const response = await fetch(`${API_BASE}/api/public/shares/${encodeURIComponent(id)}`);
+
+  await handleResponse(response);
+  const data = await response.json();
+  return data.share;
+}
+
+export interface UploadFileResult {
+  file: StoredFile;
+  created: boolean; // false when the user had already uploaded the same contents
+}
+
+export interface FileUsage {
+  bytes: number;
+  quotaBytes: number;
+}
+
+/**
+ * List the user's stored attachments (newest first) and how much of the quota they use
+ */
+export async function listFiles(): Promise<{ files: StoredFile[]; usage: FileUsage }> {
+  const response = await fetch(`${API_BASE}/api/files`, {
+    credentials: 'include'
+  });
+
+  await handleResponse(response);
+  const data = await response.json();
+  return { files: data.files, usage: data.usage };
+}
+
+/**
+ * Upload an attachment to the file store (deduplicated by contents on the server)
+ */
+export async function uploadFile(blob: Blob, name: string): Promise<UploadFileResult> {
+  const response = await fetch(`${API_BASE}/api/files`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/octet-stream',
+      'X-File-Name': encodeURIComponent(name),
+      'X-File-Type': blob.type
+    },
+    credentials: 'include',
+    body: blob
+  });
+
+  await handleResponse(response);
+  const data = await response.json();
+  return { file: data.file, created: data.created };
+}
+
+/**
+ * Download a stored attachment's contents
+ */
+export async function getFileContents(id: string): Promise<Blob> {
+  const response = await fetch(`${API_BASE}/api/files/${encodeURIComponent(id)}`, {
+    credentials: 'include'
+  });
+
+  await handleResponse(response);
+  return response.blob();
+}
+
+/**
+ * Delete a stored attachment (messages that still reference it can no longer open it)
+ */
+export async function deleteFile(id: string): Promise<void> {
+  const response = await fetch(`${API_BASE}/api/files/${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+    credentials: 'include'
+  });
+
+  await handleResponse(response);
+}
+
+/**
+ * Fetch the user's persona library (own personas first, then those shared with them)
+ */
+export async function listPersonas(): Promise<Persona[]> {
+  const response = await fetch(`${API_BASE}/api/personas`, {
+    credentials: 'include'
+  });
+
+  await handleResponse(response);
+  const data = await response.json();
+  return data.personas;
+}
+
+/**
+ * Create a persona owned by the user
+ */
+export async function createPersona(input: PersonaInput): Promise<Persona> {
+  const response = await fetch(`${API_BASE}/api/personas`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    credentials: 'include',
+    body: JSON.stringify(input)
+  });
+
+  await handleResponse(response);
+  const data = await response.json();
+  return data.persona;
+}
+
+/**
+ * Update one of the user's own personas
+ */
+export async function updatePersona(id: string, updates: Partial<PersonaInput>): Promise<Persona> {
+  const response = await fetch(`${API_BASE}/api/personas/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    credentials: 'include',
+    body: JSON.stringify(updates)
+  });
+
+  await handleResponse(response);
+  const data = await response.json();
+  return data.persona;
+}
+
+/**
+ * Remove a persona from the library (deletes it if owned, otherwise leaves the share)
+ */
+export async function deletePersona(id: string): Promise<void> {
+  const response = await fetch(`${API_BASE}/api/personas/${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+    credentials: 'include'
+  });
+
+  await handleResponse(response);
+}
+
+/**
+ * Replace the list of teammates (by email) a persona is shared with
+ */
+export async function sharePersona(id: string, emails: string[]): Promise<Persona> {
+  const response = await fetch(`${API_BASE}/api/personas/${encodeURIComponent(id)}/share`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    credentials: 'include',
+    body: JSON.stringify({ emails })
+  });
+
+  await handleResponse(response);
+  const data = await response.json();
+  return data.persona;
+}
+
 export async function retryWithBackoff<T>(
   fn: () => Promise<T>,
   maxRetries = RETRY.MAX_ATTEMPTS,
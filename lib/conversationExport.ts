@@ -0,0 +1,426 @@
+import { createElement } from 'react';
+import { Attachment, ContextStrategy, Conversation, Message } from '../types';
+import { getBranchPath } from './conversationTree';
+import { normalizeOrganization } from './conversationOrganization';
+import { normalizeText } from './conversationSearch';
+import { MESSAGE_LIMITS } from '../config/constants';
+import { getFileContents, uploadFile } from './apiClient';
+
+/**
+ * Conversation export and import
+ *
+ * - Markdown: readable transcript of the branch being shown, text attachments as code fences
+ * - JSON: lossless (every branch, attachments, generated media references, settings); the only
+ *   format that can be imported back
+ * - HTML: self-contained page rendered like MarkdownRenderer (see components/ConversationExportDocument.tsx)
+ *
+ * Attachments kept in the file store are downloaded and inlined first, so every export stands
+ * on its own and imports into any account; imported attachments are uploaded back to the store.
+ */
+
+export type ExportFormat = 'markdown' | 'json' | 'html';
+
+export const EXPORT_FILE_TYPE = 'fidi-conversations';
+export const EXPORT_VERSION = 1;
+
+export interface ConversationExportFile {
+  readonly type: typeof EXPORT_FILE_TYPE;
+  readonly version: number;
+  readonly exportedAt: number;
+  readonly conversations: readonly Conversation[];
+}
+
+export interface ParsedImport {
+  conversations: Conversation[];
+  skipped: number; // Entries that failed validation
+}
+
+export class ConversationImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConversationImportError';
+  }
+}
+
+const FORMAT_INFO: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  markdown: { extension: 'md', mimeType: 'text/markdown;charset=utf-8' },
+  json: { extension: 'json', mimeType: 'application/json;charset=utf-8' },
+  html: { extension: 'html', mimeType: 'text/html;charset=utf-8' }
+};
+
+// Import limits (mirror validateConversation in server/src/routes/conversations.ts, so an
+// imported conversation can always be synced)
+const MAX_ID_LENGTH = 100;
+const MAX_TITLE_LENGTH = 200;
+const MAX_MODEL_PARAMS = 10;
+const MAX_PERSONA_NAME_LENGTH = 60;
+const MAX_SYSTEM_PROMPT_LENGTH = 8000;
+const MAX_MEMORY_NOTES = 50;
+const MAX_MEMORY_NOTE_LENGTH = 2000;
+const CONTEXT_STRATEGIES: readonly ContextStrategy[] = ['drop_oldest', 'keep_pinned', 'summarize'];
+
+// Attachment types decoded into the Markdown transcript (everything else is listed by name)
+const TEXT_ATTACHMENT = /^(text\/|application\/(json|xml|javascript|typescript|x-sh))/;
+
+export const roleLabel = (role: Message['role']) => role === 'user' ? 'Você' : 'FIDI';
+
+export const formatExportDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+
+/**
+ * Messages of the branch being shown (what Markdown and HTML exports contain)
+ */
+export const getExportedMessages = (conv: Conversation): Message[] =>
+  getBranchPath(conv.messages, conv.activeLeafId);
+
+/**
+ * Decode a base64 attachment as UTF-8 text (null when it is not valid base64)
+ */
+export function decodeTextAttachment(att: Attachment): string | null {
+  try {
+    const bytes = Uint8Array.from(atob(att.data), char => char.charCodeAt(0));
+    return new TextDecoder().decode(bytes);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Wrap text in a code fence longer than any backtick run it contains
+ */
+export function codeFence(text: string, language = ''): string {
+  const longestRun = Math.max(0, ...(text.match(/`+/g) ?? []).map(run => run.length));
+  const fence = '`'.repeat(Math.max(3, longestRun + 1));
+  return `${fence}${language}\n${text.replace(/\n$/, '')}\n${fence}`;
+}
+
+const fenceLanguage = (name: string) => {
+  const extension = /\.([a-z0-9]+)$/i.exec(name)?.[1]?.toLowerCase();
+  return extension && extension !== 'txt' ? extension : '';
+};
+
+function attachmentToMarkdown(att: Attachment): string {
+  // Stored files that couldn't be downloaded have no data
+  const text = TEXT_ATTACHMENT.test(att.type) && att.data ? decodeTextAttachment(att) : null;
+  if (text !== null) {
+    return `**📎 ${att.name}**\n\n${codeFence(text, fenceLanguage(att.name))}`;
+  }
+  return `📎 ${att.name} (${att.type})`;
+}
+
+function messageToMarkdown(msg: Message): string {
+  const heading = `### ${roleLabel(msg.role)}${msg.timestamp ? ` · ${formatExportDate(msg.timestamp)}` : ''}`;
+  const parts = [heading];
+
+  if (msg.media) {
+    const label = msg.media.type === 'image' ? 'Imagem gerada' : 'Vídeo gerado';
+    // data: URIs make huge lines; reference them instead of inlining
+    const target = msg.media.url.startsWith('data:') ? '(incorporado no export JSON)' : msg.media.url;
+    parts.push(`_${label}${msg.media.prompt ? `: ${msg.media.prompt}` : ''}_ — ${target}`);
+  }
+  if (msg.content) parts.push(msg.content);
+  msg.attachments?.forEach(att => parts.push(attachmentToMarkdown(att)));
+  if (msg.interrupted) parts.push('_(resposta interrompida)_');
+
+  return parts.join('\n\n');
+}
+
+/**
+ * Markdown transcript of one conversation
+ */
+export function conversationToMarkdown(conv: Conversation): string {
+  const details = [
+    conv.modelId && `- Modelo: ${conv.modelId}`,
+    conv.persona && `- Persona: ${conv.persona.name}`,
+    conv.folder && `- Pasta: ${conv.folder}`,
+    conv.tags?.length && `- Tags: ${conv.tags.map(tag => `#${tag}`).join(' ')}`,
+    `- Última modificação: ${formatExportDate(conv.lastModified)}`
+  ].filter(Boolean);
+
+  const sections = [`# ${conv.title}`, details.join('\n')];
+
+  if (conv.memoryNotes?.length) {
+    sections.push(`## Notas de memória\n\n${conv.memoryNotes.map(note => `- ${note.text}`).join('\n')}`);
+  }
+
+  sections.push(...getExportedMessages(conv).map(messageToMarkdown));
+
+  return `${sections.join('\n\n---\n\n')}\n`;
+}
+
+/**
+ * Lossless JSON export (the import format)
+ */
+export function conversationsToJson(conversations: readonly Conversation[]): string {
+  const file: ConversationExportFile = {
+    type: EXPORT_FILE_TYPE,
+    version: EXPORT_VERSION,
+    exportedAt: Date.now(),
+    conversations
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Self-contained HTML page (rendering code is loaded on demand)
+ */
+export async function conversationsToHtml(conversations: readonly Conversation[]): Promise<string> {
+  const [{ renderToStaticMarkup }, { ConversationExportDocument, EXPORT_STYLES }] = await Promise.all([
+    import('react-dom/server'),
+    import('../components/ConversationExportDocument')
+  ]);
+
+  const title = conversations.length === 1 ? conversations[0].title : 'Conversas FIDI.ai';
+  const body = renderToStaticMarkup(createElement(ConversationExportDocument, { conversations }));
+
+  return `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${EXPORT_STYLES}</style>
+</head>
+<body>${body}</body>
+</html>
+`;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+const blobToBase64 = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  // Chunked: spreading a large array into fromCharCode overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Replace file store references with the files' contents (downloaded once per file)
+ * Files that can't be downloaded are left as they are and exported by name only.
+ */
+async function inlineStoredAttachments(conversations: readonly Conversation[]): Promise<readonly Conversation[]> {
+  const isStored = (att: Attachment) => !!att.fileId && !att.data;
+  if (!conversations.some(conv => conv.messages.some(msg => msg.attachments?.some(isStored)))) {
+    return conversations;
+  }
+
+  const downloads = new Map<string, Promise<string | null>>();
+  const download = (fileId: string) => {
+    if (!downloads.has(fileId)) {
+      downloads.set(fileId, getFileContents(fileId).then(blobToBase64).catch(error => {
+        console.warn('[Export] Could not download attachment:', error);
+        return null;
+      }));
+    }
+    return downloads.get(fileId)!;
+  };
+
+  const inline = async (att: Attachment): Promise<Attachment> => {
+    if (!isStored(att)) return att;
+    const data = await download(att.fileId!);
+    if (data === null) return att;
+    const { fileId: _fileId, ...rest } = att;
+    return { ...rest, data };
+  };
+
+  return Promise.all(conversations.map(async conv => ({
+    ...conv,
+    messages: await Promise.all(conv.messages.map(async msg => msg.attachments?.some(isStored)
+      ? { ...msg, attachments: await Promise.all(msg.attachments.map(inline)) }
+      : msg))
+  })));
+}
+
+const base64ToBlob = (data: string, type: string): Blob =>
+  new Blob([Uint8Array.from(atob(data), char => char.charCodeAt(0))], { type });
+
+/**
+ * Move imported attachments into the file store, so messages reference them by file id like
+ * the ones attached in the app (the inverse of inlineStoredAttachments)
+ * Each distinct file is uploaded once, one at a time; attachments that can't be uploaded
+ * (unsupported type, quota, offline) stay inline.
+ */
+export async function storeImportedAttachments(conversations: Conversation[]): Promise<Conversation[]> {
+  const isInline = (att: Attachment) => !att.fileId && !!att.data;
+
+  const fileIds = new Map<string, string | null>();
+  for (const conv of conversations) {
+    for (const att of conv.messages.flatMap(msg => msg.attachments ?? [])) {
+      if (!isInline(att) || fileIds.has(att.data)) continue;
+      try {
+        const { file } = await uploadFile(base64ToBlob(att.data, att.type), att.name);
+        fileIds.set(att.data, file.id);
+      } catch (error) {
+        console.warn('[Import] Could not upload attachment, keeping it inline:', error);
+        fileIds.set(att.data, null);
+      }
+    }
+  }
+  if (fileIds.size === 0) return conversations;
+
+  const store = (att: Attachment): Attachment => {
+    const fileId = isInline(att) ? fileIds.get(att.data) : null;
+    return fileId ? { ...att, fileId, data: '' } : att;
+  };
+
+  return conversations.map(conv => ({
+    ...conv,
+    messages: conv.messages.map(msg => msg.attachments?.some(isInline)
+      ? { ...msg, attachments: msg.attachments.map(store) }
+      : msg)
+  }));
+}
+
+/**
+ * Export one or more conversations (several conversations share one file)
+ */
+export async function exportConversations(
+  list: readonly Conversation[],
+  format: ExportFormat
+): Promise<{ content: string; filename: string; mimeType: string }> {
+  const conversations = await inlineStoredAttachments(list);
+  let content: string;
+  if (format === 'json') {
+    content = conversationsToJson(conversations);
+  } else if (format === 'html') {
+    content = await conversationsToHtml(conversations);
+  } else {
+    content = conversations.map(conversationToMarkdown).join('\n\n');
+  }
+
+  const { extension, mimeType } = FORMAT_INFO[format];
+  const name = conversations.length === 1 ? slugify(conversations[0].title) : 'conversas';
+  const date = new Date().toISOString().slice(0, 10);
+
+  return { content, filename: `fidi-${name || 'conversa'}-${date}.${extension}`, mimeType };
+}
+
+const slugify = (text: string) =>
+  normalizeText(text)
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40);
+
+/**
+ * Save text as a file through the browser's download flow
+ */
+export function downloadFile(filename: string, content: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isBoundedString = (value: unknown, maxLength: number): value is string =>
+  typeof value === 'string' && value.length > 0 && value.length <= maxLength;
+
+const isAttachment = (value: unknown): boolean =>
+  isRecord(value) && typeof value.name === 'string' && typeof value.type === 'string' && typeof value.data === 'string' &&
+  (value.fileId === undefined || typeof value.fileId === 'string');
+
+const isMedia = (value: unknown): boolean =>
+  isRecord(value) &&
+  (value.type === 'image' || value.type === 'video') &&
+  typeof value.url === 'string' &&
+  typeof value.mimeType === 'string';
+
+const isMessage = (value: unknown): value is Message =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  (value.role === 'user' || value.role === 'assistant') &&
+  typeof value.content === 'string' &&
+  (value.timestamp === undefined || typeof value.timestamp === 'number') &&
+  (value.parentId === undefined || value.parentId === null || typeof value.parentId === 'string') &&
+  (value.pinned === undefined || typeof value.pinned === 'boolean') &&
+  (value.attachments === undefined || (Array.isArray(value.attachments) && value.attachments.every(isAttachment))) &&
+  (value.media === undefined || isMedia(value.media));
+
+const isOptional = (value: unknown, check: (value: unknown) => boolean): boolean =>
+  value === undefined || value === null || check(value);
+
+const isModelParams = (value: unknown): boolean =>
+  isRecord(value) &&
+  Object.keys(value).length <= MAX_MODEL_PARAMS &&
+  Object.values(value).every(param => typeof param === 'number' && Number.isFinite(param));
+
+const isPersona = (value: unknown): boolean =>
+  isRecord(value) &&
+  isBoundedString(value.id, MAX_ID_LENGTH) &&
+  typeof value.name === 'string' && value.name.length <= MAX_PERSONA_NAME_LENGTH &&
+  typeof value.icon === 'string' && value.icon.length <= MAX_ID_LENGTH &&
+  typeof value.systemPrompt === 'string' && value.systemPrompt.length <= MAX_SYSTEM_PROMPT_LENGTH;
+
+const isMemoryNote = (value: unknown): boolean =>
+  isRecord(value) &&
+  isBoundedString(value.id, MAX_ID_LENGTH) &&
+  typeof value.text === 'string' && value.text.trim().length > 0 && value.text.length <= MAX_MEMORY_NOTE_LENGTH &&
+  typeof value.createdAt === 'number';
+
+const isMemoryNotes = (value: unknown): boolean =>
+  Array.isArray(value) && value.length <= MAX_MEMORY_NOTES && value.every(isMemoryNote);
+
+/**
+ * Validate one exported conversation (null when unusable)
+ * Applies the server's limits, so imports never end up refused by conversation sync.
+ */
+function parseConversation(value: unknown): Conversation | null {
+  if (!isRecord(value)) return null;
+  if (!isBoundedString(value.id, MAX_ID_LENGTH)) return null;
+  if (typeof value.title !== 'string' || value.title.length > MAX_TITLE_LENGTH) return null;
+  if (typeof value.lastModified !== 'number' || !Array.isArray(value.messages)) return null;
+  if (value.messages.length > MESSAGE_LIMITS.MAX_MESSAGES_PER_CONVERSATION) return null;
+  if (!value.messages.every(isMessage)) return null;
+  if (value.modelId !== undefined && typeof value.modelId !== 'string') return null;
+  if (!isOptional(value.modelParams, isModelParams) || !isOptional(value.persona, isPersona)) return null;
+  if (!isOptional(value.memoryNotes, isMemoryNotes)) return null;
+  if (!isOptional(value.contextStrategy, strategy => CONTEXT_STRATEGIES.includes(strategy as ContextStrategy))) return null;
+
+  const conv = value as unknown as Conversation;
+  const hasLeaf = conv.activeLeafId !== undefined && conv.messages.some(msg => msg.id === conv.activeLeafId);
+
+  return normalizeOrganization(hasLeaf ? conv : { ...conv, activeLeafId: undefined });
+}
+
+/**
+ * Parse and validate a JSON export
+ * Invalid conversations are skipped; an unreadable file throws ConversationImportError.
+ */
+export function parseConversationExport(text: string): ParsedImport {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ConversationImportError('Arquivo inválido: não é um JSON.');
+  }
+
+  if (!isRecord(data) || data.type !== EXPORT_FILE_TYPE || !Array.isArray(data.conversations)) {
+    throw new ConversationImportError('Arquivo inválido: use um export JSON do FIDI.ai.');
+  }
+  if (typeof data.version !== 'number' || data.version > EXPORT_VERSION) {
+    throw new ConversationImportError('Este export foi criado por uma versão mais nova do FIDI.ai.');
+  }
+
+  const seen = new Set<string>();
+  const conversations: Conversation[] = [];
+  for (const entry of data.conversations) {
+    const conv = parseConversation(entry);
+    if (conv && !seen.has(conv.id)) {
+      seen.add(conv.id);
+      conversations.push(conv);
+    }
+  }
+
+  return { conversations, skipped: data.conversations.length - conversations.length };
+}
@@ -0,0 +1,124 @@
+import { Conversation, ConversationOrganization } from '../types';
+
+/**
+ * Sidebar organisation helpers: folders, tags, pinned and archived conversations
+ *
+ * Folders are plain names stored on each conversation, so they sync with the conversation
+ * itself and a folder exists for as long as something is filed in it. Limits mirror the
+ * server's validation (server/src/routes/conversations.ts).
+ */
+
+export const MAX_FOLDER_LENGTH = 60;
+export const MAX_TAGS = 10;
+export const MAX_TAG_LENGTH = 30;
+
+export interface ConversationGroups {
+  pinned: Conversation[];
+  folders: Array<{ name: string; conversations: Conversation[] }>;
+  unfiled: Conversation[];
+}
+
+const collapseSpaces = (value: string) => value.trim().replace(/\s+/g, ' ');
+
+/**
+ * Clean a folder name (empty means unfiled)
+ */
+export function normalizeFolder(folder: unknown): string | undefined {
+  if (typeof folder !== 'string') return undefined;
+  const name = collapseSpaces(folder).slice(0, MAX_FOLDER_LENGTH);
+  return name || undefined;
+}
+
+/**
+ * Clean a tag list: trimmed, de-duplicated case-insensitively (first spelling wins), capped
+ */
+export function normalizeTags(tags: unknown): string[] | undefined {
+  if (!Array.isArray(tags)) return undefined;
+
+  const seen = new Set<string>();
+  const cleaned: string[] = [];
+  for (const tag of tags) {
+    if (typeof tag !== 'string') continue;
+    const name = collapseSpaces(tag).slice(0, MAX_TAG_LENGTH);
+    if (!name || seen.has(name.toLowerCase())) continue;
+    seen.add(name.toLowerCase());
+    cleaned.push(name);
+  }
+  return cleaned.length > 0 ? cleaned.slice(0, MAX_TAGS) : undefined;
+}
+
+/**
+ * Parse comma-separated tag input ("cliente, urgente")
+ */
+export function parseTagInput(input: string): string[] {
+  return normalizeTags(input.split(',')) ?? [];
+}
+
+/**
+ * Normalise a conversation's organisation fields (unset fields are removed, not kept as empty)
+ * Archiving takes precedence over pinning.
+ */
+export function normalizeOrganization(conv: Conversation): Conversation {
+  const { folder: _folder, tags: _tags, pinned: _pinned, archived: _archived, ...rest } = conv;
+  const folder = normalizeFolder(conv.folder);
+  const tags = normalizeTags(conv.tags);
+
+  return {
+    ...rest,
+    ...(folder && { folder }),
+    ...(tags && { tags }),
+    ...(conv.pinned === true && conv.archived !== true && { pinned: true }),
+    ...(conv.archived === true && { archived: true })
+  };
+}
+
+/**
+ * Apply organisation changes to a conversation (undefined values clear a field)
+ */
+export function applyOrganization(conv: Conversation, updates: ConversationOrganization): Conversation {
+  return normalizeOrganization({ ...conv, ...updates });
+}
+
+/**
+ * Every folder name in use, sorted (plus folders created but still empty)
+ */
+export function collectFolders(conversations: readonly Conversation[], extra: readonly string[] = []): string[] {
+  const names = new Set(extra);
+  conversations.forEach(conv => conv.folder && names.add(conv.folder));
+  return [...names].sort((a, b) => a.localeCompare(b, 'pt-BR'));
+}
+
+/**
+ * Every tag in use, sorted
+ */
+export function collectTags(conversations: readonly Conversation[]): string[] {
+  const tags = new Set<string>();
+  conversations.forEach(conv => conv.tags?.forEach(tag => tags.add(tag)));
+  return [...tags].sort((a, b) => a.localeCompare(b, 'pt-BR'));
+}
+
+/**
+ * Group conversations for the sidebar: pinned first, then folders, then unfiled
+ * (each group most recent first; pinned conversations are listed only once, under pinned)
+ */
+export function groupConversations(
+  conversations: readonly Conversation[],
+  extraFolders: readonly string[] = []
+): ConversationGroups {
+  const byRecency = [...conversations].sort((a, b) => b.lastModified - a.lastModified);
+  const folders = new Map(collectFolders(conversations, extraFolders).map(name => [name, [] as Conversation[]]));
+  const groups: ConversationGroups = { pinned: [], folders: [], unfiled: [] };
+
+  for (const conv of byRecency) {
+    if (conv.pinned) {
+      groups.pinned.push(conv);
+    } else if (conv.folder) {
+      folders.get(conv.folder)!.push(conv);
+    } else {
+      groups.unfiled.push(conv);
+    }
+  }
+
+  groups.folders = [...folders].map(([name, list]) => ({ name, conversations: list }));
+  return groups;
+}
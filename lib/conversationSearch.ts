@@ -0,0 +1,227 @@
+import { Conversation } from '../types';
+
+/**
+ * Full-text search over the user's conversations
+ *
+ * Each conversation gets its own inverted index (token -> documents, where a document is the
+ * title or one message), cached per conversation object. Conversations are immutable, so
+ * only the ones that changed since the last search are re-indexed - a streaming reply doesn't
+ * rebuild the whole index on every chunk.
+ *
+ * Matching ignores case and accents, every query word must appear (prefix match, so "deplo"
+ * finds "deployment"), and titles rank above message content.
+ */
+
+export interface SearchFilters {
+  modelId?: string;        // Only conversations with this model (unset model = the default model)
+  from?: number;           // Inclusive timestamp bounds on the matching message
+  to?: number;
+  hasAttachments?: boolean; // Only conversations with at least one attached file
+}
+
+export interface SearchSnippet {
+  text: string;
+  highlights: Array<[number, number]>; // [start, end) ranges of `text` that matched the query
+}
+
+export interface SearchResult {
+  conversationId: string;
+  conversationTitle: string;
+  messageId: string | null; // null when the title matched
+  role?: 'user' | 'assistant';
+  snippet: SearchSnippet;
+  timestamp: number;
+}
+
+interface IndexedDocument {
+  messageId: string | null;
+  role?: 'user' | 'assistant';
+  text: string;
+  timestamp: number;
+}
+
+interface ConversationIndex {
+  documents: IndexedDocument[];
+  tokens: string[]; // Sorted vocabulary, binary-searched for prefix matches
+  postings: Map<string, Set<number>>; // token -> document indexes
+  hasAttachments: boolean;
+}
+
+const MIN_TERM_LENGTH = 2;
+const SNIPPET_CONTEXT = 40; // Characters shown on each side of the first match
+const TITLE_SCORE = 10;
+const DEFAULT_LIMIT = 50;
+
+const indexCache = new WeakMap<Conversation, ConversationIndex>();
+
+/**
+ * Lowercase and strip accents ("Ação" -> "acao")
+ */
+const normalizeChar = (ch: string) => ch.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+
+export const normalizeText = (text: string) => Array.from(text, normalizeChar).join('');
+
+const tokenize = (text: string): string[] =>
+  normalizeText(text).split(/[^\p{L}\p{N}]+/u).filter(token => token.length >= MIN_TERM_LENGTH);
+
+/**
+ * Parse a query into normalized, de-duplicated terms
+ */
+export function parseQuery(query: string): string[] {
+  return [...new Set(tokenize(query))];
+}
+
+function buildConversationIndex(conv: Conversation): ConversationIndex {
+  const fallbackTime = conv.createdAt ?? conv.lastModified;
+  const documents: IndexedDocument[] = [
+    { messageId: null, text: conv.title, timestamp: fallbackTime },
+    ...conv.messages
+      .filter(msg => msg.content.trim())
+      .map(msg => ({ messageId: msg.id, role: msg.role, text: msg.content, timestamp: msg.timestamp ?? fallbackTime }))
+  ];
+
+  const postings = new Map<string, Set<number>>();
+  documents.forEach((doc, index) => {
+    for (const token of tokenize(doc.text)) {
+      const docs = postings.get(token);
+      if (docs) {
+        docs.add(index);
+      } else {
+        postings.set(token, new Set([index]));
+      }
+    }
+  });
+
+  return {
+    documents,
+    tokens: [...postings.keys()].sort(),
+    postings,
+    hasAttachments: conv.messages.some(msg => (msg.attachments?.length ?? 0) > 0)
+  };
+}
+
+function getConversationIndex(conv: Conversation): ConversationIndex {
+  let index = indexCache.get(conv);
+  if (!index) {
+    index = buildConversationIndex(conv);
+    indexCache.set(conv, index);
+  }
+  return index;
+}
+
+/**
+ * Documents containing a token that starts with `term`
+ */
+function findDocuments(index: ConversationIndex, term: string): Set<number> {
+  const { tokens, postings } = index;
+  let low = 0;
+  let high = tokens.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (tokens[mid] < term) low = mid + 1;
+    else high = mid;
+  }
+
+  const matches = new Set<number>();
+  for (let i = low; i < tokens.length && tokens[i].startsWith(term); i++) {
+    postings.get(tokens[i])!.forEach(doc => matches.add(doc));
+  }
+  return matches;
+}
+
+/**
+ * Cut a window of `text` around the first match and mark every matching word start
+ * (whitespace is left as-is so the ranges stay valid; it collapses when rendered)
+ */
+export function buildSnippet(text: string, terms: string[]): SearchSnippet {
+  // Normalize per character so positions map back to the original text
+  const chars = Array.from(text);
+  const offsets: number[] = [];
+  let normalized = '';
+  let offset = 0;
+  chars.forEach(ch => {
+    const norm = normalizeChar(ch);
+    for (let i = 0; i < norm.length; i++) offsets.push(offset);
+    normalized += norm;
+    offset += ch.length;
+  });
+  offsets.push(offset);
+
+  const matches: Array<[number, number]> = [];
+  for (const term of terms) {
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`, 'gu');
+    for (const match of normalized.matchAll(pattern)) {
+      matches.push([offsets[match.index!], offsets[match.index! + match[0].length]]);
+    }
+  }
+  matches.sort((a, b) => a[0] - b[0]);
+
+  const firstMatch = matches[0]?.[0] ?? 0;
+  const start = Math.max(0, firstMatch - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, (matches[0]?.[1] ?? 0) + SNIPPET_CONTEXT * 2);
+  const prefix = start > 0 ? '...' : '';
+  const suffix = end < text.length ? '...' : '';
+  const shift = prefix.length - start;
+
+  return {
+    text: `${prefix}${text.slice(start, end)}${suffix}`,
+    highlights: matches
+      .filter(([matchStart, matchEnd]) => matchStart >= start && matchEnd <= end)
+      .map(([matchStart, matchEnd]) => [matchStart + shift, matchEnd + shift])
+  };
+}
+
+/**
+ * Search every conversation for `query` (all terms must match the same title or message)
+ * @param defaultModel - model used by conversations that never stored a modelId
+ */
+export function searchConversations(
+  conversations: readonly Conversation[],
+  query: string,
+  filters: SearchFilters = {},
+  defaultModel?: string,
+  limit = DEFAULT_LIMIT
+): SearchResult[] {
+  const terms = parseQuery(query);
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const scored: Array<SearchResult & { score: number }> = [];
+
+  for (const conv of conversations) {
+    if (filters.modelId && (conv.modelId ?? defaultModel) !== filters.modelId) continue;
+
+    const index = getConversationIndex(conv);
+    if (filters.hasAttachments && !index.hasAttachments) continue;
+
+    let matches = findDocuments(index, terms[0]);
+    for (const term of terms.slice(1)) {
+      if (matches.size === 0) break;
+      const docs = findDocuments(index, term);
+      matches = new Set([...matches].filter(doc => docs.has(doc)));
+    }
+
+    matches.forEach(docIndex => {
+      const doc = index.documents[docIndex];
+      if (filters.from !== undefined && doc.timestamp < filters.from) return;
+      if (filters.to !== undefined && doc.timestamp > filters.to) return;
+
+      const snippet = buildSnippet(doc.text, terms);
+      scored.push({
+        conversationId: conv.id,
+        conversationTitle: conv.title,
+        messageId: doc.messageId,
+        ...(doc.role && { role: doc.role }),
+        snippet,
+        timestamp: doc.timestamp,
+        score: snippet.highlights.length + (doc.messageId === null ? TITLE_SCORE : 0)
+      });
+    });
+  }
+
+  return scored
+    .sort((a, b) => b.score - a.score || b.timestamp - a.timestamp)
+    .slice(0, limit)
+    .map(({ score: _score, ...result }) => result);
+}
@@ -0,0 +1,118 @@
+import { Message } from '../types';
+
+/**
+ * Conversation tree helpers
+ *
+ * A conversation's `messages` array is a flat store of tree nodes: every message points at
+ * its parent via `parentId`, and editing or regenerating adds a sibling instead of replacing
+ * a message. Messages saved before branching existed have no `parentId`; their parent is the
+ * message before them in the array, so old linear conversations read as a single branch.
+ */
+
+export interface BranchInfo {
+  index: number; // 0-based position among siblings
+  count: number;
+  siblingIds: string[];
+}
+
+interface MessageTree {
+  byId: Map<string, Message>;
+  parentOf: Map<string, string | null>;
+  children: Map<string | null, Message[]>; // null key holds the root messages
+}
+
+function buildTree(messages: readonly Message[]): MessageTree {
+  const byId = new Map<string, Message>();
+  const parentOf = new Map<string, string | null>();
+  const children = new Map<string | null, Message[]>();
+
+  messages.forEach((msg, index) => {
+    const parentId = msg.parentId !== undefined
+      ? msg.parentId
+      : (index > 0 ? messages[index - 1].id : null);
+
+    byId.set(msg.id, msg);
+    parentOf.set(msg.id, parentId);
+
+    const siblings = children.get(parentId);
+    if (siblings) {
+      siblings.push(msg);
+    } else {
+      children.set(parentId, [msg]);
+    }
+  });
+
+  return { byId, parentOf, children };
+}
+
+/**
+ * Resolve a message's parent id (handles messages saved before branching existed)
+ */
+export function getParentId(messages: readonly Message[], messageId: string): string | null {
+  return buildTree(messages).parentOf.get(messageId) ?? null;
+}
+
+/**
+ * Messages from the root down to `leafId` (inclusive)
+ * Without a leaf id, the last message in the store is used - that is the active branch of
+ * a conversation that has never been branched.
+ */
+export function getBranchPath(messages: readonly Message[], leafId?: string | null): Message[] {
+  const tree = buildTree(messages);
+  const path: Message[] = [];
+  const visited = new Set<string>();
+
+  let currentId: string | null = leafId ?? (messages.length > 0 ? messages[messages.length - 1].id : null);
+
+  // visited guards against a corrupt store with a parent cycle
+  while (currentId !== null && !visited.has(currentId)) {
+    const msg = tree.byId.get(currentId);
+    if (!msg) break;
+    visited.add(currentId);
+    path.push(msg);
+    currentId = tree.parentOf.get(currentId) ?? null;
+  }
+
+  return path.reverse();
+}
+
+/**
+ * Follow the most recent child from `messageId` down to a leaf
+ * Used when switching to a sibling branch so its latest continuation is shown.
+ */
+export function getLatestLeafId(messages: readonly Message[], messageId: string): string {
+  const tree = buildTree(messages);
+  const visited = new Set<string>([messageId]);
+  let currentId = messageId;
+
+  for (;;) {
+    const children = tree.children.get(currentId);
+    if (!children || children.length === 0) return currentId;
+
+    const latest = children[children.length - 1].id;
+    if (visited.has(latest)) return currentId;
+    visited.add(latest);
+    currentId = latest;
+  }
+}
+
+/**
+ * Sibling position of every message on a branch path ("< 2/3 >" navigation)
+ */
+export function getBranchInfo(messages: readonly Message[], path: readonly Message[]): Map<string, BranchInfo> {
+  const tree = buildTree(messages);
+  const info = new Map<string, BranchInfo>();
+
+  for (const msg of path) {
+    const siblings = tree.children.get(tree.parentOf.get(msg.id) ?? null) ?? [msg];
+    const siblingIds = siblings.map(s => s.id);
+
+    info.set(msg.id, {
+      index: Math.max(siblingIds.indexOf(msg.id), 0),
+      count: siblingIds.length,
+      siblingIds
+    });
+  }
+
+  return info;
+}
@@ -1,22 +1,53 @@
-import { Message } from '../types';
+import { MemoryNote, Message } from '../types';
+import { getBranchPath } from './conversationTree';
+
+/**
+ * One part of a multimodal message
+ * Documents use OpenRouter's `file` part; the server replaces them with their extracted text.
+ * Attachments in the file store are sent as `file` parts with their `file_id` (images too) and
+ * resolved by the server; older attachments still carry their data inline.
+ */
+export interface OpenRouterContentPart {
+  type: 'text' | 'image_url' | 'file';
+  text?: string;
+  image_url?: { url: string };
+  file?: { filename: string; file_data?: string; file_id?: string };
+}
 
 export interface OpenRouterMessage {
   role: 'user' | 'assistant';
-  content: string | Array<{
-    type: 'text' | 'image_url';
-    text?: string;
-    image_url?: { url: string };
-  }>;
+  content: string | OpenRouterContentPart[];
+  pinned?: boolean; // Kept by the server when the history is trimmed to fit the context window
+}
+
+/**
+ * Append a conversation's memory notes to the system prompt
+ * The server never trims the system prompt, so the notes always stay in the model's context
+ * without pinning any user turn.
+ */
+export function buildSystemPrompt(systemPrompt: string, memoryNotes: readonly MemoryNote[] = []): string {
+  if (memoryNotes.length === 0) return systemPrompt;
+  const notes = `Memory notes for this conversation (keep these in mind):\n${memoryNotes.map(note => `- ${note.text}`).join('\n')}`;
+  return systemPrompt ? `${systemPrompt}\n\n${notes}` : notes;
 }
 
 /**
  * Convert localStorage messages to OpenRouter API format
- * Handles both text and multimodal content (text + images)
+ * Handles both text and multimodal content (text + images + documents)
  * Merges consecutive same-role messages to comply with Claude's requirements
+ * When `leafId` is given, only the branch ending at that message is sent (other edits and
+ * regenerations stay out of the model's context)
+ * Pinned messages are flagged `pinned` so they survive context trimming on the server
+ * (memory notes travel with the system prompt, see buildSystemPrompt)
  */
-export function convertToOpenRouterHistory(messages: Message[]): OpenRouterMessage[] {
+export function convertToOpenRouterHistory(
+  messages: readonly Message[],
+  leafId?: string | null
+): OpenRouterMessage[] {
+  const branch = leafId !== undefined ? getBranchPath(messages, leafId) : messages;
+
   // Filter out empty messages and messages without content
-  const validMessages = messages.filter(msg =>
+  const validMessages = branch.filter(msg =>
     (msg.content && msg.content.trim()) || msg.attachments?.length
   );
 
@@ -25,11 +56,7 @@ export function convertToOpenRouterHistory(messages: Message[]): OpenRouterMessa
   for (const msg of validMessages) {
     // Build content array if there are attachments
     if (msg.attachments && msg.attachments.length > 0) {
-      const contentParts: Array<{
-        type: 'text' | 'image_url';
-        text?: string;
-        image_url?: { url: string };
-      }> = [];
+      const contentParts: OpenRouterContentPart[] = [];
 
       // Add text part if exists
       if (msg.content && msg.content.trim()) {
@@ -39,25 +66,29 @@ export function convertToOpenRouterHistory(messages: Message[]): OpenRouterMessa
         });
       }
 
-      // Add image parts
+      // Add image and document parts
       for (const att of msg.attachments) {
-        contentParts.push({
-          type: 'image_url',
-          image_url: {
-            url: `data:${att.type};base64,${att.data}`
-          }
-        });
+        if (att.fileId) {
+          contentParts.push({ type: 'file', file: { filename: att.name, file_id: att.fileId } });
+          continue;
+        }
+        const url = `data:${att.type || 'application/octet-stream'};base64,${att.data}`;
+        contentParts.push(att.type.startsWith('image/')
+          ? { type: 'image_url', image_url: { url } }
+          : { type: 'file', file: { filename: att.name, file_data: url } });
       }
 
       converted.push({
         role: msg.role === 'assistant' ? 'assistant' : 'user',
-        content: contentParts
+        content: contentParts,
+        ...(msg.pinned && { pinned: true })
       });
     } else {
       // Simple text message
       converted.push({
         role: msg.role === 'assistant' ? 'assistant' : 'user',
-        content: msg.content
+        content: msg.content,
+        ...(msg.pinned && { pinned: true })
       });
     }
   }
@@ -83,6 +114,9 @@ export function convertToOpenRouterHistory(messages: Message[]): OpenRouterMessa
       } else if (Array.isArray(lastMsg.content) && typeof msg.content === 'string') {
         lastMsg.content.push({ type: 'text', text: msg.content });
       }
+      if (msg.pinned) {
+        lastMsg.pinned = true;
+      }
     } else {
       merged.push(msg);
     }
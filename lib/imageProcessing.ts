@@ -0,0 +1,86 @@
+/**
+ * Image preparation for attachments
+ * Photos are downscaled to the size the selected vision model actually looks at and re-encoded; drawing
+ * onto a canvas also drops EXIF metadata (location, camera, date). Attachments are stored on the
+ * server and sent to the model with every turn, so this cuts storage, upload and vision-token cost.
+ */
+
+import { IMAGE_UPLOAD } from '../config/constants';
+
+export interface PreparedImage {
+  blob: Blob;
+  name: string;
+  width: number;
+  height: number;
+}
+
+// Animated GIFs would lose their animation and SVGs are small vector files already
+const SKIPPED_TYPES = new Set(['image/gif', 'image/svg+xml']);
+
+/**
+ * Whether the browser can decode and re-encode images (not available in every environment)
+ */
+export const canPrepareImages = (): boolean =>
+  typeof createImageBitmap === 'function' &&
+  typeof document !== 'undefined' &&
+  document.createElement('canvas').getContext('2d') !== null;
+
+export const isPreparableImage = (file: File): boolean =>
+  file.type.startsWith('image/') && !SKIPPED_TYPES.has(file.type);
+
+/**
+ * Scale dimensions down (never up) so the longest side fits `maxDimension`
+ */
+export function fitWithin(width: number, height: number, maxDimension: number): { width: number; height: number } {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale))
+  };
+}
+
+const encode = (canvas: HTMLCanvasElement, type: string) =>
+  new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, IMAGE_UPLOAD.QUALITY));
+
+const renameForType = (name: string, type: string) =>
+  `${name.replace(/\.[^.]*$/, '')}.${type === 'image/webp' ? 'webp' : 'jpg'}`;
+
+/**
+ * Downscale and re-encode an image as WebP (JPEG where the browser can't encode WebP)
+ * @param maxDimension - Longest side in px (the selected model's ChatModelInfo.maxImageDimension)
+ * @throws when the image can't be decoded or encoded
+ */
+export async function prepareImage(file: File, maxDimension: number = IMAGE_UPLOAD.MAX_DIMENSION): Promise<PreparedImage> {
+  // Applies the EXIF orientation before the metadata is dropped
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+
+  try {
+    const { width, height } = fitWithin(bitmap.width, bitmap.height, maxDimension);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Canvas 2D context unavailable');
+    }
+    ctx.drawImage(bitmap, 0, 0, width, height);
+
+    // Browsers without a WebP encoder silently return PNG
+    let blob = await encode(canvas, 'image/webp');
+    if (!blob || blob.type !== 'image/webp') {
+      // JPEG has no transparency: flatten onto white instead of black
+      ctx.globalCompositeOperation = 'destination-over';
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, width, height);
+      blob = await encode(canvas, 'image/jpeg');
+    }
+    if (!blob) {
+      throw new Error('Image encoding failed');
+    }
+
+    return { blob, name: renameForType(file.name, blob.type), width, height };
+  } finally {
+    bitmap.close();
+  }
+}
@@ -1,9 +1,10 @@
 /**
- * Migration utilities for User ID type change (number -> string)
+ * Migration utilities for User ID type change (number -> string) and stored conversation data
  * Handles existing localStorage data gracefully
  */
 
-import { User } from '../types';
+import { Conversation, User } from '../types';
+import { normalizeOrganization } from './conversationOrganization';
 
 // Type for legacy user data during migration
 interface LegacyUser {
@@ -83,11 +84,46 @@ export const migrateConversationKeys = (oldId: string | number, newId: string):
   }
 };
 
+/**
+ * Normalise the sidebar organisation fields (folder, tags, pinned, archived) of every
+ * cached conversation list, so data written by older builds or edited by hand loads cleanly
+ */
+export const migrateConversationOrganization = (): void => {
+  try {
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (!key?.startsWith('fidi_conversations_')) continue;
+
+      const conversations: unknown = JSON.parse(localStorage.getItem(key) ?? 'null');
+      if (!Array.isArray(conversations)) continue;
+
+      let migrated = false;
+      const updated = conversations.map(conv => {
+        if (!conv || typeof conv !== 'object') return conv;
+        const normalized = normalizeOrganization(conv as Conversation);
+        if (JSON.stringify(normalized) !== JSON.stringify(conv)) {
+          migrated = true;
+          return normalized;
+        }
+        return conv;
+      });
+
+      if (migrated) {
+        localStorage.setItem(key, JSON.stringify(updated));
+        console.log(`[Migration] Normalised conversation organisation: ${key}`);
+      }
+    }
+  } catch (error) {
+    console.error('[Migration] Failed to migrate conversation organisation:', error);
+  }
+};
+
 /**
  * Run all migrations on app startup
  */
 export const runMigrations = (): void => {
   console.log('[Migration] Running database migrations...');
   migrateAllUsers();
+  migrateConversationOrganization();
   console.log('[Migration] Migrations complete');
 };
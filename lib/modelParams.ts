@@ -0,0 +1,32 @@
+import { ModelParamLimits, ModelParams } from '../types';
+
+/**
+ * Fit a conversation's sampling settings to the model they are about to be sent to
+ * Settings saved with one model can exceed another's limits (the server rejects those),
+ * so values are clamped and unsupported penalties dropped before sending.
+ */
+export function fitModelParams(params: ModelParams, limits?: ModelParamLimits): ModelParams {
+  if (!limits) return params;
+
+  const fitted: { -readonly [K in keyof ModelParams]: ModelParams[K] } = { ...params };
+
+  if (fitted.temperature !== undefined) {
+    fitted.temperature = Math.min(fitted.temperature, limits.maxTemperature);
+  }
+  if (fitted.max_tokens !== undefined) {
+    fitted.max_tokens = Math.min(fitted.max_tokens, limits.maxOutputTokens);
+  }
+  if (!limits.supportsPenalties) {
+    delete fitted.frequency_penalty;
+    delete fitted.presence_penalty;
+  }
+
+  return fitted;
+}
+
+/**
+ * Whether any setting differs from the provider default
+ */
+export function hasModelParams(params: ModelParams): boolean {
+  return Object.values(params).some(value => value !== undefined);
+}
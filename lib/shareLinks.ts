@@ -0,0 +1,22 @@
+/**
+ * Public share link URLs
+ * Links use a query parameter (/?share=<token>) so they work on any static host without
+ * server-side route rewrites.
+ */
+
+const SHARE_PARAM = 'share';
+
+/**
+ * Public URL of a share link on this deployment
+ */
+export function buildShareUrl(id: string, origin: string = window.location.origin): string {
+  return `${origin}/?${SHARE_PARAM}=${encodeURIComponent(id)}`;
+}
+
+/**
+ * Share token in a URL query string, if any
+ */
+export function getShareToken(search: string = window.location.search): string | null {
+  const token = new URLSearchParams(search).get(SHARE_PARAM);
+  return token && /^[A-Za-z0-9_-]+$/.test(token) ? token : null;
+}
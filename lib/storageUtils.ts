@@ -171,6 +171,52 @@ export function setUserConversations(userId: string, conversations: Conversation
   setStorageItem(key, conversations);
 }
 
+/**
+ * Server sync bookkeeping for a user's conversations
+ * - lastSyncedAt: server cursor returned by the last successful sync
+ * - lastPushedAt: local clock at the last successful push (anything edited later is dirty)
+ * - pendingDeletes: conversation ids deleted locally but not yet acknowledged by the server
+ * - unsyncable: conversations that can't be pushed (refused by the server or too large), mapped
+ *   to the edit time that was refused; they are skipped until edited again
+ */
+export interface ConversationSyncState {
+  lastSyncedAt: number | null;
+  lastPushedAt: number | null;
+  pendingDeletes: string[];
+  unsyncable?: Record<string, number>;
+}
+
+const EMPTY_SYNC_STATE: ConversationSyncState = {
+  lastSyncedAt: null,
+  lastPushedAt: null,
+  pendingDeletes: []
+};
+
+/**
+ * Get conversation sync state for a user (falls back to a fresh state on corrupt data)
+ */
+export function getConversationSyncState(userId: string): ConversationSyncState {
+  const key = `fidi_conversations_sync_${userId}`;
+
+  try {
+    const data = getStorageItem<ConversationSyncState>(key);
+    if (!data || !Array.isArray(data.pendingDeletes)) {
+      return { ...EMPTY_SYNC_STATE };
+    }
+    return data;
+  } catch {
+    removeStorageItem(key);
+    return { ...EMPTY_SYNC_STATE };
+  }
+}
+
+/**
+ * Save conversation sync state for a user
+ */
+export function setConversationSyncState(userId: string, state: ConversationSyncState): void {
+  setStorageItem(`fidi_conversations_sync_${userId}`, state);
+}
+
 /**
  * Get available storage quota information
  */
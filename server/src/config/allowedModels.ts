@@ -4,26 +4,78 @@
  * SECURITY: Only models in this allowlist can be used via the API.
  * This prevents unauthorized usage of expensive models and protects against cost overruns.
  *
+ * The lists below are the built-in catalogue. Admins can add, disable, reprice and reorder
+ * models at runtime (lib/modelConfigStore.ts); the lookup functions read that live config.
+ *
  * TIER SYSTEM:
  * - FREE: Unlimited usage, no token deduction (costMultiplier = 0)
  * - PAID: 1.5x token cost multiplier on actual API usage
+ *
+ * PRICING:
+ * Each model carries its own input/output/cached-input rates (credits per 1M tokens,
+ * tracking the provider's list price at 1 credit = $0.000001). The tier multiplier is
+ * applied on top, so the charge is: tokens × rate × costMultiplier
  */
 
+import { getModelConfig, getConfiguredModel } from '../lib/modelConfigStore.js';
+
 export enum ModelTier {
   FREE = 'FREE',
   PAID = 'PAID'
 }
 
+export interface ModelPricing {
+  inputPer1M: number;       // Credits per 1M prompt tokens
+  outputPer1M: number;      // Credits per 1M completion tokens
+  cachedInputPer1M: number; // Credits per 1M prompt tokens served from the provider's cache
+}
+
 export interface ModelMetadata {
   id: string;
   displayName: string;
   description: string;
   tier: ModelTier;
   costMultiplier: number; // 0 for FREE, 1.5 for PAID
+  pricing: ModelPricing;
   provider: string;
   capabilities?: string[];
+  limits?: ModelParamLimits; // Defaults to DEFAULT_MODEL_LIMITS
+  maxImageDimension?: number; // Longest image side (px) the model looks at; defaults to DEFAULT_MAX_IMAGE_DIMENSION
 }
 
+/**
+ * Bounds for user-supplied sampling parameters (see ModelParams in lib/modelAdapters.ts)
+ */
+export interface ModelParamLimits {
+  maxOutputTokens: number;    // Upper bound for max_tokens
+  maxTemperature: number;     // 1 for Anthropic-style APIs, 2 for OpenAI-style
+  supportsPenalties: boolean; // frequency_penalty / presence_penalty
+}
+
+/**
+ * Limits used for models without their own entry
+ */
+export const DEFAULT_MODEL_LIMITS: ModelParamLimits = {
+  maxOutputTokens: 4096,
+  maxTemperature: 2,
+  supportsPenalties: true
+};
+
+/**
+ * Longest image side (px) for models without their own entry
+ * Vision models downscale larger images before looking at them, so the client resizes attachments to this first.
+ */
+export const DEFAULT_MAX_IMAGE_DIMENSION = 1568;
+
+/**
+ * Rates used for models without their own pricing entry (1 credit per token)
+ */
+export const DEFAULT_MODEL_PRICING: ModelPricing = {
+  inputPer1M: 1_000_000,
+  outputPer1M: 1_000_000,
+  cachedInputPer1M: 1_000_000
+};
+
 /**
  * FREE MODELS - Unlimited usage, no token deduction
  */
@@ -56,7 +108,7 @@ export const ALLOWED_MODELS = [
 export type AllowedModel = typeof ALLOWED_MODELS[number];
 
 /**
- * Model metadata mapping
+ * Built-in model metadata (seeds the live config)
  * Provides display information and cost multipliers for all models
  */
 export const MODEL_METADATA: Record<string, ModelMetadata> = {
@@ -67,8 +119,10 @@ export const MODEL_METADATA: Record<string, ModelMetadata> = {
     description: 'Lightweight development model for rapid prototyping',
     tier: ModelTier.FREE,
     costMultiplier: 0,
+    pricing: { inputPer1M: 0, outputPer1M: 0, cachedInputPer1M: 0 },
     provider: 'Mistral AI',
-    capabilities: ['coding', 'development', 'prototyping']
+    capabilities: ['coding', 'development', 'prototyping'],
+    limits: { maxOutputTokens: 8192, maxTemperature: 1, supportsPenalties: true }
   },
 
   // PAID MODELS
@@ -78,8 +132,11 @@ export const MODEL_METADATA: Record<string, ModelMetadata> = {
     description: 'Fast reasoning with token tracking - excellent for quick tasks',
     tier: ModelTier.PAID,
     costMultiplier: 1.5,
+    pricing: { inputPer1M: 500_000, outputPer1M: 3_000_000, cachedInputPer1M: 50_000 },
     provider: 'Google',
-    capabilities: ['fast', 'reasoning', 'token-tracking']
+    capabilities: ['fast', 'reasoning', 'token-tracking'],
+    limits: { maxOutputTokens: 16384, maxTemperature: 2, supportsPenalties: true },
+    maxImageDimension: 3072
   },
   'x-ai/grok-code-fast-1': {
     id: 'x-ai/grok-code-fast-1',
@@ -87,8 +144,10 @@ export const MODEL_METADATA: Record<string, ModelMetadata> = {
     description: 'Code generation and debugging specialist',
     tier: ModelTier.PAID,
     costMultiplier: 1.5,
+    pricing: { inputPer1M: 200_000, outputPer1M: 1_500_000, cachedInputPer1M: 20_000 },
     provider: 'X.AI',
-    capabilities: ['coding', 'debugging', 'fast']
+    capabilities: ['coding', 'debugging', 'fast'],
+    limits: { maxOutputTokens: 16384, maxTemperature: 2, supportsPenalties: false }
   },
   'anthropic/claude-sonnet-4.5': {
     id: 'anthropic/claude-sonnet-4.5',
@@ -96,8 +155,10 @@ export const MODEL_METADATA: Record<string, ModelMetadata> = {
     description: 'Complex reasoning + multi-modal image support',
     tier: ModelTier.PAID,
     costMultiplier: 2.0,
+    pricing: { inputPer1M: 3_000_000, outputPer1M: 15_000_000, cachedInputPer1M: 300_000 },
     provider: 'Anthropic',
-    capabilities: ['reasoning', 'multimodal', 'images', 'analysis']
+    capabilities: ['reasoning', 'multimodal', 'images', 'analysis'],
+    limits: { maxOutputTokens: 16384, maxTemperature: 1, supportsPenalties: false }
   },
   'openai/gpt-oss-120b': {
     id: 'openai/gpt-oss-120b',
@@ -105,8 +166,10 @@ export const MODEL_METADATA: Record<string, ModelMetadata> = {
     description: 'Large open-source model for deep reasoning',
     tier: ModelTier.PAID,
     costMultiplier: 1.5,
+    pricing: { inputPer1M: 100_000, outputPer1M: 500_000, cachedInputPer1M: 100_000 },
     provider: 'OpenAI',
-    capabilities: ['reasoning', 'general', 'large-context']
+    capabilities: ['reasoning', 'general', 'large-context'],
+    limits: { maxOutputTokens: 16384, maxTemperature: 2, supportsPenalties: true }
   },
   'deepseek/deepseek-v3.2': {
     id: 'deepseek/deepseek-v3.2',
@@ -114,8 +177,10 @@ export const MODEL_METADATA: Record<string, ModelMetadata> = {
     description: 'Advanced reasoning model for analytical tasks',
     tier: ModelTier.PAID,
     costMultiplier: 1.5,
+    pricing: { inputPer1M: 280_000, outputPer1M: 420_000, cachedInputPer1M: 28_000 },
     provider: 'DeepSeek',
-    capabilities: ['reasoning', 'analysis', 'research']
+    capabilities: ['reasoning', 'analysis', 'research'],
+    limits: { maxOutputTokens: 8192, maxTemperature: 2, supportsPenalties: true }
   },
   'minimax/minimax-m2': {
     id: 'minimax/minimax-m2',
@@ -123,64 +188,103 @@ export const MODEL_METADATA: Record<string, ModelMetadata> = {
     description: 'Efficient reasoning with speed and quality balance',
     tier: ModelTier.PAID,
     costMultiplier: 1.5,
+    pricing: { inputPer1M: 300_000, outputPer1M: 1_200_000, cachedInputPer1M: 30_000 },
     provider: 'MiniMax',
-    capabilities: ['reasoning', 'efficient', 'balanced']
+    capabilities: ['reasoning', 'efficient', 'balanced'],
+    limits: { maxOutputTokens: 16384, maxTemperature: 1, supportsPenalties: false }
   }
 };
 
 /**
- * Type guard to check if a model string is in the allowlist
+ * Get enabled models from the live config, in display order
  */
-export function isAllowedModel(model: unknown): model is AllowedModel {
+export function getEnabledModels(): ModelMetadata[] {
+  return getModelConfig().models
+    .filter(model => model.enabled)
+    .map(({ enabled: _enabled, ...metadata }) => metadata);
+}
+
+/**
+ * Look up an enabled model in the live config
+ */
+function getLiveModel(model: string): ModelMetadata | null {
+  const configured = getConfiguredModel(model);
+  return configured?.enabled ? configured : null;
+}
+
+/**
+ * Check if a model string is in the live allowlist (configured and enabled)
+ */
+export function isAllowedModel(model: unknown): model is string {
   if (typeof model !== 'string') {
     return false;
   }
-  return ALLOWED_MODELS.includes(model as AllowedModel);
+  return getLiveModel(model) !== null;
 }
 
 /**
  * Check if a model is a free tier model
  */
 export function isFreeModel(model: string): boolean {
-  return FREE_MODELS.includes(model as typeof FREE_MODELS[number]);
+  return getLiveModel(model)?.tier === ModelTier.FREE;
 }
 
 /**
  * Check if a model is a paid tier model
  */
 export function isPaidModel(model: string): boolean {
-  return PAID_MODELS.includes(model as typeof PAID_MODELS[number]);
+  return getLiveModel(model)?.tier === ModelTier.PAID;
 }
 
 /**
  * Get the tier of a model
  */
 export function getModelTier(model: string): ModelTier | null {
-  const metadata = MODEL_METADATA[model];
-  return metadata?.tier ?? null;
+  return getLiveModel(model)?.tier ?? null;
 }
 
 /**
  * Get the cost multiplier for a model
- * Returns 0 for FREE, 1.5 for PAID, 1.0 for LEGACY
+ * Returns 0 for FREE, 1.5 for PAID, 1.0 for unknown models
+ * Disabled models keep their price so in-flight requests settle correctly
  */
 export function getModelCostMultiplier(model: string): number {
-  const metadata = MODEL_METADATA[model];
-  return metadata?.costMultiplier ?? 1.0;
+  return getConfiguredModel(model)?.costMultiplier ?? 1.0;
+}
+
+/**
+ * Get the per-token rates for a model (before the tier multiplier)
+ */
+export function getModelPricing(model: string): ModelPricing {
+  return getConfiguredModel(model)?.pricing ?? DEFAULT_MODEL_PRICING;
+}
+
+/**
+ * Get the sampling parameter limits for a model
+ */
+export function getModelParamLimits(model: string): ModelParamLimits {
+  return getConfiguredModel(model)?.limits ?? DEFAULT_MODEL_LIMITS;
+}
+
+/**
+ * Get the longest image side (px) worth sending to a model
+ */
+export function getModelMaxImageDimension(model: string): number {
+  return getConfiguredModel(model)?.maxImageDimension ?? DEFAULT_MAX_IMAGE_DIMENSION;
 }
 
 /**
- * Get full metadata for a model
+ * Get full metadata for an enabled model
  */
 export function getModelMetadata(model: string): ModelMetadata | null {
-  return MODEL_METADATA[model] ?? null;
+  return getLiveModel(model);
 }
 
 /**
- * Get all models of a specific tier
+ * Get all enabled models of a specific tier
  */
 export function getModelsByTier(tier: ModelTier): string[] {
-  return Object.values(MODEL_METADATA)
+  return getEnabledModels()
     .filter(metadata => metadata.tier === tier)
     .map(metadata => metadata.id);
 }
@@ -189,5 +293,5 @@ export function getModelsByTier(tier: ModelTier): string[] {
  * Get a formatted list of allowed models for error messages
  */
 export function getAllowedModelsString(): string {
-  return ALLOWED_MODELS.join(', ');
+  return getEnabledModels().map(model => model.id).join(', ');
 }
@@ -2,15 +2,19 @@
  * Model Fallback Configuration
  * Defines fallback chains for each model when primary model fails
  * Strategy: Try same-tier models first, then fallback to free tier
- * 
- * UPDATED: 2025-12-19 to match current allowed models
+ *
+ * These are the built-in chains; admins can edit them at runtime (lib/modelConfigStore.ts).
+ * Chains must not form cycles, so each model only falls back to models "below" it:
+ * Sonnet -> Gemini -> Grok -> MiniMax -> DeepSeek -> GPT OSS -> Devstral (free)
  */
 
+import { getModelConfig } from '../lib/modelConfigStore.js';
+import { getAttemptableModels } from '../lib/modelHealth.js';
 
 export const MAX_FALLBACK_ATTEMPTS = 3;
 
 /**
- * Model fallback chains
+ * Built-in model fallback chains (seed the live config)
  * Each model has a prioritized list of alternatives
  */
 export const MODEL_FALLBACK_CHAINS: Record<string, string[]> = {
@@ -20,11 +24,11 @@ export const MODEL_FALLBACK_CHAINS: Record<string, string[]> = {
     // PAID MODELS - Try other paid models first, then free tier
     'google/gemini-3-flash-preview': [
         'x-ai/grok-code-fast-1',
-        'anthropic/claude-sonnet-4.5',
+        'deepseek/deepseek-v3.2',
         'mistralai/devstral-2512:free'
     ],
     'x-ai/grok-code-fast-1': [
-        'google/gemini-3-flash-preview',
+        'minimax/minimax-m2',
         'deepseek/deepseek-v3.2',
         'mistralai/devstral-2512:free'
     ],
@@ -34,29 +38,29 @@ export const MODEL_FALLBACK_CHAINS: Record<string, string[]> = {
         'mistralai/devstral-2512:free'
     ],
     'openai/gpt-oss-120b': [
-        'deepseek/deepseek-v3.2',
-        'google/gemini-3-flash-preview',
         'mistralai/devstral-2512:free'
     ],
     'deepseek/deepseek-v3.2': [
         'openai/gpt-oss-120b',
-        'google/gemini-3-flash-preview',
         'mistralai/devstral-2512:free'
     ],
     'minimax/minimax-m2': [
-        'google/gemini-3-flash-preview',
         'deepseek/deepseek-v3.2',
+        'openai/gpt-oss-120b',
         'mistralai/devstral-2512:free'
     ]
 };
 
 /**
- * Get fallback chain for a model
+ * Get the live fallback chain for a model
+ * Disabled models are skipped so a chain never routes to something the allowlist rejects
  * @param modelId - Primary model ID
  * @returns Array of fallback model IDs (max 3)
  */
 export function getFallbackChain(modelId: string): string[] {
-    const chain = MODEL_FALLBACK_CHAINS[modelId] || [];
+    const config = getModelConfig();
+    const enabled = new Set(config.models.filter(m => m.enabled).map(m => m.id));
+    const chain = (config.fallbackChains[modelId] || []).filter(id => enabled.has(id));
 
     // Limit to MAX_FALLBACK_ATTEMPTS
     return chain.slice(0, MAX_FALLBACK_ATTEMPTS);
@@ -64,11 +68,14 @@ export function getFallbackChain(modelId: string): string[] {
 
 /**
  * Get all models to attempt (primary + fallbacks)
+ * Models with an open circuit are skipped (see lib/modelHealth.ts), so a failing primary
+ * doesn't cost every request a doomed attempt. Read-only: callers that send a request claim
+ * a half-open model's trial with acquireTrial right before the upstream call.
  * @param modelId - Primary model ID
- * @returns Array with primary model first, then fallbacks
+ * @returns Array with primary model first (when healthy), then fallbacks
  */
 export function getModelsToAttempt(modelId: string): string[] {
-    return [modelId, ...getFallbackChain(modelId)];
+    return getAttemptableModels([modelId, ...getFallbackChain(modelId)]);
 }
 
 /**
@@ -0,0 +1,141 @@
+/**
+ * Media Models Configuration (Replicate)
+ *
+ * SECURITY: Only models in these catalogues can be used by the media routes.
+ * This is also the catalogue served to the canvas via GET /api/models.
+ */
+
+import { CREDIT_COSTS } from '../lib/tokenService.js';
+
+export type MediaResolution = '720p' | '1080p' | '4k';
+export type MediaAspectRatio = '16:9' | '4:3' | '4:5' | '1:1' | '9:16';
+export type VideoDuration = '5s' | '10s';
+
+export interface MediaModelMetadata {
+  id: string;
+  displayName: string;
+  description: string;
+  provider: string;
+  badge: 'FAST' | 'PRO';
+  creditCost: number; // Fixed credits per generation
+  supportsResolutions: MediaResolution[];
+  supportsAspectRatios: MediaAspectRatio[];
+}
+
+export interface VideoModelMetadata extends MediaModelMetadata {
+  supportsDurations: VideoDuration[];
+}
+
+export const DEFAULT_IMAGE_MODEL = 'black-forest-labs/flux-2-dev';
+export const DEFAULT_VIDEO_MODEL = 'wan-video/wan-2.2-i2v-fast';
+
+const ALL_ASPECT_RATIOS: MediaAspectRatio[] = ['16:9', '4:3', '4:5', '1:1', '9:16'];
+
+/**
+ * Image generation models - Official Replicate models
+ */
+export const IMAGE_MODELS: MediaModelMetadata[] = [
+  {
+    id: 'black-forest-labs/flux-2-pro',
+    displayName: 'FLUX 2 Pro',
+    description: 'Maior qualidade com compreensão avançada de prompts',
+    provider: 'Black Forest Labs',
+    badge: 'PRO',
+    creditCost: CREDIT_COSTS.IMAGE_GENERATION,
+    supportsResolutions: ['720p', '1080p'],
+    supportsAspectRatios: ALL_ASPECT_RATIOS
+  },
+  {
+    id: 'black-forest-labs/flux-2-dev',
+    displayName: 'FLUX 2 Dev',
+    description: 'Geração rápida otimizada para velocidade e qualidade',
+    provider: 'Black Forest Labs',
+    badge: 'FAST',
+    creditCost: CREDIT_COSTS.IMAGE_GENERATION,
+    supportsResolutions: ['720p', '1080p'],
+    supportsAspectRatios: ALL_ASPECT_RATIOS
+  },
+  {
+    id: 'qwen/qwen-image',
+    displayName: 'Qwen Image',
+    description: 'Forte compreensão de prompts com suporte a chinês',
+    provider: 'Qwen',
+    badge: 'PRO',
+    creditCost: CREDIT_COSTS.IMAGE_GENERATION,
+    supportsResolutions: ['720p', '1080p'],
+    supportsAspectRatios: ALL_ASPECT_RATIOS
+  },
+  {
+    id: 'qwen/qwen-image-edit-plus',
+    displayName: 'Qwen Edit Plus',
+    description: 'Edição e manipulação avançada de imagens',
+    provider: 'Qwen',
+    badge: 'PRO',
+    creditCost: CREDIT_COSTS.IMAGE_GENERATION,
+    supportsResolutions: ['720p', '1080p'],
+    supportsAspectRatios: ALL_ASPECT_RATIOS
+  },
+  {
+    id: 'bytedance/seedream-4.5',
+    displayName: 'Seedream 4.5',
+    description: 'Geração de alta fidelidade até 4K',
+    provider: 'Bytedance',
+    badge: 'PRO',
+    creditCost: CREDIT_COSTS.IMAGE_GENERATION,
+    supportsResolutions: ['720p', '1080p', '4k'],
+    supportsAspectRatios: ALL_ASPECT_RATIOS
+  }
+];
+
+/**
+ * Video generation models - Official Replicate models
+ */
+export const VIDEO_MODELS: VideoModelMetadata[] = [
+  {
+    id: 'wan-video/wan-2.2-animate-replace',
+    displayName: 'WAN Animate Replace',
+    description: 'Substitua personagens em vídeos existentes por novos',
+    provider: 'WAN Video',
+    badge: 'PRO',
+    creditCost: CREDIT_COSTS.VIDEO_GENERATION,
+    supportsResolutions: ['720p', '1080p'],
+    supportsAspectRatios: ['16:9', '4:3', '1:1'],
+    supportsDurations: ['5s']
+  },
+  {
+    id: 'wan-video/wan-2.2-i2v-fast',
+    displayName: 'WAN i2v Fast',
+    description: 'Imagem para vídeo rápido com descrição de movimento',
+    provider: 'WAN Video',
+    badge: 'FAST',
+    creditCost: CREDIT_COSTS.VIDEO_GENERATION,
+    supportsResolutions: ['720p', '1080p'],
+    supportsAspectRatios: ['16:9', '4:3', '1:1'],
+    supportsDurations: ['5s']
+  },
+  {
+    id: 'minimax/hailuo-02-fast',
+    displayName: 'Hailuo 02 Fast',
+    description: 'Vídeo guiado por movimento a partir de frames estáticos',
+    provider: 'MiniMax',
+    badge: 'FAST',
+    creditCost: CREDIT_COSTS.VIDEO_GENERATION,
+    supportsResolutions: ['720p', '1080p'],
+    supportsAspectRatios: ['16:9', '9:16', '1:1'],
+    supportsDurations: ['5s']
+  }
+];
+
+/**
+ * Get an image model by ID (null if not in the catalogue)
+ */
+export function getImageModel(model: string): MediaModelMetadata | null {
+  return IMAGE_MODELS.find(m => m.id === model) ?? null;
+}
+
+/**
+ * Get a video model by ID (null if not in the catalogue)
+ */
+export function getVideoModel(model: string): VideoModelMetadata | null {
+  return VIDEO_MODELS.find(m => m.id === model) ?? null;
+}
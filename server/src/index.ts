@@ -7,8 +7,14 @@ import { chatRouter } from './routes/chat.js';
 import { mediaRouter } from './routes/media.js';
 import { authRouter } from './routes/auth.js';
 import { adminRouter } from './routes/admin.js';
+import { conversationsRouter } from './routes/conversations.js';
+import { creditsRouter } from './routes/credits.js';
+import { modelsRouter } from './routes/models.js';
+import { personasRouter } from './routes/personas.js';
+import { sharesRouter, publicSharesRouter } from './routes/shares.js';
+import { filesRouter } from './routes/files.js';
 import { errorHandler } from './middleware/errorHandler.js';
-import { apiLimiter, aiLimiter, authLimiter, registrationLimiter } from './middleware/rateLimiter.js';
+import { apiLimiter, aiLimiter, estimateLimiter, streamControlLimiter, syncLimiter, authLimiter, registrationLimiter } from './middleware/rateLimiter.js';
 import { authMiddleware } from './middleware/auth.js';
 
 // Load environment variables first
@@ -116,8 +122,8 @@ app.use(cors({
     callback(new Error('Not allowed by CORS'));
   },
   credentials: true, // Allow cookies to be sent
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'Cookie'],
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'Cookie', 'Last-Event-ID', 'X-File-Name', 'X-File-Type'], // Last-Event-ID: chat stream resume; X-File-*: uploads
   exposedHeaders: ['Set-Cookie']
 }));
 
@@ -128,7 +134,10 @@ app.use(cookieParser());
 
 // Apply rate limiting
 app.use('/api/', apiLimiter); // General limit on all API routes
-app.use('/api/chat/', aiLimiter); // Stricter limit on AI chat
+app.use('/api/chat/estimate', estimateLimiter); // Separate budget for live cost estimates
+app.use('/api/conversations/sync', syncLimiter); // Separate budget for background conversation sync
+app.use('/api/chat/', streamControlLimiter); // Separate budget for resuming and stopping replies
+app.use('/api/chat/', aiLimiter); // Stricter limit on AI chat (new generations only)
 app.use('/api/media/', aiLimiter); // Stricter limit on media generation
 app.use('/api/auth/login', authLimiter); // Prevent brute force on login
 app.use('/api/auth/register', registrationLimiter); // More lenient for registration
@@ -140,9 +149,16 @@ app.get('/api/health', (_req, res) => {
 
 // Routes
 app.use('/api/auth', authRouter); // Public - needed for login/register
+app.use('/api/models', modelsRouter); // Public - model catalogue and pricing
 app.use('/api/chat', authMiddleware, chatRouter); // Protected - requires authentication
 app.use('/api/media', authMiddleware, mediaRouter); // Protected - requires authentication
 app.use('/api/admin', authMiddleware, adminRouter); // Protected - requires admin authentication
+app.use('/api/conversations', authMiddleware, conversationsRouter); // Protected - per-user conversation sync
+app.use('/api/credits', authMiddleware, creditsRouter); // Protected - credit ledger history
+app.use('/api/personas', authMiddleware, personasRouter); // Protected - per-user persona library
+app.use('/api/shares', authMiddleware, sharesRouter); // Protected - create, list and revoke share links
+app.use('/api/public/shares', publicSharesRouter); // Public - read-only shared conversations
+app.use('/api/files', authMiddleware, filesRouter); // Protected - attachment uploads (content-addressed)
 
 // Error handling (must be last)
 app.use(errorHandler);
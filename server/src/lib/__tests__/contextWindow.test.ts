@@ -0,0 +1,132 @@
+import { describe, it, expect, vi } from 'vitest';
+import { fitHistoryToContext, getPromptBudget, ContextMessage } from '../contextWindow.js';
+
+// Gemma has the smallest built-in window (8192 tokens), which keeps the fixtures small
+const MODEL = 'google/gemma-3-27b-it';
+const noReply = () => 0;
+
+// Roughly 1000 tokens each, so about seven fit in the budget
+const longText = (label: string) => `${label} ${'palavra '.repeat(1000)}`;
+
+const makeHistory = (count: number, pinnedIndex?: number): ContextMessage[] =>
+  Array.from({ length: count }, (_, index) => ({
+    role: index % 2 === 0 ? 'user' as const : 'assistant' as const,
+    content: longText(`message-${index}`),
+    ...(index === pinnedIndex && { pinned: true })
+  }));
+
+describe('contextWindow', () => {
+  it('should budget for the smallest window in the fallback chain', () => {
+    expect(getPromptBudget(['anthropic/claude-sonnet-4.5', MODEL], noReply))
+      .toBe(getPromptBudget([MODEL], noReply));
+    expect(getPromptBudget([MODEL], () => 1000)).toBeLessThan(getPromptBudget([MODEL], noReply));
+  });
+
+  it('should send a history that fits untouched', async () => {
+    const messages = [{ role: 'user' as const, content: 'Olá', pinned: true }];
+
+    const result = await fitHistoryToContext({
+      models: [MODEL], systemPrompt: '', messages, strategy: 'drop_oldest', reservedOutputTokens: noReply
+    });
+
+    expect(result.report).toBeNull();
+    expect(result.messages).toEqual([{ role: 'user', content: 'Olá' }]);
+  });
+
+  it('should send image attachments as multimodal content after the text', async () => {
+    const image = 'data:image/webp;base64,UklGRg==';
+
+    const result = await fitHistoryToContext({
+      models: [MODEL],
+      systemPrompt: '',
+      messages: [{ role: 'user', content: 'O que tem na foto?', images: [image] }],
+      strategy: 'keep_pinned',
+      reservedOutputTokens: noReply
+    });
+
+    expect(result.messages).toEqual([{
+      role: 'user',
+      content: [
+        { type: 'text', text: 'O que tem na foto?' },
+        { type: 'image_url', image_url: { url: image } }
+      ]
+    }]);
+  });
+
+  it('should drop the oldest messages and keep the latest', async () => {
+    const messages = makeHistory(11);
+
+    const result = await fitHistoryToContext({
+      models: [MODEL], systemPrompt: '', messages, strategy: 'drop_oldest', reservedOutputTokens: noReply
+    });
+
+    expect(result.fits).toBe(true);
+    expect(result.report!.droppedMessages).toBeGreaterThan(0);
+    expect(result.report!.promptTokens).toBeLessThanOrEqual(result.report!.contextTokens);
+    expect(result.messages[0].role).toBe('user');
+    expect(result.messages.at(-1)!.content).toBe(messages.at(-1)!.content);
+    expect(result.messages.some(m => String(m.content).startsWith('message-0 '))).toBe(false);
+  });
+
+  it('should keep pinned messages with keep_pinned', async () => {
+    const messages = makeHistory(11, 0);
+
+    const result = await fitHistoryToContext({
+      models: [MODEL], systemPrompt: '', messages, strategy: 'keep_pinned', reservedOutputTokens: noReply
+    });
+
+    expect(result.report!.strategy).toBe('keep_pinned');
+    expect(result.messages[0].content).toBe(messages[0].content);
+    expect(result.messages[0]).not.toHaveProperty('pinned');
+  });
+
+  it('should add a summary of the dropped turns to the system prompt', async () => {
+    const summarize = vi.fn().mockResolvedValue('The user asked about deployment.');
+
+    const result = await fitHistoryToContext({
+      models: [MODEL],
+      systemPrompt: 'Be brief.',
+      messages: makeHistory(13),
+      strategy: 'summarize',
+      reservedOutputTokens: noReply,
+      summarize
+    });
+
+    expect(summarize).toHaveBeenCalledWith(expect.stringContaining('User: message-0'));
+    expect(result.report!.summarized).toBe(true);
+    expect(result.systemPrompt).toMatch(/^Be brief\.\n\n/);
+    expect(result.systemPrompt).toContain('The user asked about deployment.');
+  });
+
+  it('should fall back to keep_pinned when summarising fails', async () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const summarize = vi.fn().mockRejectedValue(new Error('Upstream error'));
+
+    const result = await fitHistoryToContext({
+      models: [MODEL],
+      systemPrompt: '',
+      messages: makeHistory(15),
+      strategy: 'summarize',
+      reservedOutputTokens: noReply,
+      summarize
+    });
+
+    expect(result.fits).toBe(true);
+    expect(result.report).toMatchObject({ strategy: 'keep_pinned', summarized: false });
+    expect(result.systemPrompt).toBe('');
+    warnSpy.mockRestore();
+  });
+
+  it('should report when the latest message alone is too large', async () => {
+    const result = await fitHistoryToContext({
+      models: [MODEL],
+      systemPrompt: '',
+      messages: [{ role: 'user', content: 'palavra '.repeat(10_000) }],
+      strategy: 'drop_oldest',
+      reservedOutputTokens: noReply
+    });
+
+    expect(result.fits).toBe(false);
+    expect(result.report).toBeNull();
+  });
+});
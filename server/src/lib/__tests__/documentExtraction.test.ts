@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import ExcelJS from 'exceljs';
+import {
+  checkZipSize,
+  extractDocumentText,
+  formatDocumentPart,
+  getDocumentKind,
+  MAX_EXTRACTED_CHARS
+} from '../documentExtraction.js';
+
+/**
+ * Smallest well-formed PDF with one line of text per page (xref offsets computed)
+ */
+function buildPdf(pages: string[]): Buffer {
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${4 + i * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+    ...pages.flatMap((text, i) => {
+      const stream = `BT /F1 12 Tf 72 720 Td (${text}) Tj ET`;
+      return [
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${5 + i * 2} 0 R >>`,
+        `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`
+      ];
+    })
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((body, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(pdf, 'latin1');
+}
+
+describe('documentExtraction', () => {
+  it('should pick the extractor by extension first, then MIME type', () => {
+    expect(getDocumentKind('relatorio.pdf', '')).toBe('pdf');
+    expect(getDocumentKind('Contrato.DOCX', 'application/octet-stream')).toBe('docx');
+    expect(getDocumentKind('vendas.xlsx', '')).toBe('spreadsheet');
+    expect(getDocumentKind('dados', 'text/csv')).toBe('csv');
+    // Browsers report TypeScript files as MPEG transport streams
+    expect(getDocumentKind('index.ts', 'video/mp2t')).toBe('text');
+    expect(getDocumentKind('LICENSE', 'text/plain')).toBe('text');
+
+    expect(getDocumentKind('antigo.doc', 'application/msword')).toBeNull();
+    expect(getDocumentKind('foto.png', 'image/png')).toBeNull();
+  });
+
+  it('should decode text files and count their lines', async () => {
+    const doc = await extractDocumentText('text', Buffer.from('\uFEFFconst a = 1;\r\nconst b = 2;\r\n', 'utf-8'));
+
+    expect(doc).toEqual({ kind: 'text', text: 'const a = 1;\nconst b = 2;\n', lines: 2, truncated: false });
+  });
+
+  it('should extract the text and page count of a PDF', async () => {
+    const doc = await extractDocumentText('pdf', buildPdf(['Primeira pagina', 'Segunda pagina']));
+
+    expect(doc.pages).toBe(2);
+    expect(doc.text).toContain('[Page 1]\nPrimeira pagina');
+    expect(doc.text).toContain('[Page 2]\nSegunda pagina');
+  });
+
+  it('should share one extraction between concurrent requests for the same contents', async () => {
+    const pdf = buildPdf(['Estimativa']);
+
+    const [first, second] = await Promise.all([extractDocumentText('pdf', pdf), extractDocumentText('pdf', pdf)]);
+    expect(second).toBe(first);
+    expect(await extractDocumentText('pdf', Buffer.from(pdf))).toBe(first);
+  });
+
+  it('should not cache failed extractions', async () => {
+    const broken = Buffer.from('not a pdf either');
+
+    await expect(extractDocumentText('pdf', broken)).rejects.toThrow();
+    await expect(extractDocumentText('pdf', broken)).rejects.toThrow();
+  });
+
+  it('should render every worksheet of a spreadsheet as CSV', async () => {
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet('Vendas');
+    sheet.addRow(['Produto', 'Total']);
+    sheet.addRow(['Café, torrado', 42]);
+    workbook.addWorksheet('Notas').addRow(['ok']);
+    const data = Buffer.from(await workbook.xlsx.writeBuffer());
+
+    const doc = await extractDocumentText('spreadsheet', data);
+
+    expect(doc.text).toBe('## Sheet: Vendas\nProduto,Total\n"Café, torrado",42\n\n## Sheet: Notas\nok');
+    expect(doc.lines).toBe(3);
+  });
+
+  it('should stop rendering spreadsheet rows once the text is past the limit', async () => {
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet('Log');
+    for (let i = 0; i < 2500; i++) sheet.addRow(['x'.repeat(100)]);
+    const data = Buffer.from(await workbook.xlsx.writeBuffer());
+
+    const doc = await extractDocumentText('spreadsheet', data);
+
+    expect(doc.truncated).toBe(true);
+    expect(doc.lines).toBeLessThan(2500);
+  });
+
+  it('should refuse archives that declare more uncompressed data than allowed', async () => {
+    const workbook = new ExcelJS.Workbook();
+    workbook.addWorksheet('Vendas').addRow(['ok']);
+    const data = Buffer.from(await workbook.xlsx.writeBuffer());
+    expect(() => checkZipSize(data)).not.toThrow();
+
+    // Inflate the first central directory entry's declared size
+    const entry = data.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02]));
+    data.writeUInt32LE(0xfffffff0, entry + 24);
+
+    expect(() => checkZipSize(data)).toThrow(/inflates/);
+    await expect(extractDocumentText('docx', data)).rejects.toThrow(/inflates/);
+  });
+
+  it('should reject files that are not what their extension says', async () => {
+    await expect(extractDocumentText('pdf', Buffer.from('not a pdf'))).rejects.toThrow();
+  });
+
+  it('should truncate very long documents and say so in the text part', async () => {
+    const doc = await extractDocumentText('text', Buffer.from('a'.repeat(MAX_EXTRACTED_CHARS + 10)));
+
+    expect(doc.truncated).toBe(true);
+    expect(doc.text).toHaveLength(MAX_EXTRACTED_CHARS);
+
+    const part = formatDocumentPart('log.txt', doc);
+    expect(part.startsWith('[Attachment: log.txt (1 line)]\n')).toBe(true);
+    expect(part).toContain('[Truncated: only the first');
+    expect(part.endsWith('[End of attachment: log.txt]')).toBe(true);
+  });
+
+  it('should label pages and rows in the text part header', () => {
+    expect(formatDocumentPart('a.pdf', { kind: 'pdf', text: 'x', pages: 1, lines: 1, truncated: false }))
+      .toBe('[Attachment: a.pdf (1 page, 1 line)]\nx\n[End of attachment: a.pdf]');
+    expect(formatDocumentPart('b.csv', { kind: 'csv', text: '', lines: 0, truncated: false }))
+      .toBe('[Attachment: b.csv (0 rows)]\n(no text found)\n[End of attachment: b.csv]');
+  });
+});
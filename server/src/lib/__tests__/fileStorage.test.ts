@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { getUsageBytes, hashFileContents, isFileId, StoredFile } from '../fileStorage.js';
+
+const storedFile = (ownerId: string, size: number, id = 'a'.repeat(64)): StoredFile => ({
+  id, ownerId, name: 'relatorio.pdf', type: 'application/pdf', size, createdAt: 0
+});
+
+describe('fileStorage', () => {
+  it('should address files by the SHA-256 of their contents', () => {
+    const id = hashFileContents(Buffer.from('conteúdo'));
+
+    expect(isFileId(id)).toBe(true);
+    expect(hashFileContents(Buffer.from('conteúdo'))).toBe(id);
+    expect(hashFileContents(Buffer.from('outro conteúdo'))).not.toBe(id);
+  });
+
+  it('should only accept file ids that are safe to use as paths', () => {
+    expect(isFileId('../users.json')).toBe(false);
+    expect(isFileId('A'.repeat(64))).toBe(false);
+    expect(isFileId('a'.repeat(63))).toBe(false);
+    expect(isFileId(42)).toBe(false);
+  });
+
+  it('should charge shared contents to every owner', () => {
+    const files = [storedFile('user-1', 100), storedFile('user-2', 100), storedFile('user-1', 50, 'b'.repeat(64))];
+
+    expect(getUsageBytes(files, 'user-1')).toBe(150);
+    expect(getUsageBytes(files, 'user-2')).toBe(100);
+    expect(getUsageBytes(files, 'user-3')).toBe(0);
+  });
+});
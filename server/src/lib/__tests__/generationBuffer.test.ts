@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  appendGenerationEvent,
+  cancelGeneration,
+  completeGeneration,
+  createGeneration,
+  subscribeToGeneration
+} from '../generationBuffer.js';
+
+const USER_ID = 'user-1';
+
+// Mirrors the private constants in generationBuffer.ts
+const ABANDON_GRACE_MS = 15 * 1000;
+const BUFFER_TTL_MS = 2 * 60 * 1000;
+
+let nextId = 0;
+
+// A generation with a spy abort, and a client that records what it receives
+const startGeneration = () => {
+  const id = `generation-${++nextId}`;
+  const abort = vi.fn();
+  createGeneration(id, USER_ID, abort);
+  return { id, abort };
+};
+
+const collect = () => {
+  const received: Array<[number, string]> = [];
+  const onEnd = vi.fn();
+  return { received, onEnd, onEvent: (seq: number, data: string) => received.push([seq, data]) };
+};
+
+describe('generationBuffer', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should replay events after Last-Event-ID, then deliver live ones', () => {
+    const { id } = startGeneration();
+    appendGenerationEvent(id, 'a');
+    appendGenerationEvent(id, 'b');
+    appendGenerationEvent(id, 'c');
+
+    const client = collect();
+    subscribeToGeneration(id, USER_ID, 1, client.onEvent, client.onEnd);
+    appendGenerationEvent(id, 'd');
+    completeGeneration(id);
+
+    expect(client.received).toEqual([[2, 'b'], [3, 'c'], [4, 'd']]);
+    expect(client.onEnd).toHaveBeenCalledTimes(1);
+  });
+
+  it('should replay a finished generation until the buffer expires', () => {
+    const { id } = startGeneration();
+    appendGenerationEvent(id, 'a');
+    completeGeneration(id);
+
+    const client = collect();
+    expect(subscribeToGeneration(id, USER_ID, 0, client.onEvent, client.onEnd)).not.toBeNull();
+    expect(client.received).toEqual([[1, 'a']]);
+    expect(client.onEnd).toHaveBeenCalled();
+    expect(appendGenerationEvent(id, 'late')).toBeNull();
+
+    vi.advanceTimersByTime(BUFFER_TTL_MS);
+    expect(subscribeToGeneration(id, USER_ID, 0, vi.fn(), vi.fn())).toBeNull();
+  });
+
+  it('should not let other users resume or cancel a generation', () => {
+    const { id, abort } = startGeneration();
+
+    expect(subscribeToGeneration(id, 'user-2', 0, vi.fn(), vi.fn())).toBeNull();
+    expect(cancelGeneration(id, 'user-2')).toBe(false);
+    expect(abort).not.toHaveBeenCalled();
+  });
+
+  it('should abort a generation nobody reconnects to within the grace period', () => {
+    const { id, abort } = startGeneration();
+    const subscription = subscribeToGeneration(id, USER_ID, 0, vi.fn(), vi.fn())!;
+
+    subscription.unsubscribe();
+    vi.advanceTimersByTime(ABANDON_GRACE_MS - 1);
+    expect(abort).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(abort).toHaveBeenCalledWith('abandoned');
+  });
+
+  it('should keep running when the client reconnects within the grace period', () => {
+    const { id, abort } = startGeneration();
+    subscribeToGeneration(id, USER_ID, 0, vi.fn(), vi.fn())!.unsubscribe();
+
+    vi.advanceTimersByTime(ABANDON_GRACE_MS - 1);
+    const client = collect();
+    subscribeToGeneration(id, USER_ID, 0, client.onEvent, client.onEnd);
+    vi.advanceTimersByTime(ABANDON_GRACE_MS);
+
+    expect(abort).not.toHaveBeenCalled();
+    appendGenerationEvent(id, 'still streaming');
+    expect(client.received).toEqual([[1, 'still streaming']]);
+  });
+
+  it('should not abort a generation that finished during the grace period', () => {
+    const { id, abort } = startGeneration();
+    subscribeToGeneration(id, USER_ID, 0, vi.fn(), vi.fn())!.unsubscribe();
+
+    completeGeneration(id);
+    vi.advanceTimersByTime(ABANDON_GRACE_MS);
+
+    expect(abort).not.toHaveBeenCalled();
+  });
+
+  it("should cancel a running generation at the owner's request", () => {
+    const { id, abort } = startGeneration();
+
+    expect(cancelGeneration(id, USER_ID)).toBe(true);
+    expect(abort).toHaveBeenCalledWith('cancelled');
+  });
+});
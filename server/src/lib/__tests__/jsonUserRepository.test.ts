@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { JsonUserRepository } from '../jsonUserRepository.js';
+import { StoredUser } from '../userRepository.js';
+
+const QUERY = { limit: 50, offset: 0 };
+
+const makeUser = (): StoredUser => ({
+  id: 'user-1',
+  email: 'ana@example.com',
+  name: 'Ana',
+  password: 'hash',
+  createdAt: 0,
+  updatedAt: 0,
+  creditBalance: 1000
+});
+
+describe('JsonUserRepository', () => {
+  let dataDir: string;
+  let repository: JsonUserRepository;
+
+  beforeEach(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fidi-users-test-'));
+    repository = new JsonUserRepository(path.join(dataDir, 'users.json'));
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    await repository.create(makeUser());
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should update the balance and append the ledger entry together', async () => {
+    const result = await repository.updateWithLedgerEntry('user-1', { creditBalance: 900 }, {
+      type: 'usage', delta: -100, reason: 'Chat', model: 'google/gemma-3-27b-it'
+    });
+
+    expect(result?.entry).toMatchObject({ userId: 'user-1', delta: -100, balanceAfter: 900 });
+    expect((await repository.getById('user-1'))?.creditBalance).toBe(900);
+    expect((await repository.listLedgerEntries('user-1', QUERY)).entries).toEqual([result!.entry]);
+  });
+
+  it('should truncate the ledger entry when the users write fails', async () => {
+    await repository.updateWithLedgerEntry('user-1', { creditBalance: 900 }, { type: 'usage', delta: -100, reason: 'Chat' });
+    const ledgerFile = path.join(dataDir, 'ledger', 'user-1.jsonl');
+    const ledgerBefore = fs.readFileSync(ledgerFile, 'utf-8');
+
+    vi.spyOn(fs, 'renameSync').mockImplementationOnce(() => {
+      throw new Error('disk full');
+    });
+
+    await expect(repository.updateWithLedgerEntry('user-1', { creditBalance: 800 }, {
+      type: 'usage', delta: -100, reason: 'Chat'
+    })).rejects.toThrow('Failed to save user data');
+
+    expect(fs.readFileSync(ledgerFile, 'utf-8')).toBe(ledgerBefore);
+    expect((await repository.getById('user-1'))?.creditBalance).toBe(900);
+    expect((await repository.listLedgerEntries('user-1', QUERY)).total).toBe(1);
+  });
+
+  it('should release the lock after a failed write', async () => {
+    vi.spyOn(fs, 'renameSync').mockImplementationOnce(() => {
+      throw new Error('disk full');
+    });
+    await expect(repository.updateWithLedgerEntry('user-1', { creditBalance: 800 }, {
+      type: 'grant', delta: -200, reason: 'Ajuste'
+    })).rejects.toThrow();
+
+    expect(fs.existsSync(path.join(dataDir, 'users.lock'))).toBe(false);
+    await expect(repository.update('user-1', { name: 'Ana Maria' })).resolves.toMatchObject({ name: 'Ana Maria' });
+  });
+
+  it('should not write a ledger entry for unknown users', async () => {
+    expect(await repository.updateWithLedgerEntry('user-2', { creditBalance: 10 }, {
+      type: 'grant', delta: 10, reason: 'Bônus'
+    })).toBeNull();
+    expect(fs.existsSync(path.join(dataDir, 'ledger', 'user-2.jsonl'))).toBe(false);
+  });
+
+  it('should page the ledger newest first with filters', async () => {
+    await repository.updateWithLedgerEntry('user-1', { creditBalance: 900 }, { type: 'usage', delta: -100, reason: 'Chat' });
+    await repository.updateWithLedgerEntry('user-1', { creditBalance: 1900 }, { type: 'grant', delta: 1000, reason: 'Bônus' });
+    await repository.updateWithLedgerEntry('user-1', { creditBalance: 1850 }, { type: 'usage', delta: -50, reason: 'Chat' });
+
+    const page = await repository.listLedgerEntries('user-1', { ...QUERY, type: 'usage' });
+
+    expect(page.total).toBe(2);
+    expect(page.entries.map(entry => entry.balanceAfter)).toEqual([1850, 900]);
+  });
+});
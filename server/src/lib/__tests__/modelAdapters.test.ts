@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatMessagesForModel,
+  getModelAdapter,
+  getModelCapabilities,
+  IMAGE_OMITTED_NOTE
+} from '../modelAdapters.js';
+
+const SYSTEM_PROMPT = 'You are a careful reviewer.';
+
+const imageMessage = {
+  role: 'user' as const,
+  content: [
+    { type: 'text' as const, text: 'What is in this picture?' },
+    { type: 'image_url' as const, image_url: { url: 'data:image/png;base64,AAAA' } }
+  ]
+};
+
+describe('modelAdapters', () => {
+  describe('getModelAdapter', () => {
+    it('should pick the longest matching prefix', () => {
+      expect(getModelCapabilities('google/gemini-3-flash-preview').nativeSystemRole).toBe(true);
+      expect(getModelCapabilities('google/gemma-3-27b-it').nativeSystemRole).toBe(false);
+    });
+
+    it('should fall back to the conservative default for unknown models', () => {
+      expect(getModelCapabilities('unknown-lab/model-x')).toEqual({
+        nativeSystemRole: false,
+        multimodalInput: false,
+        maxContextTokens: 32_768
+      });
+    });
+
+    it('should declare a context window for every built-in model', () => {
+      for (const model of [
+        'mistralai/devstral-2512:free',
+        'google/gemini-3-flash-preview',
+        'x-ai/grok-code-fast-1',
+        'anthropic/claude-sonnet-4.5',
+        'openai/gpt-oss-120b',
+        'deepseek/deepseek-v3.2',
+        'minimax/minimax-m2'
+      ]) {
+        expect(getModelAdapter(model).capabilities.maxContextTokens).toBeGreaterThan(32_768);
+      }
+    });
+  });
+
+  describe('native system role', () => {
+    it('should send the system prompt as a leading system message', () => {
+      const formatted = formatMessagesForModel('anthropic/claude-sonnet-4.5', SYSTEM_PROMPT, [
+        { role: 'user', content: 'Hello' }
+      ]);
+
+      expect(formatted).toEqual([
+        { role: 'system', content: SYSTEM_PROMPT },
+        { role: 'user', content: 'Hello' }
+      ]);
+    });
+
+    it('should leave messages untouched without a system prompt', () => {
+      const messages = [{ role: 'user' as const, content: 'Hello' }];
+
+      expect(formatMessagesForModel('openai/gpt-oss-120b', '  ', messages)).toEqual(messages);
+    });
+
+    it('should not merge the prompt into user text', () => {
+      const formatted = formatMessagesForModel('deepseek/deepseek-v3.2', SYSTEM_PROMPT, [
+        { role: 'user', content: 'Hello' },
+        { role: 'assistant', content: 'Hi' }
+      ]);
+
+      expect(formatted[1].content).toBe('Hello');
+    });
+  });
+
+  describe('prepended system prompt', () => {
+    it('should prepend the prompt to the first user message for models without a system role', () => {
+      const formatted = formatMessagesForModel('google/gemma-3-27b-it', SYSTEM_PROMPT, [
+        { role: 'user', content: 'Hello' },
+        { role: 'assistant', content: 'Hi' }
+      ]);
+
+      expect(formatted).toEqual([
+        { role: 'user', content: `${SYSTEM_PROMPT}\n\nHello` },
+        { role: 'assistant', content: 'Hi' }
+      ]);
+    });
+
+    it('should add the prompt as a text part of multimodal content', () => {
+      const formatted = formatMessagesForModel('unknown-lab/vision-model', SYSTEM_PROMPT, [
+        { role: 'user', content: [{ type: 'text', text: 'Hello' }] }
+      ]);
+
+      expect(formatted[0].content).toEqual([
+        { type: 'text', text: SYSTEM_PROMPT },
+        { type: 'text', text: 'Hello' }
+      ]);
+    });
+
+    it('should not touch a history that starts with an assistant message', () => {
+      const messages = [{ role: 'assistant' as const, content: 'Welcome' }];
+
+      expect(formatMessagesForModel('google/gemma-3-27b-it', SYSTEM_PROMPT, messages)).toEqual(messages);
+    });
+  });
+
+  describe('image input', () => {
+    it('should keep image parts for multimodal models', () => {
+      const formatted = formatMessagesForModel('google/gemini-3-flash-preview', '', [imageMessage]);
+
+      expect(formatted).toEqual([imageMessage]);
+    });
+
+    it('should replace image parts with a note for text-only models', () => {
+      const formatted = formatMessagesForModel('x-ai/grok-code-fast-1', SYSTEM_PROMPT, [imageMessage]);
+
+      expect(formatted).toEqual([
+        { role: 'system', content: SYSTEM_PROMPT },
+        { role: 'user', content: `What is in this picture?\n\n${IMAGE_OMITTED_NOTE}` }
+      ]);
+    });
+
+    it('should leave text-only content arrays as they are', () => {
+      const messages = [{ role: 'user' as const, content: [{ type: 'text' as const, text: 'Hello' }] }];
+
+      expect(formatMessagesForModel('mistralai/devstral-2512:free', '', messages)).toEqual(messages);
+    });
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { getModelConfig, ModelConfig, validateModelConfig } from '../modelConfigStore.js';
+import { ModelTier } from '../../config/allowedModels.js';
+
+const FREE_MODEL = 'mistralai/devstral-2512:free';
+const PAID_MODEL = 'deepseek/deepseek-v3.2';
+
+const editableConfig = (): ModelConfig => structuredClone(getModelConfig());
+
+describe('validateModelConfig fallback tiers', () => {
+  it('should accept paid models falling back to free ones', () => {
+    const config = editableConfig();
+    config.fallbackChains[PAID_MODEL] = [FREE_MODEL];
+
+    expect(validateModelConfig(config)).toEqual([]);
+  });
+
+  it('should reject a free model falling back to a paid one', () => {
+    const config = editableConfig();
+    config.fallbackChains[FREE_MODEL] = [PAID_MODEL];
+
+    expect(validateModelConfig(config)).toEqual([
+      `${FREE_MODEL}: a FREE model cannot fall back to the PAID model "${PAID_MODEL}"`
+    ]);
+  });
+
+  it('should reject a tier change that leaves a free model with a paid fallback', () => {
+    const config = editableConfig();
+    const extraFree = { ...config.models.find(m => m.id === FREE_MODEL)!, id: 'mistralai/other:free' };
+    config.models.push(extraFree);
+    config.fallbackChains[FREE_MODEL] = [extraFree.id];
+
+    extraFree.tier = ModelTier.PAID;
+    extraFree.costMultiplier = 1;
+
+    expect(validateModelConfig(config)).toContainEqual(
+      `${FREE_MODEL}: a FREE model cannot fall back to the PAID model "${extraFree.id}"`
+    );
+  });
+});
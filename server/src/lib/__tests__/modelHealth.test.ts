@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ClassifiedError, ErrorType } from '../errorClassifier.js';
+import {
+  acquireTrial,
+  getAttemptableModels,
+  getModelHealth,
+  recordModelFailure,
+  recordModelSuccess,
+  resetModelHealth
+} from '../modelHealth.js';
+
+const MODEL = 'google/gemma-3-27b-it';
+const FALLBACK = 'deepseek/deepseek-v3.2';
+
+// Mirrors the private constants in modelHealth.ts
+const FAILURE_THRESHOLD = 5;
+const BASE_COOLDOWN_MS = 30 * 1000;
+const MAX_COOLDOWN_MS = 10 * 60 * 1000;
+const TRIAL_TIMEOUT_MS = 2 * 60 * 1000;
+
+const failure = (type = ErrorType.UNAVAILABLE): ClassifiedError => ({
+  type, statusCode: 503, originalMessage: 'upstream down', userFriendlyMessage: 'Indisponível', retryable: true
+});
+
+const openCircuit = () => {
+  for (let i = 0; i < FAILURE_THRESHOLD; i++) recordModelFailure(MODEL, failure());
+};
+
+// Let the cooldown run out, claim the trial and fail it
+const failTrial = (cooldownMs: number) => {
+  vi.advanceTimersByTime(cooldownMs);
+  expect(acquireTrial(MODEL)).toBe(true);
+  recordModelFailure(MODEL, failure());
+};
+
+describe('modelHealth', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    resetModelHealth(MODEL);
+    resetModelHealth(FALLBACK);
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should open the circuit after FAILURE_THRESHOLD consecutive failures', () => {
+    for (let i = 0; i < FAILURE_THRESHOLD - 1; i++) recordModelFailure(MODEL, failure());
+    expect(getModelHealth(MODEL).state).toBe('closed');
+    expect(getModelHealth(MODEL).status).toBe('degraded');
+
+    recordModelFailure(MODEL, failure());
+
+    expect(getModelHealth(MODEL).state).toBe('open');
+    expect(getAttemptableModels([MODEL, FALLBACK])).toEqual([FALLBACK]);
+    expect(acquireTrial(MODEL)).toBe(false);
+  });
+
+  it('should ignore errors that say nothing about the model', () => {
+    for (let i = 0; i < FAILURE_THRESHOLD; i++) recordModelFailure(MODEL, failure(ErrorType.DATA_POLICY));
+
+    expect(getModelHealth(MODEL).state).toBe('closed');
+    expect(getModelHealth(MODEL).consecutiveFailures).toBe(0);
+  });
+
+  it('should double the cooldown after each failed trial, up to MAX_COOLDOWN_MS', () => {
+    openCircuit();
+    expect(getModelHealth(MODEL).cooldownMs).toBe(BASE_COOLDOWN_MS);
+
+    let cooldownMs = BASE_COOLDOWN_MS;
+    while (cooldownMs < MAX_COOLDOWN_MS) {
+      failTrial(cooldownMs);
+      cooldownMs = Math.min(cooldownMs * 2, MAX_COOLDOWN_MS);
+      expect(getModelHealth(MODEL).state).toBe('open');
+      expect(getModelHealth(MODEL).cooldownMs).toBe(cooldownMs);
+    }
+
+    failTrial(MAX_COOLDOWN_MS);
+    expect(getModelHealth(MODEL).cooldownMs).toBe(MAX_COOLDOWN_MS);
+  });
+
+  it('should keep the circuit open until the cooldown ends', () => {
+    openCircuit();
+
+    vi.advanceTimersByTime(BASE_COOLDOWN_MS - 1);
+    expect(acquireTrial(MODEL)).toBe(false);
+
+    vi.advanceTimersByTime(1);
+    expect(acquireTrial(MODEL)).toBe(true);
+    expect(getModelHealth(MODEL).state).toBe('half_open');
+  });
+
+  it('should list a recovering model without claiming its trial', () => {
+    openCircuit();
+    vi.advanceTimersByTime(BASE_COOLDOWN_MS);
+
+    expect(getAttemptableModels([MODEL, FALLBACK])).toEqual([MODEL, FALLBACK]);
+    expect(getAttemptableModels([MODEL, FALLBACK])).toEqual([MODEL, FALLBACK]);
+    expect(getModelHealth(MODEL).state).toBe('open');
+
+    expect(acquireTrial(MODEL)).toBe(true);
+  });
+
+  it('should let one trial through at a time', () => {
+    openCircuit();
+    vi.advanceTimersByTime(BASE_COOLDOWN_MS);
+
+    expect(acquireTrial(MODEL)).toBe(true);
+    expect(acquireTrial(MODEL)).toBe(false);
+    expect(getAttemptableModels([MODEL, FALLBACK])).toEqual([FALLBACK]);
+  });
+
+  it('should release a trial that never reports back after TRIAL_TIMEOUT_MS', () => {
+    openCircuit();
+    vi.advanceTimersByTime(BASE_COOLDOWN_MS);
+    expect(acquireTrial(MODEL)).toBe(true);
+
+    vi.advanceTimersByTime(TRIAL_TIMEOUT_MS - 1);
+    expect(acquireTrial(MODEL)).toBe(false);
+
+    vi.advanceTimersByTime(1);
+    expect(acquireTrial(MODEL)).toBe(true);
+    expect(acquireTrial(MODEL)).toBe(false);
+  });
+
+  it('should close the circuit when the trial succeeds', () => {
+    openCircuit();
+    failTrial(BASE_COOLDOWN_MS);
+    vi.advanceTimersByTime(BASE_COOLDOWN_MS * 2);
+    expect(acquireTrial(MODEL)).toBe(true);
+
+    recordModelSuccess(MODEL);
+
+    const health = getModelHealth(MODEL);
+    expect(health.state).toBe('closed');
+    expect(health.status).toBe('operational');
+    expect(health.cooldownMs).toBe(BASE_COOLDOWN_MS);
+    expect(acquireTrial(MODEL)).toBe(true);
+  });
+
+  it('should return the whole chain when every model is blocked', () => {
+    openCircuit();
+    for (let i = 0; i < FAILURE_THRESHOLD; i++) recordModelFailure(FALLBACK, failure());
+
+    expect(getAttemptableModels([MODEL, FALLBACK])).toEqual([MODEL, FALLBACK]);
+  });
+});
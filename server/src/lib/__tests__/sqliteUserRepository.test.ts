@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SqliteUserRepository } from '../sqliteUserRepository.js';
+import { CreditLedgerEntry, StoredUser } from '../userRepository.js';
+
+const QUERY = { limit: 50, offset: 0 };
+
+const makeUser = (overrides: Partial<StoredUser> = {}): StoredUser => ({
+  id: 'user-1',
+  email: 'ana@example.com',
+  name: 'Ana',
+  password: 'hash',
+  createdAt: 0,
+  updatedAt: 0,
+  creditBalance: 900,
+  ...overrides
+});
+
+const makeEntry = (id: string, timestamp: number): CreditLedgerEntry => ({
+  id,
+  userId: 'user-1',
+  type: 'usage',
+  delta: -50,
+  reason: 'Chat',
+  balanceAfter: 1000 - timestamp * 50,
+  timestamp
+});
+
+describe('SqliteUserRepository', () => {
+  let dataDir: string;
+  let repository: SqliteUserRepository;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fidi-sqlite-test-'));
+    repository = new SqliteUserRepository(path.join(dataDir, 'fidi.db'));
+  });
+
+  afterEach(() => {
+    repository.close();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should import each user together with their credit ledger', async () => {
+    const ledgers = new Map([['user-1', [makeEntry('e1', 1), makeEntry('e2', 2)]]]);
+
+    const result = repository.importUsers([makeUser()], false, ledgers);
+
+    expect(result).toEqual({ imported: 1, skipped: 0, ledgerEntries: 2 });
+    const page = await repository.listLedgerEntries('user-1', QUERY);
+    expect(page.total).toBe(2);
+    expect(page.entries.map(entry => entry.id)).toEqual(['e2', 'e1']);
+  });
+
+  it('should replace the ledger of an overwritten user and leave skipped users alone', async () => {
+    repository.importUsers([makeUser()], false, new Map([['user-1', [makeEntry('old', 1)]]]));
+
+    const skipped = repository.importUsers([makeUser()], false, new Map([['user-1', [makeEntry('new', 2)]]]));
+    expect(skipped).toEqual({ imported: 0, skipped: 1, ledgerEntries: 0 });
+    expect((await repository.listLedgerEntries('user-1', QUERY)).entries.map(entry => entry.id)).toEqual(['old']);
+
+    repository.importUsers([makeUser()], true, new Map([['user-1', [makeEntry('new', 2)]]]));
+    expect((await repository.listLedgerEntries('user-1', QUERY)).entries.map(entry => entry.id)).toEqual(['new']);
+  });
+
+  it('should roll back the users when a ledger entry fails to import', async () => {
+    const duplicate = makeEntry('e1', 1);
+
+    expect(() => repository.importUsers([makeUser()], false, new Map([['user-1', [duplicate, duplicate]]]))).toThrow();
+    expect(await repository.count()).toBe(0);
+  });
+});
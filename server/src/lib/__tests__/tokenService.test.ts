@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NewCreditLedgerEntry, StoredUser } from '../userRepository.js';
+
+// In-memory users (locks still use the real lock directory, one lock file per user)
+const users = new Map<string, StoredUser>();
+const ledger: NewCreditLedgerEntry[] = [];
+
+vi.mock('../userStorage.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../userStorage.js')>();
+  return {
+    ...actual,
+    getUserById: vi.fn(async (id: string) => users.get(id) ?? null),
+    updateUser: vi.fn(async (id: string, updates: Partial<StoredUser>) => {
+      const user = users.get(id);
+      if (!user) return null;
+      users.set(id, { ...user, ...updates });
+      return users.get(id)!;
+    }),
+    updateUserWithLedgerEntry: vi.fn(async (id: string, updates: Partial<StoredUser>, entry: NewCreditLedgerEntry) => {
+      const user = users.get(id);
+      if (!user) return null;
+      users.set(id, { ...user, ...updates });
+      ledger.push(entry);
+      return { user: users.get(id)!, entry: { ...entry, id: `entry-${ledger.length}`, userId: id, balanceAfter: 0, timestamp: 0 } };
+    })
+  };
+});
+
+const {
+  getAvailableCredits,
+  getCreditBalance,
+  reserveCredits,
+  settleCredits,
+  releaseCredits
+} = await import('../tokenService.js');
+
+const USER_ID = 'holds-test-user';
+
+describe('tokenService holds', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    ledger.length = 0;
+    users.set(USER_ID, {
+      id: USER_ID,
+      email: 'holds@example.com',
+      name: 'Holds',
+      password: 'hash',
+      createdAt: 0,
+      updatedAt: 0,
+      creditBalance: 100,
+      plan: 'free',
+      lastCreditReset: Date.now()
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should keep held credits out of what other requests can spend', async () => {
+    const hold = await reserveCredits(USER_ID, 60, 'Chat');
+
+    expect(hold).toMatchObject({ success: true, held: 60, available: 40 });
+    expect(await getAvailableCredits(USER_ID)).toBe(40);
+    expect(await getCreditBalance(USER_ID)).toBe(100);
+    expect(await reserveCredits(USER_ID, 60, 'Chat')).toMatchObject({ success: false, available: 40 });
+
+    releaseCredits(hold.holdId!);
+  });
+
+  it('should hold whatever is left when over-reserving with allowPartial', async () => {
+    const first = await reserveCredits(USER_ID, 70, 'Chat');
+    const partial = await reserveCredits(USER_ID, 70, 'Chat', { allowPartial: true });
+
+    expect(partial).toMatchObject({ success: true, held: 30, available: 0 });
+
+    // Nothing left at all - even a partial hold fails
+    expect(await reserveCredits(USER_ID, 10, 'Chat', { allowPartial: true })).toMatchObject({ success: false, held: 0 });
+
+    releaseCredits(first.holdId!);
+    releaseCredits(partial.holdId!);
+  });
+
+  it('should settle a hold to the actual cost and free the rest', async () => {
+    const hold = await reserveCredits(USER_ID, 60, 'Chat');
+
+    const result = await settleCredits(hold.holdId!, USER_ID, 25, 'Chat', { model: 'google/gemma-3-27b-it' });
+
+    expect(result).toMatchObject({ success: true, newBalance: 75 });
+    expect(await getAvailableCredits(USER_ID)).toBe(75);
+    expect(ledger).toEqual([expect.objectContaining({ type: 'usage', delta: -25, model: 'google/gemma-3-27b-it' })]);
+  });
+
+  it('should clamp a settlement above the hold to what other holds leave spendable', async () => {
+    const hold = await reserveCredits(USER_ID, 50, 'Chat');
+    const other = await reserveCredits(USER_ID, 30, 'Chat');
+
+    const result = await settleCredits(hold.holdId!, USER_ID, 90, 'Chat');
+
+    expect(result).toMatchObject({ success: true, newBalance: 30 });
+    expect(ledger).toEqual([expect.objectContaining({ delta: -70 })]);
+    expect(await getAvailableCredits(USER_ID)).toBe(0);
+
+    releaseCredits(other.holdId!);
+  });
+
+  it('should sweep expired holds so their credits become spendable again', async () => {
+    const hold = await reserveCredits(USER_ID, 80, 'Chat', { ttlMs: 1000 });
+    expect(await getAvailableCredits(USER_ID)).toBe(20);
+
+    vi.advanceTimersByTime(999);
+    expect(await getAvailableCredits(USER_ID)).toBe(20);
+
+    vi.advanceTimersByTime(1);
+    expect(await getAvailableCredits(USER_ID)).toBe(100);
+
+    // Settling after expiry still charges, clamped like any settlement
+    expect(await settleCredits(hold.holdId!, USER_ID, 40, 'Chat')).toMatchObject({ success: true, newBalance: 60 });
+  });
+
+  it('should still charge when settling a hold that was already released', async () => {
+    const hold = await reserveCredits(USER_ID, 60, 'Chat');
+    releaseCredits(hold.holdId!);
+    releaseCredits(hold.holdId!); // Releasing twice is a no-op
+
+    const result = await settleCredits(hold.holdId!, USER_ID, 30, 'Chat');
+
+    expect(result).toMatchObject({ success: true, newBalance: 70 });
+    expect(ledger).toHaveLength(1);
+  });
+
+  it("should refuse to settle another user's hold", async () => {
+    const hold = await reserveCredits(USER_ID, 60, 'Chat');
+
+    expect(await settleCredits(hold.holdId!, 'someone-else', 60, 'Chat')).toMatchObject({ success: false });
+    expect(await getAvailableCredits(USER_ID)).toBe(40);
+
+    releaseCredits(hold.holdId!);
+  });
+
+  it('should reset a due balance once when it is read concurrently', async () => {
+    users.set(USER_ID, { ...users.get(USER_ID)!, creditBalance: 5, lastCreditReset: Date.now() - 31 * 24 * 60 * 60 * 1000 });
+
+    const balances = await Promise.all([getCreditBalance(USER_ID), getCreditBalance(USER_ID), getAvailableCredits(USER_ID)]);
+
+    expect(new Set(balances).size).toBe(1);
+    expect(ledger).toEqual([expect.objectContaining({ type: 'reset' })]);
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Context Window Management
+ *
+ * Long conversations eventually outgrow a model's context window. Before a request is
+ * formatted for the model, the history is fitted to the smallest window in the fallback
+ * chain (minus room for the reply) using one of three strategies:
+ * - drop_oldest: drop the oldest messages
+ * - keep_pinned: drop the oldest messages, but never ones the user pinned
+ * - summarize:   like keep_pinned, but the dropped turns are condensed by a cheap model and
+ *                the summary is appended to the system prompt
+ *
+ * The latest message is always kept. What was trimmed is reported back to the client.
+ */
+
+import { createHash } from 'crypto';
+import { countPromptTokens } from './costEstimator.js';
+import { formatMessagesForModel, getModelCapabilities } from './modelAdapters.js';
+
+export type ContextStrategy = 'drop_oldest' | 'keep_pinned' | 'summarize';
+
+export const CONTEXT_STRATEGIES: readonly ContextStrategy[] = ['drop_oldest', 'keep_pinned', 'summarize'];
+export const DEFAULT_CONTEXT_STRATEGY: ContextStrategy = 'keep_pinned';
+
+// Headroom for differences between our token count and the provider's
+const SAFETY_MARGIN_RATIO = 0.05;
+
+// Room left for the summary when the summarize strategy is used (~4 chars per token)
+const SUMMARY_MAX_TOKENS = 600;
+const SUMMARY_MAX_CHARS = SUMMARY_MAX_TOKENS * 4;
+
+// Only the most recent part of a very long dropped history is summarised
+const SUMMARY_INPUT_MAX_CHARS = 60_000;
+
+// Summaries are cached so retries and resends of the same history don't pay for another call
+const SUMMARY_CACHE_MAX_ENTRIES = 200;
+
+export interface ContextMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  images?: string[]; // Image attachments as data URLs (sent after the text)
+  pinned?: boolean;
+}
+
+type PromptMessage = Parameters<typeof formatMessagesForModel>[2][number];
+
+/**
+ * What was done to fit the history (sent to the client as a `context` event)
+ */
+export interface ContextReport {
+  strategy: ContextStrategy; // Strategy actually applied (summarize falls back to keep_pinned on failure)
+  contextTokens: number;     // Prompt budget of the smallest model in the fallback chain
+  promptTokens: number;      // Prompt size after trimming
+  droppedMessages: number;
+  keptMessages: number;
+  summarized: boolean;
+}
+
+export interface FitContextOptions {
+  models: string[]; // Primary model first, then fallbacks
+  systemPrompt: string;
+  messages: ContextMessage[];
+  strategy: ContextStrategy;
+  /** Output tokens to leave free for the reply on a given model */
+  reservedOutputTokens: (model: string) => number;
+  /** Condense dropped turns (summarize strategy only; without it the strategy acts as keep_pinned) */
+  summarize?: (transcript: string) => Promise<string>;
+}
+
+export interface FitContextResult {
+  fits: boolean; // false when even the latest message alone is too large
+  systemPrompt: string;
+  messages: PromptMessage[]; // Ready for formatMessagesForModel
+  report: ContextReport | null; // null when the history was sent untouched
+}
+
+const summaryCache = new Map<string, string>();
+
+/**
+ * Prompt token budget: the smallest window in the chain, minus the reply and a safety margin
+ */
+export function getPromptBudget(models: string[], reservedOutputTokens: (model: string) => number): number {
+  return Math.min(...models.map(model => {
+    const window = getModelCapabilities(model).maxContextTokens;
+    return Math.floor((window - reservedOutputTokens(model)) * (1 - SAFETY_MARGIN_RATIO));
+  }));
+}
+
+/**
+ * Drop the pinned flag and turn messages with images into multimodal content
+ */
+const toPromptMessages = (messages: ContextMessage[]): PromptMessage[] =>
+  messages.map(({ role, content, images }) => (images?.length
+    ? {
+      role,
+      content: [
+        ...(content ? [{ type: 'text' as const, text: content }] : []),
+        ...images.map(url => ({ type: 'image_url' as const, image_url: { url } }))
+      ]
+    }
+    : { role, content }));
+
+/**
+ * Choose which messages to drop (oldest first) so the prompt fits `budget`
+ * @returns Indexes of dropped messages, or null if the history can't be made to fit
+ */
+function selectDroppedMessages(
+  model: string,
+  systemPrompt: string,
+  messages: ContextMessage[],
+  budget: number,
+  keepPinned: boolean
+): Set<number> | null {
+  const dropped = new Set<number>();
+  const emptyPrompt = countPromptTokens(model, '', []);
+  const messageTokens = messages.map(message => countPromptTokens(model, '', toPromptMessages([message])) - emptyPrompt);
+  let total = countPromptTokens(model, systemPrompt, toPromptMessages(messages));
+
+  const lastIndex = messages.length - 1;
+  const isDroppable = (index: number) => index < lastIndex && !(keepPinned && messages[index].pinned);
+
+  for (let index = 0; index < lastIndex && total > budget; index++) {
+    if (isDroppable(index)) {
+      dropped.add(index);
+      total -= messageTokens[index];
+    }
+  }
+
+  // Start the kept history on a user turn (some providers and the prepend adapter need it)
+  for (let index = 0; index < lastIndex; index++) {
+    if (dropped.has(index)) continue;
+    if (messages[index].role === 'user' || !isDroppable(index)) break;
+    dropped.add(index);
+  }
+
+  // The per-message counts are approximate (adapters may merge the system prompt into a
+  // message), so confirm with an exact count
+  const kept = messages.filter((_, index) => !dropped.has(index));
+  return countPromptTokens(model, systemPrompt, toPromptMessages(kept)) <= budget ? dropped : null;
+}
+
+/**
+ * Flatten dropped turns into a transcript for the summariser (most recent part if very long)
+ */
+function buildTranscript(messages: ContextMessage[]): string {
+  const transcript = messages
+    .map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}` +
+      (message.images?.length ? ` [${message.images.length} image(s) attached]` : ''))
+    .join('\n\n');
+  return transcript.length > SUMMARY_INPUT_MAX_CHARS ? transcript.slice(-SUMMARY_INPUT_MAX_CHARS) : transcript;
+}
+
+async function getSummary(transcript: string, summarize: (transcript: string) => Promise<string>): Promise<string> {
+  const key = createHash('sha256').update(transcript).digest('hex');
+  const cached = summaryCache.get(key);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const summary = (await summarize(transcript)).trim().slice(0, SUMMARY_MAX_CHARS);
+  if (!summary) {
+    throw new Error('Empty summary');
+  }
+
+  summaryCache.set(key, summary);
+  if (summaryCache.size > SUMMARY_CACHE_MAX_ENTRIES) {
+    summaryCache.delete(summaryCache.keys().next().value!);
+  }
+  return summary;
+}
+
+/**
+ * Fit a conversation's history to the context window of every model it may be sent to
+ */
+export async function fitHistoryToContext(options: FitContextOptions): Promise<FitContextResult> {
+  const { models, systemPrompt, messages, strategy, reservedOutputTokens, summarize } = options;
+  const model = models[0];
+  const budget = getPromptBudget(models, reservedOutputTokens);
+
+  const promptTokens = countPromptTokens(model, systemPrompt, toPromptMessages(messages));
+  if (promptTokens <= budget) {
+    return { fits: true, systemPrompt, messages: toPromptMessages(messages), report: null };
+  }
+
+  const keepPinned = strategy !== 'drop_oldest';
+  const canSummarize = strategy === 'summarize' && !!summarize;
+  const dropBudget = canSummarize ? budget - SUMMARY_MAX_TOKENS : budget;
+
+  let dropped = selectDroppedMessages(model, systemPrompt, messages, dropBudget, keepPinned);
+  if (!dropped) {
+    // Pinned messages alone overflow the window - they have to go too
+    dropped = keepPinned ? selectDroppedMessages(model, systemPrompt, messages, dropBudget, false) : null;
+  }
+  if (!dropped) {
+    return { fits: false, systemPrompt, messages: toPromptMessages(messages), report: null };
+  }
+
+  const keptMessages = messages.filter((_, index) => !dropped.has(index));
+  let fittedSystemPrompt = systemPrompt;
+  let appliedStrategy = strategy;
+  let summarized = false;
+
+  if (canSummarize) {
+    try {
+      const summary = await getSummary(buildTranscript(messages.filter((_, index) => dropped.has(index))), summarize!);
+      fittedSystemPrompt = `${systemPrompt ? `${systemPrompt}\n\n` : ''}Summary of the earlier conversation (older messages were condensed to fit the context window):\n${summary}`;
+      summarized = true;
+    } catch (error) {
+      console.warn('[Context] Summarisation failed, dropping older messages instead:', error);
+      appliedStrategy = 'keep_pinned';
+    }
+  } else if (strategy === 'summarize') {
+    appliedStrategy = 'keep_pinned';
+  }
+
+  const fittedMessages = toPromptMessages(keptMessages);
+
+  return {
+    fits: true,
+    systemPrompt: fittedSystemPrompt,
+    messages: fittedMessages,
+    report: {
+      strategy: appliedStrategy,
+      contextTokens: budget,
+      promptTokens: countPromptTokens(model, fittedSystemPrompt, fittedMessages),
+      droppedMessages: dropped.size,
+      keptMessages: keptMessages.length,
+      summarized
+    }
+  };
+}
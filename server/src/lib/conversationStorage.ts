@@ -0,0 +1,513 @@
+/**
+ * File-based conversation storage with JSON persistence
+ * One file per user so writes for different users never contend for the same lock
+ *
+ * Deletions are recorded as tombstones so other devices learn about them on sync
+ * Stored attachments are freed from the file store once no conversation references them
+ */
+
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { fileURLToPath } from 'url';
+import { ContextStrategy } from './contextWindow.js';
+import { deleteFile } from './fileStorage.js';
+
+// ES module __dirname equivalent
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Data directory and lock paths
+const CONVERSATIONS_DIR = path.join(__dirname, '../../data/conversations');
+const LOCK_DIR = path.join(__dirname, '../../data/locks');
+
+// Lock configuration
+const STALE_LOCK_MS = 30000; // Consider lock stale after 30 seconds
+const LOCK_MAX_RETRIES = 50;
+const LOCK_RETRY_DELAY_MS = 100;
+
+// Tombstones older than this are pruned on write (clients offline longer will do a full resync)
+const TOMBSTONE_TTL_MS = 90 * 24 * 60 * 60 * 1000; // 90 days
+
+export interface StoredAttachment {
+  name: string;
+  type: string;
+  data: string;    // Empty once the file is in the file store
+  fileId?: string; // File store id (see fileStorage.ts)
+  size?: number;
+  pages?: number; // Documents: counts reported when the text was extracted
+  lines?: number;
+}
+
+export interface StoredMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp?: number;
+  attachments?: StoredAttachment[];
+  media?: {
+    type: 'image' | 'video';
+    url: string;
+    mimeType: string;
+    prompt?: string;
+  };
+  parentId?: string | null; // Branch parent (absent in conversations saved before branching)
+  interrupted?: boolean;    // Assistant reply stopped before it finished
+  contextTrim?: {           // Older messages left out of the model's context for this reply
+    droppedMessages: number;
+    summarized: boolean;
+  };
+  pinned?: boolean;         // Kept in the model's context when older history is trimmed
+}
+
+export interface StoredMemoryNote {
+  id: string;
+  text: string;
+  createdAt: number;
+}
+
+/**
+ * Copy of the persona a conversation was started with
+ * Kept on the conversation so it still works if the persona is edited, deleted or unshared
+ */
+export interface StoredConversationPersona {
+  id: string;
+  name: string;
+  icon: string;
+  systemPrompt: string;
+}
+
+export interface StoredConversation {
+  id: string;
+  title: string;
+  messages: StoredMessage[]; // Every branch's messages
+  activeLeafId?: string;     // Last message of the branch the user is viewing
+  modelParams?: Record<string, number>; // Sampling settings (checked against model limits at send time)
+  persona?: StoredConversationPersona;
+  contextStrategy?: ContextStrategy; // How long histories are fitted to the model's context window
+  memoryNotes?: StoredMemoryNote[];   // Facts sent ahead of the history with every message
+  folder?: string;          // Sidebar folder name
+  tags?: string[];
+  pinned?: boolean;
+  archived?: boolean;
+  lastModified: number;
+  modelId?: string;
+  createdAt?: number;
+  updatedAt: number; // Client edit time - used for last-writer-wins conflict resolution
+  syncedAt?: number; // Server receive time - used as the incremental sync cursor
+}
+
+export interface ConversationTombstone {
+  id: string;
+  deletedAt: number;
+}
+
+interface ConversationsData {
+  conversations: StoredConversation[];
+  tombstones: ConversationTombstone[];
+  version: number;
+}
+
+/**
+ * Per-user storage limits, checked against everything the user has stored (under the lock)
+ */
+export interface ConversationQuota {
+  maxConversations: number;
+  maxBytes: number; // Serialized size of all the user's conversations
+  maxConversationBytes: number;
+}
+
+/**
+ * Result of applying a client change set
+ * `rejected` holds ids whose server copy was newer than the incoming one; `overQuota` holds
+ * ids that would have taken the user over their quota
+ */
+export interface ApplyChangesResult {
+  accepted: string[];
+  rejected: string[];
+  overQuota: string[];
+}
+
+export type CreateConversationResult =
+  | { conversation: StoredConversation }
+  | { error: 'exists' | 'quota_exceeded' };
+
+export type UpdateConversationResult =
+  | { conversation: StoredConversation }
+  | { error: 'not_found' | 'too_large' | 'quota_exceeded' };
+
+/**
+ * Build the storage file path for a user
+ * SECURITY: User ids are generated server-side, but validate anyway to prevent path traversal
+ */
+function getUserFile(userId: string): string {
+  if (!/^[A-Za-z0-9_-]+$/.test(userId)) {
+    throw new Error('Invalid user id for conversation storage');
+  }
+  return path.join(CONVERSATIONS_DIR, `${userId}.json`);
+}
+
+/**
+ * Create the conversations and lock directories if they don't exist
+ */
+async function initializeStorage(): Promise<void> {
+  await fs.promises.mkdir(CONVERSATIONS_DIR, { recursive: true });
+  await fs.promises.mkdir(LOCK_DIR, { recursive: true });
+}
+
+/**
+ * Acquire a per-user file lock for conversation writes
+ * @returns A release function to call when done
+ */
+async function acquireConversationLock(userId: string): Promise<() => Promise<void>> {
+  await initializeStorage();
+
+  const lockFile = path.join(LOCK_DIR, `conversations-${userId}.lock`);
+
+  for (let i = 0; i < LOCK_MAX_RETRIES; i++) {
+    try {
+      // Clean up stale locks left behind by crashed requests
+      try {
+        const stat = await fs.promises.stat(lockFile);
+        if (Date.now() - stat.mtimeMs > STALE_LOCK_MS) {
+          console.warn('[ConversationStorage] Removing stale lock for user:', userId);
+          await fs.promises.unlink(lockFile).catch(() => undefined);
+        }
+      } catch {
+        // Lock file doesn't exist - nothing to clean up
+      }
+
+      // Try to acquire lock atomically using 'wx' flag (exclusive create)
+      await fs.promises.writeFile(lockFile, Date.now().toString(), { flag: 'wx' });
+
+      return async () => {
+        try {
+          await fs.promises.unlink(lockFile);
+        } catch (error) {
+          console.error('[ConversationStorage] Failed to release lock:', error);
+        }
+      };
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'EEXIST') {
+        await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_DELAY_MS));
+        continue;
+      }
+      throw err;
+    }
+  }
+
+  throw new Error('Failed to acquire conversation lock after ' + LOCK_MAX_RETRIES + ' retries');
+}
+
+/**
+ * Read a user's conversation file (empty data if it doesn't exist yet)
+ */
+async function readData(userId: string): Promise<ConversationsData> {
+  try {
+    const raw = await fs.promises.readFile(getUserFile(userId), 'utf-8');
+    const parsed = JSON.parse(raw) as Partial<ConversationsData>;
+    return {
+      conversations: parsed.conversations || [],
+      tombstones: parsed.tombstones || [],
+      version: parsed.version || 1
+    };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('[ConversationStorage] Failed to read conversations:', error);
+    }
+    return { conversations: [], tombstones: [], version: 1 };
+  }
+}
+
+/**
+ * Write a user's conversation file using atomic write (temp file + rename)
+ */
+async function writeData(userId: string, data: ConversationsData): Promise<void> {
+  await initializeStorage();
+
+  const cutoff = Date.now() - TOMBSTONE_TTL_MS;
+  const pruned: ConversationsData = {
+    ...data,
+    tombstones: data.tombstones.filter(t => t.deletedAt >= cutoff)
+  };
+
+  try {
+    const tempFile = path.join(os.tmpdir(), `fidi-conversations-${userId}-${Date.now()}-${process.pid}.tmp`);
+    await fs.promises.writeFile(tempFile, JSON.stringify(pruned), 'utf-8');
+    await fs.promises.rename(tempFile, getUserFile(userId));
+  } catch (error) {
+    console.error('[ConversationStorage] Failed to write conversations:', error);
+    throw new Error('Failed to save conversation data');
+  }
+}
+
+/**
+ * Serialized size of a conversation, as counted against the quota
+ */
+export function getConversationBytes(conversation: StoredConversation): number {
+  return Buffer.byteLength(JSON.stringify(conversation), 'utf-8');
+}
+
+/**
+ * Whether a set of conversations fits a quota
+ */
+function fitsQuota(conversations: StoredConversation[], quota: ConversationQuota): boolean {
+  if (conversations.length > quota.maxConversations) return false;
+
+  let bytes = 0;
+  for (const conversation of conversations) {
+    bytes += getConversationBytes(conversation);
+    if (bytes > quota.maxBytes) return false;
+  }
+  return true;
+}
+
+/**
+ * File store ids referenced by the attachments of a set of conversations
+ */
+function getReferencedFileIds(conversations: StoredConversation[]): Set<string> {
+  const ids = new Set<string>();
+  for (const conversation of conversations) {
+    for (const message of conversation.messages) {
+      for (const attachment of message.attachments ?? []) {
+        if (attachment.fileId) ids.add(attachment.fileId);
+      }
+    }
+  }
+  return ids;
+}
+
+/**
+ * Delete the user's stored files that a write stopped referencing (deleted messages, branches
+ * or conversations). Called under the conversation lock, so a concurrent sync can't start
+ * referencing them again before they are gone. Failures only leave a file behind.
+ */
+async function releaseDroppedFiles(
+  userId: string,
+  before: StoredConversation[],
+  after: StoredConversation[]
+): Promise<void> {
+  const kept = getReferencedFileIds(after);
+  const dropped = [...getReferencedFileIds(before)].filter(id => !kept.has(id));
+
+  for (const id of dropped) {
+    try {
+      await deleteFile(userId, id);
+    } catch (error) {
+      console.error('[ConversationStorage] Failed to free unreferenced file:', id, error);
+    }
+  }
+}
+
+/**
+ * List a user's conversations, optionally only those received by the server after `since`
+ * Filtering on server time (not the client's updatedAt) means offline edits pushed late are still picked up
+ * Sorted by lastModified, newest first (matches the sidebar ordering)
+ */
+export async function listConversations(
+  userId: string,
+  since?: number
+): Promise<{ conversations: StoredConversation[]; deletedIds: string[] }> {
+  const data = await readData(userId);
+
+  const conversations = data.conversations
+    .filter(c => since === undefined || (c.syncedAt ?? c.updatedAt) > since)
+    .sort((a, b) => b.lastModified - a.lastModified);
+
+  const deletedIds = data.tombstones
+    .filter(t => since === undefined || t.deletedAt > since)
+    .map(t => t.id);
+
+  return { conversations, deletedIds };
+}
+
+/**
+ * Get a single conversation by ID
+ */
+export async function getConversation(userId: string, id: string): Promise<StoredConversation | null> {
+  const data = await readData(userId);
+  return data.conversations.find(c => c.id === id) ?? null;
+}
+
+/**
+ * Create a new conversation (with file locking)
+ * Fails when a conversation with the same ID already exists or the user is out of quota
+ */
+export async function createConversation(
+  userId: string,
+  conversation: StoredConversation,
+  quota: ConversationQuota
+): Promise<CreateConversationResult> {
+  const releaseLock = await acquireConversationLock(userId);
+
+  try {
+    const data = await readData(userId);
+
+    if (data.conversations.some(c => c.id === conversation.id)) {
+      return { error: 'exists' };
+    }
+
+    const created = { ...conversation, syncedAt: Date.now() };
+    if (!fitsQuota([...data.conversations, created], quota)) {
+      return { error: 'quota_exceeded' };
+    }
+
+    data.conversations.push(created);
+    data.tombstones = data.tombstones.filter(t => t.id !== conversation.id);
+    await writeData(userId, data);
+
+    return { conversation: created };
+  } finally {
+    await releaseLock();
+  }
+}
+
+/**
+ * Update an existing conversation (with file locking)
+ * Fails when the conversation doesn't exist or the change would make it, or the user's
+ * storage, exceed the quota
+ */
+export async function updateConversation(
+  userId: string,
+  id: string,
+  updates: Partial<Omit<StoredConversation, 'id'>>,
+  quota: ConversationQuota
+): Promise<UpdateConversationResult> {
+  const releaseLock = await acquireConversationLock(userId);
+
+  try {
+    const data = await readData(userId);
+    const index = data.conversations.findIndex(c => c.id === id);
+
+    if (index === -1) {
+      return { error: 'not_found' };
+    }
+
+    const before = data.conversations;
+    data.conversations = before.map((conversation, i) => i !== index ? conversation : {
+      ...conversation,
+      ...updates,
+      id,
+      updatedAt: updates.updatedAt ?? Date.now(),
+      syncedAt: Date.now()
+    });
+
+    // Changes that don't grow the conversation always go through, so a user over quota can trim
+    const size = getConversationBytes(data.conversations[index]);
+    if (size > getConversationBytes(before[index])) {
+      if (size > quota.maxConversationBytes) return { error: 'too_large' };
+      if (!fitsQuota(data.conversations, quota)) return { error: 'quota_exceeded' };
+    }
+
+    await writeData(userId, data);
+    await releaseDroppedFiles(userId, before, data.conversations);
+    return { conversation: data.conversations[index] };
+  } finally {
+    await releaseLock();
+  }
+}
+
+/**
+ * Delete a conversation and record a tombstone (with file locking)
+ */
+export async function deleteConversation(userId: string, id: string): Promise<boolean> {
+  const releaseLock = await acquireConversationLock(userId);
+
+  try {
+    const data = await readData(userId);
+    const filtered = data.conversations.filter(c => c.id !== id);
+
+    if (filtered.length === data.conversations.length) {
+      return false;
+    }
+
+    const before = data.conversations;
+    data.conversations = filtered;
+    data.tombstones = [
+      ...data.tombstones.filter(t => t.id !== id),
+      { id, deletedAt: Date.now() }
+    ];
+    await writeData(userId, data);
+    await releaseDroppedFiles(userId, before, filtered);
+    return true;
+  } finally {
+    await releaseLock();
+  }
+}
+
+/**
+ * Apply a batch of client changes in one locked write
+ * Conflict resolution is last-writer-wins on `updatedAt`: an incoming conversation
+ * only replaces the stored copy when it is at least as recent. Deletions are applied first,
+ * so they free quota for the upserts in the same batch; upserts that don't grow a conversation
+ * are accepted even over quota.
+ */
+export async function applyConversationChanges(
+  userId: string,
+  upserts: StoredConversation[],
+  deletedIds: string[],
+  quota: ConversationQuota
+): Promise<ApplyChangesResult> {
+  const releaseLock = await acquireConversationLock(userId);
+
+  try {
+    const data = await readData(userId);
+    const byId = new Map(data.conversations.map(c => [c.id, c]));
+    const tombstones = new Map(data.tombstones.map(t => [t.id, t]));
+    const result: ApplyChangesResult = { accepted: [], rejected: [], overQuota: [] };
+    const now = Date.now();
+
+    for (const id of deletedIds) {
+      byId.delete(id);
+      tombstones.set(id, { id, deletedAt: now });
+    }
+
+    // Running totals for the quota check, updated as upserts are accepted
+    const sizes = new Map(Array.from(byId.values(), c => [c.id, getConversationBytes(c)]));
+    let totalBytes = Array.from(sizes.values()).reduce((sum, size) => sum + size, 0);
+
+    for (const incoming of upserts) {
+      const existing = byId.get(incoming.id);
+      const tombstone = tombstones.get(incoming.id);
+
+      // Deleted elsewhere after this copy was last edited - the delete wins
+      if (tombstone && tombstone.deletedAt >= incoming.updatedAt) {
+        result.rejected.push(incoming.id);
+        continue;
+      }
+
+      if (existing && existing.updatedAt > incoming.updatedAt) {
+        result.rejected.push(incoming.id);
+        continue;
+      }
+
+      const stored = { ...incoming, syncedAt: now };
+      const size = getConversationBytes(stored);
+      const bytesAfter = totalBytes - (sizes.get(incoming.id) ?? 0) + size;
+      const countAfter = byId.size + (existing ? 0 : 1);
+      const grows = size > (sizes.get(incoming.id) ?? 0);
+      if (grows && (bytesAfter > quota.maxBytes || countAfter > quota.maxConversations)) {
+        result.overQuota.push(incoming.id);
+        continue;
+      }
+
+      byId.set(incoming.id, stored);
+      sizes.set(incoming.id, size);
+      totalBytes = bytesAfter;
+      tombstones.delete(incoming.id);
+      result.accepted.push(incoming.id);
+    }
+
+    const conversations = Array.from(byId.values());
+    await writeData(userId, {
+      ...data,
+      conversations,
+      tombstones: Array.from(tombstones.values())
+    });
+    await releaseDroppedFiles(userId, data.conversations, conversations);
+
+    return result;
+  } finally {
+    await releaseLock();
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Chat Cost Estimator - Token counting and credit cost calculation for chat requests
+ * Shared by the pre-flight credit hold, the /estimate endpoint and post-stream billing
+ * so the three never disagree on the pricing formula
+ */
+
+import { countTokens } from 'gpt-tokenizer';
+import { formatMessagesForModel } from './modelAdapters.js';
+import { getModelCostMultiplier, getModelPricing } from '../config/allowedModels.js';
+import { CREDIT_COSTS } from './tokenService.js';
+
+// Fallback output budget for the upper bound when the conversation sets no max_tokens
+export const DEFAULT_MAX_OUTPUT_TOKENS = 4096;
+
+// Chat-format framing per message (role markers, separators) - matches OpenAI's published overhead
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const REPLY_PRIMING_TOKENS = 3;
+
+// Flat per-image cost (providers bill images by resolution; this is a mid-size average)
+const IMAGE_TOKEN_ESTIMATE = 1000;
+
+type EstimatableMessage = Parameters<typeof formatMessagesForModel>[2][number];
+
+export interface ChatCostBreakdown {
+  inputCost: number;
+  outputCost: number;
+  multiplier: number;
+  totalCost: number; // Unrounded
+  credits: number;   // What is actually charged (rounded up, minimum MIN_CHAT_CREDITS)
+}
+
+export interface ChatCostEstimate {
+  model: string;
+  inputTokens: number;
+  maxOutputTokens: number;
+  multiplier: number;
+  inputCost: number;       // Credits for the prompt alone (unrounded)
+  maxOutputCost: number;   // Credits if the reply uses the whole output budget (unrounded)
+  minCredits: number;      // Charge for an (almost) empty reply
+  maxCredits: number;      // Charge for a reply that hits maxOutputTokens
+}
+
+/**
+ * Calculate the credit cost of a chat completion using the model's own rates
+ * Cost = ((uncached/1M × input rate) + (cached/1M × cached rate) + (completion/1M × output rate)) × multiplier
+ * `cachedTokens` is the part of `promptTokens` the provider served from its prompt cache
+ */
+export function calculateChatCost(
+  model: string,
+  promptTokens: number,
+  completionTokens: number,
+  cachedTokens = 0
+): ChatCostBreakdown {
+  const multiplier = getModelCostMultiplier(model);
+  const pricing = getModelPricing(model);
+  const cached = Math.min(Math.max(cachedTokens, 0), promptTokens);
+  const inputCost = ((promptTokens - cached) / 1_000_000) * pricing.inputPer1M
+    + (cached / 1_000_000) * pricing.cachedInputPer1M;
+  const outputCost = (completionTokens / 1_000_000) * pricing.outputPer1M;
+  const totalCost = (inputCost + outputCost) * multiplier;
+
+  return {
+    inputCost,
+    outputCost,
+    multiplier,
+    totalCost,
+    credits: Math.max(CREDIT_COSTS.MIN_CHAT_CREDITS, Math.ceil(totalCost))
+  };
+}
+
+/**
+ * Count prompt tokens for the history exactly as it will be sent to the model
+ * (after the model adapter has placed the system prompt)
+ */
+export function countPromptTokens(model: string, systemPrompt: string, messages: EstimatableMessage[]): number {
+  const formatted = formatMessagesForModel(model, systemPrompt, messages);
+  let tokens = REPLY_PRIMING_TOKENS;
+
+  for (const message of formatted) {
+    tokens += MESSAGE_OVERHEAD_TOKENS;
+
+    if (typeof message.content === 'string') {
+      tokens += countTokens(message.content);
+    } else {
+      for (const part of message.content) {
+        tokens += part.type === 'text' ? countTokens(part.text) : IMAGE_TOKEN_ESTIMATE;
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Count tokens in generated text (used when a stream ends without a usage report)
+ */
+export function countCompletionTokens(text: string): number {
+  return text ? countTokens(text) : 0;
+}
+
+/**
+ * Estimate the cost range of a chat request before it is sent
+ */
+export function estimateChatCost(
+  model: string,
+  systemPrompt: string,
+  messages: EstimatableMessage[],
+  maxOutputTokens = DEFAULT_MAX_OUTPUT_TOKENS
+): ChatCostEstimate {
+  const inputTokens = countPromptTokens(model, systemPrompt, messages);
+  const min = calculateChatCost(model, inputTokens, 0);
+  const max = calculateChatCost(model, inputTokens, maxOutputTokens);
+
+  return {
+    model,
+    inputTokens,
+    maxOutputTokens,
+    multiplier: min.multiplier,
+    inputCost: min.inputCost * min.multiplier,
+    maxOutputCost: max.outputCost * max.multiplier,
+    minCredits: min.credits,
+    maxCredits: max.credits
+  };
+}
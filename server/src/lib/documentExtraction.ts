@@ -0,0 +1,270 @@
+/**
+ * Document attachments - text extraction for PDFs, Word documents, spreadsheets, CSV and
+ * plain-text/code files
+ *
+ * Models read text (and, for some, images), so documents are sent to them as text parts with
+ * a filename header. Extraction runs for every request that carries the document (the whole
+ * history is sent each turn, and cost estimates resend it while the user types), so results
+ * are cached by content hash and concurrent requests for the same file share one extraction.
+ *
+ * Word and Excel files are zip archives that are inflated in memory, so their declared
+ * uncompressed size is checked before parsing, and every extraction runs under a time limit.
+ */
+
+import { createHash } from 'crypto';
+import { extractText, getDocumentProxy } from 'unpdf';
+import mammoth from 'mammoth';
+import ExcelJS from 'exceljs';
+
+export type DocumentKind = 'pdf' | 'docx' | 'spreadsheet' | 'csv' | 'text';
+
+export interface ExtractedDocument {
+  kind: DocumentKind;
+  text: string;
+  pages?: number;     // PDFs only
+  lines: number;      // Lines of extracted text (rows for CSV and spreadsheets)
+  truncated: boolean; // Text was cut at MAX_EXTRACTED_CHARS
+}
+
+// About 50k tokens - anything longer would crowd out the conversation anyway
+export const MAX_EXTRACTED_CHARS = 200000;
+const CACHE_SIZE = 32;
+
+// Zip bomb guards for .docx/.xlsx, checked against the archive's central directory
+const MAX_UNCOMPRESSED_BYTES = 50 * 1024 * 1024;
+const MAX_ZIP_ENTRIES = 10000;
+
+const EXTRACTION_TIMEOUT_MS = 30000;
+
+const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Plain-text formats recognised by extension (browsers report many of them with an empty,
+// generic or misleading MIME type, e.g. .ts as video/mp2t)
+const TEXT_EXTENSIONS = new Set([
+  'txt', 'md', 'markdown', 'log', 'json', 'yaml', 'yml', 'toml', 'ini', 'xml', 'html', 'css', 'scss',
+  'js', 'jsx', 'mjs', 'cjs', 'ts', 'tsx', 'py', 'rb', 'go', 'rs', 'java', 'kt', 'scala', 'c', 'h',
+  'cpp', 'hpp', 'cs', 'php', 'swift', 'dart', 'lua', 'r', 'sh', 'sql', 'vue', 'svelte'
+]);
+
+const TEXT_MIME_TYPES = new Set(['application/json', 'application/xml', 'application/x-yaml', 'application/sql']);
+
+const extensionOf = (filename: string) => {
+  const dot = filename.lastIndexOf('.');
+  return dot === -1 ? '' : filename.slice(dot + 1).toLowerCase();
+};
+
+/**
+ * Which extractor handles a file (extension first, then MIME type)
+ * @returns null for unsupported types (including legacy .doc/.xls and images)
+ */
+export function getDocumentKind(filename: string, mimeType: string): DocumentKind | null {
+  const ext = extensionOf(filename);
+  const mime = mimeType.toLowerCase();
+
+  if (ext === 'pdf' || mime === 'application/pdf') return 'pdf';
+  if (ext === 'docx' || mime === DOCX_MIME) return 'docx';
+  if (ext === 'xlsx' || mime === XLSX_MIME) return 'spreadsheet';
+  if (ext === 'csv' || ext === 'tsv' || mime === 'text/csv' || mime === 'text/tab-separated-values') return 'csv';
+  if (TEXT_EXTENSIONS.has(ext) || mime.startsWith('text/') || TEXT_MIME_TYPES.has(mime)) return 'text';
+  return null;
+}
+
+const countLines = (text: string) => (text.length === 0 ? 0 : text.replace(/\n$/, '').split('\n').length);
+
+/**
+ * Quote a spreadsheet cell the way CSV would (only when needed)
+ */
+const csvCell = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/**
+ * Refuse zip archives that would inflate past MAX_UNCOMPRESSED_BYTES
+ * Reads the sizes the central directory declares; the zip reader rejects entries that inflate
+ * to a different size than declared.
+ * @throws when the archive is malformed, uses Zip64 or is too large
+ */
+export function checkZipSize(data: Buffer): void {
+  const EOCD_SIGNATURE = 0x06054b50;
+  const ENTRY_SIGNATURE = 0x02014b50;
+
+  // The end-of-central-directory record is in the last 22 bytes plus an optional comment
+  let eocd = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (data.readUInt32LE(i) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) throw new Error('Not a zip archive');
+
+  const entries = data.readUInt16LE(eocd + 10);
+  if (entries === 0xffff || entries > MAX_ZIP_ENTRIES) throw new Error('Too many entries in archive');
+
+  let offset = data.readUInt32LE(eocd + 16);
+  let total = 0;
+  for (let i = 0; i < entries; i++) {
+    if (offset + 46 > data.length || data.readUInt32LE(offset) !== ENTRY_SIGNATURE) {
+      throw new Error('Malformed zip central directory');
+    }
+
+    const size = data.readUInt32LE(offset + 24);
+    total += size;
+    if (size === 0xffffffff || total > MAX_UNCOMPRESSED_BYTES) {
+      throw new Error(`Archive inflates to more than ${MAX_UNCOMPRESSED_BYTES} bytes`);
+    }
+
+    offset += 46 + data.readUInt16LE(offset + 28) + data.readUInt16LE(offset + 30) + data.readUInt16LE(offset + 32);
+  }
+}
+
+/**
+ * Reject when `promise` takes longer than `ms`
+ * The work itself can't be cancelled; this frees the request waiting on it.
+ */
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timeoutId: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => reject(new Error(`Extraction timed out after ${ms}ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timeoutId));
+}
+
+async function extractPdf(data: Buffer): Promise<{ text: string; pages: number }> {
+  const pdf = await getDocumentProxy(new Uint8Array(data));
+  const { totalPages, text } = await extractText(pdf, { mergePages: false });
+  return {
+    text: text.map((page, index) => `[Page ${index + 1}]\n${page.trim()}`).join('\n\n'),
+    pages: totalPages
+  };
+}
+
+async function extractDocx(data: Buffer): Promise<string> {
+  checkZipSize(data);
+  const result = await mammoth.extractRawText({ buffer: data });
+  return result.value.replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * Every worksheet as CSV under a "## Sheet" heading
+ * Rows past MAX_EXTRACTED_CHARS are skipped, so `rows` counts the rows that made it into the text.
+ */
+async function extractSpreadsheet(data: Buffer): Promise<{ text: string; rows: number }> {
+  checkZipSize(data);
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(data as unknown as ArrayBuffer);
+
+  let rows = 0;
+  let length = 0;
+  const sheets = workbook.worksheets.map(sheet => {
+    const lines: string[] = [];
+    sheet.eachRow(row => {
+      // eachRow can't break; past the cap the rest of the rows are skipped without rendering
+      if (length > MAX_EXTRACTED_CHARS) return;
+
+      const cells: string[] = [];
+      row.eachCell({ includeEmpty: true }, cell => {
+        cells.push(csvCell(cell.text ?? ''));
+      });
+      const line = cells.join(',');
+      lines.push(line);
+      length += line.length + 1;
+    });
+    rows += lines.length;
+    return `## Sheet: ${sheet.name}\n${lines.join('\n')}`;
+  });
+
+  return { text: sheets.join('\n\n'), rows };
+}
+
+const decodeText = (data: Buffer) => data.toString('utf-8').replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+
+async function extract(kind: DocumentKind, data: Buffer): Promise<ExtractedDocument> {
+  let text: string;
+  let pages: number | undefined;
+  let lines: number | undefined;
+
+  switch (kind) {
+    case 'pdf':
+      ({ text, pages } = await extractPdf(data));
+      break;
+    case 'docx':
+      text = await extractDocx(data);
+      break;
+    case 'spreadsheet': {
+      const sheet = await extractSpreadsheet(data);
+      text = sheet.text;
+      lines = sheet.rows;
+      break;
+    }
+    case 'csv':
+    case 'text':
+      text = decodeText(data);
+      break;
+  }
+
+  const truncated = text.length > MAX_EXTRACTED_CHARS;
+  if (truncated) {
+    text = text.slice(0, MAX_EXTRACTED_CHARS);
+  }
+
+  return {
+    kind,
+    text,
+    ...(pages !== undefined && { pages }),
+    lines: lines ?? countLines(text),
+    truncated
+  };
+}
+
+// Insertion-ordered map used as a small LRU; holds in-flight extractions too
+const cache = new Map<string, Promise<ExtractedDocument>>();
+
+/**
+ * Extract a document's text (cached by content)
+ * @param contentHash - SHA-256 of `data` when already known (stored files use it as their id)
+ * @throws when the file is corrupt or can't be parsed as `kind`
+ */
+export async function extractDocumentText(
+  kind: DocumentKind,
+  data: Buffer,
+  contentHash = createHash('sha256').update(data).digest('hex')
+): Promise<ExtractedDocument> {
+  const key = `${kind}:${contentHash}`;
+  const cached = cache.get(key);
+  if (cached) {
+    cache.delete(key);
+    cache.set(key, cached);
+    return cached;
+  }
+
+  const extraction = withTimeout(extract(kind, data), EXTRACTION_TIMEOUT_MS);
+  cache.set(key, extraction);
+  if (cache.size > CACHE_SIZE) {
+    cache.delete(cache.keys().next().value!);
+  }
+
+  try {
+    return await extraction;
+  } catch (error) {
+    // Don't remember failures: the next request gets a fresh attempt
+    if (cache.get(key) === extraction) cache.delete(key);
+    throw error;
+  }
+}
+
+/**
+ * Render an extracted document as the text part sent to the model
+ */
+export function formatDocumentPart(filename: string, doc: ExtractedDocument): string {
+  const details = [
+    doc.pages !== undefined && `${doc.pages} ${doc.pages === 1 ? 'page' : 'pages'}`,
+    `${doc.lines} ${doc.kind === 'csv' || doc.kind === 'spreadsheet' ? 'row' : 'line'}${doc.lines === 1 ? '' : 's'}`
+  ].filter(Boolean).join(', ');
+
+  return [
+    `[Attachment: ${filename} (${details})]`,
+    doc.text || '(no text found)',
+    ...(doc.truncated ? [`[Truncated: only the first ${MAX_EXTRACTED_CHARS} characters are included]`] : []),
+    `[End of attachment: ${filename}]`
+  ].join('\n');
+}
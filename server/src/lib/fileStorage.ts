@@ -0,0 +1,339 @@
+/**
+ * File-based, content-addressed storage for chat attachments
+ *
+ * Each file's bytes are stored once under their SHA-256 hash, however many users or messages
+ * reference them; messages carry the hash as a file id instead of inline base64. Each user has
+ * their own locked index of what they uploaded (name, type, size), so per-user quotas can be
+ * enforced without uploads from different users waiting on each other. Every blob keeps one
+ * marker per owner, and is deleted once the last owner removes it.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { createHash } from 'crypto';
+import { fileURLToPath } from 'url';
+
+// ES module __dirname equivalent
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Data and lock paths
+const DATA_DIR = path.join(__dirname, '../../data');
+const INDEX_DIR = path.join(DATA_DIR, 'file-index');   // <userId>.json
+const BLOBS_DIR = path.join(DATA_DIR, 'files');        // <fileId>
+const OWNERS_DIR = path.join(DATA_DIR, 'file-owners'); // <fileId>/<userId>
+const LOCK_DIR = path.join(DATA_DIR, 'locks');
+
+// Lock configuration
+const STALE_LOCK_MS = 30000; // Consider lock stale after 30 seconds
+const LOCK_MAX_RETRIES = 50;
+const LOCK_RETRY_DELAY_MS = 100;
+
+// File ids are lowercase hex SHA-256 digests of the contents
+const FILE_ID_PATTERN = /^[a-f0-9]{64}$/;
+
+export interface StoredFile {
+  id: string;       // SHA-256 of the contents (shared by every owner of the same bytes)
+  ownerId: string;
+  name: string;
+  type: string;
+  size: number;     // Bytes
+  createdAt: number;
+}
+
+export interface NewFile {
+  name: string;
+  type: string;
+  data: Buffer;
+}
+
+/**
+ * Outcome of an upload; `created` is false when the user already had the same contents
+ */
+export interface SaveFileResult {
+  file: StoredFile;
+  created: boolean;
+}
+
+interface FilesData {
+  files: StoredFile[];
+  version: number;
+}
+
+/**
+ * Content address of a file
+ */
+export function hashFileContents(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Whether a string has the shape of a file id (checked before touching the filesystem)
+ */
+export function isFileId(value: unknown): value is string {
+  return typeof value === 'string' && FILE_ID_PATTERN.test(value);
+}
+
+/**
+ * Bytes stored by one user (shared blobs count for every owner)
+ */
+export function getUsageBytes(files: StoredFile[], ownerId: string): number {
+  return files.reduce((sum, file) => (file.ownerId === ownerId ? sum + file.size : sum), 0);
+}
+
+/**
+ * Build the blob path for a file id
+ * SECURITY: ids come from the URL and from message content - validate to prevent path traversal
+ */
+function getBlobFile(id: string): string {
+  if (!isFileId(id)) {
+    throw new Error('Invalid file id for file storage');
+  }
+  return path.join(BLOBS_DIR, id);
+}
+
+/**
+ * Build the directory holding one marker per owner of a blob
+ */
+function getOwnersDir(id: string): string {
+  if (!isFileId(id)) {
+    throw new Error('Invalid file id for file storage');
+  }
+  return path.join(OWNERS_DIR, id);
+}
+
+/**
+ * Build the index file path for a user
+ * SECURITY: User ids are generated server-side, but validate anyway to prevent path traversal
+ */
+function getIndexFile(ownerId: string): string {
+  if (!/^[A-Za-z0-9_-]+$/.test(ownerId)) {
+    throw new Error('Invalid user id for file storage');
+  }
+  return path.join(INDEX_DIR, `${ownerId}.json`);
+}
+
+/**
+ * Acquire a file storage lock (one per user index, one per blob)
+ * @returns A release function to call when done
+ */
+async function acquireLock(name: string): Promise<() => Promise<void>> {
+  await fs.promises.mkdir(LOCK_DIR, { recursive: true });
+  const lockFile = path.join(LOCK_DIR, `files-${name}.lock`);
+
+  for (let i = 0; i < LOCK_MAX_RETRIES; i++) {
+    try {
+      // Clean up stale locks left behind by crashed requests
+      try {
+        const stat = await fs.promises.stat(lockFile);
+        if (Date.now() - stat.mtimeMs > STALE_LOCK_MS) {
+          console.warn(`[FileStorage] Removing stale lock ${name}`);
+          await fs.promises.unlink(lockFile).catch(() => undefined);
+        }
+      } catch {
+        // Lock file doesn't exist - nothing to clean up
+      }
+
+      // Try to acquire lock atomically using 'wx' flag (exclusive create)
+      await fs.promises.writeFile(lockFile, Date.now().toString(), { flag: 'wx' });
+
+      return async () => {
+        try {
+          await fs.promises.unlink(lockFile);
+        } catch (error) {
+          console.error(`[FileStorage] Failed to release lock ${name}:`, error);
+        }
+      };
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'EEXIST') {
+        await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_DELAY_MS));
+        continue;
+      }
+      throw err;
+    }
+  }
+
+  throw new Error('Failed to acquire file lock after ' + LOCK_MAX_RETRIES + ' retries');
+}
+
+/**
+ * Read a user's file index (empty data if it doesn't exist yet)
+ */
+async function readData(ownerId: string): Promise<FilesData> {
+  try {
+    const raw = await fs.promises.readFile(getIndexFile(ownerId), 'utf-8');
+    const parsed = JSON.parse(raw) as Partial<FilesData>;
+    return {
+      files: parsed.files || [],
+      version: parsed.version || 1
+    };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('[FileStorage] Failed to read file index:', error);
+    }
+    return { files: [], version: 1 };
+  }
+}
+
+/**
+ * Write a file atomically (temp file + rename)
+ */
+async function writeAtomic(file: string, contents: string | Buffer): Promise<void> {
+  const tempFile = path.join(os.tmpdir(), `fidi-${path.basename(file, '.json')}-${Date.now()}-${process.pid}.tmp`);
+  await fs.promises.writeFile(tempFile, contents);
+  await fs.promises.rename(tempFile, file);
+}
+
+/**
+ * Run a read-modify-write of a user's index under that user's lock
+ */
+async function withFiles<T>(
+  ownerId: string,
+  mutate: (data: FilesData) => Promise<{ result: T; changed: boolean }>
+): Promise<T> {
+  const indexFile = getIndexFile(ownerId);
+  const releaseLock = await acquireLock(`user-${ownerId}`);
+
+  try {
+    const data = await readData(ownerId);
+    const { result, changed } = await mutate(data);
+
+    if (changed) {
+      await fs.promises.mkdir(INDEX_DIR, { recursive: true });
+      try {
+        await writeAtomic(indexFile, JSON.stringify(data));
+      } catch (error) {
+        console.error('[FileStorage] Failed to write file index:', error);
+        throw new Error('Failed to save file data');
+      }
+    }
+    return result;
+  } finally {
+    await releaseLock();
+  }
+}
+
+/**
+ * Run a blob's write or cleanup under that blob's lock
+ * Ownership markers are changed under the same lock, so an upload can't race the deletion of
+ * the last reference to the same contents.
+ */
+async function withBlob<T>(id: string, task: (ownersDir: string) => Promise<T>): Promise<T> {
+  const ownersDir = getOwnersDir(id);
+  const releaseLock = await acquireLock(`blob-${id}`);
+
+  try {
+    return await task(ownersDir);
+  } finally {
+    await releaseLock();
+  }
+}
+
+/**
+ * Bytes a user currently has stored
+ */
+export async function getFileUsage(ownerId: string): Promise<number> {
+  const data = await readData(ownerId);
+  return getUsageBytes(data.files, ownerId);
+}
+
+/**
+ * Store a user's file, deduplicated by contents (with file locking)
+ * The blob is only written when no one has uploaded the same bytes before.
+ * @returns null when the file would take the user over `quotaBytes`
+ */
+export async function saveFile(ownerId: string, file: NewFile, quotaBytes: number): Promise<SaveFileResult | null> {
+  const id = hashFileContents(file.data);
+
+  return withFiles<SaveFileResult | null>(ownerId, async data => {
+    const existing = data.files.find(f => f.id === id);
+    if (existing) {
+      return { result: { file: existing, created: false }, changed: false };
+    }
+
+    if (getUsageBytes(data.files, ownerId) + file.data.length > quotaBytes) {
+      return { result: null, changed: false };
+    }
+
+    await withBlob(id, async ownersDir => {
+      try {
+        const blobFile = getBlobFile(id);
+        const blobExists = await fs.promises.access(blobFile).then(() => true, () => false);
+        if (!blobExists) {
+          await fs.promises.mkdir(BLOBS_DIR, { recursive: true });
+          await writeAtomic(blobFile, file.data);
+        }
+        await fs.promises.mkdir(ownersDir, { recursive: true });
+        await fs.promises.writeFile(path.join(ownersDir, ownerId), '');
+      } catch (error) {
+        console.error('[FileStorage] Failed to write file contents:', error);
+        throw new Error('Failed to save file data');
+      }
+    });
+
+    const stored: StoredFile = {
+      id,
+      ownerId,
+      name: file.name,
+      type: file.type,
+      size: file.data.length,
+      createdAt: Date.now()
+    };
+    data.files.push(stored);
+    return { result: { file: stored, created: true }, changed: true };
+  });
+}
+
+/**
+ * List a user's files, newest first
+ */
+export async function listFiles(ownerId: string): Promise<StoredFile[]> {
+  const data = await readData(ownerId);
+  return [...data.files].sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Get a user's file entry
+ * @returns null when the id is malformed, unknown or uploaded by someone else
+ */
+export async function getFile(ownerId: string, id: string): Promise<StoredFile | null> {
+  if (!isFileId(id)) return null;
+
+  const data = await readData(ownerId);
+  return data.files.find(f => f.id === id) ?? null;
+}
+
+/**
+ * Read a stored file's contents
+ * @throws when the blob is missing (index and blobs out of sync)
+ */
+export async function readFileContents(file: StoredFile): Promise<Buffer> {
+  return fs.promises.readFile(getBlobFile(file.id));
+}
+
+/**
+ * Delete a user's file (with file locking); the blob goes once no one references it
+ * @returns false when the file doesn't exist or belongs to someone else
+ */
+export async function deleteFile(ownerId: string, id: string): Promise<boolean> {
+  if (!isFileId(id)) return false;
+
+  return withFiles(ownerId, async data => {
+    const before = data.files.length;
+    data.files = data.files.filter(f => f.id !== id);
+    const changed = data.files.length !== before;
+
+    if (changed) {
+      await withBlob(id, async ownersDir => {
+        await fs.promises.unlink(path.join(ownersDir, ownerId)).catch(() => undefined);
+        const owners = await fs.promises.readdir(ownersDir).catch(() => []);
+        if (owners.length === 0) {
+          await fs.promises.unlink(getBlobFile(id)).catch(() => undefined);
+          await fs.promises.rm(ownersDir, { recursive: true, force: true });
+        }
+      });
+    }
+    return { result: changed, changed };
+  });
+}
@@ -0,0 +1,204 @@
+/**
+ * Generation Buffer - Replayable chat streams
+ *
+ * Every chat stream is a "generation" with an id. Events are numbered (the SSE `id:` field)
+ * and kept in memory while the generation runs and for a short TTL after it ends, so a
+ * client whose connection dropped can reconnect with `Last-Event-ID` and receive the rest
+ * instead of re-running (and re-billing) the request.
+ *
+ * The upstream call keeps running while nobody is attached, but only for a grace period:
+ * if no client reconnects in time the generation is treated as abandoned and aborted.
+ *
+ * State is in-memory (per process) - a generation only lives as long as its request.
+ */
+
+// How long a finished generation can still be replayed
+const BUFFER_TTL_MS = 2 * 60 * 1000;
+
+// How long a running generation waits for a client to reconnect before it is aborted
+const ABANDON_GRACE_MS = 15 * 1000;
+
+// Safety cap per generation (a reply that outgrows this can't be resumed, only read live)
+const MAX_BUFFERED_BYTES = 2 * 1024 * 1024;
+
+export type GenerationAbortReason = 'cancelled' | 'abandoned';
+
+interface BufferedEvent {
+  seq: number;
+  data: string;
+}
+
+interface Subscriber {
+  onEvent: (seq: number, data: string) => void;
+  onEnd: () => void;
+}
+
+interface Generation {
+  id: string;
+  userId: string;
+  events: BufferedEvent[];
+  bufferedBytes: number;
+  firstBufferedSeq: number; // Events before this were dropped by the size cap
+  nextSeq: number;
+  done: boolean;
+  subscribers: Set<Subscriber>;
+  abort: (reason: GenerationAbortReason) => void;
+  abandonTimer: NodeJS.Timeout | null;
+  expiryTimer: NodeJS.Timeout | null;
+}
+
+export interface GenerationSubscription {
+  unsubscribe: () => void;
+}
+
+const generations = new Map<string, Generation>();
+
+/**
+ * Start buffering a new generation
+ * @param abort - stops the upstream call (Stop button or no client reconnected in time)
+ */
+export function createGeneration(
+  id: string,
+  userId: string,
+  abort: (reason: GenerationAbortReason) => void
+): void {
+  generations.set(id, {
+    id,
+    userId,
+    events: [],
+    bufferedBytes: 0,
+    firstBufferedSeq: 1,
+    nextSeq: 1,
+    done: false,
+    subscribers: new Set(),
+    abort,
+    abandonTimer: null,
+    expiryTimer: null
+  });
+}
+
+/**
+ * Append an event (the SSE `data:` payload) and deliver it to attached clients
+ * @returns The event's sequence number, or null if the generation is unknown/finished
+ */
+export function appendGenerationEvent(id: string, data: string): number | null {
+  const generation = generations.get(id);
+  if (!generation || generation.done) {
+    return null;
+  }
+
+  const seq = generation.nextSeq++;
+  generation.events.push({ seq, data });
+  generation.bufferedBytes += data.length;
+
+  while (generation.bufferedBytes > MAX_BUFFERED_BYTES && generation.events.length > 1) {
+    const dropped = generation.events.shift()!;
+    generation.bufferedBytes -= dropped.data.length;
+    generation.firstBufferedSeq = dropped.seq + 1;
+  }
+
+  for (const subscriber of generation.subscribers) {
+    subscriber.onEvent(seq, data);
+  }
+
+  return seq;
+}
+
+/**
+ * Mark a generation finished: attached clients are ended and the buffer expires after the TTL
+ */
+export function completeGeneration(id: string): void {
+  const generation = generations.get(id);
+  if (!generation || generation.done) {
+    return;
+  }
+
+  generation.done = true;
+  clearAbandonTimer(generation);
+
+  for (const subscriber of generation.subscribers) {
+    subscriber.onEnd();
+  }
+  generation.subscribers.clear();
+
+  generation.expiryTimer = setTimeout(() => generations.delete(id), BUFFER_TTL_MS);
+  generation.expiryTimer.unref();
+}
+
+function clearAbandonTimer(generation: Generation): void {
+  if (generation.abandonTimer) {
+    clearTimeout(generation.abandonTimer);
+    generation.abandonTimer = null;
+  }
+}
+
+/**
+ * Attach a client, replaying every buffered event after `afterSeq` before live events
+ * @returns null when the generation is unknown, expired, owned by someone else, or the
+ *          requested position is no longer buffered
+ */
+export function subscribeToGeneration(
+  id: string,
+  userId: string,
+  afterSeq: number,
+  onEvent: (seq: number, data: string) => void,
+  onEnd: () => void
+): GenerationSubscription | null {
+  const generation = generations.get(id);
+  if (!generation || generation.userId !== userId) {
+    return null;
+  }
+  if (afterSeq + 1 < generation.firstBufferedSeq) {
+    return null;
+  }
+
+  for (const event of generation.events) {
+    if (event.seq > afterSeq) {
+      onEvent(event.seq, event.data);
+    }
+  }
+
+  if (generation.done) {
+    onEnd();
+    return { unsubscribe: () => undefined };
+  }
+
+  const subscriber: Subscriber = { onEvent, onEnd };
+  generation.subscribers.add(subscriber);
+  clearAbandonTimer(generation);
+
+  return {
+    unsubscribe: () => {
+      if (!generation.subscribers.delete(subscriber) || generation.done) {
+        return;
+      }
+      if (generation.subscribers.size === 0 && !generation.abandonTimer) {
+        generation.abandonTimer = setTimeout(() => {
+          generation.abandonTimer = null;
+          if (!generation.done && generation.subscribers.size === 0) {
+            console.log(`[Generation] No client reconnected to ${id}, aborting`);
+            generation.abort('abandoned');
+          }
+        }, ABANDON_GRACE_MS);
+        generation.abandonTimer.unref();
+      }
+    }
+  };
+}
+
+/**
+ * Stop a running generation at the user's request
+ * @returns false when the generation is unknown or owned by someone else
+ */
+export function cancelGeneration(id: string, userId: string): boolean {
+  const generation = generations.get(id);
+  if (!generation || generation.userId !== userId) {
+    return false;
+  }
+
+  if (!generation.done) {
+    clearAbandonTimer(generation);
+    generation.abort('cancelled');
+  }
+  return true;
+}
@@ -0,0 +1,339 @@
+/**
+ * JSON file user repository
+ * Persists all users in a single users.json file
+ *
+ * CRITICAL: Uses file locking to prevent race conditions under concurrent load.
+ * Every write rewrites the whole file under one global lock, so this backend is
+ * only suitable for small deployments - use the SQLite backend beyond that.
+ *
+ * The credit ledger is one append-only JSONL file per user in data/ledger.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { randomUUID } from 'crypto';
+import {
+  StoredUser,
+  UserRepository,
+  CreditLedgerEntry,
+  NewCreditLedgerEntry,
+  CreditLedgerQuery,
+  CreditLedgerPage
+} from './userRepository.js';
+
+// Lock configuration
+const STALE_LOCK_MS = 30000; // Consider lock stale after 30 seconds
+const LOCK_MAX_RETRIES = 50;
+const LOCK_RETRY_DELAY_MS = 100;
+
+interface UsersData {
+  users: StoredUser[];
+  version: number;
+}
+
+export class JsonUserRepository implements UserRepository {
+  readonly backend = 'json' as const;
+  private readonly dataDir: string;
+  private readonly lockFile: string;
+  private readonly ledgerDir: string;
+
+  constructor(private readonly usersFile: string) {
+    this.dataDir = path.dirname(usersFile);
+    this.lockFile = path.join(this.dataDir, 'users.lock');
+    this.ledgerDir = path.join(this.dataDir, 'ledger');
+  }
+
+  /**
+   * Build the ledger file path for a user
+   * SECURITY: User ids are generated server-side, but validate anyway to prevent path traversal
+   */
+  private getLedgerFile(userId: string): string {
+    if (!/^[A-Za-z0-9_-]+$/.test(userId)) {
+      throw new Error('Invalid user id for credit ledger');
+    }
+    return path.join(this.ledgerDir, `${userId}.jsonl`);
+  }
+
+  /**
+   * Initialize the data directory and users file if they don't exist
+   */
+  private initializeStorage(): void {
+    try {
+      // Create data directory if it doesn't exist
+      if (!fs.existsSync(this.dataDir)) {
+        fs.mkdirSync(this.dataDir, { recursive: true });
+        console.log('[UserStorage] Created data directory:', this.dataDir);
+      }
+
+      // Create users file if it doesn't exist
+      if (!fs.existsSync(this.usersFile)) {
+        const initialData: UsersData = {
+          users: [],
+          version: 1
+        };
+        fs.writeFileSync(this.usersFile, JSON.stringify(initialData, null, 2), 'utf-8');
+        console.log('[UserStorage] Created users file:', this.usersFile);
+      }
+    } catch (error) {
+      console.error('[UserStorage] Failed to initialize storage:', error);
+      throw new Error('Failed to initialize user storage');
+    }
+  }
+
+  /**
+   * Acquire a file lock for user storage operations
+   * Prevents race conditions when multiple requests modify user data
+   *
+   * @returns A release function to call when done
+   */
+  private async acquireLock(): Promise<() => void> {
+    this.initializeStorage();
+
+    for (let i = 0; i < LOCK_MAX_RETRIES; i++) {
+      try {
+        // Check for stale lock
+        if (fs.existsSync(this.lockFile)) {
+          const lockAge = Date.now() - fs.statSync(this.lockFile).mtimeMs;
+          if (lockAge > STALE_LOCK_MS) {
+            console.warn('[UserStorage] Removing stale lock file (age: ' + lockAge + 'ms)');
+            fs.unlinkSync(this.lockFile);
+          }
+        }
+
+        // Try to acquire lock atomically using 'wx' flag (exclusive create)
+        fs.writeFileSync(this.lockFile, Date.now().toString(), { flag: 'wx' });
+
+        // Lock acquired - return release function
+        return () => {
+          try {
+            if (fs.existsSync(this.lockFile)) {
+              fs.unlinkSync(this.lockFile);
+            }
+          } catch (e) {
+            console.error('[UserStorage] Failed to release lock:', e);
+          }
+        };
+      } catch (err) {
+        // Lock exists, wait and retry
+        if ((err as NodeJS.ErrnoException).code === 'EEXIST') {
+          await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_DELAY_MS));
+          continue;
+        }
+        throw err;
+      }
+    }
+
+    throw new Error('Failed to acquire user storage lock after ' + LOCK_MAX_RETRIES + ' retries');
+  }
+
+  /**
+   * Read all users from the JSON file
+   */
+  private readUsers(): StoredUser[] {
+    this.initializeStorage();
+
+    try {
+      const data = fs.readFileSync(this.usersFile, 'utf-8');
+      const parsed: UsersData = JSON.parse(data);
+      return parsed.users || [];
+    } catch (error) {
+      console.error('[UserStorage] Failed to read users:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Write users to the JSON file using atomic write (temp file + rename)
+   * This prevents data corruption if the process crashes mid-write
+   */
+  private writeUsers(users: StoredUser[]): void {
+    this.initializeStorage();
+
+    try {
+      const data: UsersData = {
+        users,
+        version: 1
+      };
+
+      // Write to temp file first
+      const tempFile = path.join(os.tmpdir(), `fidi-users-${Date.now()}-${process.pid}.tmp`);
+      fs.writeFileSync(tempFile, JSON.stringify(data, null, 2), 'utf-8');
+
+      // Atomic rename (overwrites destination)
+      fs.renameSync(tempFile, this.usersFile);
+    } catch (error) {
+      console.error('[UserStorage] Failed to write users:', error);
+      throw new Error('Failed to save user data');
+    }
+  }
+
+  async getById(id: string): Promise<StoredUser | null> {
+    return this.readUsers().find(u => u.id === id) ?? null;
+  }
+
+  async getByEmail(email: string): Promise<StoredUser | null> {
+    return this.readUsers().find(u => u.email.toLowerCase() === email.toLowerCase()) ?? null;
+  }
+
+  async list(): Promise<StoredUser[]> {
+    return this.readUsers();
+  }
+
+  async count(): Promise<number> {
+    return this.readUsers().length;
+  }
+
+  async create(user: StoredUser): Promise<StoredUser> {
+    const releaseLock = await this.acquireLock();
+
+    try {
+      const users = this.readUsers();
+
+      // Double-check email doesn't exist
+      if (users.some(u => u.email.toLowerCase() === user.email.toLowerCase())) {
+        throw new Error('Email already registered');
+      }
+
+      users.push(user);
+      this.writeUsers(users);
+      return user;
+    } finally {
+      releaseLock();
+    }
+  }
+
+  async update(id: string, updates: Partial<StoredUser>): Promise<StoredUser | null> {
+    const releaseLock = await this.acquireLock();
+
+    try {
+      const users = this.readUsers();
+      const index = users.findIndex(u => u.id === id);
+
+      if (index === -1) {
+        return null;
+      }
+
+      users[index] = {
+        ...users[index],
+        ...updates,
+        updatedAt: Date.now()
+      };
+
+      this.writeUsers(users);
+      return users[index];
+    } finally {
+      releaseLock();
+    }
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const releaseLock = await this.acquireLock();
+
+    try {
+      const users = this.readUsers();
+      const filteredUsers = users.filter(u => u.id !== id);
+
+      if (filteredUsers.length === users.length) {
+        return false; // User not found
+      }
+
+      this.writeUsers(filteredUsers);
+      return true;
+    } finally {
+      releaseLock();
+    }
+  }
+
+  /**
+   * CRITICAL: The ledger line is appended before users.json is replaced, both under the users lock.
+   * If the users write fails the ledger file is truncated back, so neither change survives alone.
+   */
+  async updateWithLedgerEntry(
+    id: string,
+    updates: Partial<StoredUser>,
+    entry: NewCreditLedgerEntry
+  ): Promise<{ user: StoredUser; entry: CreditLedgerEntry } | null> {
+    const ledgerFile = this.getLedgerFile(id);
+    const releaseLock = await this.acquireLock();
+
+    try {
+      const users = this.readUsers();
+      const index = users.findIndex(u => u.id === id);
+
+      if (index === -1) {
+        return null;
+      }
+
+      const now = Date.now();
+      const updatedUser: StoredUser = { ...users[index], ...updates, updatedAt: now };
+      const ledgerEntry: CreditLedgerEntry = {
+        id: randomUUID(),
+        userId: id,
+        ...entry,
+        balanceAfter: updatedUser.creditBalance ?? 0,
+        timestamp: now
+      };
+
+      fs.mkdirSync(this.ledgerDir, { recursive: true });
+      const previousSize = fs.existsSync(ledgerFile) ? fs.statSync(ledgerFile).size : 0;
+
+      const fd = fs.openSync(ledgerFile, 'a');
+      try {
+        fs.writeSync(fd, JSON.stringify(ledgerEntry) + '\n');
+        fs.fsyncSync(fd);
+      } finally {
+        fs.closeSync(fd);
+      }
+
+      try {
+        users[index] = updatedUser;
+        this.writeUsers(users);
+      } catch (error) {
+        // Roll back the ledger append so the two stores stay consistent
+        fs.truncateSync(ledgerFile, previousSize);
+        throw error;
+      }
+
+      return { user: updatedUser, entry: ledgerEntry };
+    } finally {
+      releaseLock();
+    }
+  }
+
+  async listLedgerEntries(userId: string, query: CreditLedgerQuery): Promise<CreditLedgerPage> {
+    let raw: string;
+    try {
+      raw = await fs.promises.readFile(this.getLedgerFile(userId), 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { entries: [], total: 0 };
+      }
+      throw error;
+    }
+
+    const matches: CreditLedgerEntry[] = [];
+    for (const line of raw.split('\n')) {
+      if (!line.trim()) continue;
+
+      try {
+        const entry = JSON.parse(line) as CreditLedgerEntry;
+        if (query.type && entry.type !== query.type) continue;
+        if (query.model && entry.model !== query.model) continue;
+        if (query.from !== undefined && entry.timestamp < query.from) continue;
+        if (query.to !== undefined && entry.timestamp > query.to) continue;
+        matches.push(entry);
+      } catch {
+        console.error('[UserStorage] Skipping corrupt ledger line for user:', userId);
+      }
+    }
+
+    // File is in append (oldest-first) order; the API pages newest-first
+    matches.reverse();
+
+    return {
+      entries: matches.slice(query.offset, query.offset + query.limit),
+      total: matches.length
+    };
+  }
+}
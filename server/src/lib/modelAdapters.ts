@@ -1,8 +1,14 @@
 /**
  * Model Adapters
- * Handles model-specific message formatting and system prompt injection
+ * Handles model-specific message formatting, system prompt placement and sampling parameters
+ *
+ * Each adapter declares what its models accept: the system prompt goes in a real `system`
+ * message where supported, images are only sent to multimodal models, and the context window
+ * is known for history management.
  */
 
+import { getModelParamLimits } from '../config/allowedModels.js';
+
 /**
  * Multimodal content types for vision-enabled models
  */
@@ -27,10 +33,9 @@ interface Message {
 }
 
 /**
- * Model-specific parameters (e.g., temperature, max_tokens)
- * Reserved for future use when model-specific parameter tuning is implemented
+ * User-tunable sampling parameters (per conversation, validated in chatRouter)
  */
-interface _ModelParams {
+export interface ModelParams {
   temperature?: number;
   max_tokens?: number;
   top_p?: number;
@@ -38,8 +43,16 @@ interface _ModelParams {
   presence_penalty?: number;
 }
 
-// Export to prevent unused warning (reserved for future use)
-export type ModelParams = _ModelParams;
+/**
+ * Sampling parameters as the OpenRouter SDK names them
+ */
+export interface SamplingOptions {
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  frequencyPenalty?: number;
+  presencePenalty?: number;
+}
 
 /**
  * Adapter function type
@@ -47,9 +60,37 @@ export type ModelParams = _ModelParams;
 type AdapterFunction = (systemPrompt: string, messages: Message[]) => Message[];
 
 /**
- * Universal adapter - Prepends system prompt to first user message
- * OpenRouter expects NO system role - system prompt should be prepended to first user message
- * This matches the pattern shown in api-manipulator-skill documentation
+ * What a model accepts - decides how the adapter shapes the request
+ */
+export interface AdapterCapabilities {
+  nativeSystemRole: boolean; // Accepts a `system` message (otherwise the prompt is prepended to the first user turn)
+  multimodalInput: boolean;  // Accepts image parts (otherwise they are replaced by a text note)
+  maxContextTokens: number;  // Context window (prompt + completion)
+}
+
+export interface ModelAdapter {
+  capabilities: AdapterCapabilities;
+  format: AdapterFunction;
+}
+
+// Stands in for an image sent to a text-only model, so the model knows something was attached
+export const IMAGE_OMITTED_NOTE = '[Image omitted: this model does not accept image input]';
+
+/**
+ * System role adapter - Sends the system prompt as its own leading `system` message
+ * Keeps instructions out of the user's text and leaves the conversation prefix stable for prompt caching
+ */
+const systemRoleAdapter: AdapterFunction = (systemPrompt, messages) => {
+  if (!systemPrompt || systemPrompt.trim() === '') {
+    return messages;
+  }
+
+  return [{ role: 'system', content: systemPrompt }, ...messages];
+};
+
+/**
+ * Prepend adapter - Prepends the system prompt to the first user message
+ * For models without a system role
  */
 const prependSystemPromptAdapter: AdapterFunction = (systemPrompt, messages) => {
   // If no system prompt provided, return messages unchanged
@@ -85,84 +126,133 @@ const prependSystemPromptAdapter: AdapterFunction = (systemPrompt, messages) =>
 };
 
 /**
- * All adapters now use the same prepend pattern
- * This ensures consistent routing across all models on OpenRouter
+ * Replace image parts with a text note for text-only models
+ * Content that ends up text-only is flattened back to a plain string
+ */
+const stripImageContent = (messages: Message[]): Message[] =>
+  messages.map(message => {
+    if (typeof message.content === 'string' || !message.content.some(part => part.type === 'image_url')) {
+      return message;
+    }
+
+    const text = message.content
+      .map(part => (part.type === 'text' ? part.text : IMAGE_OMITTED_NOTE))
+      .join('\n\n');
+    return { ...message, content: text };
+  });
+
+/**
+ * Build an adapter from a model's capabilities
  */
-const grokAdapter: AdapterFunction = prependSystemPromptAdapter;
-const geminiAdapter: AdapterFunction = prependSystemPromptAdapter;
-const claudeAdapter: AdapterFunction = prependSystemPromptAdapter;
-const openaiAdapter: AdapterFunction = prependSystemPromptAdapter;
-const deepseekAdapter: AdapterFunction = prependSystemPromptAdapter;
-const minimaxAdapter: AdapterFunction = prependSystemPromptAdapter;
-const mistralAdapter: AdapterFunction = prependSystemPromptAdapter;
-const qwenAdapter: AdapterFunction = prependSystemPromptAdapter;
+const createAdapter = (capabilities: AdapterCapabilities): ModelAdapter => ({
+  capabilities,
+  format: (systemPrompt, messages) => {
+    const content = capabilities.multimodalInput ? messages : stripImageContent(messages);
+    return capabilities.nativeSystemRole
+      ? systemRoleAdapter(systemPrompt, content)
+      : prependSystemPromptAdapter(systemPrompt, content);
+  }
+});
+
+const grokAdapter = createAdapter({ nativeSystemRole: true, multimodalInput: false, maxContextTokens: 256_000 });
+const geminiAdapter = createAdapter({ nativeSystemRole: true, multimodalInput: true, maxContextTokens: 1_048_576 });
+const gemmaAdapter = createAdapter({ nativeSystemRole: false, multimodalInput: false, maxContextTokens: 8_192 });
+const claudeAdapter = createAdapter({ nativeSystemRole: true, multimodalInput: true, maxContextTokens: 200_000 });
+const openaiAdapter = createAdapter({ nativeSystemRole: true, multimodalInput: false, maxContextTokens: 131_072 });
+const deepseekAdapter = createAdapter({ nativeSystemRole: true, multimodalInput: false, maxContextTokens: 163_840 });
+const minimaxAdapter = createAdapter({ nativeSystemRole: true, multimodalInput: false, maxContextTokens: 204_800 });
+const mistralAdapter = createAdapter({ nativeSystemRole: true, multimodalInput: false, maxContextTokens: 262_144 });
+const qwenAdapter = createAdapter({ nativeSystemRole: true, multimodalInput: false, maxContextTokens: 32_768 });
+
+// Unknown models get the conservative path: prompt prepended, text only, small context
+const defaultAdapter = createAdapter({ nativeSystemRole: false, multimodalInput: false, maxContextTokens: 32_768 });
 
 /**
  * Model adapter registry
- * Maps model prefixes to their respective adapter functions
+ * Maps model ids or prefixes to their adapters; the longest matching prefix wins
  */
-const adapterRegistry: Record<string, AdapterFunction> = {
+const adapterRegistry: Record<string, ModelAdapter> = {
   // X.AI models
   'x-ai': grokAdapter,
-  'x-ai/grok': grokAdapter,
-  'x-ai/grok-code': grokAdapter, // Grok Code models also need the adapter
 
-  // Google Gemini models
+  // Google models (Gemma has no system role and a much smaller window than Gemini)
   'google': geminiAdapter,
-  'google/gemini': geminiAdapter,
-  'google/gemini-3-flash-preview': geminiAdapter, // Specific model variant
+  'google/gemma': gemmaAdapter,
 
   // Anthropic models
   'anthropic': claudeAdapter,
-  'anthropic/claude': claudeAdapter,
-  'anthropic/claude-sonnet': claudeAdapter, // Specific model variant
 
   // OpenAI models
   'openai': openaiAdapter,
-  'openai/gpt': openaiAdapter,
-  'openai/gpt-oss': openaiAdapter, // Specific model variant
 
   // DeepSeek models
   'deepseek': deepseekAdapter,
-  'deepseek/deepseek': deepseekAdapter, // Specific model variant
-  'deepseek/deepseek-v3': deepseekAdapter, // Specific version variant
 
   // MiniMax models
   'minimax': minimaxAdapter,
-  'minimax/minimax': minimaxAdapter, // Specific model variant
-  'minimax/minimax-m': minimaxAdapter, // Specific version variant
 
   // Mistral models
   'mistralai': mistralAdapter,
-  'mistralai/devstral': mistralAdapter, // Specific model variant
 
   // Qwen models
-  'qwen': qwenAdapter,
-
-  // Default fallback - use universal prepend adapter
-  'default': prependSystemPromptAdapter
+  'qwen': qwenAdapter
 };
 
 /**
- * Get the appropriate adapter function for a model
+ * Get the appropriate adapter for a model
  * @param model - Model identifier (e.g., 'x-ai/grok-2', 'google/gemini-flash-1.5')
- * @returns Adapter function
  */
-export const getModelAdapter = (model: string): AdapterFunction => {
+export const getModelAdapter = (model: string): ModelAdapter => {
   // Try exact match first
   if (adapterRegistry[model]) {
     return adapterRegistry[model];
   }
 
-  // Try prefix match (e.g., 'x-ai/grok-2' matches 'x-ai')
+  // Longest prefix match, so 'google/gemma-3' picks the Gemma entry over 'google'
+  let bestPrefix: string | null = null;
   for (const prefix in adapterRegistry) {
-    if (model.startsWith(prefix)) {
-      return adapterRegistry[prefix];
+    if (model.startsWith(prefix) && (bestPrefix === null || prefix.length > bestPrefix.length)) {
+      bestPrefix = prefix;
+    }
+  }
+
+  return bestPrefix !== null ? adapterRegistry[bestPrefix] : defaultAdapter;
+};
+
+/**
+ * Capabilities of a model (system role, image input, context window)
+ */
+export const getModelCapabilities = (model: string): AdapterCapabilities =>
+  getModelAdapter(model).capabilities;
+
+/**
+ * Fit sampling parameters to a model and convert them to the SDK's field names
+ * Params are validated against the requested model; a fallback model may have tighter
+ * limits, so here values are clamped (and unsupported penalties dropped) instead of rejected.
+ */
+export const formatParamsForModel = (model: string, params: ModelParams): SamplingOptions => {
+  const limits = getModelParamLimits(model);
+  const options: SamplingOptions = {};
+
+  if (params.temperature !== undefined) {
+    options.temperature = Math.min(params.temperature, limits.maxTemperature);
+  }
+  if (params.max_tokens !== undefined) {
+    options.maxTokens = Math.min(params.max_tokens, limits.maxOutputTokens);
+  }
+  if (params.top_p !== undefined) {
+    options.topP = params.top_p;
+  }
+  if (limits.supportsPenalties) {
+    if (params.frequency_penalty !== undefined) {
+      options.frequencyPenalty = params.frequency_penalty;
+    }
+    if (params.presence_penalty !== undefined) {
+      options.presencePenalty = params.presence_penalty;
     }
   }
 
-  // Fallback to default adapter
-  return adapterRegistry.default;
+  return options;
 };
 
 /**
@@ -174,6 +264,5 @@ export const formatMessagesForModel = (
   systemPrompt: string,
   messages: Message[]
 ): Message[] => {
-  const adapter = getModelAdapter(model);
-  return adapter(systemPrompt, messages);
+  return getModelAdapter(model).format(systemPrompt, messages);
 };
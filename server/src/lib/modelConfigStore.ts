@@ -0,0 +1,334 @@
+/**
+ * Model Config Store - Runtime-editable chat model catalogue and fallback chains
+ *
+ * The built-in catalogue (config/allowedModels.ts + config/fallbackConfig.ts) seeds the store;
+ * once an admin edits it, the live config is persisted to data/model-config.json and survives
+ * restarts. Reads are synchronous from memory so hot paths (allowlist, fallback) stay cheap.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { fileURLToPath } from 'url';
+import { MODEL_METADATA, ModelMetadata, ModelTier } from '../config/allowedModels.js';
+import { MODEL_FALLBACK_CHAINS, MAX_FALLBACK_ATTEMPTS } from '../config/fallbackConfig.js';
+
+// ES module __dirname equivalent
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const CONFIG_FILE = path.join(__dirname, '../../data/model-config.json');
+
+// Validation limits
+const MODEL_ID_PATTERN = /^[a-z0-9][a-z0-9._-]*\/[a-z0-9][a-z0-9._:-]*$/i;
+const MAX_MODELS = 100;
+const MAX_TEXT_LENGTH = 200;
+const MAX_OUTPUT_TOKENS_LIMIT = 1_000_000;
+const MIN_IMAGE_DIMENSION = 256;
+const MAX_IMAGE_DIMENSION = 8192;
+
+export interface ConfiguredModel extends ModelMetadata {
+  enabled: boolean;
+}
+
+export interface ModelConfig {
+  version: number;       // Incremented on every change
+  updatedAt: number;
+  updatedBy?: string;    // Admin user id
+  models: ConfiguredModel[];                 // Display order
+  fallbackChains: Record<string, string[]>;
+}
+
+export interface ModelConfigUpdateResult {
+  success: boolean;
+  config?: ModelConfig;
+  errors?: string[];
+}
+
+let currentConfig: ModelConfig | null = null;
+
+// Serialises writes within this process (admin edits are rare; no cross-process lock needed)
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Build the config from the built-in catalogue
+ */
+function buildDefaultConfig(): ModelConfig {
+  return {
+    version: 0,
+    updatedAt: 0,
+    models: Object.values(MODEL_METADATA).map(metadata => ({
+      ...metadata,
+      pricing: { ...metadata.pricing },
+      capabilities: metadata.capabilities ? [...metadata.capabilities] : undefined,
+      limits: metadata.limits ? { ...metadata.limits } : undefined,
+      enabled: true
+    })),
+    fallbackChains: Object.fromEntries(
+      Object.entries(MODEL_FALLBACK_CHAINS).map(([id, chain]) => [id, [...chain]])
+    )
+  };
+}
+
+/**
+ * Load the persisted config, falling back to the built-in catalogue
+ * A corrupt or invalid file is ignored (logged) rather than taking the chat routes down
+ */
+function loadConfig(): ModelConfig {
+  try {
+    const raw = fs.readFileSync(CONFIG_FILE, 'utf-8');
+    const parsed = JSON.parse(raw) as ModelConfig;
+    const errors = validateModelConfig(parsed);
+
+    if (errors.length > 0) {
+      console.error('[ModelConfig] Persisted config is invalid, using built-in catalogue:', errors);
+      return buildDefaultConfig();
+    }
+
+    console.log(`[ModelConfig] Loaded config v${parsed.version} (${parsed.models.length} models)`);
+    return parsed;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('[ModelConfig] Failed to read config, using built-in catalogue:', error);
+    }
+    return buildDefaultConfig();
+  }
+}
+
+/**
+ * Get the live model config (loaded lazily on first access)
+ */
+export function getModelConfig(): ModelConfig {
+  if (!currentConfig) {
+    currentConfig = loadConfig();
+  }
+  return currentConfig;
+}
+
+/**
+ * Get a configured model by id (enabled or not)
+ */
+export function getConfiguredModel(modelId: string): ConfiguredModel | null {
+  return getModelConfig().models.find(m => m.id === modelId) ?? null;
+}
+
+/**
+ * Find a cycle in the fallback graph (model -> models in its chain)
+ * @returns The cycle as a path (first id repeated at the end), or null
+ */
+function findFallbackCycle(chains: Record<string, string[]>): string[] | null {
+  const visiting = new Set<string>();
+  const done = new Set<string>();
+  const stack: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    if (done.has(id)) return null;
+    if (visiting.has(id)) {
+      return [...stack.slice(stack.indexOf(id)), id];
+    }
+
+    visiting.add(id);
+    stack.push(id);
+    for (const next of chains[id] ?? []) {
+      const cycle = visit(next);
+      if (cycle) return cycle;
+    }
+    stack.pop();
+    visiting.delete(id);
+    done.add(id);
+    return null;
+  };
+
+  for (const id of Object.keys(chains)) {
+    const cycle = visit(id);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+function isNonNegativeNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+/**
+ * Validate a full model config
+ * @returns Human-readable problems (empty when valid)
+ */
+export function validateModelConfig(config: ModelConfig): string[] {
+  const errors: string[] = [];
+
+  if (!config || !Array.isArray(config.models) || typeof config.fallbackChains !== 'object' || config.fallbackChains === null) {
+    return ['Config must have a "models" array and a "fallbackChains" object'];
+  }
+
+  if (config.models.length === 0) {
+    errors.push('At least one model is required');
+  }
+  if (config.models.length > MAX_MODELS) {
+    errors.push(`At most ${MAX_MODELS} models are allowed`);
+  }
+
+  const ids = new Set<string>();
+  for (const model of config.models) {
+    const label = typeof model?.id === 'string' ? model.id : '(missing id)';
+
+    if (typeof model?.id !== 'string' || !MODEL_ID_PATTERN.test(model.id) || model.id.length > MAX_TEXT_LENGTH) {
+      errors.push(`${label}: id must look like "provider/model"`);
+      continue;
+    }
+    if (ids.has(model.id)) {
+      errors.push(`${label}: duplicate model id`);
+    }
+    ids.add(model.id);
+
+    for (const field of ['displayName', 'provider'] as const) {
+      if (typeof model[field] !== 'string' || !model[field].trim() || model[field].length > MAX_TEXT_LENGTH) {
+        errors.push(`${label}: "${field}" is required (max ${MAX_TEXT_LENGTH} characters)`);
+      }
+    }
+    if (typeof model.description !== 'string' || model.description.length > MAX_TEXT_LENGTH) {
+      errors.push(`${label}: "description" must be a string (max ${MAX_TEXT_LENGTH} characters)`);
+    }
+    if (model.tier !== ModelTier.FREE && model.tier !== ModelTier.PAID) {
+      errors.push(`${label}: "tier" must be FREE or PAID`);
+    }
+    if (!isNonNegativeNumber(model.costMultiplier)) {
+      errors.push(`${label}: "costMultiplier" must be a non-negative number`);
+    } else if (model.tier === ModelTier.FREE && model.costMultiplier !== 0) {
+      errors.push(`${label}: FREE models must have costMultiplier 0`);
+    } else if (model.tier === ModelTier.PAID && model.costMultiplier === 0) {
+      errors.push(`${label}: PAID models must have a costMultiplier above 0`);
+    }
+    if (!model.pricing
+      || !isNonNegativeNumber(model.pricing.inputPer1M)
+      || !isNonNegativeNumber(model.pricing.outputPer1M)
+      || !isNonNegativeNumber(model.pricing.cachedInputPer1M)) {
+      errors.push(`${label}: "pricing" needs non-negative inputPer1M, outputPer1M and cachedInputPer1M`);
+    }
+    if (model.capabilities !== undefined
+      && (!Array.isArray(model.capabilities) || model.capabilities.some(c => typeof c !== 'string'))) {
+      errors.push(`${label}: "capabilities" must be an array of strings`);
+    }
+    if (model.limits !== undefined && (
+      !model.limits
+      || !Number.isInteger(model.limits.maxOutputTokens)
+      || model.limits.maxOutputTokens < 1
+      || model.limits.maxOutputTokens > MAX_OUTPUT_TOKENS_LIMIT
+      || typeof model.limits.maxTemperature !== 'number'
+      || !(model.limits.maxTemperature > 0 && model.limits.maxTemperature <= 2)
+      || typeof model.limits.supportsPenalties !== 'boolean')) {
+      errors.push(`${label}: "limits" needs maxOutputTokens (1-${MAX_OUTPUT_TOKENS_LIMIT}), maxTemperature (0-2] and supportsPenalties`);
+    }
+    if (model.maxImageDimension !== undefined && (
+      !Number.isInteger(model.maxImageDimension)
+      || model.maxImageDimension < MIN_IMAGE_DIMENSION
+      || model.maxImageDimension > MAX_IMAGE_DIMENSION)) {
+      errors.push(`${label}: "maxImageDimension" must be an integer (${MIN_IMAGE_DIMENSION}-${MAX_IMAGE_DIMENSION})`);
+    }
+    if (typeof model.enabled !== 'boolean') {
+      errors.push(`${label}: "enabled" must be a boolean`);
+    }
+  }
+
+  if (!config.models.some(m => m?.enabled)) {
+    errors.push('At least one model must stay enabled');
+  }
+
+  // Fallbacks stay in the same tier or go down to free (see config/fallbackConfig.ts): a free
+  // model falling back to a paid one would hold credits for, and bill, a model nobody picked
+  const tiers = new Map(config.models.map(model => [model?.id, model?.tier]));
+
+  for (const [id, chain] of Object.entries(config.fallbackChains)) {
+    if (!ids.has(id)) {
+      errors.push(`Fallback chain for unknown model "${id}"`);
+      continue;
+    }
+    if (!Array.isArray(chain) || chain.some(entry => typeof entry !== 'string')) {
+      errors.push(`${id}: fallback chain must be an array of model ids`);
+      continue;
+    }
+    if (chain.length > MAX_FALLBACK_ATTEMPTS) {
+      errors.push(`${id}: fallback chain can have at most ${MAX_FALLBACK_ATTEMPTS} models`);
+    }
+    if (new Set(chain).size !== chain.length) {
+      errors.push(`${id}: fallback chain contains duplicates`);
+    }
+    for (const entry of chain) {
+      if (entry === id) {
+        errors.push(`${id}: a model cannot fall back to itself`);
+      } else if (!ids.has(entry)) {
+        errors.push(`${id}: fallback "${entry}" is not an allowed model`);
+      } else if (tiers.get(id) === ModelTier.FREE && tiers.get(entry) === ModelTier.PAID) {
+        errors.push(`${id}: a FREE model cannot fall back to the PAID model "${entry}"`);
+      }
+    }
+  }
+
+  if (errors.length === 0) {
+    const cycle = findFallbackCycle(config.fallbackChains);
+    if (cycle) {
+      errors.push(`Fallback chains form a cycle: ${cycle.join(' -> ')}`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Write the config file atomically (temp file + rename)
+ */
+async function persistConfig(config: ModelConfig): Promise<void> {
+  await fs.promises.mkdir(path.dirname(CONFIG_FILE), { recursive: true });
+  const tempFile = path.join(os.tmpdir(), `fidi-model-config-${Date.now()}-${process.pid}.tmp`);
+  await fs.promises.writeFile(tempFile, JSON.stringify(config, null, 2), 'utf-8');
+  await fs.promises.rename(tempFile, CONFIG_FILE);
+}
+
+/**
+ * Apply a change to the live config
+ * The mutator edits a copy; the result is validated as a whole, persisted, then swapped in.
+ * Mutators return an error string to reject the change (e.g. unknown model id).
+ */
+export function updateModelConfig(
+  mutate: (draft: ModelConfig) => string | void,
+  adminId: string
+): Promise<ModelConfigUpdateResult> {
+  const run = async (): Promise<ModelConfigUpdateResult> => {
+    const draft = structuredClone(getModelConfig());
+
+    const rejection = mutate(draft);
+    if (rejection) {
+      return { success: false, errors: [rejection] };
+    }
+
+    const errors = validateModelConfig(draft);
+    if (errors.length > 0) {
+      return { success: false, errors };
+    }
+
+    draft.version += 1;
+    draft.updatedAt = Date.now();
+    draft.updatedBy = adminId;
+
+    await persistConfig(draft);
+    currentConfig = draft;
+
+    console.log('[ModelConfig] Updated', { version: draft.version, adminId });
+    return { success: true, config: draft };
+  };
+
+  const result = writeQueue.then(run, run);
+  writeQueue = result.catch(() => undefined);
+  return result;
+}
+
+/**
+ * Discard admin edits and go back to the built-in catalogue
+ */
+export function resetModelConfig(adminId: string): Promise<ModelConfigUpdateResult> {
+  return updateModelConfig(draft => {
+    const defaults = buildDefaultConfig();
+    draft.models = defaults.models;
+    draft.fallbackChains = defaults.fallbackChains;
+  }, adminId);
+}
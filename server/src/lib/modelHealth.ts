@@ -0,0 +1,250 @@
+/**
+ * Model Health Tracker - Per-model circuit breaker fed by classifyError results
+ *
+ * closed    → model is healthy, requests go through
+ * open      → too many consecutive failures; the model is skipped until the cooldown ends
+ * half_open → cooldown ended; a single trial request is let through. Success closes the
+ *             circuit, failure re-opens it with a longer cooldown
+ *
+ * State is in-memory (per process) - it describes the upstream right now, so there is nothing
+ * worth persisting across restarts.
+ */
+
+import { ClassifiedError, ErrorType } from './errorClassifier.js';
+
+// Consecutive failures that open the circuit
+const FAILURE_THRESHOLD = 5;
+
+// Cooldown before a trial request; doubles on each failed trial up to the max
+const BASE_COOLDOWN_MS = 30 * 1000;
+const MAX_COOLDOWN_MS = 10 * 60 * 1000;
+
+// A trial that never reports back (e.g. an earlier model in the chain answered) is released after this
+const TRIAL_TIMEOUT_MS = 2 * 60 * 1000;
+
+// Only failures that say something about the model/provider count towards opening the circuit.
+// Policy violations are request-specific; billing/config problems affect every model equally.
+const HEALTH_AFFECTING_ERRORS: ReadonlySet<ErrorType> = new Set([
+  ErrorType.RATE_LIMIT,
+  ErrorType.UNAVAILABLE,
+  ErrorType.TIMEOUT,
+  ErrorType.NETWORK,
+  ErrorType.UNKNOWN
+]);
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Coarse status shown to end users
+ */
+export type ModelStatus = 'operational' | 'degraded' | 'unavailable';
+
+export interface ModelHealth {
+  model: string;
+  state: CircuitState;
+  status: ModelStatus;
+  consecutiveFailures: number;
+  totalSuccesses: number;
+  totalFailures: number;
+  lastErrorType: ErrorType | null;
+  lastFailureAt: number | null;
+  lastSuccessAt: number | null;
+  openedAt: number | null;
+  cooldownMs: number;
+  retryAt: number | null; // When an open circuit becomes eligible for a trial
+}
+
+interface HealthRecord {
+  state: CircuitState;
+  consecutiveFailures: number;
+  totalSuccesses: number;
+  totalFailures: number;
+  lastErrorType: ErrorType | null;
+  lastFailureAt: number | null;
+  lastSuccessAt: number | null;
+  openedAt: number | null;
+  cooldownMs: number;
+  trialStartedAt: number | null;
+}
+
+const records = new Map<string, HealthRecord>();
+
+function createRecord(): HealthRecord {
+  return {
+    state: 'closed',
+    consecutiveFailures: 0,
+    totalSuccesses: 0,
+    totalFailures: 0,
+    lastErrorType: null,
+    lastFailureAt: null,
+    lastSuccessAt: null,
+    openedAt: null,
+    cooldownMs: BASE_COOLDOWN_MS,
+    trialStartedAt: null
+  };
+}
+
+function getRecord(model: string): HealthRecord {
+  let record = records.get(model);
+  if (!record) {
+    record = createRecord();
+    records.set(model, record);
+  }
+  return record;
+}
+
+function toStatus(record: HealthRecord): ModelStatus {
+  if (record.state === 'open') return 'unavailable';
+  if (record.state === 'half_open' || record.consecutiveFailures > 0) return 'degraded';
+  return 'operational';
+}
+
+/**
+ * Record a successful response - closes the circuit and resets the cooldown
+ */
+export function recordModelSuccess(model: string): void {
+  const record = getRecord(model);
+
+  if (record.state !== 'closed') {
+    console.log(`[ModelHealth] Circuit closed for ${model}`);
+  }
+
+  record.state = 'closed';
+  record.consecutiveFailures = 0;
+  record.totalSuccesses++;
+  record.lastSuccessAt = Date.now();
+  record.openedAt = null;
+  record.cooldownMs = BASE_COOLDOWN_MS;
+  record.trialStartedAt = null;
+}
+
+/**
+ * Record a failed attempt
+ * Errors that don't reflect the model's health are ignored
+ */
+export function recordModelFailure(model: string, classified: ClassifiedError): void {
+  if (!HEALTH_AFFECTING_ERRORS.has(classified.type)) {
+    return;
+  }
+
+  const record = getRecord(model);
+  const now = Date.now();
+
+  record.consecutiveFailures++;
+  record.totalFailures++;
+  record.lastErrorType = classified.type;
+  record.lastFailureAt = now;
+
+  if (record.state === 'half_open') {
+    // Failed trial - back off harder before the next one
+    record.state = 'open';
+    record.openedAt = now;
+    record.cooldownMs = Math.min(record.cooldownMs * 2, MAX_COOLDOWN_MS);
+    record.trialStartedAt = null;
+    console.warn(`[ModelHealth] Trial failed, circuit re-opened for ${model}`, {
+      errorType: classified.type,
+      cooldownMs: record.cooldownMs
+    });
+    return;
+  }
+
+  if (record.state === 'closed' && record.consecutiveFailures >= FAILURE_THRESHOLD) {
+    record.state = 'open';
+    record.openedAt = now;
+    console.warn(`[ModelHealth] Circuit opened for ${model}`, {
+      consecutiveFailures: record.consecutiveFailures,
+      errorType: classified.type,
+      cooldownMs: record.cooldownMs
+    });
+  }
+}
+
+/**
+ * Check whether a model's circuit lets a request through right now (no state changes)
+ */
+function isAttemptable(record: HealthRecord | undefined, now: number): boolean {
+  if (!record || record.state === 'closed') {
+    return true;
+  }
+
+  if (record.state === 'open') {
+    return now - (record.openedAt ?? 0) >= record.cooldownMs;
+  }
+
+  // half_open: one trial at a time
+  return record.trialStartedAt === null || now - record.trialStartedAt >= TRIAL_TIMEOUT_MS;
+}
+
+/**
+ * Filter an ordered attempt list down to the models whose circuit allows a request
+ * Read-only - safe for previews such as token estimates. Order is preserved (a half-open
+ * primary still gets its trial first). If every model is blocked, the original list is
+ * returned - trying is better than failing outright.
+ */
+export function getAttemptableModels(models: string[]): string[] {
+  const now = Date.now();
+  const allowed = models.filter(model => isAttemptable(records.get(model), now));
+
+  if (allowed.length === 0) {
+    console.warn('[ModelHealth] All models in chain are unhealthy, attempting anyway:', models.join(', '));
+    return models;
+  }
+
+  return allowed;
+}
+
+/**
+ * Claim a model's half-open trial right before sending it a request
+ * A closed circuit needs no claim. Returns false while the cooldown is running or another
+ * request's trial is still in flight.
+ */
+export function acquireTrial(model: string): boolean {
+  const record = records.get(model);
+  const now = Date.now();
+
+  if (!isAttemptable(record, now)) {
+    return false;
+  }
+  if (!record || record.state === 'closed') {
+    return true;
+  }
+
+  if (record.state === 'open') {
+    record.state = 'half_open';
+    console.log(`[ModelHealth] Circuit half-open for ${model}, allowing a trial request`);
+  }
+  record.trialStartedAt = now;
+  return true;
+}
+
+/**
+ * Get the health snapshot for a model
+ */
+export function getModelHealth(model: string): ModelHealth {
+  const record = records.get(model) ?? createRecord();
+  const { trialStartedAt: _trialStartedAt, ...rest } = record;
+
+  return {
+    model,
+    ...rest,
+    status: toStatus(record),
+    retryAt: record.state === 'open' && record.openedAt !== null
+      ? record.openedAt + record.cooldownMs
+      : null
+  };
+}
+
+/**
+ * Get health snapshots for a list of models
+ */
+export function getModelsHealth(models: string[]): ModelHealth[] {
+  return models.map(getModelHealth);
+}
+
+/**
+ * Forget a model's history and close its circuit (admin override)
+ */
+export function resetModelHealth(model: string): void {
+  records.delete(model);
+  console.log(`[ModelHealth] Health reset for ${model}`);
+}
@@ -0,0 +1,260 @@
+/**
+ * File-based persona storage with JSON persistence
+ * A persona is a reusable system prompt preset (plus default model and sampling settings).
+ *
+ * Personas live in a single file rather than one per user because sharing crosses users:
+ * listing a user's library needs both the personas they own and the ones shared with them.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { fileURLToPath } from 'url';
+
+// ES module __dirname equivalent
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Data file and lock paths
+const DATA_DIR = path.join(__dirname, '../../data');
+const PERSONAS_FILE = path.join(DATA_DIR, 'personas.json');
+const LOCK_DIR = path.join(DATA_DIR, 'locks');
+const LOCK_FILE = path.join(LOCK_DIR, 'personas.lock');
+
+// Lock configuration
+const STALE_LOCK_MS = 30000; // Consider lock stale after 30 seconds
+const LOCK_MAX_RETRIES = 50;
+const LOCK_RETRY_DELAY_MS = 100;
+
+export interface StoredPersona {
+  id: string;
+  ownerId: string;
+  name: string;
+  icon: string;
+  systemPrompt: string;
+  defaultModel?: string;
+  defaultParams?: Record<string, number>; // Sampling settings (checked against model limits at send time)
+  sharedWith: string[]; // User ids that can use (but not edit) this persona
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type PersonaUpdates = Partial<Pick<StoredPersona, 'name' | 'icon' | 'systemPrompt' | 'defaultModel' | 'defaultParams'>>;
+
+interface PersonasData {
+  personas: StoredPersona[];
+  version: number;
+}
+
+/**
+ * Acquire the persona file lock
+ * @returns A release function to call when done
+ */
+async function acquirePersonaLock(): Promise<() => Promise<void>> {
+  await fs.promises.mkdir(LOCK_DIR, { recursive: true });
+
+  for (let i = 0; i < LOCK_MAX_RETRIES; i++) {
+    try {
+      // Clean up stale locks left behind by crashed requests
+      try {
+        const stat = await fs.promises.stat(LOCK_FILE);
+        if (Date.now() - stat.mtimeMs > STALE_LOCK_MS) {
+          console.warn('[PersonaStorage] Removing stale lock');
+          await fs.promises.unlink(LOCK_FILE).catch(() => undefined);
+        }
+      } catch {
+        // Lock file doesn't exist - nothing to clean up
+      }
+
+      // Try to acquire lock atomically using 'wx' flag (exclusive create)
+      await fs.promises.writeFile(LOCK_FILE, Date.now().toString(), { flag: 'wx' });
+
+      return async () => {
+        try {
+          await fs.promises.unlink(LOCK_FILE);
+        } catch (error) {
+          console.error('[PersonaStorage] Failed to release lock:', error);
+        }
+      };
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'EEXIST') {
+        await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_DELAY_MS));
+        continue;
+      }
+      throw err;
+    }
+  }
+
+  throw new Error('Failed to acquire persona lock after ' + LOCK_MAX_RETRIES + ' retries');
+}
+
+/**
+ * Read the persona file (empty data if it doesn't exist yet)
+ */
+async function readData(): Promise<PersonasData> {
+  try {
+    const raw = await fs.promises.readFile(PERSONAS_FILE, 'utf-8');
+    const parsed = JSON.parse(raw) as Partial<PersonasData>;
+    return {
+      personas: parsed.personas || [],
+      version: parsed.version || 1
+    };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('[PersonaStorage] Failed to read personas:', error);
+    }
+    return { personas: [], version: 1 };
+  }
+}
+
+/**
+ * Write the persona file using atomic write (temp file + rename)
+ */
+async function writeData(data: PersonasData): Promise<void> {
+  await fs.promises.mkdir(DATA_DIR, { recursive: true });
+
+  try {
+    const tempFile = path.join(os.tmpdir(), `fidi-personas-${Date.now()}-${process.pid}.tmp`);
+    await fs.promises.writeFile(tempFile, JSON.stringify(data), 'utf-8');
+    await fs.promises.rename(tempFile, PERSONAS_FILE);
+  } catch (error) {
+    console.error('[PersonaStorage] Failed to write personas:', error);
+    throw new Error('Failed to save persona data');
+  }
+}
+
+/**
+ * Run a read-modify-write under the persona lock
+ * `mutate` returns the result and whether anything changed (unchanged data isn't rewritten)
+ */
+async function withPersonas<T>(mutate: (data: PersonasData) => { result: T; changed: boolean }): Promise<T> {
+  const releaseLock = await acquirePersonaLock();
+
+  try {
+    const data = await readData();
+    const { result, changed } = mutate(data);
+    if (changed) {
+      await writeData(data);
+    }
+    return result;
+  } finally {
+    await releaseLock();
+  }
+}
+
+/**
+ * List the personas a user can use: their own first, then those shared with them
+ * Each group is sorted by name
+ */
+export async function listPersonasForUser(userId: string): Promise<StoredPersona[]> {
+  const data = await readData();
+  const byName = (a: StoredPersona, b: StoredPersona) => a.name.localeCompare(b.name);
+
+  const own = data.personas.filter(p => p.ownerId === userId).sort(byName);
+  const shared = data.personas.filter(p => p.ownerId !== userId && p.sharedWith.includes(userId)).sort(byName);
+
+  return [...own, ...shared];
+}
+
+/**
+ * Get a persona by ID if the user owns it or it was shared with them
+ */
+export async function getPersonaForUser(userId: string, id: string): Promise<StoredPersona | null> {
+  const data = await readData();
+  const persona = data.personas.find(p => p.id === id);
+
+  if (!persona || (persona.ownerId !== userId && !persona.sharedWith.includes(userId))) {
+    return null;
+  }
+  return persona;
+}
+
+/**
+ * Count the personas a user owns (shared ones don't count against the limit)
+ */
+export async function countOwnedPersonas(userId: string): Promise<number> {
+  const data = await readData();
+  return data.personas.filter(p => p.ownerId === userId).length;
+}
+
+/**
+ * Create a new persona (with file locking)
+ */
+export async function createPersona(persona: StoredPersona): Promise<StoredPersona> {
+  return withPersonas(data => {
+    data.personas.push(persona);
+    return { result: persona, changed: true };
+  });
+}
+
+/**
+ * Update a persona the user owns (with file locking)
+ * @returns null when the persona doesn't exist or belongs to someone else
+ */
+export async function updatePersona(
+  ownerId: string,
+  id: string,
+  updates: PersonaUpdates
+): Promise<StoredPersona | null> {
+  return withPersonas(data => {
+    const index = data.personas.findIndex(p => p.id === id && p.ownerId === ownerId);
+    if (index === -1) {
+      return { result: null, changed: false };
+    }
+
+    data.personas[index] = {
+      ...data.personas[index],
+      ...updates,
+      id,
+      ownerId,
+      updatedAt: Date.now()
+    };
+    return { result: data.personas[index], changed: true };
+  });
+}
+
+/**
+ * Remove a persona from a user's library (with file locking)
+ * The owner deletes it for everyone; a recipient only stops receiving it.
+ */
+export async function removePersonaForUser(userId: string, id: string): Promise<boolean> {
+  return withPersonas(data => {
+    const persona = data.personas.find(p => p.id === id);
+    if (!persona) {
+      return { result: false, changed: false };
+    }
+
+    if (persona.ownerId === userId) {
+      data.personas = data.personas.filter(p => p.id !== id);
+      return { result: true, changed: true };
+    }
+
+    if (persona.sharedWith.includes(userId)) {
+      persona.sharedWith = persona.sharedWith.filter(uid => uid !== userId);
+      return { result: true, changed: true };
+    }
+
+    return { result: false, changed: false };
+  });
+}
+
+/**
+ * Replace the recipients of a persona the user owns (with file locking)
+ * @returns null when the persona doesn't exist or belongs to someone else
+ */
+export async function setPersonaRecipients(
+  ownerId: string,
+  id: string,
+  recipientIds: string[]
+): Promise<StoredPersona | null> {
+  return withPersonas(data => {
+    const persona = data.personas.find(p => p.id === id && p.ownerId === ownerId);
+    if (!persona) {
+      return { result: null, changed: false };
+    }
+
+    persona.sharedWith = Array.from(new Set(recipientIds.filter(uid => uid !== ownerId)));
+    persona.updatedAt = Date.now();
+    return { result: persona, changed: true };
+  });
+}
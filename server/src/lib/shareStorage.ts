@@ -0,0 +1,281 @@
+/**
+ * File-based storage for public read-only conversation snapshots (share links)
+ *
+ * The share index (owner, expiry, options) lives in one locked file so an owner's links can be
+ * listed and revoked; each snapshot's messages live in their own file because long conversations
+ * would otherwise bloat every index read. Snapshots keep attachment names only, never contents.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { randomBytes } from 'crypto';
+import { fileURLToPath } from 'url';
+import { StoredMessage } from './conversationStorage.js';
+
+// ES module __dirname equivalent
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Data file and lock paths
+const DATA_DIR = path.join(__dirname, '../../data');
+const SHARES_FILE = path.join(DATA_DIR, 'shares.json');
+const SNAPSHOTS_DIR = path.join(DATA_DIR, 'shares');
+const LOCK_DIR = path.join(DATA_DIR, 'locks');
+const LOCK_FILE = path.join(LOCK_DIR, 'shares.lock');
+
+// Lock configuration
+const STALE_LOCK_MS = 30000; // Consider lock stale after 30 seconds
+const LOCK_MAX_RETRIES = 50;
+const LOCK_RETRY_DELAY_MS = 100;
+
+// 24 random bytes = 192 bits, base64url encoded (32 characters)
+const TOKEN_BYTES = 24;
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]{32}$/;
+
+export interface StoredShare {
+  id: string;              // Public token used in the share URL
+  ownerId: string;
+  conversationId: string;
+  title: string;
+  messageCount: number;
+  redactAttachments: boolean;
+  createdAt: number;
+  expiresAt: number | null; // null = until revoked
+}
+
+export interface ShareSnapshot {
+  title: string;
+  modelId?: string;
+  personaName?: string;
+  messages: StoredMessage[]; // The branch the owner was viewing, oldest first
+}
+
+interface SharesData {
+  shares: StoredShare[];
+  version: number;
+}
+
+/**
+ * Generate an unguessable share token
+ */
+export function generateShareToken(): string {
+  return randomBytes(TOKEN_BYTES).toString('base64url');
+}
+
+/**
+ * Whether a string has the shape of a share token (checked before touching the filesystem)
+ */
+export function isShareToken(value: unknown): value is string {
+  return typeof value === 'string' && TOKEN_PATTERN.test(value);
+}
+
+const isExpired = (share: StoredShare, now: number) => share.expiresAt !== null && share.expiresAt <= now;
+
+/**
+ * Build the snapshot file path for a share
+ * SECURITY: tokens are generated server-side, but validate anyway to prevent path traversal
+ */
+function getSnapshotFile(id: string): string {
+  if (!isShareToken(id)) {
+    throw new Error('Invalid share id for share storage');
+  }
+  return path.join(SNAPSHOTS_DIR, `${id}.json`);
+}
+
+/**
+ * Acquire the share index lock
+ * @returns A release function to call when done
+ */
+async function acquireShareLock(): Promise<() => Promise<void>> {
+  await fs.promises.mkdir(LOCK_DIR, { recursive: true });
+
+  for (let i = 0; i < LOCK_MAX_RETRIES; i++) {
+    try {
+      // Clean up stale locks left behind by crashed requests
+      try {
+        const stat = await fs.promises.stat(LOCK_FILE);
+        if (Date.now() - stat.mtimeMs > STALE_LOCK_MS) {
+          console.warn('[ShareStorage] Removing stale lock');
+          await fs.promises.unlink(LOCK_FILE).catch(() => undefined);
+        }
+      } catch {
+        // Lock file doesn't exist - nothing to clean up
+      }
+
+      // Try to acquire lock atomically using 'wx' flag (exclusive create)
+      await fs.promises.writeFile(LOCK_FILE, Date.now().toString(), { flag: 'wx' });
+
+      return async () => {
+        try {
+          await fs.promises.unlink(LOCK_FILE);
+        } catch (error) {
+          console.error('[ShareStorage] Failed to release lock:', error);
+        }
+      };
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'EEXIST') {
+        await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_DELAY_MS));
+        continue;
+      }
+      throw err;
+    }
+  }
+
+  throw new Error('Failed to acquire share lock after ' + LOCK_MAX_RETRIES + ' retries');
+}
+
+/**
+ * Read the share index (empty data if it doesn't exist yet)
+ */
+async function readData(): Promise<SharesData> {
+  try {
+    const raw = await fs.promises.readFile(SHARES_FILE, 'utf-8');
+    const parsed = JSON.parse(raw) as Partial<SharesData>;
+    return {
+      shares: parsed.shares || [],
+      version: parsed.version || 1
+    };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('[ShareStorage] Failed to read shares:', error);
+    }
+    return { shares: [], version: 1 };
+  }
+}
+
+/**
+ * Write a JSON file atomically (temp file + rename)
+ */
+async function writeJsonAtomic(file: string, value: unknown): Promise<void> {
+  const tempFile = path.join(os.tmpdir(), `fidi-${path.basename(file, '.json')}-${Date.now()}-${process.pid}.tmp`);
+  await fs.promises.writeFile(tempFile, JSON.stringify(value), 'utf-8');
+  await fs.promises.rename(tempFile, file);
+}
+
+/**
+ * Delete snapshot files (missing files are fine - the index is the source of truth)
+ */
+async function removeSnapshots(ids: string[]): Promise<void> {
+  await Promise.all(ids.map(id => fs.promises.unlink(getSnapshotFile(id)).catch(() => undefined)));
+}
+
+/**
+ * Run a read-modify-write of the index under the lock
+ * Expired shares are dropped (and their snapshots deleted) on every write.
+ */
+async function withShares<T>(mutate: (data: SharesData) => { result: T; changed: boolean }): Promise<T> {
+  const releaseLock = await acquireShareLock();
+
+  try {
+    const data = await readData();
+    const { result, changed } = mutate(data);
+
+    const now = Date.now();
+    const expired = data.shares.filter(share => isExpired(share, now)).map(share => share.id);
+
+    if (changed || expired.length > 0) {
+      data.shares = data.shares.filter(share => !isExpired(share, now));
+      await fs.promises.mkdir(DATA_DIR, { recursive: true });
+      try {
+        await writeJsonAtomic(SHARES_FILE, data);
+      } catch (error) {
+        console.error('[ShareStorage] Failed to write shares:', error);
+        throw new Error('Failed to save share data');
+      }
+      await removeSnapshots(expired);
+    }
+    return result;
+  } finally {
+    await releaseLock();
+  }
+}
+
+/**
+ * List a user's active share links, newest first
+ */
+export async function listSharesForUser(ownerId: string): Promise<StoredShare[]> {
+  const data = await readData();
+  const now = Date.now();
+
+  return data.shares
+    .filter(share => share.ownerId === ownerId && !isExpired(share, now))
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Create a share link: the snapshot is written before the index entry so a listed share
+ * always has content
+ * @param maxSharesPerOwner - checked under the lock, so concurrent requests can't go past it
+ * @returns null when the owner already has `maxSharesPerOwner` live links
+ */
+export async function createShare(
+  share: StoredShare,
+  snapshot: ShareSnapshot,
+  maxSharesPerOwner: number
+): Promise<StoredShare | null> {
+  await fs.promises.mkdir(SNAPSHOTS_DIR, { recursive: true });
+
+  try {
+    await writeJsonAtomic(getSnapshotFile(share.id), snapshot);
+  } catch (error) {
+    console.error('[ShareStorage] Failed to write snapshot:', error);
+    throw new Error('Failed to save share data');
+  }
+
+  const created = await withShares(data => {
+    const now = Date.now();
+    const owned = data.shares.filter(s => s.ownerId === share.ownerId && !isExpired(s, now)).length;
+    if (owned >= maxSharesPerOwner) {
+      return { result: null, changed: false };
+    }
+
+    data.shares.push(share);
+    return { result: share, changed: true };
+  });
+
+  if (!created) {
+    await removeSnapshots([share.id]);
+  }
+  return created;
+}
+
+/**
+ * Get a live share and its snapshot by public token
+ * @returns null when the token is unknown, revoked or expired
+ */
+export async function getSharedSnapshot(id: string): Promise<{ share: StoredShare; snapshot: ShareSnapshot } | null> {
+  if (!isShareToken(id)) return null;
+
+  const data = await readData();
+  const share = data.shares.find(s => s.id === id);
+  if (!share || isExpired(share, Date.now())) return null;
+
+  try {
+    const raw = await fs.promises.readFile(getSnapshotFile(id), 'utf-8');
+    return { share, snapshot: JSON.parse(raw) as ShareSnapshot };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('[ShareStorage] Failed to read snapshot:', error);
+    }
+    return null;
+  }
+}
+
+/**
+ * Revoke a share link the user owns (with file locking)
+ * @returns false when the share doesn't exist or belongs to someone else
+ */
+export async function revokeShare(ownerId: string, id: string): Promise<boolean> {
+  const removed = await withShares(data => {
+    const before = data.shares.length;
+    data.shares = data.shares.filter(share => !(share.id === id && share.ownerId === ownerId));
+    const changed = data.shares.length !== before;
+    return { result: changed, changed };
+  });
+
+  if (removed) {
+    await removeSnapshots([id]);
+  }
+  return removed;
+}
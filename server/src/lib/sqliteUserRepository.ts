@@ -0,0 +1,365 @@
+/**
+ * SQLite user repository
+ * One row per user, so updates for different users never contend for a global lock
+ *
+ * better-sqlite3 is synchronous; each method runs as a single statement or
+ * transaction, which SQLite serialises for us (WAL keeps readers unblocked).
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import Database from 'better-sqlite3';
+import {
+  StoredUser,
+  UserPlan,
+  UserRepository,
+  CreditLedgerEntry,
+  CreditEntryType,
+  NewCreditLedgerEntry,
+  CreditLedgerQuery,
+  CreditLedgerPage
+} from './userRepository.js';
+
+interface UserRow {
+  id: string;
+  email: string;
+  name: string;
+  password: string;
+  created_at: number;
+  updated_at: number;
+  credit_balance: number | null;
+  credit_usage_total: number | null;
+  credit_usage_this_month: number | null;
+  last_credit_reset: number | null;
+  is_admin: number | null;
+  plan: string | null;
+  plan_start_date: number | null;
+  plan_renew_date: number | null;
+}
+
+interface LedgerRow {
+  id: string;
+  user_id: string;
+  type: string;
+  delta: number;
+  reason: string;
+  model: string | null;
+  prompt_tokens: number | null;
+  completion_tokens: number | null;
+  request_id: string | null;
+  balance_after: number;
+  timestamp: number;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS users (
+    id TEXT PRIMARY KEY,
+    email TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    name TEXT NOT NULL,
+    password TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    credit_balance INTEGER,
+    credit_usage_total INTEGER,
+    credit_usage_this_month INTEGER,
+    last_credit_reset INTEGER,
+    is_admin INTEGER,
+    plan TEXT,
+    plan_start_date INTEGER,
+    plan_renew_date INTEGER
+  );
+
+  CREATE TABLE IF NOT EXISTS credit_ledger (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    type TEXT NOT NULL,
+    delta INTEGER NOT NULL,
+    reason TEXT NOT NULL,
+    model TEXT,
+    prompt_tokens INTEGER,
+    completion_tokens INTEGER,
+    request_id TEXT,
+    balance_after INTEGER NOT NULL,
+    timestamp INTEGER NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_credit_ledger_user_time ON credit_ledger (user_id, timestamp);
+`;
+
+const COLUMNS = [
+  'id', 'email', 'name', 'password', 'created_at', 'updated_at',
+  'credit_balance', 'credit_usage_total', 'credit_usage_this_month', 'last_credit_reset',
+  'is_admin', 'plan', 'plan_start_date', 'plan_renew_date'
+] as const;
+
+/**
+ * Convert a database row to the StoredUser shape (NULL columns become undefined)
+ */
+function rowToUser(row: UserRow): StoredUser {
+  const user: StoredUser = {
+    id: row.id,
+    email: row.email,
+    name: row.name,
+    password: row.password,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+
+  if (row.credit_balance !== null) user.creditBalance = row.credit_balance;
+  if (row.credit_usage_total !== null) user.creditUsageTotal = row.credit_usage_total;
+  if (row.credit_usage_this_month !== null) user.creditUsageThisMonth = row.credit_usage_this_month;
+  if (row.last_credit_reset !== null) user.lastCreditReset = row.last_credit_reset;
+  if (row.is_admin !== null) user.isAdmin = row.is_admin === 1;
+  if (row.plan !== null) user.plan = row.plan as UserPlan;
+  if (row.plan_start_date !== null) user.planStartDate = row.plan_start_date;
+  if (row.plan_renew_date !== null) user.planRenewDate = row.plan_renew_date;
+
+  return user;
+}
+
+/**
+ * Convert a StoredUser to named statement parameters
+ */
+function userToRow(user: StoredUser): UserRow {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    password: user.password,
+    created_at: user.createdAt,
+    updated_at: user.updatedAt,
+    credit_balance: user.creditBalance ?? null,
+    credit_usage_total: user.creditUsageTotal ?? null,
+    credit_usage_this_month: user.creditUsageThisMonth ?? null,
+    last_credit_reset: user.lastCreditReset ?? null,
+    is_admin: user.isAdmin === undefined ? null : (user.isAdmin ? 1 : 0),
+    plan: user.plan ?? null,
+    plan_start_date: user.planStartDate ?? null,
+    plan_renew_date: user.planRenewDate ?? null
+  };
+}
+
+/**
+ * Convert a ledger row to the API shape (NULL columns are omitted)
+ */
+function rowToLedgerEntry(row: LedgerRow): CreditLedgerEntry {
+  const entry: CreditLedgerEntry = {
+    id: row.id,
+    userId: row.user_id,
+    type: row.type as CreditEntryType,
+    delta: row.delta,
+    reason: row.reason,
+    balanceAfter: row.balance_after,
+    timestamp: row.timestamp
+  };
+
+  if (row.model !== null) entry.model = row.model;
+  if (row.prompt_tokens !== null) entry.promptTokens = row.prompt_tokens;
+  if (row.completion_tokens !== null) entry.completionTokens = row.completion_tokens;
+  if (row.request_id !== null) entry.requestId = row.request_id;
+
+  return entry;
+}
+
+export class SqliteUserRepository implements UserRepository {
+  readonly backend = 'sqlite' as const;
+  private readonly db: Database.Database;
+
+  constructor(dbPath: string) {
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+    this.db.exec(SCHEMA);
+  }
+
+  async getById(id: string): Promise<StoredUser | null> {
+    const row = this.db.prepare('SELECT * FROM users WHERE id = ?').get(id) as UserRow | undefined;
+    return row ? rowToUser(row) : null;
+  }
+
+  async getByEmail(email: string): Promise<StoredUser | null> {
+    const row = this.db.prepare('SELECT * FROM users WHERE email = ?').get(email) as UserRow | undefined;
+    return row ? rowToUser(row) : null;
+  }
+
+  async list(): Promise<StoredUser[]> {
+    const rows = this.db.prepare('SELECT * FROM users ORDER BY created_at').all() as UserRow[];
+    return rows.map(rowToUser);
+  }
+
+  async count(): Promise<number> {
+    const row = this.db.prepare('SELECT COUNT(*) AS count FROM users').get() as { count: number };
+    return row.count;
+  }
+
+  async create(user: StoredUser): Promise<StoredUser> {
+    try {
+      this.insert(user);
+      return user;
+    } catch (error) {
+      if ((error as { code?: string }).code === 'SQLITE_CONSTRAINT_UNIQUE') {
+        throw new Error('Email already registered');
+      }
+      throw error;
+    }
+  }
+
+  async update(id: string, updates: Partial<StoredUser>): Promise<StoredUser | null> {
+    // Read-merge-write in one IMMEDIATE transaction so concurrent updates to the same row can't interleave
+    const apply = this.db.transaction(() => this.mergeUpdate(id, updates));
+    return apply.immediate();
+  }
+
+  async updateWithLedgerEntry(
+    id: string,
+    updates: Partial<StoredUser>,
+    entry: NewCreditLedgerEntry
+  ): Promise<{ user: StoredUser; entry: CreditLedgerEntry } | null> {
+    // User row and ledger row commit (or roll back) together
+    const apply = this.db.transaction(() => {
+      const user = this.mergeUpdate(id, updates);
+      if (!user) {
+        return null;
+      }
+
+      const ledgerEntry: CreditLedgerEntry = {
+        id: randomUUID(),
+        userId: id,
+        ...entry,
+        balanceAfter: user.creditBalance ?? 0,
+        timestamp: user.updatedAt
+      };
+
+      this.insertLedgerEntry(ledgerEntry);
+
+      return { user, entry: ledgerEntry };
+    });
+
+    return apply.immediate();
+  }
+
+  async listLedgerEntries(userId: string, query: CreditLedgerQuery): Promise<CreditLedgerPage> {
+    const conditions = ['user_id = @userId'];
+    if (query.type) conditions.push('type = @type');
+    if (query.model) conditions.push('model = @model');
+    if (query.from !== undefined) conditions.push('timestamp >= @from');
+    if (query.to !== undefined) conditions.push('timestamp <= @to');
+
+    const where = conditions.join(' AND ');
+    const params = {
+      userId,
+      type: query.type ?? null,
+      model: query.model ?? null,
+      from: query.from ?? null,
+      to: query.to ?? null
+    };
+
+    const { total } = this.db.prepare(`SELECT COUNT(*) AS total FROM credit_ledger WHERE ${where}`).get(params) as { total: number };
+    const rows = this.db.prepare(
+      `SELECT * FROM credit_ledger WHERE ${where} ORDER BY timestamp DESC, rowid DESC LIMIT @limit OFFSET @offset`
+    ).all({ ...params, limit: query.limit, offset: query.offset }) as LedgerRow[];
+
+    return { entries: rows.map(rowToLedgerEntry), total };
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = this.db.prepare('DELETE FROM users WHERE id = ?').run(id);
+    return result.changes > 0;
+  }
+
+  /**
+   * Bulk import users and their credit ledgers in a single transaction (used by the users.json migration)
+   * Existing ids are skipped unless `overwrite` is set; an overwritten user's ledger is replaced.
+   * @param ledgers - ledger entries by user id, in any order
+   */
+  importUsers(
+    users: StoredUser[],
+    overwrite = false,
+    ledgers: Map<string, CreditLedgerEntry[]> = new Map()
+  ): { imported: number; skipped: number; ledgerEntries: number } {
+    const run = this.db.transaction(() => {
+      let imported = 0;
+      let skipped = 0;
+      let ledgerEntries = 0;
+
+      for (const user of users) {
+        const exists = this.db.prepare('SELECT 1 FROM users WHERE id = ? OR email = ?').get(user.id, user.email);
+
+        if (exists && !overwrite) {
+          skipped++;
+          continue;
+        }
+
+        if (exists) {
+          this.db.prepare('DELETE FROM users WHERE id = ? OR email = ?').run(user.id, user.email);
+          this.db.prepare('DELETE FROM credit_ledger WHERE user_id = ?').run(user.id);
+        }
+
+        this.insert(user);
+        imported++;
+
+        for (const entry of ledgers.get(user.id) ?? []) {
+          this.insertLedgerEntry({ ...entry, userId: user.id });
+          ledgerEntries++;
+        }
+      }
+
+      return { imported, skipped, ledgerEntries };
+    });
+
+    return run.immediate();
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Merge updates into a user row - must run inside a transaction
+   */
+  private mergeUpdate(id: string, updates: Partial<StoredUser>): StoredUser | null {
+    const row = this.db.prepare('SELECT * FROM users WHERE id = ?').get(id) as UserRow | undefined;
+    if (!row) {
+      return null;
+    }
+
+    const updated: StoredUser = {
+      ...rowToUser(row),
+      ...updates,
+      id,
+      updatedAt: Date.now()
+    };
+
+    const assignments = COLUMNS.filter(c => c !== 'id').map(c => `${c} = @${c}`).join(', ');
+    this.db.prepare(`UPDATE users SET ${assignments} WHERE id = @id`).run(userToRow(updated));
+    return updated;
+  }
+
+  private insertLedgerEntry(entry: CreditLedgerEntry): void {
+    this.db.prepare(`
+      INSERT INTO credit_ledger
+        (id, user_id, type, delta, reason, model, prompt_tokens, completion_tokens, request_id, balance_after, timestamp)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      entry.id,
+      entry.userId,
+      entry.type,
+      entry.delta,
+      entry.reason,
+      entry.model ?? null,
+      entry.promptTokens ?? null,
+      entry.completionTokens ?? null,
+      entry.requestId ?? null,
+      entry.balanceAfter,
+      entry.timestamp
+    );
+  }
+
+  private insert(user: StoredUser): void {
+    const placeholders = COLUMNS.map(c => `@${c}`).join(', ');
+    this.db.prepare(`INSERT INTO users (${COLUMNS.join(', ')}) VALUES (${placeholders})`).run(userToRow(user));
+  }
+}
@@ -6,8 +6,20 @@
 
 import fs from 'fs';
 import path from 'path';
+import { randomUUID } from 'crypto';
 import { fileURLToPath } from 'url';
-import { getUserById, updateUser, StoredUser, migrateUserCreditFields, PLAN_CONFIG } from './userStorage.js';
+import {
+  getUserById,
+  updateUser,
+  updateUserWithLedgerEntry,
+  listCreditLedger,
+  StoredUser,
+  UserPlan,
+  CreditLedgerQuery,
+  CreditLedgerPage,
+  migrateUserCreditFields,
+  PLAN_CONFIG
+} from './userStorage.js';
 
 // ES module __dirname equivalent
 const __filename = fileURLToPath(import.meta.url);
@@ -23,9 +35,7 @@ export const CREDIT_COSTS = {
   IMAGE_GENERATION: 5,           // 5 credits per image (Replicate API)
   VIDEO_GENERATION: 50,          // 50 credits per video (Replicate API)
 
-  // Text model costs (per 1M LLM tokens from API) - 1:1 ratio (1 credit = 1 token)
-  TEXT_INPUT_PER_1M: 1000000,    // 1M credits per 1M input tokens
-  TEXT_OUTPUT_PER_1M: 1000000,   // 1M credits per 1M output tokens
+  // Text model costs are per model - see ModelMetadata.pricing in config/allowedModels.ts
 
   // Plan allowances
   FREE_PLAN_CREDITS: PLAN_CONFIG.free.monthlyCredits,   // 100 credits/month
@@ -39,6 +49,16 @@ export const CREDIT_COSTS = {
 // Backward compatibility alias (for imports from other files)
 export const TOKEN_COSTS = CREDIT_COSTS;
 
+/**
+ * Optional context recorded in the credit ledger alongside a charge
+ */
+export interface CreditChargeDetails {
+  model?: string;
+  promptTokens?: number;
+  completionTokens?: number;
+  requestId?: string;
+}
+
 /**
  * Initialize the lock directory if it doesn't exist
  */
@@ -110,11 +130,14 @@ async function acquireLock(userId: string): Promise<() => Promise<void>> {
 }
 
 
+const daysSinceCreditReset = (user: StoredUser) =>
+  (Date.now() - (user.lastCreditReset || 0)) / (1000 * 60 * 60 * 24);
+
 /**
- * Check if user needs credit reset (30 days since last reset)
- * If yes, reset balance and usage counters based on user's plan
+ * Reset the user's credits if 30 days have passed since the last reset - caller MUST hold the user lock
+ * Re-reads the user, so a reset written by another request while waiting for the lock isn't repeated
  */
-export async function checkAndResetCredits(userId: string): Promise<StoredUser | null> {
+async function resetCreditsIfDueLocked(userId: string): Promise<StoredUser | null> {
   const user = await getUserById(userId);
   if (!user) {
     return null;
@@ -123,7 +146,7 @@ export async function checkAndResetCredits(userId: string): Promise<StoredUser |
   // Use centralized migration logic from userStorage
   const migratedUser = migrateUserCreditFields(user);
 
-  const daysSinceReset = (Date.now() - (migratedUser.lastCreditReset || 0)) / (1000 * 60 * 60 * 24);
+  const daysSinceReset = daysSinceCreditReset(migratedUser);
 
   if (daysSinceReset >= CREDIT_COSTS.RESET_INTERVAL_DAYS) {
     // Determine monthly allowance based on plan
@@ -132,6 +155,8 @@ export async function checkAndResetCredits(userId: string): Promise<StoredUser |
       ? CREDIT_COSTS.PRO_PLAN_CREDITS
       : CREDIT_COSTS.FREE_PLAN_CREDITS;
 
+    const previousBalance = migratedUser.creditBalance ?? monthlyAllowance;
+
     // Reset credits with plan-aware balance
     const resetUser = {
       ...migratedUser,
@@ -148,7 +173,12 @@ export async function checkAndResetCredits(userId: string): Promise<StoredUser |
       newBalance: monthlyAllowance
     });
 
-    return await updateUser(userId, resetUser);
+    const result = await updateUserWithLedgerEntry(userId, resetUser, {
+      type: 'reset',
+      delta: monthlyAllowance - previousBalance,
+      reason: `Monthly reset (${plan})`
+    });
+    return result?.user ?? null;
   }
 
   // No reset needed, but save if migration occurred
@@ -159,6 +189,31 @@ export async function checkAndResetCredits(userId: string): Promise<StoredUser |
   return migratedUser;
 }
 
+/**
+ * Check if user needs credit reset (30 days since last reset)
+ * If yes, reset balance and usage counters based on user's plan (thread-safe)
+ * Only takes the lock when there is something to write; callers already holding it use
+ * resetCreditsIfDueLocked instead.
+ */
+export async function checkAndResetCredits(userId: string): Promise<StoredUser | null> {
+  const user = await getUserById(userId);
+  if (!user) {
+    return null;
+  }
+
+  if (migrateUserCreditFields(user) === user && daysSinceCreditReset(user) < CREDIT_COSTS.RESET_INTERVAL_DAYS) {
+    return user;
+  }
+
+  const unlock = await acquireLock(userId);
+
+  try {
+    return await resetCreditsIfDueLocked(userId);
+  } finally {
+    await unlock();
+  }
+}
+
 // Backward compatibility alias
 export const checkAndResetTokens = checkAndResetCredits;
 
@@ -166,7 +221,20 @@ export const checkAndResetTokens = checkAndResetCredits;
  * Get current credit balance with auto-reset
  */
 export async function getCreditBalance(userId: string): Promise<number> {
-  const user = await checkAndResetCredits(userId);
+  return creditBalanceOf(userId, await checkAndResetCredits(userId));
+}
+
+/**
+ * Get current credit balance with auto-reset - caller MUST hold the user lock
+ */
+async function getCreditBalanceLocked(userId: string): Promise<number> {
+  return creditBalanceOf(userId, await resetCreditsIfDueLocked(userId));
+}
+
+/**
+ * Plan-aware balance of a user as read by getCreditBalance
+ */
+function creditBalanceOf(userId: string, user: StoredUser | null): number {
   if (!user) {
     console.warn('[CreditService] User not found for balance check:', userId);
     return 0;
@@ -175,8 +243,8 @@ export async function getCreditBalance(userId: string): Promise<number> {
   const defaultBalance = plan === 'pro' ? CREDIT_COSTS.PRO_PLAN_CREDITS : CREDIT_COSTS.FREE_PLAN_CREDITS;
   const balance = user.creditBalance ?? defaultBalance;
 
-  // Debug logging to trace balance retrieval
-  console.log('[CreditService] getCreditBalance:', {
+  // Called on every request that touches credits - only trace when debugging
+  if (DEBUG_TOKENS) console.log('[CreditService] getCreditBalance:', {
     userId,
     plan,
     rawCreditBalance: user.creditBalance,
@@ -191,26 +259,204 @@ export async function getCreditBalance(userId: string): Promise<number> {
 export const getTokenBalance = getCreditBalance;
 
 /**
- * Check if user has sufficient credits
+ * Credit hold - credits reserved for an in-flight request
+ * Held credits stay in creditBalance but can't be spent by other requests until settled or released
  */
-export async function hasCredits(userId: string, amount: number): Promise<boolean> {
+export interface CreditHold {
+  id: string;
+  userId: string;
+  amount: number;
+  reason: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface ReserveOptions {
+  // Hold whatever is available (>= 1 credit) when the full estimate isn't, instead of failing
+  allowPartial?: boolean;
+  ttlMs?: number;
+}
+
+// Holds expire so a crashed or hung request can't lock credits forever
+export const DEFAULT_HOLD_TTL_MS = 5 * 60 * 1000; // 5 minutes
+const HOLD_SWEEP_INTERVAL_MS = 60 * 1000;
+
+// In-memory by design: a restart drops every in-flight request, and with it every hold
+const activeHolds = new Map<string, CreditHold>();
+
+/**
+ * Drop expired holds (their credits become spendable again)
+ */
+function sweepExpiredHolds(now = Date.now()): void {
+  for (const [id, hold] of activeHolds) {
+    if (hold.expiresAt <= now) {
+      activeHolds.delete(id);
+      console.warn('[CreditService] Hold expired without settlement', {
+        holdId: id,
+        userId: hold.userId,
+        amount: hold.amount,
+        reason: hold.reason
+      });
+    }
+  }
+}
+
+setInterval(() => sweepExpiredHolds(), HOLD_SWEEP_INTERVAL_MS).unref();
+
+/**
+ * Total credits currently held for a user, optionally ignoring one hold
+ */
+function getHeldCredits(userId: string, excludeHoldId?: string): number {
+  sweepExpiredHolds();
+
+  let held = 0;
+  for (const hold of activeHolds.values()) {
+    if (hold.userId === userId && hold.id !== excludeHoldId) {
+      held += hold.amount;
+    }
+  }
+  return held;
+}
+
+/**
+ * Get credits the user can still commit to new requests (balance minus active holds)
+ */
+export async function getAvailableCredits(userId: string): Promise<number> {
   const balance = await getCreditBalance(userId);
-  return balance >= amount;
+  return Math.max(0, balance - getHeldCredits(userId));
+}
+
+/**
+ * Same as getAvailableCredits - caller MUST hold the user lock
+ */
+async function getAvailableCreditsLocked(userId: string): Promise<number> {
+  const balance = await getCreditBalanceLocked(userId);
+  return Math.max(0, balance - getHeldCredits(userId));
+}
+
+/**
+ * Check if user has sufficient credits (active holds count as spent)
+ */
+export async function hasCredits(userId: string, amount: number): Promise<boolean> {
+  const available = await getAvailableCredits(userId);
+  return available >= amount;
 }
 
 // Backward compatibility alias
 export const hasTokens = hasCredits;
 
+type ChargeResult = { success: boolean; newBalance: number; entryId?: string; error?: string };
+
+/**
+ * Charge credits and write the ledger entry - caller MUST hold the user lock
+ * Spendable credits are the balance minus other requests' holds
+ * @param excludeHoldId - hold being settled, so its own reservation counts as spendable
+ * @param clampToSpendable - charge what's spendable instead of failing when it's short (used by settle,
+ *   where the work has already been done)
+ */
+async function chargeCreditsLocked(
+  userId: string,
+  amount: number,
+  reason: string,
+  details: CreditChargeDetails,
+  excludeHoldId: string | undefined,
+  clampToSpendable: boolean
+): Promise<ChargeResult> {
+  // Check and reset credits if needed
+  const user = await resetCreditsIfDueLocked(userId);
+  if (!user) {
+    return { success: false, newBalance: 0, error: 'Usuário não encontrado' };
+  }
+
+  // Get plan-aware default balance
+  const plan = user.plan || 'free';
+  const defaultBalance = plan === 'pro' ? CREDIT_COSTS.PRO_PLAN_CREDITS : CREDIT_COSTS.FREE_PLAN_CREDITS;
+
+  // Use null coalescing for all optional credit fields
+  const currentBalance = user.creditBalance ?? defaultBalance;
+  const currentUsageTotal = user.creditUsageTotal ?? 0;
+  const currentUsageMonth = user.creditUsageThisMonth ?? 0;
+  const spendable = Math.max(0, currentBalance - getHeldCredits(userId, excludeHoldId));
+
+  // Check sufficient balance
+  let charge = amount;
+  if (spendable < amount) {
+    if (!clampToSpendable) {
+      console.warn('[CreditService] Insufficient credits', {
+        userId,
+        plan,
+        required: amount,
+        available: spendable,
+        reason
+      });
+      return {
+        success: false,
+        newBalance: currentBalance,
+        error: 'Créditos insuficientes'
+      };
+    }
+
+    console.warn('[CreditService] Actual cost exceeded spendable credits, charging what is available', {
+      userId,
+      actualCost: amount,
+      charged: spendable,
+      reason
+    });
+    charge = spendable;
+  }
+
+  if (charge === 0) {
+    return { success: true, newBalance: currentBalance };
+  }
+
+  // Calculate new values
+  const newBalance = currentBalance - charge;
+  const newUsageTotal = currentUsageTotal + charge;
+  const newUsageThisMonth = currentUsageMonth + charge;
+
+  // CRITICAL FIX: Update user BEFORE releasing lock to prevent race condition
+  // Balance change and ledger entry are written together
+  const result = await updateUserWithLedgerEntry(userId, {
+    creditBalance: newBalance,
+    creditUsageTotal: newUsageTotal,
+    creditUsageThisMonth: newUsageThisMonth
+  }, {
+    type: 'usage',
+    delta: -charge,
+    reason,
+    ...details
+  });
+
+  if (!result) {
+    return { success: false, newBalance: currentBalance, error: 'Falha ao atualizar usuário' };
+  }
+
+  console.log('[CreditService] Credits deducted', {
+    userId,
+    plan,
+    credits: charge,
+    reason,
+    previousBalance: currentBalance,
+    newBalance,
+    totalUsage: newUsageTotal,
+    entryId: result.entry.id
+  });
+
+  return { success: true, newBalance, entryId: result.entry.id };
+}
+
 /**
  * Deduct credits from user balance (thread-safe)
  * CRITICAL: Only call after successful API operation
+ * Prefer reserveCredits/settleCredits for requests whose cost is only known afterwards
  * FIX: Moved user update INSIDE the lock to prevent TOCTOU race condition
  */
 export async function deductCredits(
   userId: string,
   amount: number,
-  reason: string
-): Promise<{ success: boolean; newBalance: number; error?: string }> {
+  reason: string,
+  details: CreditChargeDetails = {}
+): Promise<ChargeResult> {
   if (amount < 0) {
     console.error('[CreditService] Invalid credit amount:', amount);
     return { success: false, newBalance: 0, error: 'Quantidade de créditos inválida' };
@@ -231,70 +477,111 @@ export async function deductCredits(
   const unlock = await acquireLock(userId);
 
   try {
-    // Check and reset credits if needed
-    const user = await checkAndResetCredits(userId);
-    if (!user) {
-      return { success: false, newBalance: 0, error: 'Usuário não encontrado' };
-    }
+    return await chargeCreditsLocked(userId, amount, reason, details, undefined, false);
+  } finally {
+    // Lock is released AFTER user update completes
+    await unlock();
+  }
+}
 
-    // Get plan-aware default balance
-    const plan = user.plan || 'free';
-    const defaultBalance = plan === 'pro' ? CREDIT_COSTS.PRO_PLAN_CREDITS : CREDIT_COSTS.FREE_PLAN_CREDITS;
+/**
+ * Reserve credits for a request before calling the upstream API (thread-safe)
+ * Returns a hold id to pass to settleCredits on success or releaseCredits on failure/abort
+ */
+export async function reserveCredits(
+  userId: string,
+  amount: number,
+  reason: string,
+  options: ReserveOptions = {}
+): Promise<{ success: boolean; holdId?: string; held: number; available: number; error?: string }> {
+  if (amount < 0 || !Number.isFinite(amount)) {
+    console.error('[CreditService] Invalid hold amount:', amount);
+    return { success: false, held: 0, available: 0, error: 'Quantidade de créditos inválida' };
+  }
 
-    // Use null coalescing for all optional credit fields
-    const currentBalance = user.creditBalance ?? defaultBalance;
-    const currentUsageTotal = user.creditUsageTotal ?? 0;
-    const currentUsageMonth = user.creditUsageThisMonth ?? 0;
+  const unlock = await acquireLock(userId);
 
-    // Check sufficient balance
-    if (currentBalance < amount) {
-      console.warn('[CreditService] Insufficient credits', {
-        userId,
-        plan,
-        required: amount,
-        available: currentBalance,
-        reason
-      });
-      return {
-        success: false,
-        newBalance: currentBalance,
-        error: 'Créditos insuficientes'
-      };
+  try {
+    const available = await getAvailableCreditsLocked(userId);
+    let held = Math.ceil(amount);
+
+    if (available < held) {
+      if (!options.allowPartial || available < CREDIT_COSTS.MIN_CHAT_CREDITS) {
+        console.warn('[CreditService] Insufficient credits for hold', {
+          userId,
+          required: held,
+          available,
+          reason
+        });
+        return { success: false, held: 0, available, error: 'Créditos insuficientes' };
+      }
+      held = available;
     }
 
-    // Calculate new values
-    const newBalance = currentBalance - amount;
-    const newUsageTotal = currentUsageTotal + amount;
-    const newUsageThisMonth = currentUsageMonth + amount;
+    const now = Date.now();
+    const hold: CreditHold = {
+      id: randomUUID(),
+      userId,
+      amount: held,
+      reason,
+      createdAt: now,
+      expiresAt: now + (options.ttlMs ?? DEFAULT_HOLD_TTL_MS)
+    };
+    activeHolds.set(hold.id, hold);
 
-    // CRITICAL FIX: Update user BEFORE releasing lock to prevent race condition
-    const updatedUser = await updateUser(userId, {
-      creditBalance: newBalance,
-      creditUsageTotal: newUsageTotal,
-      creditUsageThisMonth: newUsageThisMonth
-    });
+    if (DEBUG_TOKENS) console.log('[CreditService] Credits reserved', { userId, holdId: hold.id, held, reason });
 
-    if (!updatedUser) {
-      return { success: false, newBalance: currentBalance, error: 'Falha ao atualizar usuário' };
-    }
+    return { success: true, holdId: hold.id, held, available: available - held };
+  } finally {
+    await unlock();
+  }
+}
 
-    console.log('[CreditService] Credits deducted', {
-      userId,
-      plan,
-      credits: amount,
-      reason,
-      previousBalance: currentBalance,
-      newBalance,
-      totalUsage: newUsageTotal
-    });
+/**
+ * Settle a hold to the actual cost (thread-safe)
+ * The hold is consumed; if the actual cost exceeds the hold the difference is charged from
+ * whatever is still spendable. An expired/unknown hold still charges, clamped the same way.
+ */
+export async function settleCredits(
+  holdId: string,
+  userId: string,
+  actualAmount: number,
+  reason: string,
+  details: CreditChargeDetails = {}
+): Promise<ChargeResult> {
+  const hold = activeHolds.get(holdId);
+  if (hold && hold.userId !== userId) {
+    console.error('[CreditService] Hold does not belong to user', { holdId, userId });
+    return { success: false, newBalance: 0, error: 'Reserva inválida' };
+  }
 
-    return { success: true, newBalance };
+  const unlock = await acquireLock(userId);
+
+  try {
+    const result = actualAmount > 0
+      ? await chargeCreditsLocked(userId, actualAmount, reason, details, holdId, true)
+      : { success: true, newBalance: await getCreditBalanceLocked(userId) };
+
+    activeHolds.delete(holdId);
+    return result;
   } finally {
-    // Lock is released AFTER user update completes
     await unlock();
   }
 }
 
+/**
+ * Release a hold without charging (upstream failure, abort, or no usage reported)
+ */
+export function releaseCredits(holdId: string): void {
+  const hold = activeHolds.get(holdId);
+  if (!hold) {
+    return;
+  }
+
+  activeHolds.delete(holdId);
+  if (DEBUG_TOKENS) console.log('[CreditService] Hold released', { holdId, userId: hold.userId, amount: hold.amount });
+}
+
 // Backward compatibility alias
 export const deductTokens = deductCredits;
 
@@ -321,7 +608,7 @@ export async function grantCredits(
   const unlock = await acquireLock(userId);
 
   try {
-    const user = await checkAndResetCredits(userId);
+    const user = await resetCreditsIfDueLocked(userId);
     if (!user) {
       return { success: false, newBalance: 0, error: 'Usuário não encontrado' };
     }
@@ -335,11 +622,15 @@ export async function grantCredits(
     const newBalance = currentBalance + amount;
 
     // CRITICAL FIX: Update user BEFORE releasing lock
-    const updatedUser = await updateUser(userId, {
+    const result = await updateUserWithLedgerEntry(userId, {
       creditBalance: newBalance
+    }, {
+      type: 'grant',
+      delta: amount,
+      reason: `Admin grant (${adminId})`
     });
 
-    if (!updatedUser) {
+    if (!result) {
       return { success: false, newBalance: currentBalance, error: 'Falha ao atualizar usuário' };
     }
 
@@ -361,6 +652,47 @@ export async function grantCredits(
 // Backward compatibility alias
 export const grantTokens = grantCredits;
 
+/**
+ * Switch a user's plan and reset the balance to the new monthly allowance (thread-safe)
+ */
+export async function changePlan(userId: string, plan: UserPlan): Promise<StoredUser | null> {
+  const unlock = await acquireLock(userId);
+
+  try {
+    const user = await resetCreditsIfDueLocked(userId);
+    if (!user) {
+      return null;
+    }
+
+    const monthlyAllowance = plan === 'pro' ? CREDIT_COSTS.PRO_PLAN_CREDITS : CREDIT_COSTS.FREE_PLAN_CREDITS;
+    const previousBalance = user.creditBalance ?? 0;
+
+    const result = await updateUserWithLedgerEntry(userId, {
+      plan,
+      creditBalance: monthlyAllowance,
+      creditUsageThisMonth: 0,
+      lastCreditReset: Date.now(),
+      planStartDate: Date.now(),
+      planRenewDate: Date.now() + (CREDIT_COSTS.RESET_INTERVAL_DAYS * 24 * 60 * 60 * 1000)
+    }, {
+      type: 'plan_change',
+      delta: monthlyAllowance - previousBalance,
+      reason: `Plan changed to ${plan}`
+    });
+
+    return result?.user ?? null;
+  } finally {
+    await unlock();
+  }
+}
+
+/**
+ * Get a page of the user's credit ledger (newest first)
+ */
+export async function getCreditHistory(userId: string, query: CreditLedgerQuery): Promise<CreditLedgerPage> {
+  return listCreditLedger(userId, query);
+}
+
 /**
  * Get usage statistics for a user
  */
@@ -0,0 +1,132 @@
+/**
+ * User Repository - Pluggable persistence backend for user records
+ *
+ * Backends:
+ * - json   (default): data/users.json guarded by a global file lock
+ * - sqlite: data/fidi.db with row-level updates, no global lock
+ *
+ * Select with USER_STORAGE_BACKEND=json|sqlite (SQLITE_DB_PATH overrides the database file)
+ */
+
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+// ES module __dirname equivalent
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const DATA_DIR = path.join(__dirname, '../../data');
+
+export type UserPlan = 'free' | 'pro';
+
+export interface StoredUser {
+  id: string;
+  email: string;
+  name: string;
+  password: string;
+  createdAt: number;
+  updatedAt: number;
+  // Credit system fields
+  creditBalance?: number;
+  creditUsageTotal?: number;
+  creditUsageThisMonth?: number;
+  lastCreditReset?: number;
+  isAdmin?: boolean;
+  // Plan system fields
+  plan?: UserPlan;
+  planStartDate?: number;
+  planRenewDate?: number;
+}
+
+/**
+ * Credit ledger - append-only record of every balance change
+ * `delta` is negative for charges and positive for grants/resets
+ */
+export type CreditEntryType = 'usage' | 'grant' | 'reset' | 'plan_change';
+
+export interface CreditLedgerEntry {
+  id: string;
+  userId: string;
+  type: CreditEntryType;
+  delta: number;
+  reason: string;
+  model?: string;
+  promptTokens?: number;
+  completionTokens?: number;
+  requestId?: string;
+  balanceAfter: number;
+  timestamp: number;
+}
+
+/**
+ * Entry fields supplied by the caller; id, userId, balanceAfter and timestamp are filled in on write
+ */
+export type NewCreditLedgerEntry = Omit<CreditLedgerEntry, 'id' | 'userId' | 'balanceAfter' | 'timestamp'>;
+
+export interface CreditLedgerQuery {
+  limit: number;
+  offset: number;
+  type?: CreditEntryType;
+  model?: string;
+  from?: number;
+  to?: number;
+}
+
+export interface CreditLedgerPage {
+  entries: CreditLedgerEntry[]; // Newest first
+  total: number;
+}
+
+/**
+ * Storage contract shared by every backend
+ * Implementations handle their own concurrency; callers never lock around them
+ */
+export interface UserRepository {
+  readonly backend: 'json' | 'sqlite';
+  getById(id: string): Promise<StoredUser | null>;
+  getByEmail(email: string): Promise<StoredUser | null>;
+  list(): Promise<StoredUser[]>;
+  count(): Promise<number>;
+  /** Throws if the email is already registered */
+  create(user: StoredUser): Promise<StoredUser>;
+  update(id: string, updates: Partial<StoredUser>): Promise<StoredUser | null>;
+  delete(id: string): Promise<boolean>;
+  /**
+   * Apply a user update and append its ledger entry as one atomic write
+   * Returns null if the user doesn't exist (nothing is written)
+   */
+  updateWithLedgerEntry(
+    id: string,
+    updates: Partial<StoredUser>,
+    entry: NewCreditLedgerEntry
+  ): Promise<{ user: StoredUser; entry: CreditLedgerEntry } | null>;
+  listLedgerEntries(userId: string, query: CreditLedgerQuery): Promise<CreditLedgerPage>;
+}
+
+let repository: UserRepository | null = null;
+
+/**
+ * Get the configured repository (created lazily so dotenv has run first)
+ */
+export async function getUserRepository(): Promise<UserRepository> {
+  if (repository) {
+    return repository;
+  }
+
+  const backend = (process.env.USER_STORAGE_BACKEND || 'json').toLowerCase();
+
+  if (backend === 'sqlite') {
+    const { SqliteUserRepository } = await import('./sqliteUserRepository.js');
+    const dbPath = process.env.SQLITE_DB_PATH || path.join(DATA_DIR, 'fidi.db');
+    repository = new SqliteUserRepository(dbPath);
+  } else {
+    if (backend !== 'json') {
+      console.warn(`[UserRepository] Unknown USER_STORAGE_BACKEND "${backend}", falling back to json`);
+    }
+    const { JsonUserRepository } = await import('./jsonUserRepository.js');
+    repository = new JsonUserRepository(path.join(DATA_DIR, 'users.json'));
+  }
+
+  console.log('[UserRepository] Using backend:', repository.backend);
+  return repository;
+}
@@ -1,20 +1,37 @@
 import rateLimit from 'express-rate-limit';
+import { Request } from 'express';
 
 // Constants for rate limit configuration
 const MINUTE_MS = 60 * 1000;
 const FIFTEEN_MINUTES_MS = 15 * MINUTE_MS;
 
+// Cost estimates fire (debounced) while the user types, so they have their own limiter
+const isEstimateRequest = (req: Request): boolean => req.originalUrl.startsWith('/api/chat/estimate');
+
+// Resuming or stopping a running reply never starts a new generation, so it has its own limiter
+// (GET /api/chat/stream/:generationId and POST /api/chat/stream/:generationId/cancel)
+const isStreamControlRequest = (req: Request): boolean =>
+  /^\/api\/chat\/stream\/[^/?]+(\/cancel)?\/?(\?|$)/.test(req.originalUrl);
+
+// Conversation sync runs in the background after every burst of edits, so it has its own limiter
+const isSyncRequest = (req: Request): boolean => req.originalUrl.startsWith('/api/conversations/sync');
+
+// The model selector polls health every minute; it's answered from memory (no upstream call)
+const isModelStatusPoll = (req: Request): boolean =>
+  req.method === 'GET' && /^\/api\/models\/status\/?(\?|$)/.test(req.originalUrl);
+
 /**
  * General API rate limiter
- * Applies to all /api/ routes
+ * Applies to all /api/ routes except background polling and requests with their own limiter
  */
 export const apiLimiter = rateLimit({
   windowMs: FIFTEEN_MINUTES_MS, // 15 minutes
-  max: 100, // 100 requests per 15 minutes per IP
+  max: 300, // 300 requests per 15 minutes per IP (panels load personas, shares, files and credit history)
   message: {
     error: 'Too many requests. Please try again in a few minutes.',
     code: 'RATE_LIMIT_EXCEEDED'
   },
+  skip: req => isEstimateRequest(req) || isStreamControlRequest(req) || isSyncRequest(req) || isModelStatusPoll(req),
   standardHeaders: true, // Return rate limit info in headers
   legacyHeaders: false, // Disable X-RateLimit-* headers
 });
@@ -30,6 +47,56 @@ export const aiLimiter = rateLimit({
     error: 'Request limit exceeded. Please wait 1 minute.',
     code: 'AI_RATE_LIMIT'
   },
+  skip: req => isEstimateRequest(req) || isStreamControlRequest(req),
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+/**
+ * Cost estimate limiter
+ * Estimates never call a model, but they do load the history's attachments and tokenise it;
+ * document text comes from the extraction cache after the first request, so the budget is
+ * generous
+ */
+export const estimateLimiter = rateLimit({
+  windowMs: MINUTE_MS, // 1 minute
+  max: 60, // 60 estimates per minute per IP
+  message: {
+    error: 'Too many estimate requests. Please wait a moment.',
+    code: 'ESTIMATE_RATE_LIMIT'
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+/**
+ * Stream control limiter
+ * A dropped connection reconnects a few times per reply and Stop is one request, so this only
+ * guards against runaway clients
+ */
+export const streamControlLimiter = rateLimit({
+  windowMs: MINUTE_MS, // 1 minute
+  max: 60, // 60 resumes/cancels per minute per IP
+  message: {
+    error: 'Too many reconnect requests. Please wait a moment.',
+    code: 'STREAM_CONTROL_RATE_LIMIT'
+  },
+  skip: req => !isStreamControlRequest(req),
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+/**
+ * Conversation sync limiter
+ * The client pushes at most once per settled burst of edits (plus on load and reconnect)
+ */
+export const syncLimiter = rateLimit({
+  windowMs: MINUTE_MS, // 1 minute
+  max: 30, // 30 syncs per minute per IP
+  message: {
+    error: 'Too many sync requests. Please wait a moment.',
+    code: 'SYNC_RATE_LIMIT'
+  },
   standardHeaders: true,
   legacyHeaders: false,
 });
@@ -1,22 +1,22 @@
 /**
- * Admin Routes - Token management and user administration
+ * Admin Routes - Token management, user administration and the live model catalogue
  * Requires admin authentication
  */
 
 import { Router, Response, NextFunction } from 'express';
-import fs from 'fs';
-import path from 'path';
-import { fileURLToPath } from 'url';
 import { AuthRequest } from '../middleware/auth.js';
 import { APIError } from '../middleware/errorHandler.js';
 import { grantTokens, getUsageStats } from '../lib/tokenService.js';
-import { getUserById, StoredUser } from '../lib/userStorage.js';
-
-// ES module __dirname equivalent
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-const DATA_DIR = path.join(__dirname, '../../data');
-const USERS_FILE = path.join(DATA_DIR, 'users.json');
+import { getUserById, listUsers } from '../lib/userStorage.js';
+import {
+  ConfiguredModel,
+  ModelConfig,
+  getConfiguredModel,
+  getModelConfig,
+  resetModelConfig,
+  updateModelConfig
+} from '../lib/modelConfigStore.js';
+import { getModelsHealth, resetModelHealth } from '../lib/modelHealth.js';
 
 export const adminRouter = Router();
 
@@ -134,23 +134,14 @@ adminRouter.get('/tokens/stats/:userId', requireAdmin, async (req: AuthRequest,
 /**
  * Get overview of all users' token balances (admin only)
  * GET /api/admin/tokens/overview
- * FIX: Removed nested dynamic imports, simplified to direct file read
+ * Reads through the user repository so it works with either storage backend
  */
-adminRouter.get('/tokens/overview', requireAdmin, (_req: AuthRequest, res, next): void => {
+adminRouter.get('/tokens/overview', requireAdmin, async (_req: AuthRequest, res, next): Promise<void> => {
   try {
-    // Check if users file exists
-    if (!fs.existsSync(USERS_FILE)) {
-      res.json({ users: [] });
-      return;
-    }
-
-    // Read and parse users file
-    const data = fs.readFileSync(USERS_FILE, 'utf-8');
-    const parsed = JSON.parse(data);
-    const users = parsed.users || [];
+    const users = await listUsers();
 
     // Map users to overview format with proper null coalescing
-    const overview = (users as StoredUser[]).map((user) => ({
+    const overview = users.map((user) => ({
       userId: user.id,
       email: user.email,
       name: user.name,
@@ -166,3 +157,252 @@ adminRouter.get('/tokens/overview', requireAdmin, (_req: AuthRequest, res, next)
     next(error);
   }
 });
+
+// Model fields an admin may set (anything else in the body is ignored)
+const EDITABLE_MODEL_FIELDS = [
+  'displayName',
+  'description',
+  'provider',
+  'tier',
+  'costMultiplier',
+  'pricing',
+  'capabilities',
+  'limits',
+  'enabled'
+] as const;
+
+/**
+ * Pick the editable fields out of a request body
+ * `pricing` and `limits` are merged so an edit can send just the value that changed
+ */
+function pickModelFields(body: Record<string, unknown>, existing?: ConfiguredModel): Partial<ConfiguredModel> {
+  const fields: Record<string, unknown> = {};
+
+  for (const field of EDITABLE_MODEL_FIELDS) {
+    if (body[field] !== undefined) {
+      fields[field] = body[field];
+    }
+  }
+
+  if (fields.pricing !== undefined && existing && typeof fields.pricing === 'object' && fields.pricing !== null) {
+    fields.pricing = { ...existing.pricing, ...fields.pricing };
+  }
+  if (fields.limits !== undefined && existing?.limits && typeof fields.limits === 'object' && fields.limits !== null) {
+    fields.limits = { ...existing.limits, ...fields.limits };
+  }
+
+  return fields as Partial<ConfiguredModel>;
+}
+
+/**
+ * Apply a model config change, turning validation failures into a 400 listing every problem
+ */
+async function applyModelConfigChange(
+  req: AuthRequest,
+  mutate: (draft: ModelConfig) => string | void
+): Promise<ModelConfig> {
+  const result = await updateModelConfig(mutate, req.user!.id);
+
+  if (!result.success || !result.config) {
+    throw new APIError(
+      result.errors?.[0] || 'Invalid model configuration',
+      400,
+      'INVALID_MODEL_CONFIG',
+      undefined, // errorType
+      false, // retryable
+      { errors: result.errors ?? [] }
+    );
+  }
+
+  return result.config;
+}
+
+/**
+ * Resolve the :modelId param (ids contain "/" so clients send it URL-encoded)
+ */
+function requireConfiguredModel(modelId: string | undefined): ConfiguredModel {
+  const model = modelId ? getConfiguredModel(modelId) : null;
+  if (!model) {
+    throw new APIError(`Model not found: ${modelId}`, 404, 'MODEL_NOT_FOUND');
+  }
+  return model;
+}
+
+/**
+ * Get the live model config (all models, including disabled, plus fallback chains)
+ * GET /api/admin/models
+ */
+adminRouter.get('/models', requireAdmin, (_req: AuthRequest, res) => {
+  res.json(getModelConfig());
+});
+
+/**
+ * Add a chat model
+ * POST /api/admin/models
+ * Body: { id, displayName, description?, provider, tier, costMultiplier, pricing, capabilities?, enabled?, fallbackChain? }
+ */
+adminRouter.post('/models', requireAdmin, async (req: AuthRequest, res, next) => {
+  try {
+    const { id, fallbackChain } = req.body;
+
+    if (!id || typeof id !== 'string') {
+      throw new APIError('Invalid or missing model id', 400, 'INVALID_MODEL_ID');
+    }
+
+    if (getConfiguredModel(id)) {
+      throw new APIError(`Model already exists: ${id}`, 409, 'MODEL_EXISTS');
+    }
+
+    const config = await applyModelConfigChange(req, draft => {
+      draft.models.push({
+        id,
+        description: '',
+        enabled: true,
+        ...pickModelFields(req.body)
+      } as ConfiguredModel);
+
+      if (fallbackChain !== undefined) {
+        draft.fallbackChains[id] = fallbackChain;
+      }
+    });
+
+    console.log('[Admin] Model added', { adminId: req.user!.id, modelId: id });
+    res.status(201).json(config);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Reorder models (display order in the selector)
+ * PUT /api/admin/models/order
+ * Body: { order: string[] } - every configured model id exactly once
+ */
+adminRouter.put('/models/order', requireAdmin, async (req: AuthRequest, res, next) => {
+  try {
+    const { order } = req.body;
+
+    if (!Array.isArray(order) || order.some(id => typeof id !== 'string')) {
+      throw new APIError('"order" must be an array of model ids', 400, 'INVALID_ORDER');
+    }
+
+    const config = await applyModelConfigChange(req, draft => {
+      const byId = new Map(draft.models.map(model => [model.id, model]));
+
+      if (order.length !== draft.models.length || new Set(order).size !== order.length || order.some(id => !byId.has(id))) {
+        return '"order" must list every configured model exactly once';
+      }
+
+      draft.models = order.map(id => byId.get(id)!);
+      return undefined;
+    });
+
+    console.log('[Admin] Models reordered', { adminId: req.user!.id });
+    res.json(config);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Discard all runtime edits and restore the built-in catalogue
+ * POST /api/admin/models/reset
+ */
+adminRouter.post('/models/reset', requireAdmin, async (req: AuthRequest, res, next) => {
+  try {
+    const result = await resetModelConfig(req.user!.id);
+    if (!result.success) {
+      throw new APIError('Failed to reset model configuration', 500, 'RESET_FAILED');
+    }
+
+    console.log('[Admin] Model config reset to built-in catalogue', { adminId: req.user!.id });
+    res.json(result.config);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Update a model (rename, enable/disable, reprice, change tier)
+ * PATCH /api/admin/models/:modelId
+ * Body: any of { displayName, description, provider, tier, costMultiplier, pricing, capabilities, enabled }
+ */
+adminRouter.patch('/models/:modelId', requireAdmin, async (req: AuthRequest, res, next) => {
+  try {
+    const existing = requireConfiguredModel(req.params.modelId);
+    const updates = pickModelFields(req.body, existing);
+
+    if (Object.keys(updates).length === 0) {
+      throw new APIError(`Nothing to update. Editable fields: ${EDITABLE_MODEL_FIELDS.join(', ')}`, 400, 'NO_UPDATES');
+    }
+
+    const config = await applyModelConfigChange(req, draft => {
+      const index = draft.models.findIndex(model => model.id === existing.id);
+      if (index === -1) {
+        return `Model not found: ${existing.id}`;
+      }
+      draft.models[index] = { ...draft.models[index], ...updates };
+      return undefined;
+    });
+
+    console.log('[Admin] Model updated', { adminId: req.user!.id, modelId: existing.id, fields: Object.keys(updates) });
+    res.json(config);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Replace a model's fallback chain
+ * PUT /api/admin/models/:modelId/fallbacks
+ * Body: { chain: string[] } - configured models only, no cycles, at most MAX_FALLBACK_ATTEMPTS
+ */
+adminRouter.put('/models/:modelId/fallbacks', requireAdmin, async (req: AuthRequest, res, next) => {
+  try {
+    const existing = requireConfiguredModel(req.params.modelId);
+    const { chain } = req.body;
+
+    if (!Array.isArray(chain)) {
+      throw new APIError('"chain" must be an array of model ids', 400, 'INVALID_CHAIN');
+    }
+
+    const config = await applyModelConfigChange(req, draft => {
+      draft.fallbackChains[existing.id] = chain;
+    });
+
+    console.log('[Admin] Fallback chain updated', { adminId: req.user!.id, modelId: existing.id, chain });
+    res.json(config);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Get circuit breaker state for every configured model
+ * GET /api/admin/models/health
+ */
+adminRouter.get('/models/health', requireAdmin, (_req: AuthRequest, res) => {
+  const models = getModelConfig().models;
+  const health = getModelsHealth(models.map(model => model.id)).map(entry => ({
+    ...entry,
+    enabled: models.find(model => model.id === entry.model)?.enabled ?? false
+  }));
+
+  res.json({ models: health });
+});
+
+/**
+ * Close a model's circuit and clear its failure history (e.g. after the provider recovered)
+ * POST /api/admin/models/:modelId/health/reset
+ */
+adminRouter.post('/models/:modelId/health/reset', requireAdmin, (req: AuthRequest, res, next) => {
+  try {
+    const existing = requireConfiguredModel(req.params.modelId);
+    resetModelHealth(existing.id);
+
+    console.log('[Admin] Model health reset', { adminId: req.user!.id, modelId: existing.id });
+    res.json({ success: true });
+  } catch (error) {
+    next(error);
+  }
+});
@@ -7,10 +7,9 @@ import {
   getUserByEmail,
   emailExists,
   createUser,
-  updateUser,
   StoredUser
 } from '../lib/userStorage.js';
-import { getUsageStats } from '../lib/tokenService.js';
+import { getUsageStats, changePlan } from '../lib/tokenService.js';
 
 export const authRouter = Router();
 
@@ -313,15 +312,8 @@ authRouter.post('/upgrade-plan', async (req, res, next) => {
       ? PLAN_CONFIG.pro.monthlyCredits 
       : PLAN_CONFIG.free.monthlyCredits;
 
-    // Update user with new plan
-    const updatedUser = await updateUser(user.id, {
-      plan: plan as 'free' | 'pro',
-      creditBalance: monthlyAllowance,
-      creditUsageThisMonth: 0,
-      lastCreditReset: Date.now(),
-      planStartDate: Date.now(),
-      planRenewDate: Date.now() + (30 * 24 * 60 * 60 * 1000)
-    });
+    // Update user with new plan (recorded in the credit ledger)
+    const updatedUser = await changePlan(storedUser.id, plan as 'free' | 'pro');
 
     if (!updatedUser) {
       throw new APIError('Failed to update user plan', 500, 'UPDATE_FAILED');
@@ -1,12 +1,39 @@
-import { Router } from 'express';
+import { Router, Response } from 'express';
+import { randomUUID } from 'crypto';
 import { OpenRouter } from '@openrouter/sdk';
 import { APIError } from '../middleware/errorHandler.js';
 import { AuthRequest } from '../middleware/auth.js';
-import { formatMessagesForModel } from '../lib/modelAdapters.js';
-import { isAllowedModel, getAllowedModelsString, getModelCostMultiplier } from '../config/allowedModels.js';
-import { deductTokens, getTokenBalance, CREDIT_COSTS } from '../lib/tokenService.js';
+import { formatMessagesForModel, formatParamsForModel, ModelParams } from '../lib/modelAdapters.js';
+import { isAllowedModel, getAllowedModelsString, getModelParamLimits, getEnabledModels, ModelTier } from '../config/allowedModels.js';
+import { reserveCredits, settleCredits, releaseCredits, getAvailableCredits } from '../lib/tokenService.js';
+import { estimateChatCost, calculateChatCost, countPromptTokens, countCompletionTokens } from '../lib/costEstimator.js';
 import { getModelsToAttempt } from '../config/fallbackConfig.js';
 import { classifyError, shouldTriggerFallback, isTerminalError, ErrorType, ClassifiedError } from '../lib/errorClassifier.js';
+import { acquireTrial, recordModelSuccess, recordModelFailure } from '../lib/modelHealth.js';
+import {
+  fitHistoryToContext,
+  ContextMessage,
+  ContextStrategy,
+  CONTEXT_STRATEGIES,
+  DEFAULT_CONTEXT_STRATEGY,
+  FitContextResult
+} from '../lib/contextWindow.js';
+import {
+  createGeneration,
+  appendGenerationEvent,
+  completeGeneration,
+  subscribeToGeneration,
+  cancelGeneration,
+  GenerationAbortReason
+} from '../lib/generationBuffer.js';
+import {
+  extractDocumentText,
+  formatDocumentPart,
+  getDocumentKind,
+  ExtractedDocument,
+  MAX_EXTRACTED_CHARS
+} from '../lib/documentExtraction.js';
+import { getFile, isFileId, readFileContents } from '../lib/fileStorage.js';
 
 // Performance: Conditional debug logging to avoid blocking event loop
 const DEBUG_CHAT = process.env.DEBUG_CHAT === 'true';
@@ -17,13 +44,25 @@ export const chatRouter = Router();
 // Constants for validation
 const MAX_MESSAGES_PER_CONVERSATION = 1000;
 const MAX_MESSAGE_LENGTH = 32000; // 32KB per message
+const MAX_ATTACHMENTS_PER_MESSAGE = 10; // Mirrors FILE_LIMITS.MAX_FILES on the client
+const MAX_ATTACHMENT_BYTES_PER_MESSAGE = 20 * 1024 * 1024; // 20MB decoded, mirrors FILE_LIMITS.MAX_TOTAL_SIZE
+const MAX_FILENAME_LENGTH = 200;
+const MAX_DOCUMENT_PART_LENGTH = MAX_EXTRACTED_CHARS + 1000; // Extracted text plus its header and footer
 const STREAM_TIMEOUT_MS = 120000; // 2 minutes
+// Image formats vision models accept (other images, e.g. SVG, are not forwarded)
+const MODEL_IMAGE_TYPES = new Set(['image/png', 'image/jpeg', 'image/webp', 'image/gif']);
+const SUMMARY_MAX_TOKENS = 600;
+const SUMMARY_TIMEOUT_MS = 20000; // The strategy falls back to keep_pinned when it runs out
+
+const SUMMARY_INSTRUCTIONS = 'Summarise the following conversation between a user and an assistant. ' +
+  'Keep facts, decisions, names, numbers, code identifiers and open questions; drop pleasantries. ' +
+  'Write in the language of the conversation, as concise bullet points.';
 
 /**
  * Sanitize user input to prevent prompt injection
  * Removes or escapes potentially dangerous patterns
  */
-function sanitizeUserInput(input: string): string {
+function sanitizeUserInput(input: string, maxLength: number = MAX_MESSAGE_LENGTH): string {
   if (typeof input !== 'string') {
     return '';
   }
@@ -44,17 +83,176 @@ function sanitizeUserInput(input: string): string {
     .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '');
 
   // Limit length
-  if (sanitized.length > MAX_MESSAGE_LENGTH) {
-    sanitized = sanitized.substring(0, MAX_MESSAGE_LENGTH);
+  if (sanitized.length > maxLength) {
+    sanitized = sanitized.substring(0, maxLength);
   }
 
   return sanitized;
 }
 
+/**
+ * Content part of a multimodal message as sent by the client
+ * Attachments use OpenRouter's `file` part shape: uploaded files are referenced by
+ * `file_id` (see routes/files.ts); older messages may still carry `file_data` (data URL).
+ */
+interface ContentPart {
+  type?: string;
+  text?: string;
+  image_url?: { url?: unknown };
+  file?: { filename?: unknown; file_data?: unknown; file_id?: unknown };
+}
+
+/**
+ * A file part's contents, whether sent inline or loaded from the file store
+ */
+interface ResolvedFile {
+  filename: string;
+  type: string;
+  data: Buffer;
+  fileId?: string; // Stored files: the content hash, so extraction results are found without rehashing
+}
+
+/**
+ * What was read from a document in the message being sent (shown on its attachment)
+ */
+interface DocumentSummary {
+  name: string;
+  pages?: number;
+  lines: number;
+}
+
+interface ValidatedMessages {
+  messages: ContextMessage[];
+  documents: DocumentSummary[]; // Documents of the newest message
+}
+
+const isAttachmentPart = (part: ContentPart) => part?.type === 'image_url' || part?.type === 'file';
+
+const attachmentUrl = (part: ContentPart): unknown =>
+  part.type === 'file' ? part.file?.file_data : part.image_url?.url;
+
+/**
+ * Decoded size of a base64 data URL (0 for anything else, e.g. remote image URLs)
+ */
+function dataUrlByteSize(url: string): number {
+  if (!url.startsWith('data:')) return 0;
+  const base64 = url.slice(url.indexOf(',') + 1);
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.floor(base64.length * 3 / 4) - padding;
+}
+
+/**
+ * Enforce the per-message attachment limits on the message being sent
+ * Only the newest message is checked: earlier ones passed when they were sent, and the client
+ * may merge consecutive user turns into one. Referenced files count with their stored size.
+ */
+async function validateAttachmentLimits(messages: unknown[], userId: string): Promise<void> {
+  const last = messages[messages.length - 1] as Record<string, unknown> | undefined;
+  if (!last || !Array.isArray(last.content)) return;
+
+  const files = (last.content as ContentPart[]).filter(isAttachmentPart);
+
+  if (files.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+    throw new APIError(
+      `Too many attachments. Maximum ${MAX_ATTACHMENTS_PER_MESSAGE} files per message.`,
+      400,
+      'TOO_MANY_ATTACHMENTS'
+    );
+  }
+
+  let totalBytes = 0;
+  for (const part of files) {
+    const url = attachmentUrl(part);
+    if (typeof url === 'string') {
+      totalBytes += dataUrlByteSize(url);
+    } else if (part.type === 'file' && isFileId(part.file?.file_id)) {
+      totalBytes += (await getFile(userId, part.file.file_id))?.size ?? 0;
+    }
+  }
+  if (totalBytes > MAX_ATTACHMENT_BYTES_PER_MESSAGE) {
+    throw new APIError(
+      `Attachments too large. Maximum ${MAX_ATTACHMENT_BYTES_PER_MESSAGE / (1024 * 1024)}MB per message.`,
+      413,
+      'ATTACHMENTS_TOO_LARGE'
+    );
+  }
+}
+
+/**
+ * Load a file part's contents: from the user's file store when it carries a file id,
+ * otherwise from its inline data URL
+ */
+async function resolveFilePart(part: ContentPart, index: number, userId: string): Promise<ResolvedFile> {
+  const filename = typeof part.file?.filename === 'string' ? part.file.filename.slice(0, MAX_FILENAME_LENGTH) : '';
+  if (!filename) {
+    throw new APIError(`Invalid file attachment at message ${index}`, 400, 'INVALID_ATTACHMENT');
+  }
+
+  const fileId = part.file?.file_id;
+  if (fileId !== undefined) {
+    // Files are looked up per user: an id alone doesn't grant access to someone else's upload
+    const stored = isFileId(fileId) ? await getFile(userId, fileId) : null;
+    if (stored) {
+      try {
+        return { filename, type: stored.type, data: await readFileContents(stored), fileId: stored.id };
+      } catch (error) {
+        console.error(`[Chat] Stored file ${stored.id} is missing:`, error);
+      }
+    }
+    throw new APIError(
+      `Attachment "${filename}" is no longer available. Attach it again.`,
+      404,
+      'FILE_NOT_FOUND'
+    );
+  }
+
+  const dataUrl = typeof part.file?.file_data === 'string' ? part.file.file_data : '';
+  const header = /^data:([^;,]*)[^,]*;base64,/.exec(dataUrl);
+  if (!header) {
+    throw new APIError(`Invalid file attachment at message ${index}`, 400, 'INVALID_ATTACHMENT');
+  }
+  return { filename, type: header[1], data: Buffer.from(dataUrl.slice(header[0].length), 'base64') };
+}
+
+/**
+ * Turn a document into a text part with a filename header
+ * Unsupported types are rejected rather than silently dropped, so the user knows the model
+ * never saw the file.
+ */
+async function extractDocumentPart({ filename, type, data, fileId }: ResolvedFile): Promise<{ text: string; summary: DocumentSummary }> {
+  const kind = getDocumentKind(filename, type);
+  if (!kind) {
+    throw new APIError(
+      `Unsupported attachment "${filename}". Attach PDF, Word (.docx), Excel (.xlsx), CSV or text/code files.`,
+      415,
+      'UNSUPPORTED_ATTACHMENT'
+    );
+  }
+
+  let doc: ExtractedDocument;
+  try {
+    doc = await extractDocumentText(kind, data, fileId);
+  } catch (error) {
+    console.warn(`[Chat] Failed to extract text from ${kind} attachment:`, error);
+    throw new APIError(
+      `Could not read "${filename}". The file may be damaged or password-protected.`,
+      422,
+      'UNREADABLE_ATTACHMENT'
+    );
+  }
+
+  return {
+    text: sanitizeUserInput(formatDocumentPart(filename, doc), MAX_DOCUMENT_PART_LENGTH),
+    summary: { name: filename, ...(doc.pages !== undefined && { pages: doc.pages }), lines: doc.lines }
+  };
+}
+
 /**
  * Validate and sanitize message array
+ * Documents are replaced by their extracted text; images (inline data URLs or stored files)
+ * are passed on as data URLs and dropped by the adapter for text-only models.
  */
-function validateMessages(messages: unknown[]): Array<{ role: 'user' | 'assistant'; content: string }> {
+async function validateMessages(messages: unknown[], userId: string): Promise<ValidatedMessages> {
   if (!Array.isArray(messages)) {
     throw new APIError('Messages must be an array', 400, 'INVALID_MESSAGES');
   }
@@ -67,7 +265,13 @@ function validateMessages(messages: unknown[]): Array<{ role: 'user' | 'assistan
     );
   }
 
-  return messages.map((msg, index) => {
+  await validateAttachmentLimits(messages, userId);
+
+  const validated: ContextMessage[] = [];
+  let documents: DocumentSummary[] = [];
+
+  // Sequential on purpose: document extraction is CPU and memory heavy
+  for (const [index, msg] of messages.entries()) {
     if (!msg || typeof msg !== 'object') {
       throw new APIError(`Invalid message at index ${index}`, 400, 'INVALID_MESSAGE');
     }
@@ -86,22 +290,213 @@ function validateMessages(messages: unknown[]): Array<{ role: 'user' | 'assistan
 
     // Sanitize content
     let content: string;
+    const images: string[] = [];
+    const messageDocuments: DocumentSummary[] = [];
     if (typeof message.content === 'string') {
       content = role === 'user' ? sanitizeUserInput(message.content) : message.content;
     } else if (Array.isArray(message.content)) {
-      // Handle multimodal content (text + images)
-      content = message.content.map((part: { type?: string; text?: string }) => {
-        if (part.type === 'text' && typeof part.text === 'string') {
-          return role === 'user' ? sanitizeUserInput(part.text) : part.text;
+      // Handle multimodal content (text, images and documents)
+      const texts: string[] = [];
+
+      for (const part of message.content as ContentPart[]) {
+        if (part?.type === 'text' && typeof part.text === 'string') {
+          texts.push(role === 'user' ? sanitizeUserInput(part.text) : part.text);
+        } else if (part?.type === 'image_url' && role === 'user') {
+          const url = part.image_url?.url;
+          const type = typeof url === 'string' ? /^data:([^;,]+);base64,/.exec(url)?.[1] : undefined;
+          if (type && MODEL_IMAGE_TYPES.has(type)) {
+            images.push(url as string);
+          }
+        } else if (part?.type === 'file' && role === 'user') {
+          const file = await resolveFilePart(part, index, userId);
+          if (file.type.startsWith('image/')) {
+            if (MODEL_IMAGE_TYPES.has(file.type)) {
+              images.push(`data:${file.type};base64,${file.data.toString('base64')}`);
+            }
+            continue;
+          }
+          const { text, summary } = await extractDocumentPart(file);
+          texts.push(text);
+          messageDocuments.push(summary);
         }
-        return '';
-      }).join(' ');
+      }
+
+      content = texts.filter(Boolean).join('\n\n');
     } else {
       content = '';
     }
+    documents = messageDocuments;
+
+    // Pinned messages survive context trimming (see lib/contextWindow.ts)
+    validated.push({
+      role,
+      content,
+      ...(images.length > 0 && { images }),
+      ...(message.pinned === true && { pinned: true })
+    });
+  }
+
+  return { messages: validated, documents };
+}
+
+/**
+ * Validate the context-window strategy (absent = default)
+ */
+function validateContextStrategy(strategy: unknown): ContextStrategy {
+  if (strategy === undefined || strategy === null) {
+    return DEFAULT_CONTEXT_STRATEGY;
+  }
+  if (typeof strategy !== 'string' || !(CONTEXT_STRATEGIES as readonly string[]).includes(strategy)) {
+    throw new APIError(
+      `Invalid contextStrategy. Allowed: ${CONTEXT_STRATEGIES.join(', ')}`,
+      400,
+      'INVALID_CONTEXT_STRATEGY'
+    );
+  }
+  return strategy as ContextStrategy;
+}
+
+/**
+ * Validate the requested model
+ * SECURITY: Validate model against allowlist to prevent unauthorized expensive model usage
+ */
+function validateModel(model: unknown): asserts model is string {
+  if (!model || typeof model !== 'string') {
+    throw new APIError('Invalid or missing model', 400, 'INVALID_MODEL');
+  }
+
+  if (!isAllowedModel(model)) {
+    console.log('[Chat Request] ❌ Model not in allowlist:', model);
+    throw new APIError(
+      `Model "${model}" is not authorized. Allowed models: ${getAllowedModelsString()}`,
+      400,
+      'UNAUTHORIZED_MODEL'
+    );
+  }
+}
+
+/**
+ * Validate sampling parameters against the requested model's limits
+ * Absent params mean "provider default"; anything out of range is rejected rather than
+ * silently clamped so the settings panel and the server never disagree
+ */
+function validateModelParams(model: string, params: unknown): ModelParams {
+  if (params === undefined || params === null) {
+    return {};
+  }
+  if (typeof params !== 'object' || Array.isArray(params)) {
+    throw new APIError('Model params must be an object', 400, 'INVALID_MODEL_PARAMS');
+  }
+
+  const limits = getModelParamLimits(model);
+  const input = params as Record<string, unknown>;
+  const validated: ModelParams = {};
+
+  const readNumber = (key: keyof ModelParams, min: number, max: number, integer = false): number | undefined => {
+    const value = input[key];
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max || (integer && !Number.isInteger(value))) {
+      throw new APIError(
+        `"${key}" must be ${integer ? 'an integer' : 'a number'} between ${min} and ${max} for ${model}`,
+        400,
+        'INVALID_MODEL_PARAMS'
+      );
+    }
+    return value;
+  };
+
+  for (const key of Object.keys(input)) {
+    if (!['temperature', 'max_tokens', 'top_p', 'frequency_penalty', 'presence_penalty'].includes(key)) {
+      throw new APIError(`Unknown model param "${key}"`, 400, 'INVALID_MODEL_PARAMS');
+    }
+  }
 
-    return { role, content };
+  validated.temperature = readNumber('temperature', 0, limits.maxTemperature);
+  validated.max_tokens = readNumber('max_tokens', 1, limits.maxOutputTokens, true);
+  validated.top_p = readNumber('top_p', 0, 1);
+  validated.frequency_penalty = readNumber('frequency_penalty', -2, 2);
+  validated.presence_penalty = readNumber('presence_penalty', -2, 2);
+
+  if (!limits.supportsPenalties && (validated.frequency_penalty !== undefined || validated.presence_penalty !== undefined)) {
+    throw new APIError(`${model} does not support frequency/presence penalties`, 400, 'INVALID_MODEL_PARAMS');
+  }
+
+  // Drop unset keys so they aren't sent upstream as undefined
+  return Object.fromEntries(
+    Object.entries(validated).filter(([, value]) => value !== undefined)
+  ) as ModelParams;
+}
+
+/**
+ * Condenses older turns for the summarize strategy using the first enabled free model,
+ * so summaries are never billed
+ * @param signal - aborts the summary call when the client goes away
+ * @returns undefined when no free model is enabled (the strategy then drops instead)
+ */
+function getHistorySummarizer(signal: AbortSignal): ((transcript: string) => Promise<string>) | undefined {
+  const summaryModel = getEnabledModels().find(m => m.tier === ModelTier.FREE)?.id;
+  if (!summaryModel) {
+    return undefined;
+  }
+
+  return async (transcript) => {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    const timeoutId = setTimeout(abort, SUMMARY_TIMEOUT_MS);
+    signal.addEventListener('abort', abort);
+    if (signal.aborted) abort();
+
+    try {
+      const response = await getOpenRouterClient().chat.send({
+        model: summaryModel,
+        messages: [
+          { role: 'system', content: SUMMARY_INSTRUCTIONS },
+          { role: 'user', content: transcript }
+        ],
+        maxTokens: SUMMARY_MAX_TOKENS,
+        stream: false
+      }, { signal: controller.signal });
+
+      const content = response.choices?.[0]?.message?.content;
+      return typeof content === 'string' ? content : '';
+    } finally {
+      clearTimeout(timeoutId);
+      signal.removeEventListener('abort', abort);
+    }
+  };
+}
+
+/**
+ * Fit the history to the context window of every model that may answer
+ * Throws when even the latest message alone doesn't fit
+ */
+async function fitRequestContext(
+  models: string[],
+  systemPrompt: string,
+  messages: ContextMessage[],
+  modelParams: ModelParams,
+  strategy: ContextStrategy,
+  summarize?: (transcript: string) => Promise<string>
+): Promise<FitContextResult> {
+  const context = await fitHistoryToContext({
+    models,
+    systemPrompt,
+    messages,
+    strategy,
+    reservedOutputTokens: m => formatParamsForModel(m, modelParams).maxTokens ?? getModelParamLimits(m).maxOutputTokens,
+    summarize
   });
+
+  if (!context.fits) {
+    throw new APIError(
+      'Message is too long for the context window of this model',
+      400,
+      'CONTEXT_LENGTH_EXCEEDED'
+    );
+  }
+  return context;
 }
 
 const getOpenRouterClient = () => {
@@ -120,9 +515,103 @@ const getOpenRouterClient = () => {
   });
 };
 
+/**
+ * Estimate the credit cost of a chat request without sending it
+ * POST /api/chat/estimate
+ * Body: same as /stream ({ model, systemPrompt?, messages, params?, contextStrategy? })
+ * Tokenises the history exactly as /stream would format it for the model, after context
+ * trimming (a summary isn't generated here - summarize is estimated as keep_pinned);
+ * params.max_tokens (when set) bounds the output side of the estimate.
+ * Estimates fire while the user types and never reach a model, so they only read circuit
+ * state - a recovering model's half-open trial is left for the real /stream request.
+ */
+chatRouter.post('/estimate', async (req: AuthRequest, res, next) => {
+  try {
+    const { model, systemPrompt, messages, params, contextStrategy } = req.body;
+
+    validateModel(model);
+    const effectiveSystemPrompt = (typeof systemPrompt === 'string') ? systemPrompt : '';
+    const { messages: validatedMessages } = await validateMessages(messages, req.user!.id);
+    const modelParams = validateModelParams(model, params);
+    const context = await fitRequestContext(
+      getModelsToAttempt(model),
+      effectiveSystemPrompt,
+      validatedMessages,
+      modelParams,
+      validateContextStrategy(contextStrategy)
+    );
+
+    res.json(estimateChatCost(model, context.systemPrompt, context.messages, modelParams.max_tokens));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Set SSE headers on a response (no-op once the stream has started)
+ */
+function startEventStream(res: Response): void {
+  if (res.headersSent) {
+    return;
+  }
+  // PERFORMANCE: Set SSE headers FIRST to reduce Time-To-First-Byte
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no'); // Disable nginx buffering
+}
+
+/**
+ * Pipe a generation's events to a response, starting after `afterSeq`
+ * Each event carries its sequence number as the SSE id so the client can resume from it.
+ * @returns false when the generation can't be attached (unknown, expired or not the user's)
+ */
+function attachGenerationStream(res: Response, generationId: string, userId: string, afterSeq: number): boolean {
+  const subscription = subscribeToGeneration(
+    generationId,
+    userId,
+    afterSeq,
+    (seq, data) => {
+      startEventStream(res);
+      res.write(`id: ${seq}\ndata: ${data}\n\n`);
+    },
+    () => {
+      startEventStream(res);
+      res.end();
+    }
+  );
+
+  if (!subscription) {
+    return false;
+  }
+
+  // A dropped connection only detaches this client; the generation keeps running for a
+  // grace period so the client can resume (see generationBuffer)
+  res.on('close', subscription.unsubscribe);
+  return true;
+}
+
 chatRouter.post('/stream', async (req: AuthRequest, res, next) => {
+  // Credit hold for this request - released in every path that doesn't settle it
+  let holdId: string | undefined;
+
+  // Identifies this generation: the handle for resume/cancel and the credit ledger correlation id
+  const generationId = randomUUID();
+
+  // Events go to the generation buffer, which forwards them to whichever client is attached
+  const emit = (payload: object | '[DONE]') => {
+    appendGenerationEvent(generationId, typeof payload === 'string' ? payload : JSON.stringify(payload));
+  };
+
+  // Set when the client goes away (or presses Stop) before the generation exists - e.g. during
+  // document extraction or summarisation. 'close' only fires once, so it is watched from the
+  // start; once the generation is attached, the generation buffer handles disconnects.
+  const requestAbort = new AbortController();
+  const abortRequest = () => requestAbort.abort();
+  res.on('close', abortRequest);
+
   try {
-    const { model, systemPrompt, messages } = req.body;
+    const { model, systemPrompt, messages, params, contextStrategy } = req.body;
 
     // PERFORMANCE: Only log when DEBUG_CHAT is enabled
     if (DEBUG_CHAT) {
@@ -133,94 +622,184 @@ chatRouter.post('/stream', async (req: AuthRequest, res, next) => {
     }
 
     // Validation
-    if (!model || typeof model !== 'string') {
-      throw new APIError('Invalid or missing model', 400, 'INVALID_MODEL');
-    }
-
-    // SECURITY: Validate model against allowlist to prevent unauthorized expensive model usage
-    if (!isAllowedModel(model)) {
-      console.log('[Chat Request] ❌ Model not in allowlist:', model);
-      throw new APIError(
-        `Model "${model}" is not authorized. Allowed models: ${getAllowedModelsString()}`,
-        400,
-        'UNAUTHORIZED_MODEL'
-      );
-    }
+    validateModel(model);
 
     if (DEBUG_CHAT) console.log('[Chat Request] ✅ Model validated successfully');
 
     // systemPrompt is now optional - default to empty string for direct LLM chat
     const effectiveSystemPrompt = (typeof systemPrompt === 'string') ? systemPrompt : '';
 
-    // Validate and sanitize messages (includes message count limit check)
-    const validatedMessages = validateMessages(messages);
-
-    // PERFORMANCE: Set SSE headers FIRST to reduce Time-To-First-Byte
-    res.setHeader('Content-Type', 'text/event-stream');
-    res.setHeader('Cache-Control', 'no-cache');
-    res.setHeader('Connection', 'keep-alive');
-    res.setHeader('X-Accel-Buffering', 'no'); // Disable nginx buffering
-
-    // Pre-flight credit check: only block when user has ZERO credits
-    if (req.user) {
-      const currentBalance = await getTokenBalance(req.user.id);
-
-      // Debug logging to trace credit check flow
-      if (DEBUG_CHAT) {
-        console.log('[Chat] Pre-flight credit check:', {
-          userId: req.user.id,
-          currentBalance,
-          threshold: 0,
-          willBlock: currentBalance <= 0
-        });
-      }
+    // Validate and sanitize messages (includes message count limit check and document extraction)
+    const { messages: validatedMessages, documents } = await validateMessages(messages, req.user!.id);
+    if (requestAbort.signal.aborted) {
+      if (DEBUG_CHAT) console.log('[Chat] Client left during message validation, not starting generation');
+      return;
+    }
 
-      if (currentBalance <= 0) {
-        console.warn('[Chat] BLOCKED - User has no credits:', {
-          userId: req.user.id,
-          balance: currentBalance
-        });
-        // Send error as SSE since headers are already sent
-        res.write(`data: ${JSON.stringify({
-          error: 'Créditos insuficientes. Você não possui créditos disponíveis. Os créditos renovam mensalmente.',
-          code: 'INSUFFICIENT_CREDITS',
-          errorType: 'INSUFFICIENT_TOKENS',
-          currentBalance,
-          retryable: false
-        })}\n\n`);
-        res.end();
-        return;
-      }
+    // Sampling params are validated against the requested model (fallbacks clamp them)
+    const modelParams = validateModelParams(model, params);
+
+    // FALLBACK LOGIC: Get models to attempt (primary + fallbacks)
+    const modelsToAttempt = getModelsToAttempt(model);
+
+    // Fit long histories to the smallest context window in the chain (may call a cheap model
+    // to summarise older turns). From here on only the fitted prompt and history are used.
+    // Users with nothing to spend are refused at the credit hold, so they don't get a summary
+    // call first; without a summarizer the strategy acts as keep_pinned.
+    const strategy = validateContextStrategy(contextStrategy);
+    const canSummarize = strategy === 'summarize' && await getAvailableCredits(req.user!.id) > 0;
+    const context = await fitRequestContext(
+      modelsToAttempt,
+      effectiveSystemPrompt,
+      validatedMessages,
+      modelParams,
+      strategy,
+      canSummarize ? getHistorySummarizer(requestAbort.signal) : undefined
+    );
+    const promptSystem = context.systemPrompt;
+    const promptMessages = context.messages;
+
+    // Nobody to stream to, and no generation id was sent that could resume or cancel it
+    if (requestAbort.signal.aborted) {
+      if (DEBUG_CHAT) console.log('[Chat] Client left while the context was being fitted, not starting generation');
+      return;
     }
 
-    const openRouter = getOpenRouterClient();
+    startEventStream(res);
+    res.setHeader('X-Generation-Id', generationId);
 
-    // Create abort controller for timeout
+    // Aborts the upstream call on timeout, on Stop (cancel endpoint) or when the client
+    // went away and didn't reconnect in time
     const controller = new AbortController();
+    // Object wrapper so TypeScript doesn't narrow the closure-assigned value to null
+    const abortState: { reason: GenerationAbortReason | null } = { reason: null };
+
+    createGeneration(generationId, req.user!.id, reason => {
+      abortState.reason = reason;
+      controller.abort();
+      if (DEBUG_CHAT) console.log(`[Chat] Generation ${generationId} ${reason}, aborting upstream request`);
+    });
+    attachGenerationStream(res, generationId, req.user!.id, 0);
+    res.off('close', abortRequest);
+
+    // First event: lets the client resume or cancel this generation
+    emit({ generation: { id: generationId } });
+
+    // Tell the client what was left out of the model's context
+    if (context.report) {
+      emit({ context: context.report });
+    }
+
+    // Page/line counts of the documents just attached (shown on their attachments)
+    if (documents.length > 0) {
+      emit({ documents });
+    }
+
+    // Pre-flight: hold the estimated cost so concurrent requests can't overspend
+    // Partial holds are allowed, so this only blocks when nothing is spendable
+    // Uses the most expensive model in the fallback chain since any of them may end up answering
+    const estimatedCost = Math.max(...modelsToAttempt.map(
+      m => estimateChatCost(m, promptSystem, promptMessages, formatParamsForModel(m, modelParams).maxTokens).maxCredits
+    ));
+    const reservation = await reserveCredits(req.user!.id, estimatedCost, `Chat completion (${model})`, {
+      allowPartial: true,
+      ttlMs: STREAM_TIMEOUT_MS * 2
+    });
+
+    if (DEBUG_CHAT) {
+      console.log('[Chat] Pre-flight credit hold:', {
+        userId: req.user!.id,
+        estimatedCost,
+        held: reservation.held,
+        available: reservation.available
+      });
+    }
+
+    if (!reservation.success || !reservation.holdId) {
+      console.warn('[Chat] BLOCKED - User has no spendable credits:', {
+        userId: req.user!.id,
+        available: reservation.available
+      });
+      // Send error as SSE since headers are already sent
+      emit({
+        error: 'Créditos insuficientes. Você não possui créditos disponíveis. Os créditos renovam mensalmente.',
+        code: 'INSUFFICIENT_CREDITS',
+        errorType: 'INSUFFICIENT_TOKENS',
+        currentBalance: reservation.available,
+        retryable: false
+      });
+      completeGeneration(generationId);
+      return;
+    }
+    holdId = reservation.holdId;
+
+    // Stopped while we were reserving (finally releases the hold)
+    if (abortState.reason) {
+      emit({ interrupted: true, reason: abortState.reason });
+      completeGeneration(generationId);
+      return;
+    }
+
+    const openRouter = getOpenRouterClient();
+
     const timeoutId = setTimeout(() => controller.abort(), STREAM_TIMEOUT_MS);
 
-    // FALLBACK LOGIC: Get models to attempt (primary + fallbacks)
-    const modelsToAttempt = getModelsToAttempt(model);
     const attemptedModels: string[] = [];
     // Use object wrapper to prevent TypeScript closure narrowing issues
     const errorState: { lastClassifiedError: ClassifiedError | null } = { lastClassifiedError: null };
     let successfulModel: string | null = null;
 
+    /**
+     * Bill the part of a reply produced before the stream was aborted (Stop/disconnect/timeout)
+     * No usage chunk arrives on abort, so tokens are counted locally: the prompt as formatted
+     * for the model plus the text streamed so far. Nothing produced means nothing is charged.
+     */
+    async function settleInterruptedStream(currentModel: string, partialContent: string): Promise<void> {
+      if (!partialContent || !req.user) {
+        return;
+      }
+
+      const promptTokens = countPromptTokens(currentModel, promptSystem, promptMessages);
+      const completionTokens = countCompletionTokens(partialContent);
+      const { credits } = calculateChatCost(currentModel, promptTokens, completionTokens);
+
+      try {
+        const result = await settleCredits(
+          holdId!,
+          req.user.id,
+          credits,
+          `Chat completion (${currentModel}, interrupted)`,
+          { model: currentModel, promptTokens, completionTokens, requestId: generationId }
+        );
+
+        if (!result.success) {
+          console.error('[Chat] Failed to bill interrupted stream:', result.error);
+        } else if (DEBUG_CHAT) {
+          console.log('[Chat] Billed interrupted stream:', { model: currentModel, promptTokens, completionTokens, credits });
+        }
+      } catch (error) {
+        console.error('[Chat] Exception while billing interrupted stream:', error);
+      }
+    }
+
     /**
      * Helper function to attempt streaming with a specific model
      */
     async function attemptStreamWithModel(currentModel: string): Promise<boolean> {
       attemptedModels.push(currentModel);
+      // Everything sent to the client so far - billed if the stream is aborted
+      let streamedContent = '';
+
       if (DEBUG_CHAT) console.log(`[Chat Fallback] Attempting model: ${currentModel} (attempt ${attemptedModels.length}/${modelsToAttempt.length})`);
 
       try {
         // Use model adapter to format messages appropriately for each model
-        const formattedMessages = formatMessagesForModel(currentModel, effectiveSystemPrompt, validatedMessages);
+        const formattedMessages = formatMessagesForModel(currentModel, promptSystem, promptMessages);
 
         // DIAGNOSTIC: Log exactly what we're sending to OpenRouter
         if (DEBUG_CHAT) {
           console.log('[Chat API Call] Model ID being sent to OpenRouter:', currentModel);
-          console.log('[Chat API Call] System prompt length:', effectiveSystemPrompt.length);
+          console.log('[Chat API Call] System prompt length:', promptSystem.length);
           console.log('[Chat API Call] Number of messages:', formattedMessages.length);
           console.log('[Chat API Call] First message role:', formattedMessages[0]?.role);
         }
@@ -230,6 +809,7 @@ chatRouter.post('/stream', async (req: AuthRequest, res, next) => {
         const stream = await openRouter.chat.send({
           model: currentModel,
           messages: formattedMessages as any,
+          ...formatParamsForModel(currentModel, modelParams),
           stream: true,
           streamOptions: {
             includeUsage: true
@@ -240,6 +820,7 @@ chatRouter.post('/stream', async (req: AuthRequest, res, next) => {
 
         let promptTokens = 0;
         let completionTokens = 0;
+        let cachedTokens = 0;
         let usageCaptured = false;
 
         // Stream content to client
@@ -251,36 +832,37 @@ chatRouter.post('/stream', async (req: AuthRequest, res, next) => {
 
           const content = chunk.choices?.[0]?.delta?.content;
           if (content) {
-            res.write(`data: ${JSON.stringify({ content })}\n\n`);
+            streamedContent += content;
+            emit({ content });
           }
 
           // Capture token usage from final chunk (split into input/output)
           if (chunk.usage?.promptTokens && chunk.usage?.completionTokens) {
             promptTokens = chunk.usage.promptTokens;
             completionTokens = chunk.usage.completionTokens;
+            cachedTokens = chunk.usage.promptTokensDetails?.cachedTokens ?? 0;
             usageCaptured = true;
-            if (DEBUG_CHAT) console.log('[Chat Usage] Prompt tokens:', promptTokens, 'Completion tokens:', completionTokens);
+            if (DEBUG_CHAT) console.log('[Chat Usage] Prompt tokens:', promptTokens, 'Completion tokens:', completionTokens, 'Cached:', cachedTokens);
           }
         }
 
+        // The SDK may end the iterator quietly on abort instead of throwing
+        controller.signal.throwIfAborted();
+
         // FIX: Handle missing usage data from OpenRouter
         if (!usageCaptured || (promptTokens === 0 && completionTokens === 0)) {
           console.warn('[Chat] No usage data received from OpenRouter for request. Unable to deduct tokens.');
-          res.write(`data: ${JSON.stringify({
+          emit({
             warning: 'Token usage could not be tracked for this request'
-          })}\n\n`);
+          });
         }
 
         // Deduct credits after successful stream completion (only if we have usage data)
         if (usageCaptured && (promptTokens > 0 || completionTokens > 0) && req.user) {
           try {
-            // NEW PRICING MODEL: Calculate cost based on input/output split
-            // Cost = ((promptTokens/1M × 100) + (completionTokens/1M × 300)) * Multiplier
-            // PERFORMANCE: CREDIT_COSTS is now imported at top-level (no dynamic import)
-            const multiplier = getModelCostMultiplier(currentModel);
-            const inputCost = (promptTokens / 1_000_000) * CREDIT_COSTS.TEXT_INPUT_PER_1M;
-            const outputCost = (completionTokens / 1_000_000) * CREDIT_COSTS.TEXT_OUTPUT_PER_1M;
-            const totalCost = (inputCost + outputCost) * multiplier;
+            // Per-model input/output/cached rates × tier multiplier (see calculateChatCost)
+            const { inputCost, outputCost, multiplier, totalCost, credits: actualCost } =
+              calculateChatCost(currentModel, promptTokens, completionTokens, cachedTokens);
 
             if (DEBUG_CHAT) {
               console.log('[Chat Usage Debug]', {
@@ -288,27 +870,28 @@ chatRouter.post('/stream', async (req: AuthRequest, res, next) => {
                 multiplier,
                 promptTokens,
                 completionTokens,
+                cachedTokens,
                 inputCost,
                 outputCost,
                 totalCost
               });
             }
 
-            // Minimum 1 credit per request, round up
-            const actualCost = Math.max(CREDIT_COSTS.MIN_CHAT_CREDITS, Math.ceil(totalCost));
-
-            const deductionResult = await deductTokens(
+            const deductionResult = await settleCredits(
+              holdId!,
               req.user.id,
               actualCost,
-              `Chat completion (${currentModel})`
+              `Chat completion (${currentModel})`,
+              { model: currentModel, promptTokens, completionTokens, requestId: generationId }
             );
 
             // Send usage info to client
             if (deductionResult.success) {
-              res.write(`data: ${JSON.stringify({
+              emit({
                 usage: {
                   promptTokens,
                   completionTokens,
+                  cachedTokens,
                   totalApiTokens: promptTokens + completionTokens,
                   costCalculation: {
                     inputCost: inputCost.toFixed(4),
@@ -317,44 +900,57 @@ chatRouter.post('/stream', async (req: AuthRequest, res, next) => {
                     totalCost: totalCost.toFixed(4)
                   },
                   tokensDeducted: actualCost,
-                  newBalance: deductionResult.newBalance
+                  newBalance: deductionResult.newBalance,
+                  requestId: generationId
                 }
-              })}\n\n`);
+              });
             } else {
               console.error('[Chat] Failed to deduct tokens:', deductionResult.error);
-              res.write(`data: ${JSON.stringify({
+              emit({
                 warning: 'Token deduction failed',
                 error: deductionResult.error
-              })}\n\n`);
+              });
             }
           } catch (error) {
             console.error('[Chat] Exception during token deduction:', error);
-            res.write(`data: ${JSON.stringify({
+            emit({
               warning: 'Token deduction failed due to exception'
-            })}\n\n`);
+            });
           }
         }
 
         // Success! Mark which model was used
         successfulModel = currentModel;
+        recordModelSuccess(currentModel);
 
         // Notify client if fallback was used
         if (currentModel !== model) {
-          res.write(`data: ${JSON.stringify({
+          emit({
             fallback: {
               used: true,
               primaryModel: model,
               actualModel: currentModel,
               message: `Primary model unavailable. Response generated with ${currentModel}`
             }
-          })}\n\n`);
+          });
         }
 
         return true; // Success
       } catch (error) {
+        // Aborted by us: bill the partial reply and stop - falling back would just abort again.
+        // A timeout says something about the model; the user pressing Stop doesn't.
+        if (controller.signal.aborted) {
+          if (!abortState.reason) {
+            recordModelFailure(currentModel, classifyError(error));
+          }
+          await settleInterruptedStream(currentModel, streamedContent);
+          throw error;
+        }
+
         // Classify the error
         const classified = classifyError(error);
         errorState.lastClassifiedError = classified;
+        recordModelFailure(currentModel, classified);
 
         console.error(`[Chat Fallback] Model ${currentModel} failed:`, {
           type: classified.type,
@@ -400,14 +996,22 @@ chatRouter.post('/stream', async (req: AuthRequest, res, next) => {
 
     try {
       // Try each model in sequence until one succeeds
-      for (const currentModel of modelsToAttempt) {
+      for (const [index, currentModel] of modelsToAttempt.entries()) {
+        // Claim a recovering model's trial right before the upstream call; skip it while another
+        // request's trial is in flight, unless nothing else is left to try
+        const isLastResort = index === modelsToAttempt.length - 1 && attemptedModels.length === 0;
+        if (!acquireTrial(currentModel) && !isLastResort) {
+          if (DEBUG_CHAT) console.log(`[Chat Fallback] Skipping ${currentModel}: circuit trial in progress`);
+          continue;
+        }
+
         const success = await attemptStreamWithModel(currentModel);
         if (success) {
           break; // Success! Exit loop
         }
 
         // If not the last model, log that we're trying fallback
-        const remainingModels = modelsToAttempt.slice(modelsToAttempt.indexOf(currentModel) + 1);
+        const remainingModels = modelsToAttempt.slice(index + 1);
         if (remainingModels.length > 0) {
           console.log(`[Chat Fallback] Trying next fallback: ${remainingModels[0]}`);
         }
@@ -429,26 +1033,32 @@ chatRouter.post('/stream', async (req: AuthRequest, res, next) => {
           technicalDetails: classifiedErr?.technicalDetails
         };
 
-        res.write(`data: ${JSON.stringify(errorData)}\n\n`);
-        res.end();
+        emit(errorData);
+        completeGeneration(generationId);
         clearTimeout(timeoutId);
         return;
       }
 
       // Successful completion
-      res.write('data: [DONE]\n\n');
-      res.end();
+      emit('[DONE]');
+      completeGeneration(generationId);
     } catch (error) {
-      if (error instanceof Error && error.name === 'AbortError') {
+      if (abortState.reason) {
+        // The partial reply was billed in attemptStreamWithModel; a client resuming later
+        // learns the generation ended early
+        console.log('[Chat] Stream stopped', { reason: abortState.reason, userId: req.user?.id, model, attemptedModels, generationId });
+        emit({ interrupted: true, reason: abortState.reason });
+        completeGeneration(generationId);
+      } else if (controller.signal.aborted || (error instanceof Error && error.name === 'AbortError')) {
         const classified = classifyError(error);
-        res.write(`data: ${JSON.stringify({
+        emit({
           error: classified.userFriendlyMessage,
           code: classified.type,
           errorType: classified.type,
           attemptedModels,
           retryable: classified.retryable
-        })}\n\n`);
-        res.end();
+        });
+        completeGeneration(generationId);
       } else {
         throw error;
       }
@@ -470,12 +1080,57 @@ chatRouter.post('/stream', async (req: AuthRequest, res, next) => {
         error
       });
 
-      res.write(`data: ${JSON.stringify({
+      emit({
         error: `Stream error: ${errorMessage}`,
         code: errorName,
         details: 'Check server logs for full error details'
-      })}\n\n`);
-      res.end();
+      });
+      completeGeneration(generationId);
     }
+  } finally {
+    // No-op if the hold was settled; otherwise frees credits held for a failed/aborted request
+    if (holdId) {
+      releaseCredits(holdId);
+    }
+  }
+});
+
+/**
+ * Resume a generation after a dropped connection
+ * GET /api/chat/stream/:generationId
+ * Header: Last-Event-ID - the last event the client received; later events are replayed,
+ * then the stream continues live. Nothing is re-run or re-billed.
+ */
+chatRouter.get('/stream/:generationId', (req: AuthRequest, res, next) => {
+  try {
+    const lastEventId = Number(req.get('Last-Event-ID') ?? 0);
+    if (!Number.isInteger(lastEventId) || lastEventId < 0) {
+      throw new APIError('Invalid Last-Event-ID', 400, 'INVALID_LAST_EVENT_ID');
+    }
+
+    if (!attachGenerationStream(res, req.params.generationId, req.user!.id, lastEventId)) {
+      throw new APIError('Generation not found or expired', 404, 'GENERATION_NOT_FOUND');
+    }
+
+    if (DEBUG_CHAT) console.log(`[Chat] Client resumed generation ${req.params.generationId} after event ${lastEventId}`);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Stop a running generation (Stop button)
+ * POST /api/chat/stream/:generationId/cancel
+ * The upstream call is aborted and the tokens produced so far are billed
+ */
+chatRouter.post('/stream/:generationId/cancel', (req: AuthRequest, res, next) => {
+  try {
+    if (!cancelGeneration(req.params.generationId, req.user!.id)) {
+      throw new APIError('Generation not found or expired', 404, 'GENERATION_NOT_FOUND');
+    }
+
+    res.json({ cancelled: true });
+  } catch (error) {
+    next(error);
   }
 });
@@ -0,0 +1,623 @@
+/**
+ * Conversation Routes - Server-side conversation persistence and sync
+ * The client keeps localStorage as an offline cache and reconciles through /sync
+ */
+
+import { Router } from 'express';
+import { AuthRequest } from '../middleware/auth.js';
+import { APIError } from '../middleware/errorHandler.js';
+import {
+  listConversations,
+  getConversation,
+  createConversation,
+  updateConversation,
+  deleteConversation,
+  applyConversationChanges,
+  getConversationBytes,
+  ConversationQuota,
+  StoredAttachment,
+  StoredConversation,
+  StoredConversationPersona,
+  StoredMemoryNote,
+  StoredMessage
+} from '../lib/conversationStorage.js';
+import { CONTEXT_STRATEGIES, ContextStrategy } from '../lib/contextWindow.js';
+import { isFileId } from '../lib/fileStorage.js';
+
+export const conversationsRouter = Router();
+
+// Constants for validation
+const MAX_CONVERSATIONS_PER_SYNC = 200;
+const MAX_MESSAGES_PER_CONVERSATION = 1000;
+const MAX_TITLE_LENGTH = 200;
+const MAX_ID_LENGTH = 100;
+const MAX_MODEL_PARAMS = 10;
+const MAX_PERSONA_NAME_LENGTH = 60;
+const MAX_SYSTEM_PROMPT_LENGTH = 8000;
+const MAX_MEMORY_NOTES = 50;
+const MAX_MEMORY_NOTE_LENGTH = 2000;
+const MAX_FOLDER_LENGTH = 60;
+const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 30;
+const MAX_USER_MESSAGE_LENGTH = 32000;      // Mirrors MESSAGE_LIMITS.MAX_MESSAGE_LENGTH on the client
+const MAX_ASSISTANT_MESSAGE_LENGTH = 256000; // Replies aren't bound by the typing limit
+const MAX_ATTACHMENTS_PER_MESSAGE = 10;     // Mirrors FILE_LIMITS.MAX_FILES on the client
+const MAX_ATTACHMENT_NAME_LENGTH = 255;
+const MAX_MIME_TYPE_LENGTH = 100;
+const MAX_INLINE_ATTACHMENT_LENGTH = 4 * 1024 * 1024; // Base64 kept inline by attachments saved before the file store
+const MAX_MEDIA_PROMPT_LENGTH = 4000;
+const MAX_CONVERSATION_BYTES = 10 * 1024 * 1024; // Mirrors SYNC.MAX_BATCH_BYTES, so any conversation fits one sync
+
+// Per-user storage limits, enforced by conversationStorage under the user's lock
+const CONVERSATION_QUOTA: ConversationQuota = {
+  maxConversations: 5000,
+  maxBytes: 200 * 1024 * 1024,
+  maxConversationBytes: MAX_CONVERSATION_BYTES
+};
+
+/**
+ * Parse the optional `since` cursor (ms timestamp)
+ */
+function parseSince(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  const since = Number(value);
+  if (!Number.isFinite(since) || since < 0) {
+    throw new APIError('Invalid "since" timestamp', 400, 'INVALID_SINCE');
+  }
+  return since;
+}
+
+/**
+ * Validate a conversation ID coming from the client
+ */
+function validateId(id: unknown, label = 'id'): string {
+  if (typeof id !== 'string' || id.length === 0 || id.length > MAX_ID_LENGTH) {
+    throw new APIError(`Invalid conversation ${label}`, 400, 'INVALID_CONVERSATION_ID');
+  }
+  return id;
+}
+
+/**
+ * Validate an attachment and keep only the fields the client renders
+ * Attachments in the file store are kept by reference, without their inline data
+ */
+function validateStoredAttachment(value: unknown, messageIndex: number): StoredAttachment {
+  const att = (value ?? {}) as Record<string, unknown>;
+  const isCount = (n: unknown) => n === undefined || (typeof n === 'number' && Number.isFinite(n) && n >= 0);
+
+  if (typeof att.name !== 'string' || att.name.length > MAX_ATTACHMENT_NAME_LENGTH ||
+    typeof att.type !== 'string' || att.type.length > MAX_MIME_TYPE_LENGTH ||
+    (att.fileId !== undefined && !isFileId(att.fileId)) ||
+    !isCount(att.size) || !isCount(att.pages) || !isCount(att.lines)) {
+    throw new APIError(`Invalid attachment at index ${messageIndex}`, 400, 'INVALID_MESSAGE');
+  }
+
+  const fileId = att.fileId as string | undefined;
+  if (!fileId && (typeof att.data !== 'string' || att.data.length > MAX_INLINE_ATTACHMENT_LENGTH)) {
+    throw new APIError(`Attachment too large at index ${messageIndex}`, 400, 'ATTACHMENT_TOO_LARGE');
+  }
+
+  return {
+    name: att.name,
+    type: att.type,
+    data: fileId ? '' : att.data as string,
+    ...(fileId && { fileId }),
+    ...(att.size !== undefined && { size: att.size as number }),
+    ...(att.pages !== undefined && { pages: att.pages as number }),
+    ...(att.lines !== undefined && { lines: att.lines as number })
+  };
+}
+
+/**
+ * Validate generated media shown in a message
+ */
+function validateStoredMedia(value: unknown, index: number): StoredMessage['media'] {
+  const media = (value ?? {}) as Record<string, unknown>;
+
+  if ((media.type !== 'image' && media.type !== 'video') ||
+    typeof media.url !== 'string' ||
+    typeof media.mimeType !== 'string' || media.mimeType.length > MAX_MIME_TYPE_LENGTH ||
+    (media.prompt !== undefined && (typeof media.prompt !== 'string' || media.prompt.length > MAX_MEDIA_PROMPT_LENGTH))) {
+    throw new APIError(`Invalid media at index ${index}`, 400, 'INVALID_MESSAGE');
+  }
+
+  return {
+    type: media.type,
+    url: media.url,
+    mimeType: media.mimeType,
+    ...(media.prompt !== undefined && { prompt: media.prompt as string })
+  };
+}
+
+/**
+ * Validate messages and keep only known fields (content is stored as-is; sanitization happens at send time)
+ */
+function validateStoredMessages(messages: unknown): StoredMessage[] {
+  if (!Array.isArray(messages)) {
+    throw new APIError('Messages must be an array', 400, 'INVALID_MESSAGES');
+  }
+
+  if (messages.length > MAX_MESSAGES_PER_CONVERSATION) {
+    throw new APIError(
+      `Too many messages. Maximum ${MAX_MESSAGES_PER_CONVERSATION} messages per conversation.`,
+      400,
+      'TOO_MANY_MESSAGES'
+    );
+  }
+
+  return messages.map((msg, index) => {
+    if (!msg || typeof msg !== 'object') {
+      throw new APIError(`Invalid message at index ${index}`, 400, 'INVALID_MESSAGE');
+    }
+
+    const message = msg as Record<string, unknown>;
+    if (typeof message.id !== 'string' || message.id.length === 0 || message.id.length > MAX_ID_LENGTH ||
+      (message.role !== 'user' && message.role !== 'assistant') ||
+      typeof message.content !== 'string') {
+      throw new APIError(`Invalid message at index ${index}`, 400, 'INVALID_MESSAGE');
+    }
+
+    const maxLength = message.role === 'user' ? MAX_USER_MESSAGE_LENGTH : MAX_ASSISTANT_MESSAGE_LENGTH;
+    if (message.content.length > maxLength) {
+      throw new APIError(
+        `Message too long at index ${index}. Maximum ${maxLength} characters.`,
+        400,
+        'MESSAGE_TOO_LONG'
+      );
+    }
+
+    if (message.timestamp !== undefined && typeof message.timestamp !== 'number') {
+      throw new APIError(`Invalid timestamp at index ${index}`, 400, 'INVALID_MESSAGE');
+    }
+
+    if (message.attachments !== undefined &&
+      (!Array.isArray(message.attachments) || message.attachments.length > MAX_ATTACHMENTS_PER_MESSAGE)) {
+      throw new APIError(
+        `Invalid attachments at index ${index}. Maximum ${MAX_ATTACHMENTS_PER_MESSAGE} per message.`,
+        400,
+        'INVALID_MESSAGE'
+      );
+    }
+
+    if (message.parentId !== undefined && message.parentId !== null &&
+      (typeof message.parentId !== 'string' || message.parentId === message.id)) {
+      throw new APIError(`Invalid parentId at index ${index}`, 400, 'INVALID_MESSAGE');
+    }
+
+    if ((message.pinned !== undefined && typeof message.pinned !== 'boolean') ||
+      (message.interrupted !== undefined && typeof message.interrupted !== 'boolean')) {
+      throw new APIError(`Invalid pinned/interrupted flag at index ${index}`, 400, 'INVALID_MESSAGE');
+    }
+
+    const trim = message.contextTrim as Record<string, unknown> | undefined;
+    if (trim !== undefined &&
+      (!trim || typeof trim.droppedMessages !== 'number' || typeof trim.summarized !== 'boolean')) {
+      throw new APIError(`Invalid contextTrim at index ${index}`, 400, 'INVALID_MESSAGE');
+    }
+
+    return {
+      id: message.id,
+      role: message.role,
+      content: message.content,
+      ...(message.timestamp !== undefined && { timestamp: message.timestamp as number }),
+      ...(message.attachments !== undefined && {
+        attachments: (message.attachments as unknown[]).map(att => validateStoredAttachment(att, index))
+      }),
+      ...(message.media !== undefined && { media: validateStoredMedia(message.media, index) }),
+      ...(message.parentId !== undefined && { parentId: message.parentId as string | null }),
+      ...(message.interrupted !== undefined && { interrupted: message.interrupted as boolean }),
+      ...(trim !== undefined && {
+        contextTrim: { droppedMessages: trim.droppedMessages as number, summarized: trim.summarized as boolean }
+      }),
+      ...(message.pinned !== undefined && { pinned: message.pinned as boolean })
+    };
+  });
+}
+
+/**
+ * Validate the active branch pointer against the conversation's messages
+ */
+function validateActiveLeafId(activeLeafId: unknown, messages: StoredMessage[]): string | undefined {
+  if (activeLeafId === undefined || activeLeafId === null) {
+    return undefined;
+  }
+
+  if (typeof activeLeafId !== 'string' || !messages.some(m => m.id === activeLeafId)) {
+    throw new APIError('Invalid activeLeafId', 400, 'INVALID_CONVERSATION');
+  }
+  return activeLeafId;
+}
+
+/**
+ * Validate the stored sampling settings shape (limits are enforced when a message is sent)
+ */
+function validateStoredModelParams(modelParams: unknown): Record<string, number> | undefined {
+  if (modelParams === undefined || modelParams === null) {
+    return undefined;
+  }
+
+  if (typeof modelParams !== 'object' || Array.isArray(modelParams) ||
+    Object.keys(modelParams).length > MAX_MODEL_PARAMS ||
+    Object.values(modelParams).some(value => typeof value !== 'number' || !Number.isFinite(value))) {
+    throw new APIError('Invalid modelParams', 400, 'INVALID_CONVERSATION');
+  }
+  return modelParams as Record<string, number>;
+}
+
+/**
+ * Validate the persona snapshot a conversation was started with
+ */
+function validateConversationPersona(persona: unknown): StoredConversationPersona | undefined {
+  if (persona === undefined || persona === null) {
+    return undefined;
+  }
+
+  const p = persona as Record<string, unknown>;
+  if (typeof persona !== 'object' ||
+    typeof p.id !== 'string' || p.id.length === 0 || p.id.length > MAX_ID_LENGTH ||
+    typeof p.name !== 'string' || p.name.length > MAX_PERSONA_NAME_LENGTH ||
+    typeof p.icon !== 'string' || p.icon.length > MAX_ID_LENGTH ||
+    typeof p.systemPrompt !== 'string' || p.systemPrompt.length > MAX_SYSTEM_PROMPT_LENGTH) {
+    throw new APIError('Invalid persona', 400, 'INVALID_CONVERSATION');
+  }
+  return { id: p.id, name: p.name, icon: p.icon, systemPrompt: p.systemPrompt };
+}
+
+/**
+ * Validate the conversation's long-history strategy
+ */
+function validateStoredContextStrategy(strategy: unknown): ContextStrategy | undefined {
+  if (strategy === undefined || strategy === null) {
+    return undefined;
+  }
+
+  if (!CONTEXT_STRATEGIES.includes(strategy as ContextStrategy)) {
+    throw new APIError('Invalid contextStrategy', 400, 'INVALID_CONVERSATION');
+  }
+  return strategy as ContextStrategy;
+}
+
+/**
+ * Validate the conversation's memory notes
+ */
+function validateMemoryNotes(notes: unknown): StoredMemoryNote[] | undefined {
+  if (notes === undefined || notes === null) {
+    return undefined;
+  }
+
+  if (!Array.isArray(notes) || notes.length > MAX_MEMORY_NOTES) {
+    throw new APIError(`Invalid memoryNotes. Maximum ${MAX_MEMORY_NOTES} notes.`, 400, 'INVALID_CONVERSATION');
+  }
+
+  return notes.map((note, index) => {
+    const n = (note ?? {}) as Record<string, unknown>;
+    if (typeof n.id !== 'string' || n.id.length === 0 || n.id.length > MAX_ID_LENGTH ||
+      typeof n.text !== 'string' || n.text.trim().length === 0 || n.text.length > MAX_MEMORY_NOTE_LENGTH ||
+      typeof n.createdAt !== 'number') {
+      throw new APIError(`Invalid memory note at index ${index}`, 400, 'INVALID_CONVERSATION');
+    }
+    return { id: n.id, text: n.text, createdAt: n.createdAt };
+  });
+}
+
+/**
+ * Validate the sidebar organisation fields (folder, tags, pinned, archived)
+ */
+function validateOrganization(body: Record<string, unknown>): Pick<StoredConversation, 'folder' | 'tags' | 'pinned' | 'archived'> {
+  const { folder, tags, pinned, archived } = body;
+
+  if (folder !== undefined && folder !== null &&
+    (typeof folder !== 'string' || folder.length > MAX_FOLDER_LENGTH)) {
+    throw new APIError('Invalid folder', 400, 'INVALID_CONVERSATION');
+  }
+
+  if (tags !== undefined && tags !== null &&
+    (!Array.isArray(tags) || tags.length > MAX_TAGS ||
+      tags.some(tag => typeof tag !== 'string' || tag.trim().length === 0 || tag.length > MAX_TAG_LENGTH))) {
+    throw new APIError(`Invalid tags. Maximum ${MAX_TAGS} tags of ${MAX_TAG_LENGTH} characters.`, 400, 'INVALID_CONVERSATION');
+  }
+
+  if ((pinned !== undefined && typeof pinned !== 'boolean') ||
+    (archived !== undefined && typeof archived !== 'boolean')) {
+    throw new APIError('Invalid pinned/archived flag', 400, 'INVALID_CONVERSATION');
+  }
+
+  return {
+    folder: (folder as string | null | undefined) || undefined,
+    tags: (tags as string[] | null | undefined) ?? undefined,
+    pinned: pinned as boolean | undefined,
+    archived: archived as boolean | undefined
+  };
+}
+
+/**
+ * Refuse a conversation too large to store
+ */
+function validateConversationSize(conversation: StoredConversation): StoredConversation {
+  if (getConversationBytes(conversation) > MAX_CONVERSATION_BYTES) {
+    throw new APIError(
+      `Conversation too large. Maximum ${MAX_CONVERSATION_BYTES} bytes.`,
+      413,
+      'CONVERSATION_TOO_LARGE'
+    );
+  }
+  return conversation;
+}
+
+/**
+ * Validate a full conversation payload
+ * The stored object is built from known fields only (syncedAt is server-owned and never copied)
+ */
+function validateConversation(body: unknown): StoredConversation {
+  if (!body || typeof body !== 'object') {
+    throw new APIError('Invalid conversation', 400, 'INVALID_CONVERSATION');
+  }
+
+  const conv = body as Record<string, unknown>;
+  const id = validateId(conv.id);
+
+  if (typeof conv.title !== 'string' || conv.title.length > MAX_TITLE_LENGTH) {
+    throw new APIError('Invalid conversation title', 400, 'INVALID_TITLE');
+  }
+
+  if (typeof conv.lastModified !== 'number') {
+    throw new APIError('Invalid lastModified timestamp', 400, 'INVALID_CONVERSATION');
+  }
+
+  if (conv.modelId !== undefined && (typeof conv.modelId !== 'string' || conv.modelId.length > MAX_ID_LENGTH)) {
+    throw new APIError('Invalid modelId', 400, 'INVALID_CONVERSATION');
+  }
+
+  const now = Date.now();
+  const messages = validateStoredMessages(conv.messages);
+
+  return validateConversationSize({
+    id,
+    title: conv.title,
+    messages,
+    activeLeafId: validateActiveLeafId(conv.activeLeafId, messages),
+    modelParams: validateStoredModelParams(conv.modelParams),
+    persona: validateConversationPersona(conv.persona),
+    contextStrategy: validateStoredContextStrategy(conv.contextStrategy),
+    memoryNotes: validateMemoryNotes(conv.memoryNotes),
+    ...validateOrganization(conv),
+    lastModified: conv.lastModified,
+    modelId: conv.modelId as string | undefined,
+    createdAt: typeof conv.createdAt === 'number' ? conv.createdAt : conv.lastModified,
+    updatedAt: typeof conv.updatedAt === 'number' ? conv.updatedAt : now
+  });
+}
+
+/**
+ * A conversation the sync refused; `index` points into the request's `conversations` array
+ */
+interface InvalidSyncItem {
+  index: number;
+  id: string | null;
+  code: string;
+  error: string;
+}
+
+/**
+ * List conversations
+ * GET /api/conversations?since=<ms>
+ */
+conversationsRouter.get('/', async (req: AuthRequest, res, next) => {
+  try {
+    const since = parseSince(req.query.since);
+    const result = await listConversations(req.user!.id, since);
+
+    res.json({ ...result, serverTime: Date.now() });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Incremental sync
+ * POST /api/conversations/sync
+ * Body: { since?: number, conversations: Conversation[], deletedIds: string[] }
+ * Applies local changes, then returns everything changed on the server after `since`.
+ * Conversations are validated one by one: invalid ones are reported in `invalid` and skipped,
+ * so one bad conversation can't block the rest of the batch. Conversations that would take the
+ * user over their storage quota are reported there too. Malformed deletedIds can't name
+ * a stored conversation and are ignored.
+ */
+conversationsRouter.post('/sync', async (req: AuthRequest, res, next) => {
+  try {
+    const { since, conversations = [], deletedIds = [] } = req.body ?? {};
+    const sinceTs = parseSince(since);
+
+    if (!Array.isArray(conversations) || !Array.isArray(deletedIds)) {
+      throw new APIError('conversations and deletedIds must be arrays', 400, 'INVALID_SYNC_PAYLOAD');
+    }
+
+    if (conversations.length > MAX_CONVERSATIONS_PER_SYNC) {
+      throw new APIError(
+        `Too many conversations in one sync. Maximum ${MAX_CONVERSATIONS_PER_SYNC}.`,
+        400,
+        'SYNC_TOO_LARGE'
+      );
+    }
+
+    const upserts: StoredConversation[] = [];
+    const invalid: InvalidSyncItem[] = [];
+    conversations.forEach((conversation: unknown, index: number) => {
+      try {
+        upserts.push(validateConversation(conversation));
+      } catch (error) {
+        if (!(error instanceof APIError)) throw error;
+        const id = (conversation as { id?: unknown } | null)?.id;
+        invalid.push({
+          index,
+          id: typeof id === 'string' ? id.slice(0, MAX_ID_LENGTH) : null,
+          code: error.code,
+          error: error.message
+        });
+      }
+    });
+    const deletions = deletedIds.filter((id: unknown): id is string =>
+      typeof id === 'string' && id.length > 0 && id.length <= MAX_ID_LENGTH
+    );
+
+    // Capture the cursor before applying so nothing written during this request is skipped next time
+    const serverTime = Date.now();
+    const { accepted, rejected, overQuota } = await applyConversationChanges(
+      req.user!.id,
+      upserts,
+      deletions,
+      CONVERSATION_QUOTA
+    );
+    for (const id of overQuota) {
+      invalid.push({
+        index: conversations.findIndex((conversation: { id?: unknown } | null) => conversation?.id === id),
+        id,
+        code: 'CONVERSATION_QUOTA_EXCEEDED',
+        error: 'Conversation storage quota exceeded'
+      });
+    }
+    const changes = await listConversations(req.user!.id, sinceTs);
+
+    res.json({
+      conversations: changes.conversations,
+      deletedIds: changes.deletedIds,
+      accepted,
+      rejected,
+      invalid,
+      serverTime
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Get a single conversation
+ * GET /api/conversations/:id
+ */
+conversationsRouter.get('/:id', async (req: AuthRequest, res, next) => {
+  try {
+    const conversation = await getConversation(req.user!.id, validateId(req.params.id));
+
+    if (!conversation) {
+      throw new APIError('Conversation not found', 404, 'CONVERSATION_NOT_FOUND');
+    }
+
+    res.json({ conversation });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Create a conversation
+ * POST /api/conversations
+ */
+conversationsRouter.post('/', async (req: AuthRequest, res, next) => {
+  try {
+    const conversation = validateConversation(req.body);
+    const result = await createConversation(req.user!.id, conversation, CONVERSATION_QUOTA);
+
+    if ('error' in result) {
+      throw result.error === 'exists'
+        ? new APIError('Conversation already exists', 409, 'CONVERSATION_EXISTS')
+        : new APIError('Conversation storage quota exceeded', 413, 'CONVERSATION_QUOTA_EXCEEDED');
+    }
+
+    res.status(201).json({ conversation: result.conversation });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Partially update a conversation
+ * PATCH /api/conversations/:id
+ */
+conversationsRouter.patch('/:id', async (req: AuthRequest, res, next) => {
+  try {
+    const id = validateId(req.params.id);
+    const body = (req.body ?? {}) as Record<string, unknown>;
+    const updates: Partial<Omit<StoredConversation, 'id'>> = {};
+
+    if (body.title !== undefined) {
+      if (typeof body.title !== 'string' || body.title.length > MAX_TITLE_LENGTH) {
+        throw new APIError('Invalid conversation title', 400, 'INVALID_TITLE');
+      }
+      updates.title = body.title;
+    }
+
+    if (body.messages !== undefined) {
+      updates.messages = validateStoredMessages(body.messages);
+      updates.activeLeafId = validateActiveLeafId(body.activeLeafId, updates.messages);
+      updates.lastModified = typeof body.lastModified === 'number' ? body.lastModified : Date.now();
+    }
+
+    if (body.modelId !== undefined) {
+      if (typeof body.modelId !== 'string' || body.modelId.length > MAX_ID_LENGTH) {
+        throw new APIError('Invalid modelId', 400, 'INVALID_CONVERSATION');
+      }
+      updates.modelId = body.modelId;
+    }
+
+    if (body.modelParams !== undefined) {
+      updates.modelParams = validateStoredModelParams(body.modelParams);
+    }
+
+    if (body.contextStrategy !== undefined) {
+      updates.contextStrategy = validateStoredContextStrategy(body.contextStrategy);
+    }
+
+    if (body.memoryNotes !== undefined) {
+      updates.memoryNotes = validateMemoryNotes(body.memoryNotes);
+    }
+
+    // Only fields present in the body change (null clears folder/tags)
+    const organization = validateOrganization(body);
+    if (body.folder !== undefined) updates.folder = organization.folder;
+    if (body.tags !== undefined) updates.tags = organization.tags;
+    if (body.pinned !== undefined) updates.pinned = organization.pinned;
+    if (body.archived !== undefined) updates.archived = organization.archived;
+
+    if (typeof body.updatedAt === 'number') {
+      updates.updatedAt = body.updatedAt;
+    }
+
+    const result = await updateConversation(req.user!.id, id, updates, CONVERSATION_QUOTA);
+
+    if ('error' in result) {
+      if (result.error === 'not_found') {
+        throw new APIError('Conversation not found', 404, 'CONVERSATION_NOT_FOUND');
+      }
+      if (result.error === 'too_large') {
+        throw new APIError(`Conversation too large. Maximum ${MAX_CONVERSATION_BYTES} bytes.`, 413, 'CONVERSATION_TOO_LARGE');
+      }
+      throw new APIError('Conversation storage quota exceeded', 413, 'CONVERSATION_QUOTA_EXCEEDED');
+    }
+
+    res.json({ conversation: result.conversation });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Delete a conversation
+ * DELETE /api/conversations/:id
+ */
+conversationsRouter.delete('/:id', async (req: AuthRequest, res, next) => {
+  try {
+    const deleted = await deleteConversation(req.user!.id, validateId(req.params.id));
+
+    if (!deleted) {
+      throw new APIError('Conversation not found', 404, 'CONVERSATION_NOT_FOUND');
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    next(error);
+  }
+});
@@ -0,0 +1,83 @@
+/**
+ * Credit Routes - Per-user credit ledger history
+ * Lets users (and support) see exactly what each charge was for
+ */
+
+import { Router } from 'express';
+import { AuthRequest } from '../middleware/auth.js';
+import { APIError } from '../middleware/errorHandler.js';
+import { getCreditHistory } from '../lib/tokenService.js';
+import { CreditEntryType } from '../lib/userStorage.js';
+
+export const creditsRouter = Router();
+
+// Constants for validation
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const MAX_MODEL_LENGTH = 200;
+const ENTRY_TYPES: CreditEntryType[] = ['usage', 'grant', 'reset', 'plan_change'];
+
+/**
+ * Parse an optional non-negative integer query parameter
+ */
+function parseNonNegativeInt(value: unknown, name: string): number | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new APIError(`Invalid "${name}" parameter`, 400, 'INVALID_QUERY');
+  }
+  return parsed;
+}
+
+/**
+ * Get the authenticated user's credit history
+ * GET /api/credits/history?limit=&offset=&type=&model=&from=&to=
+ * `from`/`to` are ms timestamps (inclusive); entries are returned newest first
+ */
+creditsRouter.get('/history', async (req: AuthRequest, res, next) => {
+  try {
+    const limit = parseNonNegativeInt(req.query.limit, 'limit') ?? DEFAULT_PAGE_SIZE;
+    const offset = parseNonNegativeInt(req.query.offset, 'offset') ?? 0;
+    const from = parseNonNegativeInt(req.query.from, 'from');
+    const to = parseNonNegativeInt(req.query.to, 'to');
+    const { type, model } = req.query;
+
+    if (limit < 1 || limit > MAX_PAGE_SIZE) {
+      throw new APIError(`"limit" must be between 1 and ${MAX_PAGE_SIZE}`, 400, 'INVALID_QUERY');
+    }
+
+    if (type !== undefined && !ENTRY_TYPES.includes(type as CreditEntryType)) {
+      throw new APIError(`Invalid "type". Allowed: ${ENTRY_TYPES.join(', ')}`, 400, 'INVALID_QUERY');
+    }
+
+    if (model !== undefined && (typeof model !== 'string' || model.length > MAX_MODEL_LENGTH)) {
+      throw new APIError('Invalid "model" parameter', 400, 'INVALID_QUERY');
+    }
+
+    if (from !== undefined && to !== undefined && from > to) {
+      throw new APIError('"from" must be before "to"', 400, 'INVALID_QUERY');
+    }
+
+    const page = await getCreditHistory(req.user!.id, {
+      limit,
+      offset,
+      type: type as CreditEntryType | undefined,
+      model: (model as string | undefined) || undefined,
+      from,
+      to
+    });
+
+    res.json({
+      entries: page.entries,
+      total: page.total,
+      limit,
+      offset,
+      hasMore: offset + page.entries.length < page.total
+    });
+  } catch (error) {
+    next(error);
+  }
+});
@@ -0,0 +1,182 @@
+/**
+ * File Routes - Attachment uploads to the content-addressed file store
+ * Attachments are uploaded once and messages reference them by file id (the SHA-256 of the
+ * contents), so neither stored conversations nor chat requests carry base64 payloads.
+ * Files are freed when the conversations referencing them drop them (see conversationStorage),
+ * and users can list and delete their files to free quota.
+ */
+
+import express, { Router, Request, Response, NextFunction } from 'express';
+import { AuthRequest } from '../middleware/auth.js';
+import { APIError } from '../middleware/errorHandler.js';
+import { getDocumentKind } from '../lib/documentExtraction.js';
+import {
+  deleteFile,
+  getFile,
+  getFileUsage,
+  isFileId,
+  listFiles,
+  readFileContents,
+  saveFile,
+  StoredFile
+} from '../lib/fileStorage.js';
+
+export const filesRouter = Router();
+
+// Constants for validation
+const MAX_FILE_BYTES = 10 * 1024 * 1024; // 10MB, mirrors FILE_LIMITS.MAX_SIZE on the client
+const USER_QUOTA_BYTES = 500 * 1024 * 1024; // 500MB stored per user
+const MAX_NAME_LENGTH = 200;
+const MAX_TYPE_LENGTH = 100;
+
+// Served inline; anything else (SVG and HTML included) is downloaded so it can't run scripts
+const INLINE_IMAGE_TYPES = new Set(['image/png', 'image/jpeg', 'image/webp', 'image/gif']);
+
+/**
+ * File as returned to its owner
+ */
+interface FileView {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  createdAt: number;
+}
+
+function toFileView(file: StoredFile): FileView {
+  const { ownerId: _ownerId, ...view } = file;
+  return view;
+}
+
+/**
+ * Raw body parser for uploads (the file is the request body; name and type travel in headers)
+ * Only this route accepts large bodies, and oversized uploads get a proper 413.
+ */
+const parseFileBody = (req: Request, res: Response, next: NextFunction) => {
+  express.raw({ type: 'application/octet-stream', limit: MAX_FILE_BYTES })(req, res, (err?: unknown) => {
+    if ((err as { type?: string } | undefined)?.type === 'entity.too.large') {
+      next(new APIError(`File too large. Maximum ${MAX_FILE_BYTES / (1024 * 1024)}MB per file.`, 413, 'FILE_TOO_LARGE'));
+      return;
+    }
+    next(err);
+  });
+};
+
+/**
+ * Read the original file name (URI-encoded so non-ASCII names survive the header)
+ */
+function readFileName(header: unknown): string {
+  let name = '';
+  try {
+    name = typeof header === 'string' ? decodeURIComponent(header).trim() : '';
+  } catch {
+    // Malformed escape sequence - reported below
+  }
+  if (!name) {
+    throw new APIError('X-File-Name header is required', 400, 'INVALID_FILE');
+  }
+  return name.slice(0, MAX_NAME_LENGTH);
+}
+
+/**
+ * List the user's files and how much of the quota they use
+ * GET /api/files
+ */
+filesRouter.get('/', async (req: AuthRequest, res, next) => {
+  try {
+    const files = await listFiles(req.user!.id);
+    res.json({
+      files: files.map(toFileView),
+      usage: { bytes: await getFileUsage(req.user!.id), quotaBytes: USER_QUOTA_BYTES }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Upload a file (answers with the existing entry when the user already uploaded the same bytes)
+ * POST /api/files
+ * Body: the file contents (application/octet-stream)
+ * Headers: X-File-Name (URI-encoded), X-File-Type (MIME type, optional)
+ */
+filesRouter.post('/', parseFileBody, async (req: AuthRequest, res, next) => {
+  try {
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      throw new APIError('Upload the file as an application/octet-stream body', 400, 'INVALID_FILE');
+    }
+
+    const name = readFileName(req.headers['x-file-name']);
+    const typeHeader = req.headers['x-file-type'];
+    const type = (typeof typeHeader === 'string' && typeHeader ? typeHeader : 'application/octet-stream')
+      .toLowerCase()
+      .slice(0, MAX_TYPE_LENGTH);
+
+    // Same types the chat route can hand to a model
+    if (!type.startsWith('image/') && !getDocumentKind(name, type)) {
+      throw new APIError(
+        `Unsupported attachment "${name}". Attach images, PDF, Word (.docx), Excel (.xlsx), CSV or text/code files.`,
+        415,
+        'UNSUPPORTED_ATTACHMENT'
+      );
+    }
+
+    const saved = await saveFile(req.user!.id, { name, type, data: req.body }, USER_QUOTA_BYTES);
+    if (!saved) {
+      throw new APIError(
+        `File storage quota exceeded. Maximum ${USER_QUOTA_BYTES / (1024 * 1024)}MB per user.`,
+        413,
+        'FILE_QUOTA_EXCEEDED'
+      );
+    }
+
+    res.status(saved.created ? 201 : 200).json({
+      file: toFileView(saved.file),
+      created: saved.created,
+      usage: { bytes: await getFileUsage(req.user!.id), quotaBytes: USER_QUOTA_BYTES }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Download a file the user uploaded
+ * GET /api/files/:id
+ * Contents never change for an id, so responses are cacheable for good.
+ */
+filesRouter.get('/:id', async (req: AuthRequest, res, next) => {
+  try {
+    const file = await getFile(req.user!.id, req.params.id);
+    if (!file) {
+      throw new APIError('File not found', 404, 'FILE_NOT_FOUND');
+    }
+
+    const contents = await readFileContents(file);
+    const inline = INLINE_IMAGE_TYPES.has(file.type);
+
+    res.set({
+      'Content-Type': inline ? file.type : 'application/octet-stream',
+      'Content-Disposition': `${inline ? 'inline' : 'attachment'}; filename*=UTF-8''${encodeURIComponent(file.name)}`,
+      'Cache-Control': 'private, max-age=31536000, immutable'
+    });
+    res.send(contents);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Delete a file (its contents are removed once no one else has uploaded them)
+ * DELETE /api/files/:id
+ */
+filesRouter.delete('/:id', async (req: AuthRequest, res, next) => {
+  try {
+    if (!isFileId(req.params.id) || !(await deleteFile(req.user!.id, req.params.id))) {
+      throw new APIError('File not found', 404, 'FILE_NOT_FOUND');
+    }
+    res.json({ success: true });
+  } catch (error) {
+    next(error);
+  }
+});
@@ -1,40 +1,21 @@
 import { Router } from 'express';
 import { APIError } from '../middleware/errorHandler.js';
 import { AuthRequest } from '../middleware/auth.js';
-import { checkTokenQuota } from '../middleware/tokenQuota.js';
-import { deductTokens, CREDIT_COSTS } from '../lib/tokenService.js';
+import { reserveCredits, settleCredits, releaseCredits } from '../lib/tokenService.js';
+import {
+  DEFAULT_IMAGE_MODEL,
+  DEFAULT_VIDEO_MODEL,
+  MediaAspectRatio,
+  MediaResolution,
+  VideoDuration,
+  getImageModel,
+  getVideoModel
+} from '../config/mediaModels.js';
 
 export const mediaRouter = Router();
 
 const REPLICATE_API_BASE = 'https://api.replicate.com/v1';
 
-// Allowed models and defaults for media generation
-// Official Replicate models from api-manipulator skill
-const IMAGE_MODELS = {
-  default: 'black-forest-labs/flux-2-dev',
-  allowed: [
-    'black-forest-labs/flux-2-pro',
-    'black-forest-labs/flux-2-dev',
-    'qwen/qwen-image',
-    'qwen/qwen-image-edit-plus',
-    'bytedance/seedream-4.5'
-  ]
-};
-
-const VIDEO_MODELS = {
-  default: 'wan-video/wan-2.2-i2v-fast',
-  allowed: [
-    'wan-video/wan-2.2-animate-replace',
-    'wan-video/wan-2.2-i2v-fast',
-    'minimax/hailuo-02-fast'
-  ]
-};
-
-// Valid aspect ratios and settings
-const VALID_ASPECT_RATIOS = ['16:9', '4:3', '4:5', '1:1', '9:16'];
-const VALID_RESOLUTIONS = ['720p', '1080p', '4k'];
-const VALID_DURATIONS = ['5s', '10s'];
-
 interface ReplicatePrediction {
   id: string;
   status: 'starting' | 'processing' | 'succeeded' | 'failed' | 'canceled';
@@ -120,7 +101,31 @@ async function pollPrediction(getUrl: string, apiKey: string): Promise<Replicate
   throw new APIError('Prediction timed out after 2 minutes', 408, 'TIMEOUT');
 }
 
-mediaRouter.post('/image', checkTokenQuota(CREDIT_COSTS.IMAGE_GENERATION), async (req: AuthRequest, res, next): Promise<void> => {
+/**
+ * Hold the fixed generation cost before calling Replicate
+ * Throws 402 (same shape as the quota middleware) when the credits aren't available
+ */
+async function reserveMediaCredits(userId: string, amount: number, reason: string): Promise<string> {
+  const reservation = await reserveCredits(userId, amount, reason);
+
+  if (!reservation.success || !reservation.holdId) {
+    throw new APIError(
+      `Créditos insuficientes. Necessário: ${amount}, Disponível: ${reservation.available}. Os créditos renovam mensalmente.`,
+      402,
+      'INSUFFICIENT_CREDITS',
+      undefined, // errorType
+      false, // retryable
+      { currentBalance: reservation.available, required: amount } // metadata
+    );
+  }
+
+  return reservation.holdId;
+}
+
+mediaRouter.post('/image', async (req: AuthRequest, res, next): Promise<void> => {
+  // Credit hold - settled on success, released on any failure
+  let holdId: string | undefined;
+
   try {
     const { prompt, model, aspectRatio, resolution } = req.body;
 
@@ -137,13 +142,15 @@ mediaRouter.post('/image', checkTokenQuota(CREDIT_COSTS.IMAGE_GENERATION), async
       throw new APIError('REPLICATE_API_KEY not configured', 500, 'MISSING_API_KEY');
     }
 
-    // Validate and use model or default
-    const selectedModel = model && IMAGE_MODELS.allowed.includes(model)
-      ? model
-      : IMAGE_MODELS.default;
+    // Validate model against the catalogue (omitted = default)
+    const modelInfo = getImageModel(model || DEFAULT_IMAGE_MODEL);
+    if (!modelInfo) {
+      throw new APIError(`Image model not allowed: ${model}`, 400, 'INVALID_MODEL');
+    }
+    const selectedModel = modelInfo.id;
 
     // Validate aspect ratio
-    const selectedAspectRatio = aspectRatio && VALID_ASPECT_RATIOS.includes(aspectRatio)
+    const selectedAspectRatio = aspectRatio && modelInfo.supportsAspectRatios.includes(aspectRatio as MediaAspectRatio)
       ? aspectRatio
       : '1:1';
 
@@ -162,6 +169,8 @@ mediaRouter.post('/image', checkTokenQuota(CREDIT_COSTS.IMAGE_GENERATION), async
       resolution: resolution || '1080p'
     });
 
+    holdId = await reserveMediaCredits(req.user.id, modelInfo.creditCost, 'Geração de imagem');
+
     // Use the official model endpoint for cleaner API calls
     const [owner, modelName] = selectedModel.split('/');
     const response = await fetch(`${REPLICATE_API_BASE}/models/${owner}/${modelName}/predictions`, {
@@ -200,13 +209,15 @@ mediaRouter.post('/image', checkTokenQuota(CREDIT_COSTS.IMAGE_GENERATION), async
       throw new APIError('No image URL in prediction output', 500, 'NO_OUTPUT');
     }
 
-    // FIX: Wrap credit deduction in try-catch to handle partial failures
-    // If deduction fails, user still gets their image but with a warning
+    // FIX: Wrap credit settlement in try-catch to handle partial failures
+    // If settlement fails, user still gets their image but with a warning
     try {
-      const deductionResult = await deductTokens(
+      const deductionResult = await settleCredits(
+        holdId,
         req.user.id,
-        CREDIT_COSTS.IMAGE_GENERATION,
-        'Geração de imagem'
+        modelInfo.creditCost,
+        'Geração de imagem',
+        { model: selectedModel, requestId: prediction.id }
       );
 
       if (!deductionResult.success) {
@@ -214,7 +225,7 @@ mediaRouter.post('/image', checkTokenQuota(CREDIT_COSTS.IMAGE_GENERATION), async
         res.json({
           url: imageUrl,
           warning: 'Imagem gerada com sucesso, mas falha ao deduzir créditos. Entre em contato com o suporte.',
-          creditsUsed: CREDIT_COSTS.IMAGE_GENERATION,
+          creditsUsed: modelInfo.creditCost,
           deductionFailed: true
         });
         return;
@@ -222,7 +233,7 @@ mediaRouter.post('/image', checkTokenQuota(CREDIT_COSTS.IMAGE_GENERATION), async
 
       res.json({
         url: imageUrl,
-        creditsUsed: CREDIT_COSTS.IMAGE_GENERATION,
+        creditsUsed: modelInfo.creditCost,
         newBalance: deductionResult.newBalance
       });
     } catch (deductError) {
@@ -232,16 +243,24 @@ mediaRouter.post('/image', checkTokenQuota(CREDIT_COSTS.IMAGE_GENERATION), async
       res.json({
         url: imageUrl,
         warning: 'Imagem gerada com sucesso, mas falha ao deduzir créditos. Entre em contato com o suporte.',
-        creditsUsed: CREDIT_COSTS.IMAGE_GENERATION,
+        creditsUsed: modelInfo.creditCost,
         deductionFailed: true
       });
     }
   } catch (error) {
     next(error);
+  } finally {
+    // No-op once settled
+    if (holdId) {
+      releaseCredits(holdId);
+    }
   }
 });
 
-mediaRouter.post('/video', checkTokenQuota(CREDIT_COSTS.VIDEO_GENERATION), async (req: AuthRequest, res, next): Promise<void> => {
+mediaRouter.post('/video', async (req: AuthRequest, res, next): Promise<void> => {
+  // Credit hold - settled on success, released on any failure
+  let holdId: string | undefined;
+
   try {
     const { prompt, model, aspectRatio, resolution, duration } = req.body;
 
@@ -258,23 +277,25 @@ mediaRouter.post('/video', checkTokenQuota(CREDIT_COSTS.VIDEO_GENERATION), async
       throw new APIError('REPLICATE_API_KEY not configured', 500, 'MISSING_API_KEY');
     }
 
-    // Validate and use model or default
-    const selectedModel = model && VIDEO_MODELS.allowed.includes(model)
-      ? model
-      : VIDEO_MODELS.default;
+    // Validate model against the catalogue (omitted = default)
+    const modelInfo = getVideoModel(model || DEFAULT_VIDEO_MODEL);
+    if (!modelInfo) {
+      throw new APIError(`Video model not allowed: ${model}`, 400, 'INVALID_MODEL');
+    }
+    const selectedModel = modelInfo.id;
 
     // Validate aspect ratio
-    const selectedAspectRatio = aspectRatio && VALID_ASPECT_RATIOS.includes(aspectRatio)
+    const selectedAspectRatio = aspectRatio && modelInfo.supportsAspectRatios.includes(aspectRatio as MediaAspectRatio)
       ? aspectRatio
       : '16:9';
 
     // Validate resolution
-    const selectedResolution = resolution && VALID_RESOLUTIONS.includes(resolution)
+    const selectedResolution = resolution && modelInfo.supportsResolutions.includes(resolution as MediaResolution)
       ? resolution
       : '1080p';
 
     // Validate duration
-    const selectedDuration = duration && VALID_DURATIONS.includes(duration)
+    const selectedDuration = duration && modelInfo.supportsDurations.includes(duration as VideoDuration)
       ? duration
       : '5s';
 
@@ -294,6 +315,8 @@ mediaRouter.post('/video', checkTokenQuota(CREDIT_COSTS.VIDEO_GENERATION), async
       duration: selectedDuration
     });
 
+    holdId = await reserveMediaCredits(req.user.id, modelInfo.creditCost, 'Geração de vídeo');
+
     // Use the official model endpoint for cleaner API calls
     const [owner, modelName] = selectedModel.split('/');
     const response = await fetch(`${REPLICATE_API_BASE}/models/${owner}/${modelName}/predictions`, {
@@ -330,13 +353,15 @@ mediaRouter.post('/video', checkTokenQuota(CREDIT_COSTS.VIDEO_GENERATION), async
       throw new APIError('No video URL in prediction output', 500, 'NO_OUTPUT');
     }
 
-    // FIX: Wrap credit deduction in try-catch to handle partial failures
-    // If deduction fails, user still gets their video but with a warning
+    // FIX: Wrap credit settlement in try-catch to handle partial failures
+    // If settlement fails, user still gets their video but with a warning
     try {
-      const deductionResult = await deductTokens(
+      const deductionResult = await settleCredits(
+        holdId,
         req.user.id,
-        CREDIT_COSTS.VIDEO_GENERATION,
-        'Geração de vídeo'
+        modelInfo.creditCost,
+        'Geração de vídeo',
+        { model: selectedModel, requestId: prediction.id }
       );
 
       if (!deductionResult.success) {
@@ -344,7 +369,7 @@ mediaRouter.post('/video', checkTokenQuota(CREDIT_COSTS.VIDEO_GENERATION), async
         res.json({
           url: videoUrl,
           warning: 'Vídeo gerado com sucesso, mas falha ao deduzir créditos. Entre em contato com o suporte.',
-          creditsUsed: CREDIT_COSTS.VIDEO_GENERATION,
+          creditsUsed: modelInfo.creditCost,
           deductionFailed: true
         });
         return;
@@ -352,7 +377,7 @@ mediaRouter.post('/video', checkTokenQuota(CREDIT_COSTS.VIDEO_GENERATION), async
 
       res.json({
         url: videoUrl,
-        creditsUsed: CREDIT_COSTS.VIDEO_GENERATION,
+        creditsUsed: modelInfo.creditCost,
         newBalance: deductionResult.newBalance
       });
     } catch (deductError) {
@@ -362,11 +387,16 @@ mediaRouter.post('/video', checkTokenQuota(CREDIT_COSTS.VIDEO_GENERATION), async
       res.json({
         url: videoUrl,
         warning: 'Vídeo gerado com sucesso, mas falha ao deduzir créditos. Entre em contato com o suporte.',
-        creditsUsed: CREDIT_COSTS.VIDEO_GENERATION,
+        creditsUsed: modelInfo.creditCost,
         deductionFailed: true
       });
     }
   } catch (error) {
     next(error);
+  } finally {
+    // No-op once settled
+    if (holdId) {
+      releaseCredits(holdId);
+    }
   }
 });
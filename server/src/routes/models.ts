@@ -0,0 +1,102 @@
+/**
+ * Model Routes - Public model catalogue for the client
+ * The server is the single source of truth for which models exist, what they can do and what they cost
+ */
+
+import { Router } from 'express';
+import { ModelPricing, ModelTier, getEnabledModels, getModelCostMultiplier, getModelPricing, getModelParamLimits, getModelMaxImageDimension } from '../config/allowedModels.js';
+import { getFallbackChain } from '../config/fallbackConfig.js';
+import { IMAGE_MODELS, VIDEO_MODELS, DEFAULT_IMAGE_MODEL, DEFAULT_VIDEO_MODEL } from '../config/mediaModels.js';
+import { getModelsHealth } from '../lib/modelHealth.js';
+
+export const modelsRouter = Router();
+
+/**
+ * Per-model rates: `pricing` is the base rate, `effectivePricing` includes the tier multiplier
+ * (what is actually charged). All rates are credits per 1M tokens.
+ */
+function describePricing(model: string): {
+  costMultiplier: number;
+  pricing: ModelPricing;
+  effectivePricing: ModelPricing;
+} {
+  const pricing = getModelPricing(model);
+  const multiplier = getModelCostMultiplier(model);
+
+  return {
+    costMultiplier: multiplier,
+    pricing,
+    effectivePricing: {
+      inputPer1M: pricing.inputPer1M * multiplier,
+      outputPer1M: pricing.outputPer1M * multiplier,
+      cachedInputPer1M: pricing.cachedInputPer1M * multiplier
+    }
+  };
+}
+
+/**
+ * Get the full model catalogue
+ * GET /api/models
+ * Chat models (tier, capabilities, pricing, sampling limits, image size, fallback chain) plus image and video models
+ * (supported settings and fixed credit cost), with the default for each
+ */
+modelsRouter.get('/', (_req, res) => {
+  const enabledModels = getEnabledModels();
+  const chat = enabledModels.map(metadata => ({
+    id: metadata.id,
+    displayName: metadata.displayName,
+    description: metadata.description,
+    provider: metadata.provider,
+    tier: metadata.tier,
+    capabilities: metadata.capabilities ?? [],
+    ...describePricing(metadata.id),
+    limits: getModelParamLimits(metadata.id),
+    maxImageDimension: getModelMaxImageDimension(metadata.id),
+    fallbackChain: getFallbackChain(metadata.id)
+  }));
+
+  // Prefer a free model as the default so new users aren't charged by accident
+  const defaultChat = enabledModels.find(m => m.tier === ModelTier.FREE) ?? enabledModels[0];
+
+  res.json({
+    chat,
+    image: IMAGE_MODELS,
+    video: VIDEO_MODELS,
+    defaults: {
+      chat: defaultChat?.id ?? null,
+      image: DEFAULT_IMAGE_MODEL,
+      video: DEFAULT_VIDEO_MODEL
+    }
+  });
+});
+
+/**
+ * Get per-model chat pricing only
+ * GET /api/models/pricing
+ */
+modelsRouter.get('/pricing', (_req, res) => {
+  const models = getEnabledModels().map(metadata => ({
+    id: metadata.id,
+    tier: metadata.tier,
+    ...describePricing(metadata.id)
+  }));
+
+  res.json({ unit: 'credits_per_1m_tokens', models });
+});
+
+/**
+ * Get the current status of each chat model (for the selector's indicator)
+ * GET /api/models/status
+ * Only the coarse status is public; failure details are on the admin endpoint
+ */
+modelsRouter.get('/status', (_req, res) => {
+  const health = getModelsHealth(getEnabledModels().map(metadata => metadata.id));
+
+  res.json({
+    models: health.map(entry => ({
+      id: entry.model,
+      status: entry.status,
+      retryAt: entry.retryAt
+    }))
+  });
+});
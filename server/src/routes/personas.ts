@@ -0,0 +1,278 @@
+/**
+ * Persona Routes - Per-user library of reusable system prompt presets
+ * Owners can share a persona with teammates by email; recipients can use it but not edit it
+ */
+
+import { Router } from 'express';
+import { randomUUID } from 'crypto';
+import { AuthRequest } from '../middleware/auth.js';
+import { APIError } from '../middleware/errorHandler.js';
+import { isAllowedModel } from '../config/allowedModels.js';
+import { getUserByEmail, getUserById } from '../lib/userStorage.js';
+import {
+  listPersonasForUser,
+  getPersonaForUser,
+  countOwnedPersonas,
+  createPersona,
+  updatePersona,
+  removePersonaForUser,
+  setPersonaRecipients,
+  StoredPersona,
+  PersonaUpdates
+} from '../lib/personaStorage.js';
+
+export const personasRouter = Router();
+
+// Constants for validation
+const MAX_PERSONAS_PER_USER = 50;
+const MAX_NAME_LENGTH = 60;
+const MAX_SYSTEM_PROMPT_LENGTH = 8000;
+const MAX_MODEL_PARAMS = 10;
+const MAX_RECIPIENTS = 25;
+const MAX_EMAIL_LENGTH = 254;
+
+// Icon keys the client knows how to render
+const PERSONA_ICONS = ['bot', 'code', 'pen', 'briefcase', 'book', 'brain', 'globe', 'terminal'] as const;
+
+interface PersonaRecipient {
+  id: string;
+  email: string;
+  name: string;
+}
+
+/**
+ * Persona as returned to a user
+ * Recipients only see who owns a shared persona; the recipient list is only shown to the owner
+ */
+interface PersonaView {
+  id: string;
+  name: string;
+  icon: string;
+  systemPrompt: string;
+  defaultModel?: string;
+  defaultParams?: Record<string, number>;
+  isOwner: boolean;
+  owner?: { name: string; email: string };
+  sharedWith?: PersonaRecipient[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+async function toPersonaView(persona: StoredPersona, userId: string): Promise<PersonaView> {
+  const { ownerId, sharedWith, ...fields } = persona;
+
+  if (ownerId === userId) {
+    const recipients = await Promise.all(sharedWith.map(id => getUserById(id)));
+    return {
+      ...fields,
+      isOwner: true,
+      sharedWith: recipients
+        .filter(user => user !== null)
+        .map(user => ({ id: user.id, email: user.email, name: user.name }))
+    };
+  }
+
+  const owner = await getUserById(ownerId);
+  return {
+    ...fields,
+    isOwner: false,
+    ...(owner && { owner: { name: owner.name, email: owner.email } })
+  };
+}
+
+/**
+ * Validate a persona ID coming from the client
+ */
+function validateId(id: unknown): string {
+  if (typeof id !== 'string' || !/^[A-Za-z0-9-]{1,100}$/.test(id)) {
+    throw new APIError('Invalid persona id', 400, 'INVALID_PERSONA_ID');
+  }
+  return id;
+}
+
+/**
+ * Validate the editable persona fields
+ * @param partial - PATCH semantics: absent fields are left out instead of required
+ */
+function validatePersonaFields(body: unknown, partial: boolean): PersonaUpdates {
+  if (!body || typeof body !== 'object') {
+    throw new APIError('Invalid persona', 400, 'INVALID_PERSONA');
+  }
+
+  const input = body as Record<string, unknown>;
+  const updates: PersonaUpdates = {};
+
+  if (input.name !== undefined || !partial) {
+    if (typeof input.name !== 'string' || input.name.trim().length === 0 || input.name.trim().length > MAX_NAME_LENGTH) {
+      throw new APIError(`Persona name must be 1-${MAX_NAME_LENGTH} characters`, 400, 'INVALID_PERSONA');
+    }
+    updates.name = input.name.trim();
+  }
+
+  if (input.icon !== undefined || !partial) {
+    const icon = input.icon ?? PERSONA_ICONS[0];
+    if (typeof icon !== 'string' || !(PERSONA_ICONS as readonly string[]).includes(icon)) {
+      throw new APIError(`Invalid icon. Allowed: ${PERSONA_ICONS.join(', ')}`, 400, 'INVALID_PERSONA');
+    }
+    updates.icon = icon;
+  }
+
+  if (input.systemPrompt !== undefined || !partial) {
+    if (typeof input.systemPrompt !== 'string' || input.systemPrompt.trim().length === 0 ||
+      input.systemPrompt.length > MAX_SYSTEM_PROMPT_LENGTH) {
+      throw new APIError(`System prompt must be 1-${MAX_SYSTEM_PROMPT_LENGTH} characters`, 400, 'INVALID_PERSONA');
+    }
+    updates.systemPrompt = input.systemPrompt;
+  }
+
+  // null clears the default (the conversation keeps whatever model is selected)
+  if (input.defaultModel !== undefined) {
+    if (input.defaultModel !== null && !isAllowedModel(input.defaultModel)) {
+      throw new APIError('Invalid default model', 400, 'INVALID_PERSONA');
+    }
+    updates.defaultModel = input.defaultModel ?? undefined;
+  }
+
+  // Shape only - limits depend on the model the conversation ends up using and are enforced at send time
+  if (input.defaultParams !== undefined) {
+    const params = input.defaultParams;
+    if (params !== null && (typeof params !== 'object' || Array.isArray(params) ||
+      Object.keys(params).length > MAX_MODEL_PARAMS ||
+      Object.values(params).some(value => typeof value !== 'number' || !Number.isFinite(value)))) {
+      throw new APIError('Invalid default params', 400, 'INVALID_PERSONA');
+    }
+    updates.defaultParams = (params as Record<string, number> | null) ?? undefined;
+  }
+
+  return updates;
+}
+
+/**
+ * List the user's personas (own and shared with them)
+ * GET /api/personas
+ */
+personasRouter.get('/', async (req: AuthRequest, res, next) => {
+  try {
+    const personas = await listPersonasForUser(req.user!.id);
+    res.json({ personas: await Promise.all(personas.map(p => toPersonaView(p, req.user!.id))) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Create a persona
+ * POST /api/personas
+ * Body: { name, icon?, systemPrompt, defaultModel?, defaultParams? }
+ */
+personasRouter.post('/', async (req: AuthRequest, res, next) => {
+  try {
+    const fields = validatePersonaFields(req.body, false);
+
+    if (await countOwnedPersonas(req.user!.id) >= MAX_PERSONAS_PER_USER) {
+      throw new APIError(`Persona limit reached. Maximum ${MAX_PERSONAS_PER_USER}.`, 400, 'PERSONA_LIMIT_REACHED');
+    }
+
+    const now = Date.now();
+    const persona = await createPersona({
+      id: randomUUID(),
+      ownerId: req.user!.id,
+      name: fields.name!,
+      icon: fields.icon!,
+      systemPrompt: fields.systemPrompt!,
+      defaultModel: fields.defaultModel,
+      defaultParams: fields.defaultParams,
+      sharedWith: [],
+      createdAt: now,
+      updatedAt: now
+    });
+
+    res.status(201).json({ persona: await toPersonaView(persona, req.user!.id) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Partially update a persona (owner only)
+ * PATCH /api/personas/:id
+ */
+personasRouter.patch('/:id', async (req: AuthRequest, res, next) => {
+  try {
+    const id = validateId(req.params.id);
+    const updated = await updatePersona(req.user!.id, id, validatePersonaFields(req.body, true));
+
+    if (!updated) {
+      throw new APIError('Persona not found', 404, 'PERSONA_NOT_FOUND');
+    }
+
+    res.json({ persona: await toPersonaView(updated, req.user!.id) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Remove a persona from the user's library
+ * DELETE /api/personas/:id
+ * The owner deletes it for everyone; a recipient only removes their access
+ */
+personasRouter.delete('/:id', async (req: AuthRequest, res, next) => {
+  try {
+    const removed = await removePersonaForUser(req.user!.id, validateId(req.params.id));
+
+    if (!removed) {
+      throw new APIError('Persona not found', 404, 'PERSONA_NOT_FOUND');
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Set who a persona is shared with (owner only)
+ * PUT /api/personas/:id/share
+ * Body: { emails: string[] } - replaces the current recipients; [] stops sharing
+ * Every unknown address gets the same generic error.
+ */
+personasRouter.put('/:id/share', async (req: AuthRequest, res, next) => {
+  try {
+    const id = validateId(req.params.id);
+    const { emails } = req.body ?? {};
+
+    if (!Array.isArray(emails) || emails.length > MAX_RECIPIENTS ||
+      emails.some(email => typeof email !== 'string' || email.length > MAX_EMAIL_LENGTH)) {
+      throw new APIError(`emails must be an array of up to ${MAX_RECIPIENTS} addresses`, 400, 'INVALID_SHARE');
+    }
+
+    const persona = await getPersonaForUser(req.user!.id, id);
+    if (!persona || persona.ownerId !== req.user!.id) {
+      throw new APIError('Persona not found', 404, 'PERSONA_NOT_FOUND');
+    }
+
+    // One generic error for every address that can't be used, so this can't be used to find
+    // out which emails have accounts
+    const recipientIds: string[] = [];
+    for (const email of emails as string[]) {
+      const user = await getUserByEmail(email.trim().toLowerCase());
+      if (!user) {
+        throw new APIError('Could not share with these addresses. Check them and try again.', 400, 'INVALID_SHARE');
+      }
+      if (user.id === req.user!.id) {
+        throw new APIError('You cannot share a persona with yourself', 400, 'INVALID_SHARE');
+      }
+      recipientIds.push(user.id);
+    }
+
+    const updated = await setPersonaRecipients(req.user!.id, id, recipientIds);
+    if (!updated) {
+      throw new APIError('Persona not found', 404, 'PERSONA_NOT_FOUND');
+    }
+
+    res.json({ persona: await toPersonaView(updated, req.user!.id) });
+  } catch (error) {
+    next(error);
+  }
+});
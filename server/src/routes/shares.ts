@@ -0,0 +1,249 @@
+/**
+ * Share Routes - Public read-only snapshots of a conversation
+ * The owner posts the branch they are viewing; anyone with the link can read it until it is
+ * revoked or expires. Snapshots never change after creation (share again to update).
+ */
+
+import { Router } from 'express';
+import { AuthRequest } from '../middleware/auth.js';
+import { APIError } from '../middleware/errorHandler.js';
+import { StoredAttachment, StoredMessage } from '../lib/conversationStorage.js';
+import {
+  createShare,
+  generateShareToken,
+  getSharedSnapshot,
+  listSharesForUser,
+  revokeShare,
+  isShareToken,
+  StoredShare,
+  ShareSnapshot
+} from '../lib/shareStorage.js';
+
+export const sharesRouter = Router();
+export const publicSharesRouter = Router();
+
+// Constants for validation
+const MAX_MESSAGES_PER_SHARE = 1000;
+const MAX_TITLE_LENGTH = 200;
+const MAX_ID_LENGTH = 100;
+const MAX_NAME_LENGTH = 200;
+const MAX_EXPIRY_DAYS = 365;
+const MAX_SHARES_PER_USER = 100;
+const MAX_USER_MESSAGE_LENGTH = 32000;       // Mirrors MESSAGE_LIMITS.MAX_MESSAGE_LENGTH on the client
+const MAX_ASSISTANT_MESSAGE_LENGTH = 256000; // Replies aren't bound by the typing limit
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Shown instead of the file name when attachments are redacted
+const REDACTED_ATTACHMENT_NAME = 'Anexo ocultado';
+
+/**
+ * Share link as returned to its owner
+ */
+interface ShareView {
+  id: string;
+  conversationId: string;
+  title: string;
+  messageCount: number;
+  redactAttachments: boolean;
+  createdAt: number;
+  expiresAt: number | null;
+}
+
+function toShareView(share: StoredShare): ShareView {
+  const { ownerId: _ownerId, ...view } = share;
+  return view;
+}
+
+const optionalString = (value: unknown, maxLength: number): string | undefined =>
+  typeof value === 'string' && value.length > 0 ? value.slice(0, maxLength) : undefined;
+
+/**
+ * Keep an attachment's name, type and size - never its contents or file store id, so a
+ * public link can't be used to read the file (the name is dropped too when redacted)
+ */
+function validateAttachment(value: unknown, redact: boolean, index: number): StoredAttachment {
+  const att = value as Record<string, unknown>;
+  if (!att || typeof att !== 'object' || typeof att.name !== 'string' || typeof att.type !== 'string') {
+    throw new APIError(`Invalid attachment in message ${index}`, 400, 'INVALID_MESSAGE');
+  }
+
+  return {
+    name: redact ? REDACTED_ATTACHMENT_NAME : att.name.slice(0, MAX_NAME_LENGTH),
+    type: att.type.slice(0, MAX_NAME_LENGTH),
+    data: '',
+    ...(!redact && typeof att.size === 'number' && { size: att.size })
+  };
+}
+
+/**
+ * Validate the snapshot messages, keeping only what the read-only view renders
+ * Generated media with browser-local (blob:) URLs is dropped - it can't be loaded elsewhere.
+ */
+function validateSnapshotMessages(messages: unknown, redact: boolean): StoredMessage[] {
+  if (!Array.isArray(messages) || messages.length === 0 || messages.length > MAX_MESSAGES_PER_SHARE) {
+    throw new APIError(`Share 1-${MAX_MESSAGES_PER_SHARE} messages`, 400, 'INVALID_MESSAGES');
+  }
+
+  return messages.map((value, index) => {
+    const msg = value as Record<string, unknown>;
+    if (!msg || typeof msg !== 'object' || typeof msg.id !== 'string' ||
+      (msg.role !== 'user' && msg.role !== 'assistant') || typeof msg.content !== 'string') {
+      throw new APIError(`Invalid message at index ${index}`, 400, 'INVALID_MESSAGE');
+    }
+    const maxLength = msg.role === 'user' ? MAX_USER_MESSAGE_LENGTH : MAX_ASSISTANT_MESSAGE_LENGTH;
+    if (msg.content.length > maxLength) {
+      throw new APIError(`Message too long at index ${index}. Maximum ${maxLength} characters.`, 400, 'MESSAGE_TOO_LONG');
+    }
+    if (msg.attachments !== undefined && !Array.isArray(msg.attachments)) {
+      throw new APIError(`Invalid attachments at index ${index}`, 400, 'INVALID_MESSAGE');
+    }
+
+    const media = msg.media as Record<string, unknown> | undefined;
+    const hasPortableMedia = !!media && typeof media === 'object' &&
+      (media.type === 'image' || media.type === 'video') &&
+      typeof media.url === 'string' && /^(https?:|data:)/.test(media.url) &&
+      typeof media.mimeType === 'string';
+
+    const attachments = (msg.attachments as unknown[] | undefined)?.map(att => validateAttachment(att, redact, index));
+
+    return {
+      id: msg.id.slice(0, MAX_ID_LENGTH),
+      role: msg.role,
+      content: msg.content,
+      ...(typeof msg.timestamp === 'number' && { timestamp: msg.timestamp }),
+      ...(attachments && attachments.length > 0 && { attachments }),
+      ...(hasPortableMedia && {
+        media: {
+          type: media.type as 'image' | 'video',
+          url: media.url as string,
+          mimeType: media.mimeType as string,
+          ...(typeof media.prompt === 'string' && { prompt: media.prompt })
+        }
+      }),
+      ...(msg.interrupted === true && { interrupted: true })
+    };
+  });
+}
+
+/**
+ * Validate the optional expiry (whole days; null or absent = until revoked)
+ */
+function parseExpiry(expiresInDays: unknown, now: number): number | null {
+  if (expiresInDays === undefined || expiresInDays === null) {
+    return null;
+  }
+  if (typeof expiresInDays !== 'number' || !Number.isInteger(expiresInDays) ||
+    expiresInDays < 1 || expiresInDays > MAX_EXPIRY_DAYS) {
+    throw new APIError(`expiresInDays must be 1-${MAX_EXPIRY_DAYS}`, 400, 'INVALID_SHARE');
+  }
+  return now + expiresInDays * DAY_MS;
+}
+
+/**
+ * List the user's active share links
+ * GET /api/shares
+ */
+sharesRouter.get('/', async (req: AuthRequest, res, next) => {
+  try {
+    const shares = await listSharesForUser(req.user!.id);
+    res.json({ shares: shares.map(toShareView) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Snapshot a conversation branch behind a new public link
+ * POST /api/shares
+ * Body: { conversationId, title, modelId?, personaName?, messages, expiresInDays?, redactAttachments? }
+ */
+sharesRouter.post('/', async (req: AuthRequest, res, next) => {
+  try {
+    const body = (req.body ?? {}) as Record<string, unknown>;
+
+    if (typeof body.conversationId !== 'string' || body.conversationId.length === 0 ||
+      body.conversationId.length > MAX_ID_LENGTH) {
+      throw new APIError('Invalid conversation id', 400, 'INVALID_CONVERSATION_ID');
+    }
+    if (typeof body.title !== 'string' || body.title.trim().length === 0) {
+      throw new APIError('Title is required', 400, 'INVALID_SHARE');
+    }
+    if (body.redactAttachments !== undefined && typeof body.redactAttachments !== 'boolean') {
+      throw new APIError('redactAttachments must be a boolean', 400, 'INVALID_SHARE');
+    }
+
+    const now = Date.now();
+    const redactAttachments = body.redactAttachments === true;
+    const expiresAt = parseExpiry(body.expiresInDays, now);
+    const messages = validateSnapshotMessages(body.messages, redactAttachments);
+
+    const title = body.title.trim().slice(0, MAX_TITLE_LENGTH);
+    const snapshot: ShareSnapshot = {
+      title,
+      modelId: optionalString(body.modelId, MAX_ID_LENGTH),
+      personaName: optionalString(body.personaName, MAX_NAME_LENGTH),
+      messages
+    };
+
+    const share = await createShare({
+      id: generateShareToken(),
+      ownerId: req.user!.id,
+      conversationId: body.conversationId,
+      title,
+      messageCount: messages.length,
+      redactAttachments,
+      createdAt: now,
+      expiresAt
+    }, snapshot, MAX_SHARES_PER_USER);
+
+    if (!share) {
+      throw new APIError(`Share limit reached. Maximum ${MAX_SHARES_PER_USER} active links.`, 400, 'SHARE_LIMIT_REACHED');
+    }
+
+    res.status(201).json({ share: toShareView(share) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Revoke a share link (the public URL stops working immediately)
+ * DELETE /api/shares/:id
+ */
+sharesRouter.delete('/:id', async (req: AuthRequest, res, next) => {
+  try {
+    if (!isShareToken(req.params.id) || !(await revokeShare(req.user!.id, req.params.id))) {
+      throw new APIError('Share not found', 404, 'SHARE_NOT_FOUND');
+    }
+    res.json({ success: true });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Read a shared conversation (no authentication)
+ * GET /api/public/shares/:id
+ * Unknown, revoked and expired links all answer 404 so tokens can't be probed.
+ */
+publicSharesRouter.get('/:id', async (req, res, next) => {
+  try {
+    const found = await getSharedSnapshot(req.params.id);
+    if (!found) {
+      throw new APIError('This link is invalid, revoked or expired', 404, 'SHARE_NOT_FOUND');
+    }
+
+    const { share, snapshot } = found;
+    res.set('Cache-Control', 'no-store');
+    res.json({
+      share: {
+        ...snapshot,
+        redactAttachments: share.redactAttachments,
+        createdAt: share.createdAt,
+        expiresAt: share.expiresAt
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
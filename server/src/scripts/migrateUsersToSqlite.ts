@@ -0,0 +1,115 @@
+/**
+ * Import an existing users.json, and each user's credit ledger from ledger/<userId>.jsonl next
+ * to it, into the SQLite user database
+ *
+ * Usage: npm run migrate:users -- [path/to/users.json] [--overwrite]
+ * Existing rows (same id or email) are skipped unless --overwrite is passed; a user and their
+ * ledger are imported together or not at all. Corrupt ledger lines abort the migration.
+ * The JSON files are left untouched; set USER_STORAGE_BACKEND=sqlite afterwards.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import { CreditLedgerEntry, DATA_DIR, StoredUser } from '../lib/userRepository.js';
+import { SqliteUserRepository } from '../lib/sqliteUserRepository.js';
+
+dotenv.config();
+
+/**
+ * Read every ledger/<userId>.jsonl file next to users.json
+ * @throws on unreadable files or corrupt lines, so no history is silently lost
+ */
+function readLedgers(ledgerDir: string): Map<string, CreditLedgerEntry[]> {
+  const ledgers = new Map<string, CreditLedgerEntry[]>();
+  if (!fs.existsSync(ledgerDir)) {
+    return ledgers;
+  }
+
+  for (const file of fs.readdirSync(ledgerDir).filter(name => name.endsWith('.jsonl'))) {
+    const userId = file.slice(0, -'.jsonl'.length);
+    const lines = fs.readFileSync(path.join(ledgerDir, file), 'utf-8').split('\n').filter(line => line.trim());
+
+    ledgers.set(userId, lines.map((line, index) => {
+      try {
+        return JSON.parse(line) as CreditLedgerEntry;
+      } catch {
+        throw new Error(`Corrupt ledger line ${index + 1} in ${file}`);
+      }
+    }));
+  }
+  return ledgers;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const overwrite = args.includes('--overwrite');
+  const usersFile = args.find(arg => !arg.startsWith('--')) || path.join(DATA_DIR, 'users.json');
+  const dbPath = process.env.SQLITE_DB_PATH || path.join(DATA_DIR, 'fidi.db');
+
+  if (!fs.existsSync(usersFile)) {
+    console.error('Users file not found at:', usersFile);
+    process.exit(1);
+  }
+
+  console.log('Reading users from:', usersFile);
+  let users: StoredUser[];
+  try {
+    const parsed = JSON.parse(fs.readFileSync(usersFile, 'utf-8'));
+    users = parsed.users || [];
+  } catch (e) {
+    console.error('Failed to parse users file', e);
+    process.exit(1);
+  }
+
+  const invalid = users.filter(u => !u.id || !u.email || !u.password);
+  if (invalid.length > 0) {
+    console.error(`Found ${invalid.length} user(s) without id/email/password. Aborting.`);
+    process.exit(1);
+  }
+
+  const ledgerDir = path.join(path.dirname(usersFile), 'ledger');
+  let ledgers: Map<string, CreditLedgerEntry[]>;
+  try {
+    ledgers = readLedgers(ledgerDir);
+  } catch (e) {
+    console.error('Failed to read credit ledgers from', ledgerDir, e);
+    process.exit(1);
+  }
+
+  const userIds = new Set(users.map(u => u.id));
+  const orphaned = Array.from(ledgers.keys()).filter(id => !userIds.has(id));
+  if (orphaned.length > 0) {
+    console.warn(`Ignoring ledgers of ${orphaned.length} user(s) not in users.json:`, orphaned.join(', '));
+  }
+
+  console.log(`Found ${users.length} users and ${ledgers.size} ledger file(s). Importing into: ${dbPath}`);
+
+  const repository = new SqliteUserRepository(dbPath);
+  try {
+    const { imported, skipped, ledgerEntries } = repository.importUsers(
+      users.map(u => ({
+        ...u,
+        name: u.name ?? '',
+        createdAt: u.createdAt ?? Date.now(),
+        updatedAt: u.updatedAt ?? u.createdAt ?? Date.now()
+      })),
+      overwrite,
+      ledgers
+    );
+
+    console.log(`Imported ${imported} user(s) with ${ledgerEntries} ledger entries, skipped ${skipped} existing.`);
+    if (skipped > 0 && !overwrite) {
+      console.log('Re-run with --overwrite to replace existing rows.');
+    }
+  } finally {
+    repository.close();
+  }
+
+  console.log('Migration complete. Set USER_STORAGE_BACKEND=sqlite to use the new database.');
+}
+
+main().catch((error) => {
+  console.error('Migration failed:', error);
+  process.exit(1);
+});
@@ -1,40 +1,15 @@
 
-import fs from 'fs';
-import path from 'path';
-import { fileURLToPath } from 'url';
-import { updateUser, PLAN_CONFIG, StoredUser } from '../lib/userStorage';
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-
-// This assumes the script is in server/src/scripts/
-// server/src/scripts/ -> server/src/ -> server/ -> server/data
-const DATA_DIR = path.join(__dirname, '../../data');
-const USERS_FILE = path.join(DATA_DIR, 'users.json');
+import { listUsers, updateUserWithLedgerEntry, PLAN_CONFIG } from '../lib/userStorage';
 
 async function main() {
-    if (!fs.existsSync(USERS_FILE)) {
-        console.error('Users file not found at:', USERS_FILE);
-        process.exit(1);
-    }
-
-    console.log('Reading users from:', USERS_FILE);
-    const data = fs.readFileSync(USERS_FILE, 'utf-8');
-    let parsed;
-    try {
-        parsed = JSON.parse(data);
-    } catch (e) {
-        console.error('Failed to parse users.json', e);
-        process.exit(1);
-    }
-
-    const users: StoredUser[] = parsed.users || [];
+    // Goes through the configured repository (USER_STORAGE_BACKEND), not users.json directly
+    const users = await listUsers();
 
     console.log(`Found ${users.length} users. Starting top-up...`);
 
     for (const user of users) {
         // If plan is undefined, check userStorage logic, it defaults to free.
-        // But we are reading raw JSON here, so we might see undefined.
+        // listUsers returns raw stored records, so we might see undefined.
         const plan = user.plan || 'free';
         let targetBalance = 0;
 
@@ -49,10 +24,25 @@ async function main() {
 
         console.log(`User: ${user.email} | Plan: ${plan} | Current Balance: ${user.creditBalance} | New Balance: ${targetBalance}`);
 
+        // Recorded as a grant so the credit history explains the new balance
+        const delta = targetBalance - (user.creditBalance ?? 0);
+        if (delta === 0) {
+            console.log(`⏭️  ${user.email} already at target balance`);
+            continue;
+        }
+
         try {
-            await updateUser(user.id, {
+            const result = await updateUserWithLedgerEntry(user.id, {
                 creditBalance: targetBalance,
+            }, {
+                type: 'grant',
+                delta,
+                reason: `Top-up to ${plan} plan allowance`
             });
+            if (!result) {
+                console.error(`❌ User ${user.email} not found`);
+                continue;
+            }
             console.log(`✅ Updated ${user.email}`);
         } catch (err) {
             console.error(`❌ Failed to update ${user.email}:`, err);
@@ -0,0 +1,34 @@
+/**
+ * Shared test fixtures for hook and integration tests
+ */
+
+import type { Persona, ShareLink, User } from '../types';
+
+export const testUser: User = {
+  id: 'user-1',
+  name: 'Ana',
+  email: 'ana@example.com'
+};
+
+export const makePersona = (overrides: Partial<Persona> = {}): Persona => ({
+  id: 'persona-1',
+  name: 'Revisor',
+  icon: 'pen',
+  systemPrompt: 'Revise o texto.',
+  isOwner: true,
+  sharedWith: [],
+  createdAt: 0,
+  updatedAt: 0,
+  ...overrides
+});
+
+export const makeShareLink = (overrides: Partial<ShareLink> = {}): ShareLink => ({
+  id: 'token-old',
+  conversationId: 'conv-1',
+  title: 'Deploy',
+  messageCount: 2,
+  redactAttachments: false,
+  createdAt: 0,
+  expiresAt: null,
+  ...overrides
+});
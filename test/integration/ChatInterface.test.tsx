@@ -1,12 +1,131 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { render, screen } from '@testing-library/react';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { render, screen, waitFor, within, fireEvent } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { ChatInterface } from '../../components/ChatInterface';
 import type { User } from '../../types';
+import * as apiClient from '../../lib/apiClient';
+import { makePersona } from '../fixtures';
 
 // Mock API client
 vi.mock('../../lib/apiClient', () => ({
   streamChatCompletion: vi.fn(),
+  getModelCatalogue: vi.fn().mockResolvedValue({
+    chat: [
+      {
+        id: 'mistralai/devstral-2512:free',
+        displayName: 'Devstral 2512',
+        description: 'Lightweight development model',
+        provider: 'Mistral AI',
+        tier: 'FREE',
+        capabilities: ['coding'],
+        costMultiplier: 0,
+        pricing: { inputPer1M: 0, outputPer1M: 0, cachedInputPer1M: 0 },
+        effectivePricing: { inputPer1M: 0, outputPer1M: 0, cachedInputPer1M: 0 },
+        limits: { maxOutputTokens: 8192, maxTemperature: 1, supportsPenalties: true },
+        maxImageDimension: 1568,
+        fallbackChain: []
+      },
+      {
+        id: 'anthropic/claude-sonnet-4.5',
+        displayName: 'Claude Sonnet 4.5',
+        description: 'Complex reasoning',
+        provider: 'Anthropic',
+        tier: 'PAID',
+        capabilities: ['reasoning'],
+        costMultiplier: 2,
+        pricing: { inputPer1M: 3000000, outputPer1M: 15000000, cachedInputPer1M: 300000 },
+        effectivePricing: { inputPer1M: 6000000, outputPer1M: 30000000, cachedInputPer1M: 600000 },
+        limits: { maxOutputTokens: 16384, maxTemperature: 1, supportsPenalties: false },
+        maxImageDimension: 1568,
+        fallbackChain: ['mistralai/devstral-2512:free']
+      }
+    ],
+    image: [
+      {
+        id: 'black-forest-labs/flux-2-dev',
+        displayName: 'FLUX 2 Dev',
+        description: 'Fast generation',
+        provider: 'Black Forest Labs',
+        badge: 'FAST',
+        creditCost: 5,
+        supportsResolutions: ['720p', '1080p'],
+        supportsAspectRatios: ['16:9', '4:3', '4:5', '1:1', '9:16']
+      }
+    ],
+    video: [
+      {
+        id: 'wan-video/wan-2.2-i2v-fast',
+        displayName: 'WAN i2v Fast',
+        description: 'Fast image to video',
+        provider: 'WAN Video',
+        badge: 'FAST',
+        creditCost: 50,
+        supportsResolutions: ['720p', '1080p'],
+        supportsAspectRatios: ['16:9', '4:3', '1:1'],
+        supportsDurations: ['5s']
+      }
+    ],
+    defaults: {
+      chat: 'mistralai/devstral-2512:free',
+      image: 'black-forest-labs/flux-2-dev',
+      video: 'wan-video/wan-2.2-i2v-fast'
+    }
+  }),
+  getModelStatus: vi.fn().mockResolvedValue([
+    { id: 'mistralai/devstral-2512:free', status: 'operational', retryAt: null },
+    { id: 'anthropic/claude-sonnet-4.5', status: 'unavailable', retryAt: 1700000000000 }
+  ]),
+  estimateChatCost: vi.fn().mockResolvedValue({
+    model: 'mistralai/devstral-2512:free',
+    inputTokens: 10,
+    maxOutputTokens: 4096,
+    multiplier: 0,
+    inputCost: 0,
+    maxOutputCost: 0,
+    minCredits: 1,
+    maxCredits: 1
+  }),
+  syncConversations: vi.fn().mockResolvedValue({
+    conversations: [],
+    deletedIds: [],
+    accepted: [],
+    rejected: [],
+    serverTime: 0
+  }),
+  getCreditHistory: vi.fn().mockResolvedValue({
+    entries: [],
+    total: 0,
+    limit: 10,
+    offset: 0,
+    hasMore: false
+  }),
+  listPersonas: vi.fn().mockResolvedValue([
+    {
+      id: 'persona-1',
+      name: 'Revisor',
+      icon: 'pen',
+      systemPrompt: 'Revise o texto com rigor.',
+      defaultParams: { max_tokens: 128 },
+      isOwner: true,
+      sharedWith: [],
+      createdAt: 0,
+      updatedAt: 0
+    }
+  ]),
+  createPersona: vi.fn(),
+  updatePersona: vi.fn(),
+  deletePersona: vi.fn(),
+  sharePersona: vi.fn(),
+  listShareLinks: vi.fn().mockResolvedValue([]),
+  createShareLink: vi.fn(),
+  revokeShareLink: vi.fn().mockResolvedValue(undefined),
+  uploadFile: vi.fn(async (blob: Blob, name: string) => ({
+    file: { id: `file-${name}`, name, type: blob.type, size: blob.size, createdAt: 0 },
+    created: true
+  })),
+  getFileContents: vi.fn(),
+  listFiles: vi.fn().mockResolvedValue({ files: [], usage: { bytes: 0, quotaBytes: 500 * 1024 * 1024 } }),
+  deleteFile: vi.fn().mockResolvedValue(undefined),
   generateImage: vi.fn().mockResolvedValue({
     id: 'test-image-123',
     url: 'https://example.com/test-image.png',
@@ -53,6 +172,28 @@ describe('ChatInterface Integration Tests', () => {
       // Check for model selector section header
       expect(screen.getByText('Modelo')).toBeInTheDocument();
     });
+
+    it('should show per-model rates from the server in the model list', async () => {
+      const user = userEvent.setup();
+      render(<ChatInterface currentUser={mockUser} onBack={mockOnBack} />);
+
+      await user.click(screen.getByText('Premium'));
+
+      await waitFor(() => {
+        expect(screen.getByText(/ENT 6 mil · SAÍ 30 mil · CACHE 600 \/1K/)).toBeInTheDocument();
+      });
+    });
+
+    it('should show the health status of each model', async () => {
+      const user = userEvent.setup();
+      render(<ChatInterface currentUser={mockUser} onBack={mockOnBack} />);
+
+      await user.click(screen.getByText('Premium'));
+
+      await waitFor(() => {
+        expect(screen.getByTestId('model-status')).toHaveAttribute('data-status', 'unavailable');
+      });
+    });
   });
 
   describe('User Interactions', () => {
@@ -74,6 +215,20 @@ describe('ChatInterface Integration Tests', () => {
       expect(input).toBeInTheDocument();
     });
 
+    it('should show a live cost estimate under the composer', async () => {
+      const user = userEvent.setup();
+      render(<ChatInterface currentUser={mockUser} onBack={mockOnBack} />);
+
+      expect(screen.queryByTestId('cost-estimate')).not.toBeInTheDocument();
+
+      await user.type(screen.getByPlaceholderText(/enviar mensagem para fidi/i), 'Quanto custa?');
+
+      await waitFor(() => {
+        expect(screen.getByTestId('cost-estimate')).toHaveTextContent(/custo estimado: 1 créditos/i);
+      });
+      expect(apiClient.estimateChatCost).toHaveBeenCalled();
+    });
+
     it('should update input value when typing', async () => {
       const user = userEvent.setup();
       render(<ChatInterface currentUser={mockUser} onBack={mockOnBack} />);
@@ -108,6 +263,617 @@ describe('ChatInterface Integration Tests', () => {
     });
   });
 
+  describe('Branching', () => {
+    const replyWith = (...replies: string[]) => {
+      let call = 0;
+      vi.mocked(apiClient.streamChatCompletion).mockImplementation(async ({ onChunk, onComplete }) => {
+        onChunk(replies[call++] ?? 'Sem resposta');
+        onComplete();
+      });
+    };
+
+    const sendMessage = async (user: ReturnType<typeof userEvent.setup>, text: string) => {
+      await user.type(screen.getByPlaceholderText(/enviar mensagem para fidi/i), `${text}{Enter}`);
+    };
+
+    it('should regenerate a reply as a new branch and navigate between versions', async () => {
+      replyWith('Primeira resposta', 'Segunda resposta');
+      const user = userEvent.setup();
+      render(<ChatInterface currentUser={mockUser} onBack={mockOnBack} />);
+
+      await sendMessage(user, 'Olá');
+      await waitFor(() => expect(screen.getByText('Primeira resposta')).toBeInTheDocument());
+      await waitFor(() => expect(screen.getByLabelText(/gerar novamente/i)).toBeEnabled());
+
+      await user.click(screen.getByLabelText(/gerar novamente/i));
+
+      await waitFor(() => expect(screen.getByText('Segunda resposta')).toBeInTheDocument());
+      expect(screen.queryByText('Primeira resposta')).not.toBeInTheDocument();
+      expect(screen.getByTestId('branch-nav')).toHaveTextContent('2/2');
+
+      // The regenerated request resends the user turn without the discarded reply
+      const lastCall = vi.mocked(apiClient.streamChatCompletion).mock.calls[1][0];
+      expect(lastCall.messages).toEqual([{ role: 'user', content: 'Olá' }]);
+
+      await waitFor(() => expect(screen.getByLabelText(/versão anterior/i)).toBeEnabled());
+      await user.click(screen.getByLabelText(/versão anterior/i));
+
+      expect(screen.getByText('Primeira resposta')).toBeInTheDocument();
+      expect(screen.getByTestId('branch-nav')).toHaveTextContent('1/2');
+    });
+
+    it('should edit a user message and resubmit it on a new branch', async () => {
+      replyWith('Resposta original', 'Resposta editada');
+      const user = userEvent.setup();
+      render(<ChatInterface currentUser={mockUser} onBack={mockOnBack} />);
+
+      await sendMessage(user, 'Pergunta original');
+      await waitFor(() => expect(screen.getByText('Resposta original')).toBeInTheDocument());
+      await waitFor(() => expect(screen.getByRole('button', { name: /editar mensagem/i })).toBeEnabled());
+
+      await user.click(screen.getByRole('button', { name: /editar mensagem/i }));
+      const editor = screen.getByRole('textbox', { name: /editar mensagem/i });
+      await user.clear(editor);
+      await user.type(editor, 'Pergunta editada');
+      await user.click(screen.getByText(/reenviar/i));
+
+      await waitFor(() => expect(screen.getByText('Resposta editada')).toBeInTheDocument());
+      expect(screen.getByText('Pergunta editada')).toBeInTheDocument();
+      expect(screen.queryByText('Pergunta original')).not.toBeInTheDocument();
+      expect(screen.getByTestId('branch-nav')).toHaveTextContent('2/2');
+
+      const lastCall = vi.mocked(apiClient.streamChatCompletion).mock.calls[1][0];
+      expect(lastCall.messages).toEqual([{ role: 'user', content: 'Pergunta editada' }]);
+    });
+  });
+
+  describe('Model Parameters', () => {
+    it('should send the conversation sampling settings with the message', async () => {
+      vi.mocked(apiClient.streamChatCompletion).mockImplementation(async ({ onChunk, onComplete }) => {
+        onChunk('Ok');
+        onComplete();
+      });
+
+      const user = userEvent.setup();
+      render(<ChatInterface currentUser={mockUser} onBack={mockOnBack} />);
+
+      await user.click(screen.getByRole('button', { name: /parâmetros/i }));
+      await user.type(screen.getByLabelText(/máx. tokens/i), '256');
+      await user.type(screen.getByLabelText(/temperatura/i), '5');
+
+      // Out of range for the default model (max 1) - flagged and not applied
+      expect(screen.getByLabelText(/temperatura/i)).toHaveAttribute('aria-invalid', 'true');
+
+      await user.type(screen.getByPlaceholderText(/enviar mensagem para fidi/i), 'Olá{Enter}');
+
+      await waitFor(() => expect(apiClient.streamChatCompletion).toHaveBeenCalled());
+      expect(vi.mocked(apiClient.streamChatCompletion).mock.calls[0][0].params).toEqual({ max_tokens: 256 });
+    });
+
+    it('should send the long-history strategy and label replies whose history was trimmed', async () => {
+      vi.mocked(apiClient.streamChatCompletion).mockImplementation(async ({ onChunk, onComplete, onContextTrimmed }) => {
+        onContextTrimmed?.({
+          strategy: 'summarize',
+          contextTokens: 30000,
+          promptTokens: 28000,
+          droppedMessages: 12,
+          keptMessages: 4,
+          summarized: true
+        });
+        onChunk('Ok');
+        onComplete();
+      });
+
+      const user = userEvent.setup();
+      render(<ChatInterface currentUser={mockUser} onBack={mockOnBack} />);
+
+      await user.click(screen.getByRole('button', { name: /parâmetros/i }));
+      await user.selectOptions(screen.getByLabelText(/histórico longo/i), 'summarize');
+      await user.type(screen.getByPlaceholderText(/enviar mensagem para fidi/i), 'Olá{Enter}');
+
+      await waitFor(() => expect(screen.getByTestId('context-trim-label')).toHaveTextContent('12 msgs antigas resumidas'));
+      expect(vi.mocked(apiClient.streamChatCompletion).mock.calls[0][0].contextStrategy).toBe('summarize');
+    });
+  });
+
+  describe('Personas', () => {
+    it('should start a conversation with the selected persona and show it in the header', async () => {
+      vi.mocked(apiClient.streamChatCompletion).mockImplementation(async ({ onChunk, onComplete }) => {
+        onChunk('Ok');
+        onComplete();
+      });
+
+      const user = userEvent.setup();
+      render(<ChatInterface currentUser={mockUser} onBack={mockOnBack} />);
+
+      await user.click(screen.getByRole('button', { name: /^persona/i }));
+      await user.click(await screen.findByRole('button', { name: /^revisor$/i }));
+
+      expect(screen.getByTestId('active-persona')).toHaveTextContent('Revisor');
+
+      await user.type(screen.getByPlaceholderText(/enviar mensagem para fidi/i), 'Olá{Enter}');
+
+      await waitFor(() => expect(apiClient.streamChatCompletion).toHaveBeenCalled());
+      const call = vi.mocked(apiClient.streamChatCompletion).mock.calls[0][0];
+      expect(call.systemPrompt).toBe('Revise o texto com rigor.');
+      expect(call.params).toEqual({ max_tokens: 128 });
+
+      // Fixed once the conversation has started
+      expect(screen.getByTestId('active-persona')).toHaveTextContent('Revisor');
+      expect(screen.getByRole('button', { name: /^revisor$/i })).toBeDisabled();
+    });
+
+    it("should apply a persona's default model when it is in the catalogue and keep its prompt on every turn", async () => {
+      vi.mocked(apiClient.listPersonas).mockResolvedValueOnce([
+        makePersona({ id: 'persona-arq', name: 'Arquiteto', systemPrompt: 'Pense em sistemas.', defaultModel: 'anthropic/claude-sonnet-4.5' }),
+        makePersona({ id: 'persona-leg', name: 'Legado', systemPrompt: 'Seja conciso.', defaultModel: 'retired/model' })
+      ]);
+      vi.mocked(apiClient.streamChatCompletion).mockImplementation(async ({ onChunk, onComplete }) => {
+        onChunk('Ok');
+        onComplete();
+      });
+
+      const user = userEvent.setup();
+      render(<ChatInterface currentUser={mockUser} onBack={mockOnBack} />);
+
+      await user.click(screen.getByRole('button', { name: /^persona/i }));
+      await user.click(await screen.findByRole('button', { name: /^arquiteto$/i }));
+      // A default model that is no longer offered leaves the current choice alone
+      await user.click(screen.getByRole('button', { name: /^legado$/i }));
+
+      await user.type(screen.getByPlaceholderText(/enviar mensagem para fidi/i), 'Olá{Enter}');
+      await waitFor(() => expect(screen.getByText('Ok')).toBeInTheDocument());
+      await user.type(screen.getByPlaceholderText(/enviar mensagem para fidi/i), 'E agora?{Enter}');
+
+      await waitFor(() => expect(apiClient.streamChatCompletion).toHaveBeenCalledTimes(2));
+      for (const [call] of vi.mocked(apiClient.streamChatCompletion).mock.calls) {
+        expect(call.model).toBe('anthropic/claude-sonnet-4.5');
+        expect(call.systemPrompt).toBe('Seja conciso.');
+      }
+    });
+
+    it('should send no system prompt after switching back to no persona', async () => {
+      vi.mocked(apiClient.streamChatCompletion).mockImplementation(async ({ onChunk, onComplete }) => {
+        onChunk('Ok');
+        onComplete();
+      });
+
+      const user = userEvent.setup();
+      render(<ChatInterface currentUser={mockUser} onBack={mockOnBack} />);
+
+      await user.click(screen.getByRole('button', { name: /^persona/i }));
+      await user.click(await screen.findByRole('button', { name: /^revisor$/i }));
+      await user.click(screen.getByRole('button', { name: /^nenhuma$/i }));
+
+      expect(screen.queryByTestId('active-persona')).not.toBeInTheDocument();
+
+      await user.type(screen.getByPlaceholderText(/enviar mensagem para fidi/i), 'Olá{Enter}');
+
+      await waitFor(() => expect(apiClient.streamChatCompletion).toHaveBeenCalled());
+      expect(vi.mocked(apiClient.streamChatCompletion).mock.calls[0][0].systemPrompt).toBe('');
+    });
+  });
+
+  describe('Search', () => {
+    it('should find a message in another conversation and jump to it', async () => {
+      vi.mocked(apiClient.streamChatCompletion).mockImplementation(async ({ onChunk, onComplete }) => {
+        onChunk('Canberra é a capital.');
+        onComplete();
+      });
+
+      const user = userEvent.setup();
+      render(<ChatInterface currentUser={mockUser} onBack={mockOnBack} />);
+
+      await user.type(screen.getByPlaceholderText(/enviar mensagem para fidi/i), 'Qual a capital da Austrália?{Enter}');
+      await waitFor(() => expect(screen.getByText('Canberra é a capital.')).toBeInTheDocument());
+
+      await user.click(screen.getByText(/nova sessão/i));
+      expect(screen.queryByText('Canberra é a capital.')).not.toBeInTheDocument();
+      // A new session focuses the composer shortly after
+      await waitFor(() => expect(screen.getByPlaceholderText(/enviar mensagem para fidi/i)).toHaveFocus());
+
+      await user.type(screen.getByRole('searchbox', { name: /buscar conversas/i }), 'canberra');
+      const results = await screen.findByTestId('search-results');
+      await waitFor(() => expect(results.querySelector('mark')).toHaveTextContent('Canberra'));
+
+      await user.click(within(results).getByRole('button'));
+
+      const message = screen.getByText('Canberra é a capital.').closest('[id^="message-"]');
+      expect(message).toHaveAttribute('data-highlighted', 'true');
+    });
+  });
+
+  describe('Organising Conversations', () => {
+    it('should file a conversation into a folder by drag and drop, tag it and archive it', async () => {
+      vi.mocked(apiClient.streamChatCompletion).mockImplementation(async ({ onChunk, onComplete }) => {
+        onChunk('Ok');
+        onComplete();
+      });
+
+      const user = userEvent.setup();
+      render(<ChatInterface currentUser={mockUser} onBack={mockOnBack} />);
+
+      await user.type(screen.getByPlaceholderText(/enviar mensagem para fidi/i), 'Plano de marketing{Enter}');
+      await waitFor(() => expect(screen.getByText('Ok')).toBeInTheDocument());
+
+      await user.click(screen.getByRole('button', { name: /nova pasta/i }));
+      await user.type(screen.getByRole('textbox', { name: /nome da pasta/i }), 'Clientes{Enter}');
+
+      const item = screen.getByTestId('conversation-item');
+      fireEvent.dragStart(item);
+      fireEvent.dragOver(screen.getByRole('region', { name: /pasta clientes/i }));
+      fireEvent.drop(screen.getByRole('region', { name: /pasta clientes/i }));
+
+      const folder = screen.getByRole('region', { name: /pasta clientes/i });
+      expect(within(folder).getByTestId('conversation-item')).toBeInTheDocument();
+
+      await user.click(within(folder).getByRole('button', { name: /pasta e tags/i }));
+      await user.type(screen.getByRole('textbox', { name: /^tags$/i }), 'marketing, q3');
+      await user.click(screen.getByRole('button', { name: /salvar/i }));
+
+      expect(screen.getByRole('button', { name: '#marketing' })).toBeInTheDocument();
+
+      await user.click(within(folder).getByRole('button', { name: /arquivar conversa/i }));
+      expect(screen.queryByTestId('conversation-item')).not.toBeInTheDocument();
+
+      await user.click(screen.getByRole('button', { name: /ver arquivadas/i }));
+      expect(screen.getByTestId('conversation-item')).toHaveTextContent('#marketing');
+    });
+  });
+
+  describe('Export and Import', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    // Capture what would be downloaded
+    const captureDownloads = () => {
+      const blobs: Blob[] = [];
+      vi.spyOn(URL, 'createObjectURL').mockImplementation((blob) => {
+        blobs.push(blob as Blob);
+        return 'blob:export';
+      });
+      vi.spyOn(URL, 'revokeObjectURL').mockImplementation(() => undefined);
+      vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => undefined);
+      return blobs;
+    };
+
+    it('should export the current conversation as Markdown, JSON and HTML', async () => {
+      vi.mocked(apiClient.streamChatCompletion).mockImplementation(async ({ onChunk, onComplete }) => {
+        onChunk('Use:\n\n```ts\nconst total = 1;\n```');
+        onComplete();
+      });
+      const blobs = captureDownloads();
+
+      const user = userEvent.setup();
+      render(<ChatInterface currentUser={mockUser} onBack={mockOnBack} />);
+
+      await user.type(screen.getByPlaceholderText(/enviar mensagem para fidi/i), 'Como somar?{Enter}');
+      await waitFor(() => expect(screen.getByText(/const total/)).toBeInTheDocument());
+
+      const exportFormat = async (name: RegExp) => {
+        await user.click(screen.getByRole('button', { name: /exportar conversa/i }));
+        await user.click(screen.getByRole('menuitem', { name }));
+        // HTML loads its renderer on demand
+        await waitFor(() => expect(blobs.length).toBeGreaterThan(0), { timeout: 10000 });
+        return blobs.pop()!.text();
+      };
+
+      const markdown = await exportFormat(/markdown/i);
+      expect(markdown).toMatch(/^# /);
+      expect(markdown).toContain('### Você');
+      expect(markdown).toContain('Como somar?');
+      expect(markdown).toContain('```ts\nconst total = 1;\n```');
+
+      const json = JSON.parse(await exportFormat(/json/i));
+      expect(json).toMatchObject({ type: 'fidi-conversations', version: 1 });
+      expect(json.conversations[0].messages).toHaveLength(2);
+
+      const html = await exportFormat(/html/i);
+      expect(html).toMatch(/^<!DOCTYPE html>/);
+      expect(html).toContain('<style>');
+      expect(html).toContain('Como somar?');
+      expect(html).toContain('total');
+      expect(html).not.toContain('<script');
+    });
+
+    it('should import a JSON export and report what was merged', async () => {
+      const user = userEvent.setup();
+      render(<ChatInterface currentUser={mockUser} onBack={mockOnBack} />);
+
+      const file = new File([JSON.stringify({
+        type: 'fidi-conversations',
+        version: 1,
+        exportedAt: 0,
+        conversations: [
+          {
+            id: 'imported-1',
+            title: 'Conversa importada',
+            lastModified: 1000,
+            tags: ['arquivo'],
+            messages: [{
+              id: 'm1',
+              role: 'user',
+              content: 'Olá de outro navegador',
+              timestamp: 1000,
+              attachments: [{ name: 'notas.txt', type: 'text/plain', data: btoa('notas') }]
+            }]
+          },
+          { id: 'broken', title: 'Sem mensagens' },
+          // Over the server's limits, so sync would refuse it
+          { id: 'too-long', title: 'x'.repeat(201), lastModified: 1000, messages: [] },
+          { id: 'bad-notes', title: 'Notas', lastModified: 1000, messages: [], memoryNotes: [{ id: 'n1', text: ' ' }] }
+        ]
+      })], 'fidi.json', { type: 'application/json' });
+
+      await user.upload(screen.getByTestId('import-conversations-input'), file);
+
+      await waitFor(() => {
+        expect(screen.getByRole('status')).toHaveTextContent('1 nova(s), 3 inválida(s) ignorada(s)');
+      });
+      expect(screen.getByTestId('conversation-item')).toHaveTextContent('Conversa importada');
+      expect(screen.getByText('Olá de outro navegador')).toBeInTheDocument();
+
+      // Inline attachments go back to the file store
+      expect(apiClient.uploadFile).toHaveBeenCalledTimes(1);
+      const [blob, name] = vi.mocked(apiClient.uploadFile).mock.calls[0];
+      expect(name).toBe('notas.txt');
+      expect(await blob.text()).toBe('notas');
+    });
+
+    it('should reject files that are not FIDI exports', async () => {
+      const user = userEvent.setup();
+      render(<ChatInterface currentUser={mockUser} onBack={mockOnBack} />);
+
+      await user.upload(
+        screen.getByTestId('import-conversations-input'),
+        new File(['{"hello": true}'], 'other.json', { type: 'application/json' })
+      );
+
+      expect(await screen.findByText(/use um export json do fidi\.ai/i)).toBeInTheDocument();
+      expect(screen.queryByTestId('conversation-item')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Share Links', () => {
+    it('should publish the conversation as a read-only link with expiry and redaction, then revoke it', async () => {
+      vi.mocked(apiClient.streamChatCompletion).mockImplementation(async ({ onChunk, onComplete }) => {
+        onChunk('Resposta pública');
+        onComplete();
+      });
+      vi.mocked(apiClient.createShareLink).mockImplementation(async (params) => ({
+        id: 'AbCdEfGhIjKlMnOpQrStUvWxYz012345',
+        conversationId: params.conversationId,
+        title: params.title,
+        messageCount: params.messages.length,
+        redactAttachments: params.redactAttachments,
+        createdAt: Date.now(),
+        expiresAt: Date.now() + 30 * 24 * 60 * 60 * 1000
+      }));
+
+      const user = userEvent.setup();
+      render(<ChatInterface currentUser={mockUser} onBack={mockOnBack} />);
+
+      await user.type(screen.getByPlaceholderText(/enviar mensagem para fidi/i), 'Pergunta{Enter}');
+      await waitFor(() => expect(screen.getByText('Resposta pública')).toBeInTheDocument());
+
+      await waitFor(() => expect(screen.getByRole('button', { name: /compartilhar conversa/i })).toBeEnabled());
+      await user.click(screen.getByRole('button', { name: /compartilhar conversa/i }));
+      const dialog = screen.getByRole('dialog', { name: /compartilhar conversa/i });
+      await user.selectOptions(within(dialog).getByLabelText(/expira em/i), '30 dias');
+      await user.click(within(dialog).getByRole('checkbox', { name: /ocultar anexos/i }));
+      await user.click(within(dialog).getByRole('button', { name: /criar link/i }));
+
+      expect(apiClient.createShareLink).toHaveBeenCalledWith(expect.objectContaining({
+        expiresInDays: 30,
+        redactAttachments: true,
+        messages: [
+          expect.objectContaining({ role: 'user', content: 'Pergunta' }),
+          expect.objectContaining({ role: 'assistant', content: 'Resposta pública' })
+        ]
+      }));
+
+      const link = await within(dialog).findByRole('textbox', { name: /link de compartilhamento/i });
+      expect(link).toHaveValue(`${window.location.origin}/?share=AbCdEfGhIjKlMnOpQrStUvWxYz012345`);
+      expect(within(dialog).getByTestId('share-link')).toHaveTextContent(/anexos ocultos/i);
+
+      await user.click(within(dialog).getByRole('button', { name: /revogar link/i }));
+
+      expect(apiClient.revokeShareLink).toHaveBeenCalledWith('AbCdEfGhIjKlMnOpQrStUvWxYz012345');
+      await waitFor(() => expect(within(dialog).queryByTestId('share-link')).not.toBeInTheDocument());
+    });
+  });
+
+  describe('Attachments', () => {
+    it('should attach dropped and pasted files with previews and send them together', async () => {
+      vi.mocked(apiClient.streamChatCompletion).mockImplementation(async ({ onChunk, onComplete, onDocuments }) => {
+        onDocuments?.([{ name: 'notas.txt', lines: 1 }, { name: 'dados.csv', lines: 1 }]);
+        onChunk('Recebido');
+        onComplete();
+      });
+
+      const user = userEvent.setup();
+      render(<ChatInterface currentUser={mockUser} onBack={mockOnBack} />);
+
+      const dropZone = screen.getByTestId('composer-drop-zone');
+      const files = [
+        new File(['notas'], 'notas.txt', { type: 'text/plain' }),
+        new File(['png'], 'foto.png', { type: 'image/png' })
+      ];
+
+      fireEvent.dragOver(dropZone, { dataTransfer: { types: ['Files'], files } });
+      expect(screen.getByText(/solte os arquivos para anexar/i)).toBeInTheDocument();
+      fireEvent.drop(dropZone, { dataTransfer: { types: ['Files'], files } });
+
+      expect(await screen.findByRole('img', { name: 'foto.png' })).toHaveAttribute('src', 'data:image/png;base64,cG5n');
+      expect(screen.getByRole('button', { name: 'Remover notas.txt' })).toBeInTheDocument();
+      expect(screen.queryByText(/solte os arquivos para anexar/i)).not.toBeInTheDocument();
+
+      const composer = screen.getByPlaceholderText(/enviar mensagem para fidi/i);
+      fireEvent.paste(composer, {
+        clipboardData: { files: [new File(['csv'], 'dados.csv', { type: 'text/csv' })] }
+      });
+      expect(await screen.findByRole('button', { name: 'Remover dados.csv' })).toBeInTheDocument();
+
+      await user.type(composer, 'Veja os anexos{Enter}');
+
+      await waitFor(() => expect(apiClient.streamChatCompletion).toHaveBeenCalledTimes(1));
+      const [sent] = vi.mocked(apiClient.streamChatCompletion).mock.calls[0][0].messages;
+      const parts = sent.content as Array<{ type: string; file?: { filename: string; file_id?: string } }>;
+      await waitFor(() => expect(screen.queryByRole('list', { name: 'Anexos' })).not.toBeInTheDocument());
+
+      // Every file was uploaded once and is sent by reference (documents are read by the server)
+      expect(apiClient.uploadFile).toHaveBeenCalledTimes(3);
+      expect(parts.map(part => part.type).sort()).toEqual(['file', 'file', 'file', 'text']);
+      expect(parts.find(part => part.file?.filename === 'notas.txt')?.file)
+        .toEqual({ filename: 'notas.txt', file_id: 'file-notas.txt' });
+      expect(JSON.stringify(sent)).not.toContain('base64');
+      await waitFor(() => expect(screen.getAllByTestId('attachment-counts').map(el => el.textContent))
+        .toEqual(['1 linha', '1 linha']));
+    });
+
+    it('should list stored files and free space by deleting one', async () => {
+      vi.mocked(apiClient.listFiles).mockResolvedValueOnce({
+        files: [
+          { id: 'a'.repeat(64), name: 'contrato.pdf', type: 'application/pdf', size: 3 * 1024 * 1024, createdAt: 2 },
+          { id: 'b'.repeat(64), name: 'foto.jpg', type: 'image/jpeg', size: 512 * 1024, createdAt: 1 }
+        ],
+        usage: { bytes: 3.5 * 1024 * 1024, quotaBytes: 500 * 1024 * 1024 }
+      });
+
+      const user = userEvent.setup();
+      render(<ChatInterface currentUser={mockUser} onBack={mockOnBack} />);
+
+      await user.click(screen.getByRole('button', { name: /^arquivos$/i }));
+      expect(await screen.findByText('contrato.pdf')).toBeInTheDocument();
+      expect(screen.getByTestId('file-usage')).toHaveTextContent('3.5 MB de 500.0 MB');
+
+      await user.click(screen.getByRole('button', { name: /excluir arquivo contrato\.pdf/i }));
+
+      expect(apiClient.deleteFile).toHaveBeenCalledWith('a'.repeat(64));
+      await waitFor(() => expect(screen.queryByText('contrato.pdf')).not.toBeInTheDocument());
+      expect(screen.getByTestId('file-usage')).toHaveTextContent('512 KB de 500.0 MB');
+    });
+
+    it('should report unsupported and oversized files in a toast', async () => {
+      render(<ChatInterface currentUser={mockUser} onBack={mockOnBack} />);
+
+      const bigFile = new File(['x'], 'enorme.pdf', { type: 'application/pdf' });
+      Object.defineProperty(bigFile, 'size', { value: 11 * 1024 * 1024 });
+
+      fireEvent.drop(screen.getByTestId('composer-drop-zone'), {
+        dataTransfer: {
+          types: ['Files'],
+          files: [new File(['x'], 'setup.exe', { type: 'application/x-msdownload' }), bigFile]
+        }
+      });
+
+      const toast = await screen.findByRole('alert');
+      expect(toast).toHaveTextContent('Tipo de arquivo não suportado: setup.exe');
+      expect(toast).toHaveTextContent('Arquivo muito grande: enorme.pdf');
+      expect(screen.queryByRole('list', { name: 'Anexos' })).not.toBeInTheDocument();
+
+      fireEvent.click(within(toast).getByRole('button', { name: /fechar aviso/i }));
+      await waitFor(() => expect(screen.queryByRole('alert')).not.toBeInTheDocument());
+    });
+  });
+
+  describe('Memory', () => {
+    it('should send pinned messages flagged as pinned and memory notes with the system prompt', async () => {
+      vi.mocked(apiClient.streamChatCompletion).mockImplementation(async ({ onChunk, onComplete }) => {
+        onChunk('Anotado');
+        onComplete();
+      });
+
+      const user = userEvent.setup();
+      render(<ChatInterface currentUser={mockUser} onBack={mockOnBack} />);
+
+      await user.type(screen.getByPlaceholderText(/enviar mensagem para fidi/i), 'Usamos PostgreSQL{Enter}');
+      await waitFor(() => expect(screen.getByText('Anotado')).toBeInTheDocument());
+
+      await user.click(screen.getAllByRole('button', { name: /^fixar mensagem$/i })[0]);
+      await user.click(screen.getByRole('button', { name: /memória/i }));
+
+      expect(screen.getByTestId('pinned-messages')).toHaveTextContent('Usamos PostgreSQL');
+
+      await user.type(screen.getByRole('textbox', { name: /nova nota/i }), 'Prazo: sexta');
+      await user.click(screen.getByRole('button', { name: /adicionar nota/i }));
+      expect(screen.getByTestId('memory-notes')).toHaveTextContent('Prazo: sexta');
+
+      await user.type(screen.getByPlaceholderText(/enviar mensagem para fidi/i), 'Próximo passo?{Enter}');
+
+      await waitFor(() => expect(apiClient.streamChatCompletion).toHaveBeenCalledTimes(2));
+      const request = vi.mocked(apiClient.streamChatCompletion).mock.calls[1][0];
+      expect(request.systemPrompt).toContain('- Prazo: sexta');
+      expect(request.messages).toEqual([
+        { role: 'user', content: 'Usamos PostgreSQL', pinned: true },
+        { role: 'assistant', content: 'Anotado' },
+        { role: 'user', content: 'Próximo passo?' }
+      ]);
+    });
+  });
+
+  describe('Stopping Generation', () => {
+    it('should stop a streaming reply and keep the partial answer marked as interrupted', async () => {
+      vi.mocked(apiClient.streamChatCompletion).mockImplementation(({ onChunk, onAbort, signal }) => {
+        onChunk('Resposta parc');
+        return new Promise<void>(resolve => {
+          signal?.addEventListener('abort', () => {
+            onAbort?.();
+            resolve();
+          });
+        });
+      });
+
+      const user = userEvent.setup();
+      render(<ChatInterface currentUser={mockUser} onBack={mockOnBack} />);
+
+      await user.type(screen.getByPlaceholderText(/enviar mensagem para fidi/i), 'Conte uma história{Enter}');
+
+      await waitFor(() => expect(screen.getByText('Resposta parc')).toBeInTheDocument());
+      await user.click(screen.getByRole('button', { name: /parar geração/i }));
+
+      await waitFor(() => expect(screen.getByTestId('interrupted-label')).toBeInTheDocument());
+      expect(screen.getByText('Resposta parc')).toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: /parar geração/i })).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Usage History', () => {
+    it('should load credit history when the panel is opened', async () => {
+      vi.mocked(apiClient.getCreditHistory).mockResolvedValueOnce({
+        entries: [{
+          id: 'entry-1',
+          type: 'usage',
+          delta: -42,
+          reason: 'Chat completion (test-model)',
+          model: 'test-model',
+          promptTokens: 30,
+          completionTokens: 12,
+          balanceAfter: 958,
+          timestamp: Date.now()
+        }],
+        total: 1,
+        limit: 10,
+        offset: 0,
+        hasMore: false
+      });
+
+      const user = userEvent.setup();
+      render(<ChatInterface currentUser={mockUser} onBack={mockOnBack} />);
+
+      expect(apiClient.getCreditHistory).not.toHaveBeenCalled();
+
+      await user.click(screen.getByText(/histórico de uso/i));
+
+      await waitFor(() => {
+        expect(screen.getByText('Chat completion (test-model)')).toBeInTheDocument();
+      });
+      expect(screen.getByText('-42')).toBeInTheDocument();
+      expect(apiClient.getCreditHistory).toHaveBeenCalledWith({ limit: 10, offset: 0, type: undefined });
+    });
+  });
+
   describe('Error Handling', () => {
     it('should render gracefully with null user', () => {
       const { container } = render(<ChatInterface currentUser={null} onBack={mockOnBack} />);
@@ -8,6 +8,107 @@ import * as apiClient from '../../lib/apiClient';
 // Mock the API client
 vi.mock('../../lib/apiClient', () => ({
   streamChatCompletion: vi.fn(),
+  getModelCatalogue: vi.fn().mockResolvedValue({
+    chat: [
+      {
+        id: 'mistralai/devstral-2512:free',
+        displayName: 'Devstral 2512',
+        description: 'Lightweight development model',
+        provider: 'Mistral AI',
+        tier: 'FREE',
+        capabilities: ['coding'],
+        costMultiplier: 0,
+        pricing: { inputPer1M: 0, outputPer1M: 0, cachedInputPer1M: 0 },
+        effectivePricing: { inputPer1M: 0, outputPer1M: 0, cachedInputPer1M: 0 },
+        limits: { maxOutputTokens: 8192, maxTemperature: 1, supportsPenalties: true },
+        maxImageDimension: 1568,
+        fallbackChain: []
+      },
+      {
+        id: 'anthropic/claude-sonnet-4.5',
+        displayName: 'Claude Sonnet 4.5',
+        description: 'Complex reasoning',
+        provider: 'Anthropic',
+        tier: 'PAID',
+        capabilities: ['reasoning'],
+        costMultiplier: 2,
+        pricing: { inputPer1M: 3000000, outputPer1M: 15000000, cachedInputPer1M: 300000 },
+        effectivePricing: { inputPer1M: 6000000, outputPer1M: 30000000, cachedInputPer1M: 600000 },
+        limits: { maxOutputTokens: 16384, maxTemperature: 1, supportsPenalties: false },
+        maxImageDimension: 1568,
+        fallbackChain: ['mistralai/devstral-2512:free']
+      }
+    ],
+    image: [
+      {
+        id: 'black-forest-labs/flux-2-dev',
+        displayName: 'FLUX 2 Dev',
+        description: 'Fast generation',
+        provider: 'Black Forest Labs',
+        badge: 'FAST',
+        creditCost: 5,
+        supportsResolutions: ['720p', '1080p'],
+        supportsAspectRatios: ['16:9', '4:3', '4:5', '1:1', '9:16']
+      }
+    ],
+    video: [
+      {
+        id: 'wan-video/wan-2.2-i2v-fast',
+        displayName: 'WAN i2v Fast',
+        description: 'Fast image to video',
+        provider: 'WAN Video',
+        badge: 'FAST',
+        creditCost: 50,
+        supportsResolutions: ['720p', '1080p'],
+        supportsAspectRatios: ['16:9', '4:3', '1:1'],
+        supportsDurations: ['5s']
+      }
+    ],
+    defaults: {
+      chat: 'mistralai/devstral-2512:free',
+      image: 'black-forest-labs/flux-2-dev',
+      video: 'wan-video/wan-2.2-i2v-fast'
+    }
+  }),
+  getModelStatus: vi.fn().mockResolvedValue([
+    { id: 'mistralai/devstral-2512:free', status: 'operational', retryAt: null },
+    { id: 'anthropic/claude-sonnet-4.5', status: 'unavailable', retryAt: 1700000000000 }
+  ]),
+  estimateChatCost: vi.fn().mockResolvedValue({
+    model: 'mistralai/devstral-2512:free',
+    inputTokens: 10,
+    maxOutputTokens: 4096,
+    multiplier: 0,
+    inputCost: 0,
+    maxOutputCost: 0,
+    minCredits: 1,
+    maxCredits: 1
+  }),
+  syncConversations: vi.fn().mockResolvedValue({
+    conversations: [],
+    deletedIds: [],
+    accepted: [],
+    rejected: [],
+    serverTime: 0
+  }),
+  getCreditHistory: vi.fn().mockResolvedValue({
+    entries: [],
+    total: 0,
+    limit: 10,
+    offset: 0,
+    hasMore: false
+  }),
+  listPersonas: vi.fn().mockResolvedValue([]),
+  createPersona: vi.fn(),
+  updatePersona: vi.fn(),
+  deletePersona: vi.fn(),
+  sharePersona: vi.fn(),
+  listShareLinks: vi.fn().mockResolvedValue([]),
+  createShareLink: vi.fn(),
+  revokeShareLink: vi.fn(),
+  uploadFile: vi.fn(),
+  getFileContents: vi.fn(),
+  deleteFile: vi.fn(),
   generateImage: vi.fn(),
   generateVideo: vi.fn(),
 }));
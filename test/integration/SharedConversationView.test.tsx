@@ -0,0 +1,49 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { SharedConversationView } from '../../components/SharedConversationView';
+import * as apiClient from '../../lib/apiClient';
+
+vi.mock('../../lib/apiClient', () => ({
+  getSharedConversation: vi.fn()
+}));
+
+describe('Shared Conversation View', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should render the shared messages without any chat actions', async () => {
+    vi.mocked(apiClient.getSharedConversation).mockResolvedValue({
+      title: 'Plano de deploy',
+      modelId: 'anthropic/claude-sonnet-4.5',
+      messages: [
+        { id: 'm1', role: 'user', content: 'Como publico?', timestamp: 1000, attachments: [{ name: 'Anexo ocultado', type: 'text/plain', data: '' }] },
+        { id: 'm2', role: 'assistant', content: 'Use o pipeline de **staging** primeiro.', timestamp: 2000 }
+      ],
+      redactAttachments: true,
+      createdAt: 1000,
+      expiresAt: null
+    });
+
+    render(<SharedConversationView token="AbCdEfGhIjKlMnOpQrStUvWxYz012345" />);
+
+    expect(await screen.findByRole('heading', { name: 'Plano de deploy' })).toBeInTheDocument();
+    expect(apiClient.getSharedConversation).toHaveBeenCalledWith('AbCdEfGhIjKlMnOpQrStUvWxYz012345');
+    expect(screen.getByText('Como publico?')).toBeInTheDocument();
+    expect(await screen.findByText('staging')).toBeInTheDocument();
+    expect(screen.getByText('Anexo ocultado')).toBeInTheDocument();
+    expect(screen.getByText(/somente leitura/i)).toBeInTheDocument();
+
+    expect(screen.queryByRole('button', { name: /editar mensagem/i })).not.toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /gerar novamente/i })).not.toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /fixar mensagem/i })).not.toBeInTheDocument();
+  });
+
+  it('should explain when a link is revoked or expired', async () => {
+    vi.mocked(apiClient.getSharedConversation).mockRejectedValue(new Error('Share not found'));
+
+    render(<SharedConversationView token="AbCdEfGhIjKlMnOpQrStUvWxYz012345" />);
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(/inválido, foi revogado ou expirou/i);
+  });
+});
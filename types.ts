@@ -29,11 +29,204 @@ export interface User {
   readonly planRenewDate?: number;
 }
 
+export type CreditEntryType = 'usage' | 'grant' | 'reset' | 'plan_change';
+
+export interface CreditLedgerEntry {
+  readonly id: string;
+  readonly type: CreditEntryType;
+  readonly delta: number; // Negative for charges, positive for grants/resets
+  readonly reason: string;
+  readonly model?: string;
+  readonly promptTokens?: number;
+  readonly completionTokens?: number;
+  readonly requestId?: string;
+  readonly balanceAfter: number;
+  readonly timestamp: number;
+}
+
+// Model catalogue (served by GET /api/models - the server is the source of truth)
+export type ModelTier = 'FREE' | 'PAID';
+
+export interface ModelRates {
+  readonly inputPer1M: number;       // Credits per 1M tokens
+  readonly outputPer1M: number;
+  readonly cachedInputPer1M: number;
+}
+
+export interface ChatModelInfo {
+  readonly id: string;
+  readonly displayName: string;
+  readonly description: string;
+  readonly provider: string;
+  readonly tier: ModelTier;
+  readonly capabilities: readonly string[];
+  readonly costMultiplier: number;
+  readonly pricing: ModelRates;          // Base rate
+  readonly effectivePricing: ModelRates; // Base rate × tier multiplier (what is charged)
+  readonly limits: ModelParamLimits;
+  readonly maxImageDimension: number;    // Longest image side (px) the model looks at; attachments are resized to it
+  readonly fallbackChain: readonly string[];
+}
+
+// Bounds for the per-conversation sampling settings
+export interface ModelParamLimits {
+  readonly maxOutputTokens: number;
+  readonly maxTemperature: number;
+  readonly supportsPenalties: boolean;
+}
+
+// Per-conversation sampling settings (unset = provider default)
+export interface ModelParams {
+  readonly temperature?: number;
+  readonly max_tokens?: number;
+  readonly top_p?: number;
+  readonly frequency_penalty?: number;
+  readonly presence_penalty?: number;
+}
+
+// How long histories are fitted to the model's context window (see server/src/lib/contextWindow.ts)
+export type ContextStrategy = 'drop_oldest' | 'keep_pinned' | 'summarize';
+
+// What the server left out of the model's context for one request
+export interface ContextTrimReport {
+  readonly strategy: ContextStrategy; // Applied strategy (summarize falls back to keep_pinned)
+  readonly contextTokens: number;
+  readonly promptTokens: number;
+  readonly droppedMessages: number;
+  readonly keptMessages: number;
+  readonly summarized: boolean;
+}
+
+// What the server extracted from a document attached to the message being sent
+export interface DocumentSummary {
+  readonly name: string;
+  readonly pages?: number;
+  readonly lines: number;
+}
+
+// Reusable system prompt preset (GET /api/personas)
+export type PersonaIcon = 'bot' | 'code' | 'pen' | 'briefcase' | 'book' | 'brain' | 'globe' | 'terminal';
+
+export interface PersonaRecipient {
+  readonly id: string;
+  readonly email: string;
+  readonly name: string;
+}
+
+export interface Persona {
+  readonly id: string;
+  readonly name: string;
+  readonly icon: PersonaIcon;
+  readonly systemPrompt: string;
+  readonly defaultModel?: string;
+  readonly defaultParams?: ModelParams;
+  readonly isOwner: boolean;
+  readonly owner?: { readonly name: string; readonly email: string }; // Shared personas only
+  readonly sharedWith?: readonly PersonaRecipient[]; // Own personas only
+  readonly createdAt: number;
+  readonly updatedAt: number;
+}
+
+// Editable persona fields (null clears an optional default)
+export interface PersonaInput {
+  readonly name: string;
+  readonly icon: PersonaIcon;
+  readonly systemPrompt: string;
+  readonly defaultModel?: string | null;
+  readonly defaultParams?: ModelParams | null;
+}
+
+// Copy of the persona a conversation was started with (survives edits/deletion of the persona)
+export interface ConversationPersona {
+  readonly id: string;
+  readonly name: string;
+  readonly icon: PersonaIcon;
+  readonly systemPrompt: string;
+}
+
+// Public read-only link to a snapshot of a conversation branch (GET /api/shares)
+export interface ShareLink {
+  readonly id: string; // Public token (goes in the URL)
+  readonly conversationId: string;
+  readonly title: string;
+  readonly messageCount: number;
+  readonly redactAttachments: boolean;
+  readonly createdAt: number;
+  readonly expiresAt: number | null; // null = until revoked
+}
+
+export interface ShareLinkInput {
+  readonly expiresInDays: number | null;
+  readonly redactAttachments: boolean;
+}
+
+// What a share link shows (GET /api/public/shares/:id)
+export interface SharedConversation {
+  readonly title: string;
+  readonly modelId?: string;
+  readonly personaName?: string;
+  readonly messages: readonly Message[]; // One branch, oldest first
+  readonly redactAttachments: boolean;
+  readonly createdAt: number;
+  readonly expiresAt: number | null;
+}
+
+// Live chat model health (GET /api/models/status)
+export type ModelStatus = 'operational' | 'degraded' | 'unavailable';
+
+export interface ModelStatusEntry {
+  readonly id: string;
+  readonly status: ModelStatus;
+  readonly retryAt: number | null; // When an unavailable model will be retried
+}
+
+export type MediaResolution = '720p' | '1080p' | '4k';
+export type MediaAspectRatio = '16:9' | '4:3' | '4:5' | '1:1' | '9:16';
+export type VideoDuration = '5s' | '10s';
+
+export interface MediaModelInfo {
+  readonly id: string;
+  readonly displayName: string;
+  readonly description: string;
+  readonly provider: string;
+  readonly badge: 'FAST' | 'PRO';
+  readonly creditCost: number; // Fixed credits per generation
+  readonly supportsResolutions: readonly MediaResolution[];
+  readonly supportsAspectRatios: readonly MediaAspectRatio[];
+}
+
+export interface VideoModelInfo extends MediaModelInfo {
+  readonly supportsDurations: readonly VideoDuration[];
+}
+
+export interface ModelCatalogue {
+  readonly chat: readonly ChatModelInfo[];
+  readonly image: readonly MediaModelInfo[];
+  readonly video: readonly VideoModelInfo[];
+  readonly defaults: {
+    readonly chat: string;
+    readonly image: string;
+    readonly video: string;
+  };
+}
+
 export interface Attachment {
   readonly name: string;
   readonly type: string; // mime type
-  readonly data: string; // base64
+  readonly data: string; // base64 (empty in sent messages once the file is in the file store)
+  readonly fileId?: string; // File store id (POST /api/files); messages reference it instead of the data
   readonly size?: number; // File size in bytes (optional for backwards compatibility)
+  readonly pages?: number; // Documents: PDF page count reported by the server
+  readonly lines?: number; // Documents: lines (or rows) of text the server extracted
+}
+
+// File in the server's content-addressed file store (POST /api/files)
+export interface StoredFile {
+  readonly id: string; // SHA-256 of the contents
+  readonly name: string;
+  readonly type: string;
+  readonly size: number;
+  readonly createdAt: number;
 }
 
 export interface GeneratedMedia {
@@ -50,14 +243,40 @@ export interface Message {
   readonly timestamp?: number;
   readonly attachments?: readonly Attachment[];
   readonly media?: GeneratedMedia; // For AI generated content
+  readonly parentId?: string | null; // Previous message on this branch (null for a root; absent in pre-branching data)
+  readonly interrupted?: boolean; // Reply stopped by the user before it finished (content is partial)
+  readonly contextTrim?: { // Older messages left out of the model's context for this reply
+    readonly droppedMessages: number;
+    readonly summarized: boolean;
+  };
+  readonly pinned?: boolean; // Always kept in the model's context when older history is trimmed
 }
 
+// Free-form fact the user wants the model to remember for the whole conversation
+export interface MemoryNote {
+  readonly id: string;
+  readonly text: string;
+  readonly createdAt: number;
+}
+
+// Sidebar organisation of a conversation (see lib/conversationOrganization.ts)
+export type ConversationOrganization = Pick<Conversation, 'folder' | 'tags' | 'pinned' | 'archived'>;
+
 export interface Conversation {
   readonly id: string;
   readonly title: string;
-  readonly messages: readonly Message[];
+  readonly messages: readonly Message[]; // Every branch's messages (see lib/conversationTree.ts)
+  readonly activeLeafId?: string; // Last message of the branch being shown (defaults to the last message)
   readonly lastModified: number;
   readonly modelId?: string; // Tracks which model is used (locked after first message)
+  readonly modelParams?: ModelParams; // Sampling settings (editable at any time)
+  readonly persona?: ConversationPersona; // System prompt preset (fixed when the conversation starts)
+  readonly contextStrategy?: ContextStrategy; // Long-history handling (server default when unset)
+  readonly memoryNotes?: readonly MemoryNote[]; // Sent ahead of the history with every message
+  readonly folder?: string; // Sidebar folder name (unfiled when unset)
+  readonly tags?: readonly string[]; // User-defined labels for filtering
+  readonly pinned?: boolean; // Listed above everything else in the sidebar
+  readonly archived?: boolean; // Hidden from the sidebar and tabs unless viewing the archive
   readonly createdAt?: number; // Unix timestamp (optional for backwards compatibility)
   readonly updatedAt?: number; // Unix timestamp (optional for backwards compatibility)
 }
\ No newline at end of file